@@ -5,10 +5,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { OfflineSync } from "@/components/OfflineSync";
+import { AIJobsTray } from "@/components/AIJobsTray";
 import DocumentLibrary from "./pages/DocumentLibrary";
 import Editor from "./pages/Editor";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
+import Usage from "./pages/Usage";
+import SharedCommandPack from "./pages/SharedCommandPack";
 
 const queryClient = new QueryClient();
 
@@ -19,6 +23,7 @@ const App = () => (
         <TooltipProvider>
           <Toaster />
           <Sonner />
+          <OfflineSync />
           <Routes>
             <Route path="/auth" element={<Auth />} />
             <Route 
@@ -53,9 +58,26 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/usage" 
+              element={
+                <ProtectedRoute>
+                  <Usage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/packs/:token" 
+              element={
+                <ProtectedRoute>
+                  <SharedCommandPack />
+                </ProtectedRoute>
+              } 
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
+          <AIJobsTray />
         </TooltipProvider>
       </AuthProvider>
     </BrowserRouter>
@@ -4,24 +4,31 @@ import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useStreamingAI } from '@/hooks/useStreamingAI';
+import { useRateLimitCountdown } from '@/hooks/useRateLimitCountdown';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { ChatSource, useChatConversations } from '@/hooks/useChatConversations';
+import { ChatConversationList } from '@/components/chat/ChatConversationList';
+import { CitedMessageContent } from '@/components/chat/CitedMessageContent';
+import { Citation, CitedSpan } from '@/utils/citations';
+import { toFunctionError } from '@/utils/functionErrors';
+import { RateLimitNotice } from '@/components/RateLimitNotice';
 import { 
   X, 
   Send, 
   Bot, 
   User, 
   RotateCcw,
-  FileText
+  FileText,
+  Square,
+  History
 } from 'lucide-react';
 
 interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  sources?: Array<{
-    id: string;
-    title: string;
-    similarity: number;
-  }>;
+  sources?: ChatSource[];
   timestamp: Date;
 }
 
@@ -39,16 +46,33 @@ interface Document {
 interface AIChatSidebarProps {
   isOpen: boolean;
   onClose: () => void;
-  onDocumentSelect: (doc: Document) => void;
+  // Receives the cited span when opened from an inline citation
+  onDocumentSelect: (doc: Document, span?: CitedSpan) => void;
 }
 
 export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSidebarProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const restoredRef = useRef(false);
   const { toast } = useToast();
+  const { settings } = useSettingsStore();
+  const { streamFunction, cancelStream } = useStreamingAI();
+  const { rateLimit, handleRateLimit } = useRateLimitCountdown();
+  const {
+    conversations,
+    isLoadingConversations,
+    activeConversationId,
+    setActiveConversationId,
+    refreshConversations,
+    loadMessages,
+    renameConversation,
+    deleteConversation
+  } = useChatConversations();
 
   useEffect(() => {
     const getUser = async () => {
@@ -58,6 +82,20 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
     getUser();
   }, []);
 
+  // Restore the conversation that was open before the page was reloaded
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    if (!activeConversationId) return;
+
+    loadMessages(activeConversationId)
+      .then(setMessages)
+      .catch(error => {
+        console.error('Error restoring conversation:', error);
+        setActiveConversationId(null);
+      });
+  }, [activeConversationId, loadMessages, setActiveConversationId]);
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
@@ -67,7 +105,60 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
   };
 
   const clearChat = () => {
+    cancelStream();
     setMessages([]);
+    setActiveConversationId(null);
+    setShowHistory(false);
+  };
+
+  const openConversation = async (conversationId: string) => {
+    cancelStream();
+    try {
+      setMessages(await loadMessages(conversationId));
+      setActiveConversationId(conversationId);
+      setShowHistory(false);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRenameConversation = async (conversationId: string, title: string) => {
+    try {
+      await renameConversation(conversationId, title);
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rename conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    try {
+      await deleteConversation(conversationId);
+      if (conversationId === activeConversationId) setMessages([]);
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The server creates the conversation on the first message and returns its id
+  const trackConversation = (conversationId?: string) => {
+    if (!conversationId || conversationId === activeConversationId) return;
+    setActiveConversationId(conversationId);
+    refreshConversations();
   };
 
   const addMessage = (message: Omit<ChatMessage, 'id' | 'timestamp'>) => {
@@ -77,36 +168,83 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
       timestamp: new Date(),
     };
     setMessages(prev => [...prev, newMessage]);
+    return newMessage.id;
+  };
+
+  const updateMessage = (id: string, updates: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...updates } : msg));
+  };
+
+  const streamReply = async (messageToSend: string) => {
+    const assistantId = addMessage({ role: 'assistant', content: '' });
+    setStreamingMessageId(assistantId);
+
+    try {
+      const outcome = await streamFunction<{ message: string; sources: ChatMessage['sources'] }>(
+        'ai-chat',
+        { message: messageToSend, userId, conversationId: activeConversationId },
+        {
+          onMeta: (meta) => {
+            updateMessage(assistantId, { sources: meta.sources as ChatMessage['sources'] });
+            trackConversation(meta.conversationId as string | undefined);
+          },
+          onToken: (_token, fullText) => updateMessage(assistantId, { content: fullText })
+        }
+      );
+
+      if (outcome.cancelled) {
+        updateMessage(assistantId, { content: outcome.text || 'Response cancelled.' });
+      } else if (outcome.data) {
+        updateMessage(assistantId, { content: outcome.data.message, sources: outcome.data.sources });
+      }
+    } catch (error) {
+      setMessages(prev => prev.filter(msg => msg.id !== assistantId || msg.content));
+      throw error;
+    } finally {
+      setStreamingMessageId(null);
+    }
   };
 
   const sendMessage = async (message?: string) => {
     const messageToSend = message || inputMessage.trim();
-    if (!messageToSend || !userId || isLoading) return;
+    if (!messageToSend || !userId || isLoading || rateLimit) return;
 
     setInputMessage('');
     
     // Add user message
-    addMessage({ role: 'user', content: messageToSend });
+    const userMessageId = addMessage({ role: 'user', content: messageToSend });
     setIsLoading(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke('ai-chat', {
-        body: {
-          message: messageToSend,
-          userId
-        }
-      });
+      if (settings.streamAIResponses) {
+        await streamReply(messageToSend);
+      } else {
+        const { data, error } = await supabase.functions.invoke('ai-chat', {
+          body: {
+            message: messageToSend,
+            userId,
+            conversationId: activeConversationId
+          }
+        });
 
-      if (error) throw error;
+        if (error) throw await toFunctionError(error);
+        trackConversation(data.conversationId);
 
-      // Add assistant response
-      addMessage({
-        role: 'assistant',
-        content: data.message,
-        sources: data.sources
-      });
+        // Add assistant response
+        addMessage({
+          role: 'assistant',
+          content: data.message,
+          sources: data.sources
+        });
+      }
 
     } catch (error) {
+      if (handleRateLimit(error, 'AI chat')) {
+        // Nothing was answered; put the message back to send once the countdown ends
+        setMessages(prev => prev.filter(msg => msg.id !== userMessageId));
+        setInputMessage(messageToSend);
+        return;
+      }
       console.error('Chat error:', error);
       addMessage({
         role: 'assistant',
@@ -129,7 +267,7 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
     }
   };
 
-  const handleSourceClick = async (sourceId: string) => {
+  const handleSourceClick = async (sourceId: string, span?: CitedSpan) => {
     try {
       const { data: doc, error } = await supabase
         .from('documents')
@@ -140,7 +278,7 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
       if (error) throw error;
 
       if (doc) {
-        onDocumentSelect(doc);
+        onDocumentSelect(doc, span);
         onClose(); // Close sidebar after opening document
       }
     } catch (error) {
@@ -169,6 +307,16 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant={showHistory ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => setShowHistory(prev => !prev)}
+            aria-label="Conversation history"
+            title="Conversation history"
+            className="text-muted-foreground hover:text-sidebar-foreground hover:bg-sidebar-accent"
+          >
+            <History className="w-4 h-4" />
+          </Button>
           <Button 
             variant="ghost" 
             size="sm" 
@@ -194,7 +342,17 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
       <div className="flex-1 overflow-hidden bg-surface/30">
         <ScrollArea className="h-full">
           <div className="p-5">
-            {messages.length === 0 ? (
+            {showHistory ? (
+              <ChatConversationList
+                conversations={conversations}
+                activeConversationId={activeConversationId}
+                isLoading={isLoadingConversations}
+                onSelect={openConversation}
+                onNewChat={clearChat}
+                onRename={handleRenameConversation}
+                onDelete={handleDeleteConversation}
+              />
+            ) : messages.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full min-h-[400px] text-center">
                 <div className="p-4 rounded-2xl bg-sidebar-primary/10 border border-sidebar-primary/20 mb-6">
                   <Bot className="w-12 h-12 text-sidebar-primary" />
@@ -237,7 +395,7 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
               </div>
             ) : (
               <div className="space-y-6">
-                {messages.map((message) => (
+                {messages.filter(message => message.content).map((message) => (
                   <div key={message.id} className="animate-fade-in">
                     {/* Enhanced Message Header */}
                     <div className="flex items-center gap-3 mb-3">
@@ -266,7 +424,16 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
                         : 'bg-card border-border shadow-sm hover:shadow-md'
                     }`}>
                       <div className="text-body-md leading-relaxed whitespace-pre-wrap">
-                        {message.content}
+                        {message.role === 'assistant' ? (
+                          <CitedMessageContent
+                            content={message.content}
+                            sources={message.sources}
+                            onCitationClick={(citation: Citation) => handleSourceClick(citation.documentId, citation.span)}
+                          />
+                        ) : message.content}
+                        {message.id === streamingMessageId && (
+                          <span className="inline-block w-2 h-4 bg-current ml-1 align-text-bottom animate-pulse" />
+                        )}
                       </div>
                       
                       {/* Enhanced Sources */}
@@ -292,7 +459,7 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
                 ))}
 
                 {/* Enhanced Typing indicator */}
-                {isLoading && (
+                {isLoading && !messages.some(message => message.id === streamingMessageId && message.content) && (
                   <div className="animate-fade-in">
                     <div className="flex items-center gap-3 mb-3">
                       <div className="p-1.5 rounded-lg bg-muted/50 border border-border">
@@ -318,6 +485,7 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
 
       {/* Enhanced Input Area */}
       <div className="flex-shrink-0 p-5 border-t border-sidebar-border bg-sidebar shadow-lg">
+        <RateLimitNotice rateLimit={rateLimit} className="mb-3" />
         <div className="flex gap-3 items-end">
           <div className="flex-1">
             <Textarea
@@ -329,14 +497,26 @@ export function AIChatSidebar({ isOpen, onClose, onDocumentSelect }: AIChatSideb
               disabled={isLoading}
             />
           </div>
-          <Button 
-            onClick={() => sendMessage()} 
-            disabled={!inputMessage.trim() || isLoading}
-            size="icon"
-            className="h-[56px] w-[56px] flex-shrink-0 rounded-xl shadow-md hover:shadow-lg transition-all duration-200 bg-sidebar-primary hover:bg-sidebar-primary/90"
-          >
-            <Send className="w-5 h-5" />
-          </Button>
+          {streamingMessageId ? (
+            <Button 
+              onClick={cancelStream}
+              variant="outline"
+              size="icon"
+              aria-label="Stop generating"
+              className="h-[56px] w-[56px] flex-shrink-0 rounded-xl shadow-md hover:shadow-lg transition-all duration-200"
+            >
+              <Square className="w-5 h-5" />
+            </Button>
+          ) : (
+            <Button 
+              onClick={() => sendMessage()} 
+              disabled={!inputMessage.trim() || isLoading || !!rateLimit}
+              size="icon"
+              className="h-[56px] w-[56px] flex-shrink-0 rounded-xl shadow-md hover:shadow-lg transition-all duration-200 bg-sidebar-primary hover:bg-sidebar-primary/90"
+            >
+              <Send className="w-5 h-5" />
+            </Button>
+          )}
         </div>
         <div className="mt-3 text-center">
           <span className="text-caption text-muted-foreground">
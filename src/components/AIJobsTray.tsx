@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Ban, CheckCircle2, ExternalLink, ListTree, Loader2, RotateCcw, Sparkles, X, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { SynthesisStepsDialog } from '@/components/SynthesisStepsDialog';
+import { AI_JOB_LABELS, AIJob, AIJobKind, AIJobStatus, canRetryJob, isJobActive, jobResult, useAIJobs } from '@/hooks/useAIJobs';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentStore } from '@/lib/stores/useDocumentStore';
+
+const STATUS_LABELS: Record<AIJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+function jobTitle(job: AIJob): string {
+  const label = AI_JOB_LABELS[job.kind as AIJobKind] ?? 'AI job';
+  return `${label} of ${job.document_ids.length} document${job.document_ids.length === 1 ? '' : 's'}`;
+}
+
+function JobStatusIcon({ job }: { job: AIJob }) {
+  switch (job.status) {
+    case 'succeeded':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-destructive" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-muted-foreground" />;
+    default:
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+}
+
+/**
+ * Background AI jobs and their progress, in a tray at the corner of every
+ * page. Notifies when a job finishes, and opens the document it produced.
+ */
+export function AIJobsTray() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { jobs, activeCount, cancelJob, retryJob, dismissJob } = useAIJobs();
+  const [open, setOpen] = useState(false);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [stepsJob, setStepsJob] = useState<AIJob | null>(null);
+  // Status each job was last seen in, so only changes seen here are announced
+  const seenStatuses = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    let finishedOne = false;
+    for (const job of jobs) {
+      const previous = seenStatuses.current.get(job.id);
+      seenStatuses.current.set(job.id, job.status);
+      if (previous !== 'queued' && previous !== 'running') continue;
+
+      if (job.status === 'succeeded') {
+        finishedOne = true;
+        toast({
+          title: `${AI_JOB_LABELS[job.kind as AIJobKind] ?? 'AI job'} ready`,
+          description: 'The result was saved as a new document.',
+        });
+      } else if (job.status === 'failed') {
+        toast({
+          title: `${AI_JOB_LABELS[job.kind as AIJobKind] ?? 'AI job'} failed`,
+          description: job.error || 'Please try again.',
+          variant: "destructive",
+        });
+      }
+    }
+
+    if (finishedOne && user) {
+      void useDocumentStore.getState().refreshDocuments(user.id);
+    }
+  }, [jobs, toast, user]);
+
+  const runAction = async (jobId: string, action: () => Promise<void>, failureTitle: string) => {
+    setBusyJobId(jobId);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description: (error as { message?: string } | null)?.message || 'Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  if (!user || jobs.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-24 right-6 z-50">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="secondary" size="sm" className="shadow-lg gap-2" aria-label="AI jobs">
+            {activeCount > 0 ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+            AI jobs
+            {activeCount > 0 && <Badge className="h-5 px-1.5">{activeCount}</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="border-b px-4 py-3">
+            <p className="font-medium text-sm">AI jobs</p>
+            <p className="text-xs text-muted-foreground">Jobs keep running if you close this tab.</p>
+          </div>
+          <ScrollArea className="max-h-96">
+            <ul className="divide-y">
+              {jobs.map(job => {
+                const busy = busyJobId === job.id;
+                return (
+                  <li key={job.id} className="space-y-2 px-4 py-3">
+                    <div className="flex items-start gap-2">
+                      <JobStatusIcon job={job} />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{jobTitle(job)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {STATUS_LABELS[job.status as AIJobStatus] ?? job.status}
+                          {' · '}
+                          {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                      {!isJobActive(job) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          aria-label="Dismiss"
+                          disabled={busy}
+                          onClick={() => runAction(job.id, () => dismissJob(job.id), "Couldn't dismiss job")}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+
+                    {job.status === 'running' && (
+                      <div className="space-y-1">
+                        <Progress value={job.progress} className="h-1.5" />
+                        {job.progress_message && (
+                          <p className="text-xs text-muted-foreground">{job.progress_message}</p>
+                        )}
+                      </div>
+                    )}
+                    {job.status === 'failed' && job.error && (
+                      <p className="text-xs text-destructive">{job.error}</p>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      {job.status === 'succeeded' && job.result_document_id && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7"
+                          onClick={() => {
+                            setOpen(false);
+                            navigate(`/editor/${job.result_document_id}`);
+                          }}
+                        >
+                          <ExternalLink className="h-3 w-3 mr-1" />
+                          Open
+                        </Button>
+                      )}
+                      {(jobResult(job).steps?.length ?? 0) > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7"
+                          onClick={() => {
+                            setOpen(false);
+                            setStepsJob(job);
+                          }}
+                        >
+                          <ListTree className="h-3 w-3 mr-1" />
+                          Steps
+                        </Button>
+                      )}
+                      {isJobActive(job) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7"
+                          disabled={busy}
+                          onClick={() => runAction(job.id, () => cancelJob(job.id), "Couldn't cancel job")}
+                        >
+                          <Ban className="h-3 w-3 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                      {canRetryJob(job) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7"
+                          disabled={busy}
+                          onClick={() => runAction(job.id, () => retryJob(job), "Couldn't retry job")}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          {job.status === 'queued' ? 'Start' : 'Retry'}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+      <SynthesisStepsDialog job={stepsJob} onClose={() => setStepsJob(null)} />
+    </div>
+  );
+}
@@ -2,16 +2,23 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, CheckCircle, XCircle, Edit3, Copy, RotateCcw } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, Edit3, Copy, RotateCcw, Square, Heading } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { EditorRange } from '@/hooks/useTrackedChanges';
 
-interface AISuggestion {
+export interface AISuggestion {
   id: string;
-  type: 'light-edit' | 'expand' | 'condense' | 'outline';
+  type: 'light-edit' | 'expand' | 'condense' | 'outline' | 'chain';
   originalText: string;
   suggestedText: string;
   changes?: boolean;
+  // Command chains: the name, each step's intermediate result, and a generated title
+  label?: string;
+  steps?: { name: string; input: string; output: string }[];
+  title?: string;
+  // Where originalText was when the command started; accepting replaces this range
+  range?: EditorRange;
 }
 
 interface AISuggestionPanelProps {
@@ -20,6 +27,13 @@ interface AISuggestionPanelProps {
   onAccept: (suggestion: AISuggestion) => void;
   onReject: () => void;
   onClose: () => void;
+  // Partial output while a streaming command is running
+  streamingText?: string;
+  onCancel?: () => void;
+  // e.g. which step of a command chain is running
+  progressLabel?: string;
+  // e.g. "Review in Editor" when accepting starts a tracked-changes review
+  acceptLabel?: string;
 }
 
 export function AISuggestionPanel({
@@ -27,7 +41,11 @@ export function AISuggestionPanel({
   isLoading,
   onAccept,
   onReject,
-  onClose
+  onClose,
+  streamingText,
+  onCancel,
+  progressLabel,
+  acceptLabel
 }: AISuggestionPanelProps) {
   const isOpen = isLoading || suggestion !== null;
   const [editedText, setEditedText] = useState('');
@@ -69,6 +87,7 @@ export function AISuggestionPanel({
       case 'expand': return 'Expand Content';
       case 'condense': return 'Condense Content';
       case 'outline': return 'Create Outline';
+      case 'chain': return suggestion?.label || 'Command Chain';
       default: return 'AI Suggestion';
     }
   };
@@ -81,7 +100,7 @@ export function AISuggestionPanel({
             {isLoading ? (
               <>
                 <Loader2 className="h-5 w-5 animate-spin" />
-                Processing AI Suggestion...
+                {progressLabel || (streamingText ? 'Generating...' : 'Processing AI Suggestion...')}
               </>
             ) : suggestion ? (
               <>
@@ -93,20 +112,50 @@ export function AISuggestionPanel({
         </DialogHeader>
 
         <div className="flex-1 overflow-auto">
-          {isLoading ? (
+          {isLoading && streamingText ? (
+            <div className="space-y-4">
+              <div className="bg-muted/30 p-4 rounded-lg border min-h-[250px] max-h-[60vh] overflow-auto">
+                <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                  {streamingText}
+                  <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+                </p>
+              </div>
+              {onCancel && (
+                <div className="flex gap-3 pt-4 border-t">
+                  <Button variant="outline" onClick={onCancel} className="flex-1 sm:flex-none">
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop Generating
+                  </Button>
+                </div>
+              )}
+            </div>
+          ) : isLoading ? (
             <div className="flex flex-col items-center justify-center py-12">
               <Loader2 className="h-16 w-16 animate-spin mx-auto mb-4 text-primary" />
               <p className="text-lg font-medium mb-2">Analyzing your content...</p>
               <p className="text-sm text-muted-foreground">This usually takes 2-5 seconds</p>
+              {onCancel && (
+                <Button variant="ghost" size="sm" onClick={onCancel} className="mt-4">
+                  Cancel
+                </Button>
+              )}
             </div>
           ) : suggestion ? (
             <Tabs defaultValue="comparison" className="space-y-4">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className={`grid w-full ${suggestion.steps ? 'grid-cols-3' : 'grid-cols-2'}`}>
                 <TabsTrigger value="comparison">Side by Side</TabsTrigger>
                 <TabsTrigger value="edit">Edit & Review</TabsTrigger>
+                {suggestion.steps && <TabsTrigger value="steps">Steps ({suggestion.steps.length})</TabsTrigger>}
               </TabsList>
               
               <TabsContent value="comparison" className="space-y-4">
+                {suggestion.title && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Heading className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-muted-foreground">New title:</span>
+                    <span className="font-medium">{suggestion.title}</span>
+                  </div>
+                )}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
@@ -178,6 +227,27 @@ export function AISuggestionPanel({
                 </div>
               </TabsContent>
 
+              {suggestion.steps && (
+                <TabsContent value="steps" className="space-y-3">
+                  {suggestion.steps.map((step, index) => (
+                    <div key={index} className="rounded-lg border">
+                      <div className="flex items-center justify-between px-4 py-2 border-b bg-muted/30">
+                        <h3 className="text-sm font-medium">
+                          {index + 1}. {step.name}
+                          <span className="ml-2 font-normal text-muted-foreground">on {step.input}</span>
+                        </h3>
+                        <Button variant="ghost" size="sm" onClick={() => copyToClipboard(step.output)}>
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <p className="p-4 text-sm leading-relaxed whitespace-pre-wrap max-h-[200px] overflow-auto">
+                        {step.output}
+                      </p>
+                    </div>
+                  ))}
+                </TabsContent>
+              )}
+
               <div className="flex gap-3 pt-4 border-t">
                 {isEditing ? (
                   <>
@@ -193,7 +263,7 @@ export function AISuggestionPanel({
                   <>
                     <Button onClick={() => onAccept({...suggestion, suggestedText: editedText})} className="flex-1 sm:flex-none">
                       <CheckCircle className="h-4 w-4 mr-2" />
-                      Apply Changes
+                      {acceptLabel || 'Apply Changes'}
                     </Button>
                     <Button variant="outline" onClick={onReject} className="flex-1 sm:flex-none">
                       <XCircle className="h-4 w-4 mr-2" />
@@ -3,10 +3,16 @@ import { Button } from '@/components/ui/button';
 import { EnhancedButton } from '@/components/ui/enhanced-button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { useHaptics } from '@/hooks/useHaptics';
+import { useTags } from '@/hooks/useTags';
+import { startAIJob } from '@/hooks/useAIJobs';
 import { supabase } from '@/integrations/supabase/client';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { EXPORT_FORMAT_LABELS } from '@/features/export/types/export';
+import { downloadBlob, exportFileName, renderExport } from '@/features/export/utils/exportDocuments';
 import { 
   FileText, 
   Sparkles, 
@@ -21,9 +27,15 @@ import {
   MessageSquare,
   X,
   FolderOpen,
-  ArchiveRestore
+  ArchiveRestore,
+  Tag as TagIcon,
+  Plus,
+  Minus
 } from 'lucide-react';
 
+// Run as AI jobs; progress shows in the jobs tray
+const BACKGROUND_ACTIONS = ['synthesize', 'compare', 'analyze'];
+
 interface BulkDocumentActionsProps {
   selectedDocumentIds: string[];
   documents: Array<{
@@ -47,6 +59,10 @@ export function BulkDocumentActions({
   const [loading, setLoading] = useState<string | null>(null);
   const { toast } = useToast();
   const { impactLight, notificationSuccess, notificationError } = useHaptics();
+  const exportFormat = useSettingsStore(state => state.settings.exportFormat);
+  const { tags, findOrCreateTag, addTagsToDocuments, removeTagsFromDocuments } = useTags();
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [newTagName, setNewTagName] = useState('');
 
   const selectedDocs = documents.filter(doc => selectedDocumentIds.includes(doc.id));
   const totalWords = selectedDocs.reduce((sum, doc) => sum + (doc.word_count || 0), 0);
@@ -68,53 +84,27 @@ export function BulkDocumentActions({
           if (selectedDocs.length < 2) {
             throw new Error('Select at least 2 documents to synthesize');
           }
-          result = await supabase.functions.invoke('synthesize-documents', {
-            body: { 
-              documentIds: selectedDocumentIds,
-              userId: user.id 
-            }
-          });
+          result = { data: await startAIJob(user.id, 'synthesize', selectedDocumentIds) };
           break;
 
         case 'compare':
           if (selectedDocs.length < 2) {
             throw new Error('Select at least 2 documents to compare');
           }
-          result = await supabase.functions.invoke('compare-documents', {
-            body: { 
-              documentIds: selectedDocumentIds,
-              userId: user.id 
-            }
-          });
+          result = { data: await startAIJob(user.id, 'compare', selectedDocumentIds) };
           break;
 
         case 'analyze':
-          result = await supabase.functions.invoke('ai-analyze', {
-            body: { 
-              content: selectedDocs.map(doc => `## ${doc.title}\n${doc.content}`).join('\n\n'),
-              analysisType: 'bulk_analysis',
-              userId: user.id 
-            }
-          });
+          result = { data: await startAIJob(user.id, 'analyze', selectedDocumentIds) };
           break;
 
-        case 'export':
-          // Create a combined document for export
-          const combinedContent = selectedDocs.map(doc => 
-            `# ${doc.title}\n\n${doc.content}\n\n---\n\n`
-          ).join('');
-          
-          const blob = new Blob([combinedContent], { type: 'text/markdown' });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `bulk-export-${selectedDocs.length}-documents.md`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-          result = { data: { success: true } };
+        case 'export': {
+          // Render all selected documents into one file in the preferred format
+          const blob = await renderExport(selectedDocs, exportFormat);
+          downloadBlob(blob, exportFileName(selectedDocs, exportFormat));
+          result = { data: { success: true, format: exportFormat } };
           break;
+        }
 
         case 'duplicate':
           const duplicatePromises = selectedDocs.map(async (doc) => {
@@ -178,7 +168,7 @@ export function BulkDocumentActions({
       
       const successMessage = getSuccessMessage(actionType, selectedDocs.length);
       toast({
-        title: "Action Completed",
+        title: BACKGROUND_ACTIONS.includes(actionType) ? "Started in the Background" : "Action Completed",
         description: successMessage,
       });
 
@@ -198,16 +188,67 @@ export function BulkDocumentActions({
     }
   };
 
+  const toggleTag = (tagId: string) => {
+    setSelectedTagIds(prev =>
+      prev.includes(tagId) ? prev.filter(id => id !== tagId) : [...prev, tagId]
+    );
+  };
+
+  const updateTags = async (mode: 'add' | 'remove') => {
+    if (selectedDocs.length === 0) return;
+
+    setLoading('tags');
+    impactLight();
+
+    try {
+      const tagIds = [...selectedTagIds];
+      // A typed name is created when adding; removing only applies to existing tags
+      if (newTagName.trim()) {
+        const tag = mode === 'add'
+          ? await findOrCreateTag(newTagName)
+          : tags.find(candidate => candidate.name.toLowerCase() === newTagName.trim().toLowerCase());
+        if (tag && !tagIds.includes(tag.id)) tagIds.push(tag.id);
+      }
+      if (tagIds.length === 0) throw new Error('Choose at least one tag');
+
+      if (mode === 'add') await addTagsToDocuments(tagIds, selectedDocumentIds);
+      else await removeTagsFromDocuments(tagIds, selectedDocumentIds);
+
+      notificationSuccess();
+      toast({
+        title: "Tags Updated",
+        description: mode === 'add'
+          ? `Added ${tagIds.length} tag${tagIds.length === 1 ? '' : 's'} to ${selectedDocs.length} documents.`
+          : `Removed ${tagIds.length} tag${tagIds.length === 1 ? '' : 's'} from ${selectedDocs.length} documents.`,
+      });
+      setSelectedTagIds([]);
+      setNewTagName('');
+      onAction('tags', { mode, tagIds });
+    } catch (error) {
+      console.error('Bulk tag update error:', error);
+      notificationError();
+      toast({
+        title: "Tag Update Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const canUpdateTags = selectedTagIds.length > 0 || newTagName.trim().length > 0;
+
   const getSuccessMessage = (action: string, count: number) => {
     switch (action) {
       case 'synthesize':
-        return `Successfully synthesized ${count} documents into a new document.`;
+        return `Synthesizing ${count} documents in the background. The result will be saved as a new document.`;
       case 'compare':
-        return `Generated detailed comparison of ${count} documents.`;
+        return `Comparing ${count} documents in the background. The result will be saved as a new document.`;
       case 'analyze':
-        return `Completed analysis of ${count} documents.`;
+        return `Analyzing ${count} documents in the background. The result will be saved as a new document.`;
       case 'export':
-        return `Exported ${count} documents to markdown file.`;
+        return `Exported ${count} documents as ${EXPORT_FORMAT_LABELS[exportFormat]}.`;
       case 'duplicate':
         return `Created copies of ${count} documents.`;
       case 'archive':
@@ -253,8 +294,8 @@ export function BulkDocumentActions({
     },
     {
       id: 'export',
-      label: 'Export as Markdown',
-      description: 'Download selected documents as a combined file',
+      label: `Export as ${EXPORT_FORMAT_LABELS[exportFormat]}`,
+      description: 'Download selected documents as one file with a title page',
       icon: Download,
       variant: 'outline' as const,
       minDocs: 1,
@@ -354,6 +395,62 @@ export function BulkDocumentActions({
         </div>
       </div>
 
+      {/* Tags */}
+      <div className="p-4 border border-border/40 rounded-lg mb-6 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <TagIcon className="h-4 w-4 text-muted-foreground" />
+          Tags
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 max-h-24 overflow-auto">
+            {tags.map(tag => (
+              <Badge
+                key={tag.id}
+                variant={selectedTagIds.includes(tag.id) ? "default" : "secondary"}
+                className="cursor-pointer text-xs gap-1.5"
+                onClick={() => toggleTag(tag.id)}
+              >
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: tag.color || '#6B7280' }}
+                />
+                {tag.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            placeholder="New tag"
+            value={newTagName}
+            onChange={(e) => setNewTagName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && canUpdateTags && updateTags('add')}
+            className="h-8 text-sm"
+            maxLength={50}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => updateTags('add')}
+            disabled={!canUpdateTags || loading !== null}
+            className="h-8"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add to selected
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => updateTags('remove')}
+            disabled={!canUpdateTags || loading !== null}
+            className="h-8"
+          >
+            <Minus className="h-3 w-3 mr-1" />
+            Remove
+          </Button>
+        </div>
+      </div>
+
       {/* Action Buttons */}
       <div className="grid gap-3">
         {availableActions.map((action) => {
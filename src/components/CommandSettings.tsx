@@ -5,14 +5,22 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ExportCommandPackDialog } from '@/components/ExportCommandPackDialog';
+import { ImportCommandPackDialog } from '@/components/ImportCommandPackDialog';
 import { useAuth } from '@/hooks/useAuth';
-import { Plus, Trash, Save, RotateCcw } from 'lucide-react';
+import { Plus, Trash, Save, RotateCcw, ChevronDown, ChevronUp, Braces, Upload, Package, X } from 'lucide-react';
 import * as Icons from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { UnifiedCommand } from '@/types/commands';
+import { Json } from '@/integrations/supabase/types';
+import { CHAIN_FUNCTION_NAME, ChainStep, ChainStepInput, UnifiedCommand } from '@/types/commands';
+import { CHAIN_STEP_INPUTS, canRunInChain, chainSteps, isChainCommand, validateChain } from '@/utils/commandChains';
 import { restoreDefaultCommands } from '@/utils/commandMigration';
+import { withChainStepCommands } from '@/utils/commandPacks';
 import { makeNewCommand } from '@/utils/newCommand';
+import { renderTemplate, TEMPLATE_VARIABLES, TemplateValues, templateVariablesUsed, validateTemplate } from '@/utils/promptTemplate';
 
 // Function name options for edge functions
 const FUNCTION_OPTIONS = [
@@ -26,6 +34,7 @@ const FUNCTION_OPTIONS = [
   { value: 'ai-fact-check', label: 'Fact Check' },
   { value: 'ai-generate-title', label: 'Generate Title' },
   { value: 'ai-translate', label: 'Translate' },
+  { value: CHAIN_FUNCTION_NAME, label: 'Command Chain' },
 ];
 
 // Category options
@@ -37,6 +46,14 @@ const CATEGORY_OPTIONS = [
   { value: 'utility', label: 'Utility' },
 ];
 
+// Model options; the edge functions pick the provider from the id
+const MODEL_OPTIONS = [
+  { value: 'gpt-5-nano-2025-08-07', label: 'GPT-5 Nano (Fastest, Cheapest)' },
+  { value: 'gpt-5-mini-2025-08-07', label: 'GPT-5 Mini (Better Quality)' },
+  { value: 'claude-haiku-4-5', label: 'Claude Haiku 4.5 (Anthropic)' },
+  { value: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5 (Anthropic)' },
+];
+
 // Common Lucide icon options
 const ICON_OPTIONS = [
   'Sparkles', 'PenTool', 'Expand', 'Shrink', 'List', 'Type', 'Plus', 'Brain', 
@@ -44,12 +61,168 @@ const ICON_OPTIONS = [
   'Hash', 'Palette', 'Target', 'Zap', 'Languages', 'Globe', 'Eye', 'Settings'
 ];
 
+// Stand-in editor values for the prompt preview
+const SAMPLE_TEMPLATE_VALUES: TemplateValues = {
+  selection: 'The selected paragraph goes here.',
+  document: 'The whole document goes here.',
+  title: 'My Document',
+  category: 'general',
+  before_cursor: 'Text before the cursor...',
+  after_cursor: '...text after the cursor.',
+};
+
 // Icon preview component
 function IconPreview({ name }: { name?: string }) {
   const IconComponent = (name && (Icons as any)[name]) || Icons.Sparkles;
   return <IconComponent className="h-4 w-4" />;
 }
 
+function TemplateErrors({ template }: { template: string }) {
+  const errors = validateTemplate(template);
+  if (errors.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-destructive">
+      {errors.map(error => <li key={error}>{error}</li>)}
+    </ul>
+  );
+}
+
+// The messages a command sends, rendered with sample values as the prompts are edited
+function TemplatePreview({ command }: { command: UnifiedCommand }) {
+  const [open, setOpen] = useState(false);
+  const used = templateVariablesUsed(command.prompt);
+  // Matches the edge functions, which append the text unless the prompt places it
+  const appendsText = !used.has('selection') && !used.has('document');
+  const userMessage = renderTemplate(command.prompt, SAMPLE_TEMPLATE_VALUES);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground">
+          <ChevronDown className={`h-3 w-3 mr-1 transition-transform ${open ? '' : '-rotate-90'}`} />
+          Preview prompts
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="mt-2 space-y-2 rounded-md border bg-muted/40 p-3 text-xs">
+          <div>
+            <div className="font-medium text-muted-foreground mb-1">System</div>
+            <pre className="whitespace-pre-wrap font-sans">{renderTemplate(command.system_prompt, SAMPLE_TEMPLATE_VALUES)}</pre>
+          </div>
+          <div>
+            <div className="font-medium text-muted-foreground mb-1">User</div>
+            <pre className="whitespace-pre-wrap font-sans">
+              {appendsText ? `${userMessage}\n\n---\n\n${SAMPLE_TEMPLATE_VALUES.selection}` : userMessage}
+            </pre>
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+// The ordered steps of a command chain, each a saved command and the text it works on
+function ChainStepsEditor({
+  chain,
+  commands,
+  onChange
+}: {
+  chain: UnifiedCommand;
+  commands: UnifiedCommand[];
+  onChange: (steps: ChainStep[]) => void;
+}) {
+  const steps = chainSteps(chain);
+  // Commands added in this session have no id to refer to until they're saved
+  const stepOptions = commands.filter(command => command.id && command.id !== chain.id && canRunInChain(command));
+  const problems = validateChain(steps, commands);
+
+  const updateStep = (stepIndex: number, updates: Partial<ChainStep>) => {
+    onChange(steps.map((step, i) => i === stepIndex ? { ...step, ...updates } : step));
+  };
+
+  const moveStep = (stepIndex: number, offset: number) => {
+    const reordered = [...steps];
+    [reordered[stepIndex], reordered[stepIndex + offset]] = [reordered[stepIndex + offset], reordered[stepIndex]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Steps</Label>
+      {steps.map((step, stepIndex) => (
+        <div key={stepIndex} className="flex items-center gap-2">
+          <span className="w-5 text-sm text-muted-foreground">{stepIndex + 1}.</span>
+          <Select value={step.command_id} onValueChange={(value) => updateStep(stepIndex, { command_id: value })}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Choose a command" />
+            </SelectTrigger>
+            <SelectContent>
+              {stepOptions.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={step.input}
+            onValueChange={(value) => updateStep(stepIndex, { input: value as ChainStepInput })}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHAIN_STEP_INPUTS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => moveStep(stepIndex, -1)}
+            disabled={stepIndex === 0}
+            aria-label="Move step up"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => moveStep(stepIndex, 1)}
+            disabled={stepIndex === steps.length - 1}
+            aria-label="Move step down"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(steps.filter((_, i) => i !== stepIndex))}
+            aria-label="Remove step"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...steps, { command_id: '', input: steps.length === 0 ? 'selection' : 'previous' }])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Step
+      </Button>
+      {problems.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-destructive">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground">
+        The result is shown for review before it changes your document. A Generate Title step sets the title instead.
+      </p>
+    </div>
+  );
+}
+
 interface CommandSettingsProps {
   showSettings: boolean;
   onClose: () => void;
@@ -62,6 +235,10 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
   const [commands, setCommands] = useState<UnifiedCommand[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
+  // Indexes of the commands picked for export; none picked exports them all
+  const [selectedForExport, setSelectedForExport] = useState<Set<number>>(new Set());
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   useEffect(() => {
     loadCommands();
@@ -88,6 +265,7 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
           estimated_time: cmd.estimated_time || '3-5s'
         }));
         setCommands(unifiedCommands);
+        setSelectedForExport(new Set());
       } else {
         // No commands found - let user manually restore if desired
         setCommands([]);
@@ -105,6 +283,30 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
 
   const saveCommands = async () => {
     if (!user) return;
+
+    const invalid = commands.find(command =>
+      validateTemplate(command.prompt).length > 0 || validateTemplate(command.system_prompt).length > 0
+    );
+    if (invalid) {
+      toast({
+        title: "Check your prompts",
+        description: `"${invalid.name}" has template errors. Fix them before saving.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const brokenChain = commands.find(command =>
+      isChainCommand(command) && validateChain(chainSteps(command), commands).length > 0
+    );
+    if (brokenChain) {
+      toast({
+        title: "Check your chains",
+        description: `"${brokenChain.name}": ${validateChain(chainSteps(brokenChain), commands)[0]}.`,
+        variant: "destructive",
+      });
+      return;
+    }
     
     setIsSaving(true);
     try {
@@ -124,6 +326,7 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
               max_tokens: command.max_tokens,
               temperature: command.temperature,
               sort_order: command.sort_order,
+              steps: isChainCommand(command) ? chainSteps(command) as unknown as Json : null,
               updated_at: new Date().toISOString()
             })
             .eq('id', command.id)
@@ -145,6 +348,7 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
               max_tokens: command.max_tokens,
               temperature: command.temperature,
               sort_order: command.sort_order,
+              steps: isChainCommand(command) ? chainSteps(command) as unknown as Json : null,
               user_id: user.id
             });
 
@@ -210,6 +414,7 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
       
       // Remove from local state
       setCommands(commands.filter((_, i) => i !== index));
+      setSelectedForExport(new Set());
       
       toast({
         title: "Command deleted",
@@ -225,6 +430,19 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
     }
   };
 
+  const toggleExportSelection = (index: number, selected: boolean) => {
+    setSelectedForExport(prev => {
+      const next = new Set(prev);
+      if (selected) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const commandsToExport = selectedForExport.size > 0
+    ? withChainStepCommands(commands.filter((_, index) => selectedForExport.has(index)), commands)
+    : commands;
+
   const resetToDefaults = async () => {
     if (!confirm('Reset all commands to defaults? Your custom commands will be lost.')) {
       return;
@@ -267,7 +485,14 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
             {commands.map((command, index) => (
               <div key={command.id || index} className="border rounded-lg p-4 space-y-3">
                 <div className="flex items-center justify-between">
-                  <h4 className="font-medium">{command.name}</h4>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      checked={selectedForExport.has(index)}
+                      onCheckedChange={(checked) => toggleExportSelection(index, checked === true)}
+                      aria-label={`Select ${command.name} for export`}
+                    />
+                    <h4 className="font-medium">{command.name}</h4>
+                  </div>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -292,7 +517,10 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
                     <Label>Function Name</Label>
                     <Select
                       value={command.function_name || 'ai-light-edit'}
-                      onValueChange={(value) => updateCommand(index, { function_name: value })}
+                      onValueChange={(value) => updateCommand(index, {
+                        function_name: value,
+                        steps: value === CHAIN_FUNCTION_NAME ? chainSteps(command) as unknown as Json : null
+                      })}
                     >
                       <SelectTrigger>
                         <SelectValue />
@@ -314,8 +542,13 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
                       onChange={(e) => updateCommand(index, { ai_model: e.target.value as any })}
                       className="w-full rounded-md border border-input bg-background px-3 py-2"
                     >
-                      <option value="gpt-5-nano-2025-08-07">GPT-5 Nano (Fastest, Cheapest)</option>
-                      <option value="gpt-5-mini-2025-08-07">GPT-5 Mini (Better Quality)</option>
+                      {MODEL_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                      {/* Keep ids set outside this list, e.g. local/llama3.1:8b for a local model server */}
+                      {!MODEL_OPTIONS.some(option => option.value === command.ai_model) && (
+                        <option value={command.ai_model}>{command.ai_model}</option>
+                      )}
                     </select>
                   </div>
                 </div>
@@ -368,25 +601,62 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
                   </div>
                 </div>
 
-                <div>
-                  <Label>User Prompt</Label>
-                  <Textarea
-                    value={command.prompt}
-                    onChange={(e) => updateCommand(index, { prompt: e.target.value })}
-                    placeholder="Enter the user-facing description..."
-                    rows={2}
-                  />
-                </div>
-
-                <div>
-                  <Label>System Prompt</Label>
-                  <Textarea
-                    value={command.system_prompt}
-                    onChange={(e) => updateCommand(index, { system_prompt: e.target.value })}
-                    placeholder="Enter the instruction for the AI..."
-                    rows={3}
+                {isChainCommand(command) ? (
+                  <ChainStepsEditor
+                    chain={command}
+                    commands={commands}
+                    onChange={(steps) => updateCommand(index, { steps: steps as unknown as Json })}
                   />
-                </div>
+                ) : (
+                  <>
+                    <div>
+                      <Label>User Prompt</Label>
+                      <Textarea
+                        value={command.prompt}
+                        onChange={(e) => updateCommand(index, { prompt: e.target.value })}
+                        placeholder="Enter the user-facing description..."
+                        rows={2}
+                      />
+                      <TemplateErrors template={command.prompt} />
+                      <div className="mt-2 flex flex-wrap items-center gap-1">
+                        <Braces className="h-3 w-3 text-muted-foreground" />
+                        {TEMPLATE_VARIABLES.map(variable => (
+                          <Button
+                            key={variable.name}
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 font-mono text-xs"
+                            title={variable.description}
+                            onClick={() => updateCommand(index, { prompt: `${command.prompt}{{${variable.name}}}` })}
+                          >
+                            {`{{${variable.name}}}`}
+                          </Button>
+                        ))}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 px-2 font-mono text-xs"
+                          title="Ask for a value when the command runs"
+                          onClick={() => updateCommand(index, { prompt: `${command.prompt}{{ask:Question}}` })}
+                        >
+                          {'{{ask:...}}'}
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label>System Prompt</Label>
+                      <Textarea
+                        value={command.system_prompt}
+                        onChange={(e) => updateCommand(index, { system_prompt: e.target.value })}
+                        placeholder="Enter the instruction for the AI..."
+                        rows={3}
+                      />
+                      <TemplateErrors template={command.system_prompt} />
+                      <TemplatePreview command={command} />
+                    </div>
+                  </>
+                )}
 
                 <div className="grid grid-cols-3 gap-4">
                   <div>
@@ -437,6 +707,14 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
                 <RotateCcw className="h-4 w-4 mr-2" />
                 {isResetting ? 'Resetting...' : 'Reset to Defaults'}
               </Button>
+              <Button onClick={() => setShowImport(true)} variant="outline">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <Button onClick={() => setShowExport(true)} variant="outline" disabled={commands.length === 0}>
+                <Package className="h-4 w-4 mr-2" />
+                {selectedForExport.size > 0 ? `Export ${selectedForExport.size}` : 'Export All'}
+              </Button>
             </div>
 
             <div className="space-x-2">
@@ -450,6 +728,22 @@ export function CommandSettings({ showSettings, onClose, onCommandsUpdated }: Co
             </div>
           </div>
         </div>
+
+        <ExportCommandPackDialog
+          isOpen={showExport}
+          onClose={() => setShowExport(false)}
+          commands={commandsToExport}
+        />
+
+        <ImportCommandPackDialog
+          isOpen={showImport}
+          onClose={() => setShowImport(false)}
+          existing={commands}
+          onImported={() => {
+            loadCommands();
+            onCommandsUpdated();
+          }}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, MessageSquare, RotateCcw, Send, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { CommentFilter, CommentThread, DocumentComment, filterThreads, isThreadResolved } from '@/hooks/useDocumentComments';
+import { DocumentMember, memberName } from '@/hooks/useDocumentSharing';
+import { cn } from '@/lib/utils';
+
+interface CommentsPanelProps {
+  threads: CommentThread[];
+  filter: CommentFilter;
+  onFilterChange: (filter: CommentFilter) => void;
+  members: DocumentMember[];
+  currentUserId: string | undefined;
+  canComment: boolean;
+  isOwner: boolean;
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string) => void;
+  // The passage a new comment will be anchored to
+  draftText: string | null;
+  onSubmitDraft: (body: string) => Promise<void>;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, body: string) => Promise<void>;
+  onResolve: (threadId: string, resolved: boolean) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const FILTERS: { value: CommentFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'all', label: 'All' },
+];
+
+const quote = (text: string) => (text.length > 120 ? `${text.slice(0, 120)}…` : text);
+
+// Comment threads on the open document, in the order their passages appear
+export function CommentsPanel({
+  threads,
+  filter,
+  onFilterChange,
+  members,
+  currentUserId,
+  canComment,
+  isOwner,
+  activeThreadId,
+  onSelectThread,
+  draftText,
+  onSubmitDraft,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  onDelete,
+  onClose
+}: CommentsPanelProps) {
+  const [draftBody, setDraftBody] = useState('');
+  const [replyBodies, setReplyBodies] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const visibleThreads = filterThreads(threads, filter);
+  const openCount = filterThreads(threads, 'open').length;
+
+  const authorName = (comment: DocumentComment) => {
+    if (comment.user_id === currentUserId) return 'You';
+    const member = members.find(candidate => candidate.user_id === comment.user_id);
+    return member ? memberName(member) : 'Former collaborator';
+  };
+
+  // Runs a change, reporting failures; true when it worked
+  const attempt = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: (error as { message?: string } | null)?.message || 'Please try again.',
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitDraft = async () => {
+    if (!draftBody.trim()) return;
+    if (await attempt(() => onSubmitDraft(draftBody), "Couldn't add comment")) setDraftBody('');
+  };
+
+  const submitReply = async (threadId: string) => {
+    const body = replyBodies[threadId]?.trim();
+    if (!body) return;
+    if (await attempt(() => onReply(threadId, body), "Couldn't reply")) {
+      setReplyBodies(prev => ({ ...prev, [threadId]: '' }));
+    }
+  };
+
+  const renderComment = (comment: DocumentComment) => (
+    <div key={comment.id} className="group space-y-1">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-medium text-sidebar-foreground">{authorName(comment)}</span>
+        <span className="text-muted-foreground">
+          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+        </span>
+        {(comment.user_id === currentUserId || isOwner) && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto h-6 w-6 opacity-0 group-hover:opacity-100"
+            onClick={(e) => {
+              e.stopPropagation();
+              attempt(() => onDelete(comment.id), "Couldn't delete comment");
+            }}
+            disabled={busy}
+            aria-label="Delete comment"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{comment.body}</p>
+    </div>
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col bg-sidebar">
+      <div className="flex-shrink-0 flex items-center justify-between p-5 border-b border-sidebar-border bg-sidebar shadow-sm">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-sidebar-primary/10 border border-sidebar-primary/20">
+            <MessageSquare className="w-5 h-5 text-sidebar-primary" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-sidebar-foreground text-heading-sm">Comments</h3>
+            <p className="text-xs text-muted-foreground">{openCount} open thread{openCount === 1 ? '' : 's'}</p>
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          aria-label="Close comments"
+          className="text-muted-foreground hover:text-sidebar-foreground hover:bg-sidebar-accent"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-shrink-0 px-4 py-3 border-b border-sidebar-border">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={filter}
+          onValueChange={(value) => value && onFilterChange(value as CommentFilter)}
+          className="justify-start"
+        >
+          {FILTERS.map(option => (
+            <ToggleGroupItem key={option.value} value={option.value}>
+              {option.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {draftText !== null && (
+        <div className="flex-shrink-0 space-y-2 p-4 border-b border-sidebar-border">
+          <blockquote className="border-l-2 border-primary/50 pl-2 text-xs text-muted-foreground">
+            {quote(draftText)}
+          </blockquote>
+          <Textarea
+            value={draftBody}
+            onChange={(e) => setDraftBody(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submitDraft();
+            }}
+            placeholder="Add a comment..."
+            rows={3}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={onCancelDraft}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={submitDraft} disabled={!draftBody.trim() || busy}>
+              Comment
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-3">
+          {visibleThreads.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {filter === 'resolved'
+                ? 'No resolved threads.'
+                : canComment
+                  ? 'Select text in the document to comment on it.'
+                  : 'No comments yet.'}
+            </p>
+          )}
+
+          {visibleThreads.map(thread => {
+            const resolved = isThreadResolved(thread);
+            const active = thread.root.id === activeThreadId;
+
+            return (
+              <div
+                key={thread.root.id}
+                onClick={() => onSelectThread(thread.root.id)}
+                className={cn(
+                  'rounded-lg border p-3 space-y-3 cursor-pointer transition-colors',
+                  active ? 'border-primary/60 bg-primary/5' : 'border-sidebar-border hover:bg-sidebar-accent/50',
+                  resolved && 'opacity-70'
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  <blockquote className="flex-1 border-l-2 border-primary/50 pl-2 text-xs text-muted-foreground">
+                    {thread.anchor.start === thread.anchor.end
+                      ? <span className="italic">The passage was deleted</span>
+                      : quote(thread.root.anchor_text || '')}
+                  </blockquote>
+                  {canComment && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 flex-shrink-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        attempt(() => onResolve(thread.root.id, !resolved), resolved ? "Couldn't reopen thread" : "Couldn't resolve thread");
+                      }}
+                      disabled={busy}
+                      title={resolved ? 'Reopen' : 'Resolve'}
+                      aria-label={resolved ? 'Reopen thread' : 'Resolve thread'}
+                    >
+                      {resolved ? <RotateCcw className="h-3.5 w-3.5" /> : <Check className="h-3.5 w-3.5" />}
+                    </Button>
+                  )}
+                </div>
+
+                {renderComment(thread.root)}
+                {thread.replies.length > 0 && (
+                  <div className="space-y-3 border-l border-sidebar-border pl-3">
+                    {thread.replies.map(renderComment)}
+                  </div>
+                )}
+
+                {active && canComment && !resolved && (
+                  <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                    <Textarea
+                      value={replyBodies[thread.root.id] || ''}
+                      onChange={(e) => setReplyBodies(prev => ({ ...prev, [thread.root.id]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submitReply(thread.root.id);
+                      }}
+                      placeholder="Reply..."
+                      rows={1}
+                      className="min-h-[36px] text-sm"
+                    />
+                    <Button
+                      size="icon"
+                      className="h-9 w-9 flex-shrink-0"
+                      onClick={() => submitReply(thread.root.id)}
+                      disabled={!replyBodies[thread.root.id]?.trim() || busy}
+                      aria-label="Send reply"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -53,7 +53,7 @@ export function CustomShortcuts({
     try {
       const { data: dbCommands, error } = await supabase
         .from('user_commands' as any)
-        .select('id,name,prompt,system_prompt,ai_model,max_tokens,temperature,function_name,icon,category,sort_order,created_at,updated_at')
+        .select('id,name,prompt,system_prompt,ai_model,max_tokens,temperature,function_name,icon,category,sort_order,steps,created_at,updated_at')
         .eq('user_id', user.id)
         .order('sort_order');
 
@@ -3,6 +3,8 @@ import { clsx } from 'clsx';
 import { Card, CardContent } from '@/components/ui/enhanced-card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useHaptics } from '@/hooks/useHaptics';
+import { ExportMenu } from '@/features/export/components/ExportMenu';
+import { HighlightedSnippet } from '@/components/HighlightedSnippet';
 
 // TypeScript interfaces for better type safety
 interface Document {
@@ -34,6 +36,8 @@ interface DocumentCardProps {
   showCheckbox?: boolean;
   onSelectionToggle?: (docId: string) => void;
   searchQuery?: string;
+  // Highlighted match from server-side search, shown instead of the content preview
+  searchSnippet?: string;
   onEdit?: (doc: any) => void;
   onDuplicate?: (doc: Document) => Promise<void>;
   onDelete?: (docId: any) => void;
@@ -69,7 +73,8 @@ export const DocumentCard = React.memo<DocumentCardProps>(({
   disabled = false,
   showMetadata = true,
   showCheckbox = false,
-  onSelectionToggle
+  onSelectionToggle,
+  searchSnippet
 }) => {
   const { impactLight } = useHaptics();
   const [longPressTimer, setLongPressTimer] = React.useState<NodeJS.Timeout | null>(null);
@@ -303,7 +308,9 @@ export const DocumentCard = React.memo<DocumentCardProps>(({
               )}
               
               {/* Content Preview - Better for list view */}
-              {getContentPreview(document.content) && (
+              {searchSnippet ? (
+                <HighlightedSnippet snippet={searchSnippet} className="mt-2" />
+              ) : getContentPreview(document.content) && (
                 <p className="text-sm text-muted-foreground/90 mt-2 line-clamp-2 leading-relaxed">
                   {getContentPreview(document.content)}
                 </p>
@@ -326,6 +333,14 @@ export const DocumentCard = React.memo<DocumentCardProps>(({
               </div>
             )}
 
+            {/* Export */}
+            {!showCheckbox && (
+              <ExportMenu
+                getDocuments={() => [document]}
+                className="flex-shrink-0 h-8 w-8 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              />
+            )}
+
             {/* Selection Indicator */}
             {isSelected && (
               <div className="flex-shrink-0 rounded-full bg-primary flex items-center justify-center w-5 h-5">
@@ -417,7 +432,12 @@ export const DocumentCard = React.memo<DocumentCardProps>(({
                 )}
                 
                 {/* Content Preview */}
-                {getContentPreview(document.content) && (
+                {searchSnippet ? (
+                  <HighlightedSnippet
+                    snippet={searchSnippet}
+                    className={`mt-1 ${compact ? 'text-xs' : 'text-sm'}`}
+                  />
+                ) : getContentPreview(document.content) && (
                   <p className={`text-muted-foreground/80 mt-1 line-clamp-2 leading-relaxed ${
                     compact ? 'text-xs' : 'text-sm'
                   }`}>
@@ -427,6 +447,14 @@ export const DocumentCard = React.memo<DocumentCardProps>(({
               </div>
             </div>
 
+            {/* Export */}
+            {!showCheckbox && !compact && (
+              <ExportMenu
+                getDocuments={() => [document]}
+                className="flex-shrink-0 h-8 w-8 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              />
+            )}
+
             {/* Selection Indicator */}
             {isSelected && (
               <div className={`flex-shrink-0 rounded-full bg-primary shadow-sm flex items-center justify-center ${compact ? 'w-5 h-5' : 'w-6 h-6'}`}>
@@ -5,9 +5,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useTags } from '@/hooks/useTags';
+import { DEFAULT_FILTERS, FilterOptions, TagMatch } from '@/lib/stores/useDocumentStore';
 import { Settings, Plus, X, Palette } from 'lucide-react';
 
 interface Category {
@@ -17,13 +20,6 @@ interface Category {
   is_default: boolean;
 }
 
-interface FilterOptions {
-  category: string;
-  status: string[];
-  sortBy: 'recent' | 'oldest' | 'az' | 'za' | 'wordcount';
-  folderId?: string;
-}
-
 interface DocumentFiltersProps {
   onFiltersChange: (filters: FilterOptions) => void;
   initialFilters: FilterOptions;
@@ -57,6 +53,7 @@ export function DocumentFilters({ onFiltersChange, initialFilters }: DocumentFil
   const [newCategoryColor, setNewCategoryColor] = useState('#3B82F6');
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
+  const { tags } = useTags();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -156,20 +153,32 @@ export function DocumentFilters({ onFiltersChange, initialFilters }: DocumentFil
     }));
   };
 
+  const handleTagToggle = (tagId: string) => {
+    setFilters(prev => {
+      const tagIds = prev.tagIds ?? [];
+      return {
+        ...prev,
+        tagIds: tagIds.includes(tagId)
+          ? tagIds.filter(id => id !== tagId)
+          : [...tagIds, tagId]
+      };
+    });
+  };
+
+  const handleTagMatchChange = (value: string) => {
+    if (value) setFilters(prev => ({ ...prev, tagMatch: value as TagMatch }));
+  };
+
   const handleSortChange = (value: string) => {
     setFilters(prev => ({ ...prev, sortBy: value as FilterOptions['sortBy'] }));
   };
 
   const clearFilters = () => {
-    setFilters({
-      category: 'all',
-      status: [],
-      sortBy: 'recent',
-      folderId: undefined
-    });
+    setFilters(DEFAULT_FILTERS);
   };
 
-  const hasActiveFilters = filters.category !== 'all' || filters.status.length > 0;
+  const selectedTagIds = filters.tagIds ?? [];
+  const hasActiveFilters = filters.category !== 'all' || filters.status.length > 0 || selectedTagIds.length > 0;
 
   return (
     <div className="space-y-4 p-5 bg-surface/30 rounded-xl border border-border/50 shadow-soft backdrop-blur-sm">
@@ -226,6 +235,47 @@ export function DocumentFilters({ onFiltersChange, initialFilters }: DocumentFil
         </div>
       </div>
 
+      {/* Tag Filter */}
+      {tags.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">Tags</Label>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={filters.tagMatch ?? 'any'}
+              onValueChange={handleTagMatchChange}
+              className="gap-0.5"
+            >
+              <ToggleGroupItem value="any" className="h-6 px-2 text-xs" title="Documents with any selected tag">
+                Any
+              </ToggleGroupItem>
+              <ToggleGroupItem value="all" className="h-6 px-2 text-xs" title="Documents with every selected tag">
+                All
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <div className="flex flex-wrap gap-2 max-h-32 overflow-auto">
+            {tags.map((tag) => (
+              <Badge
+                key={tag.id}
+                variant={selectedTagIds.includes(tag.id) ? "default" : "secondary"}
+                className={`cursor-pointer text-xs hover:shadow-soft transition-all duration-200 px-3 py-1.5 rounded-lg gap-1.5 ${
+                  selectedTagIds.includes(tag.id) ? 'bg-primary text-primary-foreground shadow-soft' : 'bg-muted/50 hover:bg-muted'
+                }`}
+                onClick={() => handleTagToggle(tag.id)}
+              >
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: tag.color || '#6B7280' }}
+                />
+                {tag.name}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Sort Options */}
       <div className="space-y-3">
         <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">Sort By</Label>
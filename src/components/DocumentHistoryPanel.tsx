@@ -0,0 +1,209 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentVersions, DocumentVersion } from '@/hooks/useDocumentVersions';
+import { diffLines } from '@/utils/textDiff';
+import { cn } from '@/lib/utils';
+
+interface DocumentHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId?: string;
+  currentContent: string;
+  onRestore: (version: DocumentVersion) => void;
+}
+
+interface DiffRow {
+  left: string | null;
+  right: string | null;
+  type: 'equal' | 'changed';
+}
+
+// Pair removed and added lines so both columns stay aligned
+function buildSideBySideRows(oldText: string, newText: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let i = 0; i < count; i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null, type: 'changed' });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const part of diffLines(oldText, newText)) {
+    const lines = part.value.replace(/\n$/, '').split('\n');
+    if (part.type === 'equal') {
+      flush();
+      lines.forEach(line => rows.push({ left: line, right: line, type: 'equal' }));
+    } else if (part.type === 'delete') {
+      removed.push(...lines);
+    } else {
+      added.push(...lines);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+export function DocumentHistoryPanel({
+  open,
+  onOpenChange,
+  documentId,
+  currentContent,
+  onRestore
+}: DocumentHistoryPanelProps) {
+  const { fetchVersions } = useDocumentVersions();
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !documentId) return;
+
+    setLoading(true);
+    fetchVersions(documentId)
+      .then(data => {
+        setVersions(data);
+        setSelectedId(data[0]?.id ?? null);
+      })
+      .catch(error => {
+        console.error('Error loading version history:', error);
+        toast({
+          title: "Error loading history",
+          description: "Failed to load previous versions. Please try again.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open, documentId, fetchVersions, toast]);
+
+  const selectedVersion = versions.find(v => v.id === selectedId) || null;
+
+  const rows = useMemo(
+    () => selectedVersion ? buildSideBySideRows(selectedVersion.content || '', currentContent) : [],
+    [selectedVersion, currentContent]
+  );
+
+  const changedCount = rows.filter(row => row.type === 'changed').length;
+
+  const handleRestore = () => {
+    if (!selectedVersion) return;
+    onRestore(selectedVersion);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <p className="text-sm font-medium mb-1">No versions yet</p>
+            <p className="text-xs text-muted-foreground">
+              Snapshots are saved automatically as you write.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 flex gap-4 min-h-0">
+            {/* Version List */}
+            <ScrollArea className="w-64 flex-shrink-0 border rounded-lg">
+              <div className="p-2 space-y-1">
+                {versions.map(version => (
+                  <button
+                    key={version.id}
+                    onClick={() => setSelectedId(version.id)}
+                    className={cn(
+                      "w-full text-left p-3 rounded-md transition-colors",
+                      version.id === selectedId ? "bg-primary/10" : "hover:bg-muted"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">Version {version.version_number}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {version.word_count || 0} words
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {format(new Date(version.created_at), 'MMM d, yyyy HH:mm')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Diff View */}
+            <div className="flex-1 flex flex-col min-w-0 gap-3">
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-muted-foreground">
+                  {changedCount === 0
+                    ? 'Identical to the current text'
+                    : `${changedCount} changed line${changedCount === 1 ? '' : 's'}`}
+                </div>
+                <Button size="sm" onClick={handleRestore} disabled={!selectedVersion || changedCount === 0}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore this version
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+                <span>Version {selectedVersion?.version_number}</span>
+                <span>Current</span>
+              </div>
+
+              <ScrollArea className="flex-1 border rounded-lg">
+                <div className="font-mono text-xs leading-relaxed">
+                  {rows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-2">
+                      <div
+                        className={cn(
+                          "px-3 py-0.5 whitespace-pre-wrap break-words border-r",
+                          row.type === 'changed' && row.left !== null && "bg-red-50 dark:bg-red-950/30",
+                          row.type === 'changed' && row.left === null && "bg-muted/40"
+                        )}
+                      >
+                        {row.left ?? ''}
+                      </div>
+                      <div
+                        className={cn(
+                          "px-3 py-0.5 whitespace-pre-wrap break-words",
+                          row.type === 'changed' && row.right !== null && "bg-green-50 dark:bg-green-950/30",
+                          row.type === 'changed' && row.right === null && "bg-muted/40"
+                        )}
+                      >
+                        {row.right ?? ''}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -51,6 +51,7 @@ import { format } from 'date-fns';
 import { DocumentCard } from './DocumentCard';
 import { BulkDocumentActions } from './BulkDocumentActions';
 import { MoveToFolderDialog } from './MoveToFolderDialog';
+import { DOCUMENTS_DRAG_TYPE } from '@/utils/folderTree';
 
 interface Document {
   id: string;
@@ -77,6 +78,8 @@ interface DocumentListProps {
   onDocumentSelect: (doc: Document) => void;
   onDocumentUpdate: () => void;
   searchQuery?: string;
+  // Highlighted snippets from server-side search, keyed by document id
+  searchSnippets?: Record<string, string>;
   selectedDocuments?: string[];
   onDocumentSelectionChange?: (documentIds: string[]) => void;
   // Pagination props
@@ -92,6 +95,7 @@ export function DocumentList({
   onDocumentSelect,
   onDocumentUpdate,
   searchQuery = '',
+  searchSnippets = {},
   selectedDocuments = [],
   onDocumentSelectionChange,
   hasMore = false,
@@ -596,25 +600,36 @@ export function DocumentList({
                   : "grid gap-6 grid-cols-1 lg:grid-cols-2 xl:grid-cols-3"
               }>
                 {documents.map((doc) => (
-                  <DocumentCard
+                  <div
                     key={doc.id}
-                    document={doc}
-                    layout={viewLayout}
-                    isSelected={selectedDocs.has(doc.id)}
-                    onSelect={() => {
-                      if (isMultiSelectMode) {
-                        toggleDocumentSelection(doc.id);
-                      } else {
-                        onDocumentSelect(doc);
-                      }
+                    draggable={editingId !== doc.id}
+                    onDragStart={(event) => {
+                      // Dragging a selected document moves the whole selection
+                      const ids = selectedDocs.has(doc.id) ? [...selectedDocs] : [doc.id];
+                      event.dataTransfer.setData(DOCUMENTS_DRAG_TYPE, JSON.stringify(ids));
+                      event.dataTransfer.effectAllowed = 'move';
                     }}
-                    onEdit={(doc) => startRename(doc)}
-                    onDuplicate={duplicateDocument}
-                    onDelete={(docId) => setDeleteConfirmId(docId)}
-                    searchQuery={searchQuery}
-                    showCheckbox={isMultiSelectMode}
-                    onSelectionToggle={toggleDocumentSelection}
-                  />
+                  >
+                    <DocumentCard
+                      document={doc}
+                      layout={viewLayout}
+                      isSelected={selectedDocs.has(doc.id)}
+                      onSelect={() => {
+                        if (isMultiSelectMode) {
+                          toggleDocumentSelection(doc.id);
+                        } else {
+                          onDocumentSelect(doc);
+                        }
+                      }}
+                      onEdit={(doc) => startRename(doc)}
+                      onDuplicate={duplicateDocument}
+                      onDelete={(docId) => setDeleteConfirmId(docId)}
+                      searchQuery={searchQuery}
+                      searchSnippet={searchSnippets[doc.id]}
+                      showCheckbox={isMultiSelectMode}
+                      onSelectionToggle={toggleDocumentSelection}
+                    />
+                  </div>
                 ))}
               </div>
               
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { MergeConflict } from '@/utils/documentSaves';
+import { CONFLICT_START, mergeText, mergeTitle } from '@/utils/textMerge';
+
+interface DraftConflictDialogProps {
+  conflict: MergeConflict | null;
+  // The merged title and content to save, or null to take the saved version
+  onResolve: (merged: { title: string; content: string } | null) => Promise<void>;
+}
+
+// Edits made here and a newer saved version, side by side, with an editable merge
+export function DraftConflictDialog({ conflict, onResolve }: DraftConflictDialogProps) {
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [autoConflicts, setAutoConflicts] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Starts each merge from both sets of changes to the version they share
+  useEffect(() => {
+    if (conflict) {
+      const merged = mergeText(conflict.base.content, conflict.mine.content, conflict.server.content);
+      setTitle(mergeTitle(conflict.base.title, conflict.mine.title, conflict.server.title));
+      setContent(merged.text);
+      setAutoConflicts(merged.conflicts);
+    }
+  }, [conflict]);
+
+  const resolve = async (merged: { title: string; content: string } | null) => {
+    setIsSaving(true);
+    try {
+      await onResolve(merged);
+    } catch (error) {
+      console.error('Error resolving draft conflict:', error);
+      toast({
+        title: "Couldn't save merge",
+        description: (error as { message?: string } | null)?.message || 'Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!conflict) return null;
+
+  const unresolved = content.includes(CONFLICT_START);
+  const savedAt = conflict.server.updated_at
+    ? formatDistanceToNow(new Date(conflict.server.updated_at), { addSuffix: true })
+    : null;
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>"{conflict.mine.title}" changed while you were editing</AlertDialogTitle>
+          <AlertDialogDescription>
+            Someone saved a newer version{savedAt ? ` ${savedAt}` : ''}. Choose a version or merge them before saving.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Your edits</Label>
+            <div className="rounded-md border bg-muted/30 p-3 text-sm">
+              <p className="font-medium mb-2">{conflict.mine.title}</p>
+              <p className="whitespace-pre-wrap max-h-48 overflow-y-auto text-muted-foreground">{conflict.mine.content}</p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Saved version</Label>
+            <div className="rounded-md border bg-muted/30 p-3 text-sm">
+              <p className="font-medium mb-2">{conflict.server.title}</p>
+              <p className="whitespace-pre-wrap max-h-48 overflow-y-auto text-muted-foreground">{conflict.server.content}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="merged-title">Merged version</Label>
+          <p className="text-xs text-muted-foreground">
+            {autoConflicts === 0
+              ? 'Both sets of changes were combined. Check the result before saving.'
+              : `${autoConflicts} passage${autoConflicts === 1 ? ' was' : 's were'} changed on both sides and ${autoConflicts === 1 ? 'is' : 'are'} marked with ${CONFLICT_START}. Pick the wording to keep and remove the markers.`}
+          </p>
+          <Input id="merged-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={10}
+            className="font-mono text-sm"
+            aria-label="Merged content"
+          />
+        </div>
+
+        <AlertDialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => resolve(null)} disabled={isSaving}>
+            Use Saved Version
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => resolve({ title: conflict.mine.title, content: conflict.mine.content })}
+            disabled={isSaving}
+          >
+            Keep My Version
+          </Button>
+          <Button
+            onClick={() => resolve({ title, content })}
+            disabled={isSaving || !title.trim() || unresolved}
+            title={unresolved ? 'Remove the conflict markers first' : undefined}
+          >
+            Save Merged
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { commandPackShareLink, useCommandPacks } from '@/hooks/useCommandPacks';
+import { UnifiedCommand } from '@/types/commands';
+import { buildCommandPack, commandPackFileName } from '@/utils/commandPacks';
+import { downloadBlob } from '@/features/export/utils/exportDocuments';
+import { Copy, Download, Link2, Package } from 'lucide-react';
+
+interface ExportCommandPackDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: UnifiedCommand[];
+}
+
+// Saves the selected commands as a pack file or publishes them as a share link
+export function ExportCommandPackDialog({ isOpen, onClose, commands }: ExportCommandPackDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const { toast } = useToast();
+  const { publishPack } = useCommandPacks();
+
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setDescription('');
+      setShareLink(null);
+    }
+  }, [isOpen]);
+
+  const pack = () => buildCommandPack(commands, name || 'My Commands', description);
+
+  const downloadPack = () => {
+    const exported = pack();
+    downloadBlob(
+      new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json;charset=utf-8' }),
+      commandPackFileName(exported)
+    );
+    toast({
+      title: "Commands exported",
+      description: `${commands.length} command(s) saved to ${commandPackFileName(exported)}.`,
+    });
+  };
+
+  const publish = async () => {
+    setIsPublishing(true);
+    try {
+      const shareToken = await publishPack(pack());
+      setShareLink(commandPackShareLink(shareToken));
+    } catch (error) {
+      console.error('Error publishing command pack:', error);
+      toast({
+        title: "Publish failed",
+        description: "Failed to create a share link. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!shareLink) return;
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      toast({ title: "Link copied", description: "Anyone signed in to this workspace can install the pack." });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Export {commands.length} Command{commands.length === 1 ? '' : 's'}
+          </DialogTitle>
+          <DialogDescription>
+            {commands.map(command => command.name).join(', ')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="command-pack-name">Pack name</Label>
+            <Input
+              id="command-pack-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Team Editing Commands"
+              disabled={!!shareLink}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="command-pack-description">Description</Label>
+            <Textarea
+              id="command-pack-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What these commands are for"
+              rows={2}
+              disabled={!!shareLink}
+            />
+          </div>
+
+          {shareLink ? (
+            <div className="space-y-2">
+              <Label htmlFor="command-pack-link">Share link</Label>
+              <div className="flex gap-2">
+                <Input id="command-pack-link" value={shareLink} readOnly onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={copyLink} aria-label="Copy share link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2 pt-2">
+              <Button onClick={downloadPack} variant="outline" className="flex-1" disabled={commands.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+              <Button onClick={publish} className="flex-1" disabled={commands.length === 0 || isPublishing}>
+                <Link2 className="h-4 w-4 mr-2" />
+                {isPublishing ? 'Publishing...' : 'Create Share Link'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { Fragment } from 'react';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { FolderRecord } from '@/hooks/useFolderTree';
+import { UNFILED_FOLDER_ID } from '@/lib/stores/useDocumentStore';
+import { getFolderPath } from '@/utils/folderTree';
+
+interface FolderBreadcrumbsProps {
+  folders: FolderRecord[];
+  // A folder id, UNFILED_FOLDER_ID, or undefined for all documents
+  folderId?: string;
+  onSelectFolder: (folderId: string | undefined) => void;
+}
+
+export function FolderBreadcrumbs({ folders, folderId, onSelectFolder }: FolderBreadcrumbsProps) {
+  const path = folderId === UNFILED_FOLDER_ID ? [] : getFolderPath(folders, folderId);
+  const current = folderId === UNFILED_FOLDER_ID ? 'Unfiled' : path[path.length - 1]?.name;
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList>
+        <BreadcrumbItem>
+          {current ? (
+            <BreadcrumbLink asChild>
+              <button onClick={() => onSelectFolder(undefined)}>All documents</button>
+            </BreadcrumbLink>
+          ) : (
+            <BreadcrumbPage>All documents</BreadcrumbPage>
+          )}
+        </BreadcrumbItem>
+        {path.slice(0, -1).map(folder => (
+          <Fragment key={folder.id}>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <button onClick={() => onSelectFolder(folder.id)}>{folder.name}</button>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+        {current && (
+          <>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>{current}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </>
+        )}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
@@ -0,0 +1,433 @@
+import { useEffect, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronRight,
+  CornerLeftUp,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Inbox,
+  Library,
+  MoreHorizontal,
+  Palette,
+  Pencil,
+  Trash2
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { FolderNode, FolderTreeState } from '@/hooks/useFolderTree';
+import { UNFILED_FOLDER_ID } from '@/lib/stores/useDocumentStore';
+import { DOCUMENTS_DRAG_TYPE, FOLDER_DRAG_TYPE, getFolderPath, isFolderWithin } from '@/utils/folderTree';
+import { cn } from '@/lib/utils';
+
+const FOLDER_COLORS = [
+  '#6B7280', '#EF4444', '#F59E0B', '#10B981', '#3B82F6',
+  '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16', '#F97316'
+];
+
+// A folder id, 'root' (the top level, for folders) or UNFILED_FOLDER_ID (for documents)
+type DropTarget = string;
+
+interface FolderTreeProps {
+  folderTree: FolderTreeState;
+  // A folder id, UNFILED_FOLDER_ID, or undefined for all documents
+  selectedFolderId?: string;
+  onSelectFolder: (folderId: string | undefined) => void;
+  // Called after documents are dropped into a folder
+  onDocumentsMoved?: () => void;
+}
+
+export function FolderTree({ folderTree, selectedFolderId, onSelectFolder, onDocumentsMoved }: FolderTreeProps) {
+  const { folders, tree, unfiledCount, totalCount } = folderTree;
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  // undefined when not creating; null creates a top-level folder
+  const [creatingIn, setCreatingIn] = useState<string | null | undefined>(undefined);
+  const [newFolderName, setNewFolderName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<FolderNode | null>(null);
+  const [draggingFolderId, setDraggingFolderId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const { toast } = useToast();
+
+  // Keep the selected folder visible
+  useEffect(() => {
+    const ancestors = getFolderPath(folders, selectedFolderId).slice(0, -1);
+    if (ancestors.length === 0) return;
+    setExpanded(prev => {
+      if (ancestors.every(folder => prev.has(folder.id))) return prev;
+      return new Set([...prev, ...ancestors.map(folder => folder.id)]);
+    });
+  }, [folders, selectedFolderId]);
+
+  const showError = (title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: "destructive",
+    });
+  };
+
+  const toggleExpanded = (folderId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) next.delete(folderId);
+      else next.add(folderId);
+      return next;
+    });
+  };
+
+  const startCreating = (parentId: string | null) => {
+    setCreatingIn(parentId);
+    setNewFolderName('');
+    if (parentId) setExpanded(prev => new Set(prev).add(parentId));
+  };
+
+  const createFolder = async () => {
+    const name = newFolderName.trim();
+    const parentId = creatingIn;
+    setCreatingIn(undefined);
+    if (!name || parentId === undefined) return;
+
+    try {
+      const folder = await folderTree.createFolder(name, parentId);
+      onSelectFolder(folder.id);
+    } catch (error) {
+      showError('Error creating folder', error);
+    }
+  };
+
+  const saveRename = async () => {
+    const name = renameValue.trim();
+    const folderId = renamingId;
+    setRenamingId(null);
+    if (!folderId || !name) return;
+
+    try {
+      await folderTree.updateFolder(folderId, { name });
+    } catch (error) {
+      showError('Error renaming folder', error);
+    }
+  };
+
+  const runAction = async (title: string, action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      showError(title, error);
+    }
+  };
+
+  const confirmDelete = async () => {
+    const folder = pendingDelete;
+    setPendingDelete(null);
+    if (!folder) return;
+
+    await runAction('Error deleting folder', async () => {
+      await folderTree.deleteFolder(folder.id);
+      if (selectedFolderId && isFolderWithin(folders, selectedFolderId, folder.id)) {
+        onSelectFolder(undefined);
+      }
+      onDocumentsMoved?.();
+      toast({ title: "Folder deleted", description: `"${folder.name}" has been deleted.` });
+    });
+  };
+
+  // Folders can't be dropped into themselves or their subfolders
+  const canDrop = (event: React.DragEvent, target: DropTarget) => {
+    const types = event.dataTransfer.types;
+    if (types.includes(FOLDER_DRAG_TYPE)) {
+      if (target === UNFILED_FOLDER_ID) return false;
+      return target === 'root' || !draggingFolderId || !isFolderWithin(folders, target, draggingFolderId);
+    }
+    return types.includes(DOCUMENTS_DRAG_TYPE) && target !== 'root';
+  };
+
+  const dropProps = (target: DropTarget) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!canDrop(event, target)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(current => (current === target ? null : current)),
+    onDrop: async (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const folderId = event.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      const documentIds = event.dataTransfer.getData(DOCUMENTS_DRAG_TYPE);
+      const parentId = target === 'root' || target === UNFILED_FOLDER_ID ? null : target;
+
+      if (folderId) {
+        await runAction('Error moving folder', () => folderTree.moveFolder(folderId, parentId));
+        if (parentId) setExpanded(prev => new Set(prev).add(parentId));
+      } else if (documentIds) {
+        const ids: string[] = JSON.parse(documentIds);
+        await runAction('Error moving documents', async () => {
+          await folderTree.moveDocuments(ids, parentId);
+          onDocumentsMoved?.();
+          toast({
+            title: "Documents moved",
+            description: `${ids.length} document(s) moved successfully.`,
+          });
+        });
+      }
+    }
+  });
+
+  const renderCreateInput = (depth: number) => (
+    <form
+      className="flex items-center gap-1 py-1 pr-2"
+      style={{ paddingLeft: `${depth * 12 + 28}px` }}
+      onSubmit={(e) => {
+        e.preventDefault();
+        createFolder();
+      }}
+    >
+      <Input
+        value={newFolderName}
+        onChange={(e) => setNewFolderName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && setCreatingIn(undefined)}
+        onBlur={() => !newFolderName.trim() && setCreatingIn(undefined)}
+        placeholder="Folder name"
+        className="h-7 text-sm"
+        autoFocus
+      />
+    </form>
+  );
+
+  const renderNode = (node: FolderNode, siblings: FolderNode[], index: number) => {
+    const isExpanded = expanded.has(node.id);
+    const isSelected = selectedFolderId === node.id;
+    const FolderIcon = isExpanded && node.children.length > 0 ? FolderOpen : Folder;
+
+    return (
+      <div key={node.id}>
+        <div
+          draggable={renamingId !== node.id}
+          onDragStart={(event) => {
+            event.dataTransfer.setData(FOLDER_DRAG_TYPE, node.id);
+            event.dataTransfer.effectAllowed = 'move';
+            setDraggingFolderId(node.id);
+          }}
+          onDragEnd={() => setDraggingFolderId(null)}
+          {...dropProps(node.id)}
+          className={cn(
+            "group flex items-center gap-1 rounded-md pr-1 py-1 text-sm transition-colors",
+            isSelected ? "bg-primary/10 text-foreground" : "hover:bg-muted",
+            dropTarget === node.id && "ring-2 ring-primary/50 bg-primary/5"
+          )}
+          style={{ paddingLeft: `${node.depth * 12 + 4}px` }}
+        >
+          <button
+            className={cn(
+              "h-5 w-5 flex items-center justify-center rounded text-muted-foreground hover:text-foreground",
+              node.children.length === 0 && "invisible"
+            )}
+            onClick={() => toggleExpanded(node.id)}
+            aria-label={isExpanded ? `Collapse ${node.name}` : `Expand ${node.name}`}
+          >
+            <ChevronRight className={cn("h-3 w-3 transition-transform", isExpanded && "rotate-90")} />
+          </button>
+
+          {renamingId === node.id ? (
+            <form
+              className="flex-1"
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveRename();
+              }}
+            >
+              <Input
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setRenamingId(null)}
+                className="h-7 text-sm"
+                autoFocus
+              />
+            </form>
+          ) : (
+            <button
+              className="flex flex-1 min-w-0 items-center gap-2 text-left"
+              onClick={() => onSelectFolder(node.id)}
+            >
+              <FolderIcon className="h-4 w-4 flex-shrink-0" style={{ color: node.color || undefined }} />
+              <span className="truncate">{node.name}</span>
+            </button>
+          )}
+
+          <span className="text-xs text-muted-foreground tabular-nums px-1">{node.totalCount}</span>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                aria-label={`Actions for ${node.name}`}
+              >
+                <MoreHorizontal className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuItem onClick={() => startCreating(node.id)}>
+                <FolderPlus className="h-4 w-4 mr-2" />
+                New subfolder
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => {
+                  setRenamingId(node.id);
+                  setRenameValue(node.name);
+                }}
+              >
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Palette className="h-4 w-4 mr-2" />
+                  Colour
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="p-2">
+                  <div className="grid grid-cols-5 gap-2">
+                    {FOLDER_COLORS.map(color => (
+                      <button
+                        key={color}
+                        className={cn(
+                          "h-6 w-6 rounded-full border-2 transition-transform hover:scale-110",
+                          node.color === color ? "border-foreground" : "border-transparent"
+                        )}
+                        style={{ backgroundColor: color }}
+                        onClick={() => runAction('Error updating folder', () => folderTree.updateFolder(node.id, { color }))}
+                        aria-label={`Set colour ${color}`}
+                      />
+                    ))}
+                  </div>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                disabled={index === 0}
+                onClick={() => runAction('Error reordering folders', () => folderTree.reorderFolder(node.id, 'up'))}
+              >
+                <ArrowUp className="h-4 w-4 mr-2" />
+                Move up
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={index === siblings.length - 1}
+                onClick={() => runAction('Error reordering folders', () => folderTree.reorderFolder(node.id, 'down'))}
+              >
+                <ArrowDown className="h-4 w-4 mr-2" />
+                Move down
+              </DropdownMenuItem>
+              {node.parent_id && (
+                <DropdownMenuItem
+                  onClick={() => runAction('Error moving folder', () => folderTree.moveFolder(node.id, null))}
+                >
+                  <CornerLeftUp className="h-4 w-4 mr-2" />
+                  Move to top level
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onClick={() => setPendingDelete(node)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {isExpanded && node.children.map((child, childIndex) => renderNode(child, node.children, childIndex))}
+        {creatingIn === node.id && renderCreateInput(node.depth + 1)}
+      </div>
+    );
+  };
+
+  const rootRowClass = (target: DropTarget, isSelected: boolean) => cn(
+    "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors",
+    isSelected ? "bg-primary/10 text-foreground" : "hover:bg-muted",
+    dropTarget === target && "ring-2 ring-primary/50 bg-primary/5"
+  );
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between px-2 pb-1">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Folders</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => startCreating(null)}
+          aria-label="New folder"
+        >
+          <FolderPlus className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <button
+        className={rootRowClass('root', selectedFolderId === undefined)}
+        onClick={() => onSelectFolder(undefined)}
+        {...dropProps('root')}
+      >
+        <Library className="h-4 w-4 flex-shrink-0" />
+        <span className="flex-1 text-left">All documents</span>
+        <span className="text-xs text-muted-foreground tabular-nums">{totalCount}</span>
+      </button>
+
+      <button
+        className={rootRowClass(UNFILED_FOLDER_ID, selectedFolderId === UNFILED_FOLDER_ID)}
+        onClick={() => onSelectFolder(UNFILED_FOLDER_ID)}
+        {...dropProps(UNFILED_FOLDER_ID)}
+      >
+        <Inbox className="h-4 w-4 flex-shrink-0" />
+        <span className="flex-1 text-left">Unfiled</span>
+        <span className="text-xs text-muted-foreground tabular-nums">{unfiledCount}</span>
+      </button>
+
+      {tree.map((node, index) => renderNode(node, tree, index))}
+      {creatingIn === null && renderCreateInput(0)}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete folder?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" and its subfolders will be deleted. The {pendingDelete?.totalCount ?? 0} document(s)
+              inside will be kept and moved to Unfiled.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
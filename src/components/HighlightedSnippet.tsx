@@ -0,0 +1,26 @@
+import { cn } from '@/lib/utils';
+
+interface HighlightedSnippetProps {
+  // Snippet from search_documents with matches wrapped in <mark> tags
+  snippet: string;
+  className?: string;
+}
+
+// Splits on the mark tags instead of injecting HTML, so document text is never parsed as markup
+export function HighlightedSnippet({ snippet, className }: HighlightedSnippetProps) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+
+  return (
+    <p className={cn("text-sm text-muted-foreground/90 line-clamp-2 leading-relaxed", className)}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { useCommandPacks } from '@/hooks/useCommandPacks';
+import { UnifiedCommand } from '@/types/commands';
+import {
+  CommandPack,
+  CommandPackError,
+  ConflictResolution,
+  describeImportResult,
+  parseCommandPack,
+  planPackImport,
+} from '@/utils/commandPacks';
+import { Upload } from 'lucide-react';
+
+const RESOLUTION_OPTIONS: { value: ConflictResolution; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep your commands and leave these out' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace your commands with the pack\'s' },
+  { value: 'rename', label: 'Rename', description: 'Add them alongside yours as "Name (2)"' },
+];
+
+interface PackContentsProps {
+  pack: CommandPack;
+  // The user's commands, to flag name conflicts
+  existing: UnifiedCommand[];
+  resolution: ConflictResolution;
+  onResolutionChange: (resolution: ConflictResolution) => void;
+}
+
+// The pack's commands and, when some names are taken, how to handle them
+export function PackContents({ pack, existing, resolution, onResolutionChange }: PackContentsProps) {
+  const { conflicts } = planPackImport(pack, existing);
+  const conflicting = new Set(conflicts.map(({ command }) => command.name));
+
+  return (
+    <div className="space-y-4">
+      <ul className="max-h-48 overflow-y-auto rounded-md border divide-y text-sm">
+        {pack.commands.map((command, index) => (
+          <li key={`${command.name}-${index}`} className="flex items-center justify-between gap-2 px-3 py-2">
+            <span className="truncate">{command.name}</span>
+            {conflicting.has(command.name) && (
+              <span className="text-xs text-muted-foreground flex-shrink-0">Name in use</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {conflicts.length > 0 && (
+        <div className="space-y-2">
+          <Label>
+            {conflicts.length} command{conflicts.length === 1 ? ' has' : 's have'} the same name as one of yours
+          </Label>
+          <RadioGroup value={resolution} onValueChange={(value) => onResolutionChange(value as ConflictResolution)}>
+            {RESOLUTION_OPTIONS.map(option => (
+              <div key={option.value} className="flex items-start gap-2">
+                <RadioGroupItem value={option.value} id={`pack-resolution-${option.value}`} className="mt-0.5" />
+                <Label htmlFor={`pack-resolution-${option.value}`} className="font-normal">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ImportCommandPackDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existing: UnifiedCommand[];
+  onImported: () => void;
+}
+
+export function ImportCommandPackDialog({ isOpen, onClose, existing, onImported }: ImportCommandPackDialogProps) {
+  const [pack, setPack] = useState<CommandPack | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [resolution, setResolution] = useState<ConflictResolution>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+  const { importPack } = useCommandPacks();
+
+  useEffect(() => {
+    if (isOpen) {
+      setPack(null);
+      setParseError(null);
+      setResolution('skip');
+    }
+  }, [isOpen]);
+
+  const readFile = async (file: File | undefined) => {
+    setPack(null);
+    setParseError(null);
+    if (!file) return;
+
+    try {
+      setPack(parseCommandPack(JSON.parse(await file.text())));
+    } catch (error) {
+      setParseError(
+        error instanceof CommandPackError ? error.message : 'The file could not be read as a command pack.'
+      );
+    }
+  };
+
+  const runImport = async () => {
+    if (!pack) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importPack(pack, resolution);
+      toast({
+        title: `Imported "${pack.name}"`,
+        description: describeImportResult(result),
+      });
+      onImported();
+      onClose();
+    } catch (error) {
+      console.error('Error importing command pack:', error);
+      toast({
+        title: "Import failed",
+        description: "Failed to import the command pack. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import Commands
+          </DialogTitle>
+          <DialogDescription>
+            Import a .commands.json pack. Unsaved edits in the command list are discarded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => readFile(e.target.files?.[0])}
+          />
+
+          {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+
+          {pack && (
+            <>
+              <div>
+                <p className="font-medium">{pack.name}</p>
+                {pack.description && <p className="text-sm text-muted-foreground">{pack.description}</p>}
+              </div>
+              <PackContents
+                pack={pack}
+                existing={existing}
+                resolution={resolution}
+                onResolutionChange={setResolution}
+              />
+            </>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button onClick={runImport} disabled={!pack || isImporting} className="flex-1">
+              {isImporting ? 'Importing...' : `Import ${pack ? pack.commands.length : ''} Command${pack?.commands.length === 1 ? '' : 's'}`}
+            </Button>
+            <Button variant="outline" onClick={onClose} disabled={isImporting}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,9 +8,10 @@ interface MobileEditorProps {
   isDarkMode: boolean;
   settings: Settings;
   placeholder?: string;
+  readOnly?: boolean;
 }
 
-export function MobileEditor({ value, onChange, isDarkMode, settings, placeholder = "Start writing..." }: MobileEditorProps) {
+export function MobileEditor({ value, onChange, isDarkMode, settings, placeholder = "Start writing...", readOnly = false }: MobileEditorProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // Optimized auto-resize with better performance
@@ -73,6 +74,7 @@ export function MobileEditor({ value, onChange, isDarkMode, settings, placeholde
         onChange={handleChange}
         onFocus={handleFocus}
         placeholder={placeholder}
+        readOnly={readOnly}
         autoComplete="off"
         autoCorrect="on"
         autoCapitalize="sentences"
@@ -9,9 +9,12 @@ interface MonacoEditorProps {
   settings: Settings;
   onSelectionChange?: (text: string) => void;
   onProvideEditor?: (editor: any, monaco: any) => void;
+  readOnly?: boolean;
+  // Room for markers such as comment threads
+  glyphMargin?: boolean;
 }
 
-export function MonacoEditor({ value, onChange, isDarkMode, settings, onSelectionChange, onProvideEditor }: MonacoEditorProps) {
+export function MonacoEditor({ value, onChange, isDarkMode, settings, onSelectionChange, onProvideEditor, readOnly = false, glyphMargin = false }: MonacoEditorProps) {
   const editorRef = useRef<any>(null);
 
   function handleEditorDidMount(editor: any, monaco: any) {
@@ -121,6 +124,7 @@ export function MonacoEditor({ value, onChange, isDarkMode, settings, onSelectio
         onChange={handleEditorChange}
         onMount={handleEditorDidMount}
         options={{
+          readOnly,
           minimap: { enabled: false },
           lineNumbers: 'off',
           wordWrap: 'on',
@@ -133,7 +137,7 @@ export function MonacoEditor({ value, onChange, isDarkMode, settings, onSelectio
                       settings.lineHeight === 'relaxed' ? 1.8 : 1.6,
           scrollBeyondLastLine: false,
           folding: false,
-          glyphMargin: false,
+          glyphMargin,
           contextmenu: false,
           scrollbar: {
             vertical: 'hidden',
@@ -6,15 +6,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { useHaptics } from '@/hooks/useHaptics';
-import { supabase } from '@/integrations/supabase/client';
-import { Folder, Plus, X } from 'lucide-react';
-
-interface Folder {
-  id: string;
-  name: string;
-  path?: string;
-  parent_id?: string;
-}
+import { useFolderTree } from '@/hooks/useFolderTree';
+import { flattenFolderTree } from '@/utils/folderTree';
+import { Folder, Plus } from 'lucide-react';
 
 interface MoveToFolderDialogProps {
   isOpen: boolean;
@@ -29,78 +23,29 @@ export function MoveToFolderDialog({
   documentIds,
   onMoveComplete
 }: MoveToFolderDialogProps) {
-  const [folders, setFolders] = useState<Folder[]>([]);
   const [selectedFolderId, setSelectedFolderId] = useState<string>('');
   const [isCreatingFolder, setIsCreatingFolder] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
   const { impactLight, notificationSuccess, notificationError } = useHaptics();
+  const { tree, refreshFolders, createFolder: createFolderRecord, moveDocuments: moveDocumentRecords } = useFolderTree();
 
   useEffect(() => {
     if (isOpen) {
-      loadFolders();
+      refreshFolders();
     }
-  }, [isOpen]);
-
-  const loadFolders = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('folders')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('path');
-
-      if (error) throw error;
-      // Map database response to Folder interface
-      const mappedFolders = (data || []).map((folder: any) => ({
-        id: folder.id,
-        name: folder.name,
-        path: folder.name, // Use name as path for now
-        parent_id: folder.parent_id
-      }));
-      setFolders(mappedFolders);
-    } catch (error) {
-      console.error('Error loading folders:', error);
-      toast({
-        title: "Error loading folders",
-        description: "Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
+  }, [isOpen, refreshFolders]);
 
   const createFolder = async () => {
     if (!newFolderName.trim()) return;
 
     try {
       setIsLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      const { data, error } = await supabase
-        .from('folders')
-        .insert({
-          name: newFolderName.trim(),
-          user_id: user.id,
-          sort_order: folders.length
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      const newFolder: Folder = {
-        id: data.id,
-        name: data.name,
-        path: data.name,
-        parent_id: data.parent_id
-      };
-      setFolders(prev => [...prev, newFolder]);
-      setSelectedFolderId(data.id);
+      // New folders are created inside the currently selected folder
+      const parentId = selectedFolderId && selectedFolderId !== "__root__" ? selectedFolderId : null;
+      const folder = await createFolderRecord(newFolderName.trim(), parentId);
+      setSelectedFolderId(folder.id);
       setNewFolderName('');
       setIsCreatingFolder(false);
       
@@ -128,14 +73,7 @@ export function MoveToFolderDialog({
       setIsLoading(true);
       impactLight();
 
-      const { error } = await supabase
-        .from('documents')
-        .update({ 
-          folder_id: selectedFolderId === "__root__" ? null : selectedFolderId || null
-        })
-        .in('id', documentIds);
-
-      if (error) throw error;
+      await moveDocumentRecords(documentIds, selectedFolderId === "__root__" ? null : selectedFolderId || null);
 
       notificationSuccess();
       toast({
@@ -187,9 +125,9 @@ export function MoveToFolderDialog({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="__root__">📁 Root (No folder)</SelectItem>
-                    {folders.map((folder) => (
+                    {flattenFolderTree(tree).map((folder) => (
                       <SelectItem key={folder.id} value={folder.id}>
-                        📁 {folder.path || folder.name}
+                        <span style={{ paddingLeft: `${folder.depth * 12}px` }}>📁 {folder.name}</span>
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -0,0 +1,53 @@
+import { useCallback, useEffect } from 'react';
+import { useMatch } from 'react-router-dom';
+import { DraftConflictDialog } from '@/components/DraftConflictDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentStore } from '@/lib/stores/useDocumentStore';
+
+/**
+ * Saves drafts edited offline once the app loads or the connection returns,
+ * and asks how to merge any whose document changed meanwhile. The editor
+ * handles conflicts on the document it has open.
+ */
+export function OfflineSync() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const editorMatch = useMatch('/editor/:documentId');
+  const openDocumentId = editorMatch?.params.documentId;
+  const { syncPendingDrafts, resolveDraftConflict } = useDocumentStore();
+  const conflict = useDocumentStore(state =>
+    Object.values(state.draftConflicts).find(candidate => candidate.documentId !== openDocumentId) ?? null
+  );
+
+  const sync = useCallback(async () => {
+    if (!user || !navigator.onLine) return;
+
+    const saved = await syncPendingDrafts(user.id);
+    if (saved > 0) {
+      toast({
+        title: "Offline edits saved",
+        description: `${saved} document${saved === 1 ? '' : 's'} edited offline ${saved === 1 ? 'was' : 'were'} saved.`,
+      });
+    }
+  }, [user, syncPendingDrafts, toast]);
+
+  useEffect(() => {
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [sync]);
+
+  return (
+    <DraftConflictDialog
+      conflict={conflict}
+      onResolve={async (merged) => {
+        if (!conflict) return;
+        const result = await resolveDraftConflict(conflict.documentId, merged);
+        if (result.status === 'queued') {
+          toast({ title: "Saved offline", description: "The merge will be saved when you're back online." });
+        }
+      }}
+    />
+  );
+}
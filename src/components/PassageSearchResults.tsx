@@ -0,0 +1,69 @@
+import { Badge } from '@/components/ui/badge';
+import { FileText, Loader2, Sparkles } from 'lucide-react';
+import { PassageSearchResult } from '@/hooks/useDocumentSearch';
+
+interface PassageSearchResultsProps {
+  results: PassageSearchResult[];
+  isSearching: boolean;
+  onOpenDocument: (documentId: string) => void;
+  maxResults?: number;
+}
+
+const SNIPPET_LENGTH = 220;
+
+function snippet(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > SNIPPET_LENGTH ? `${collapsed.substring(0, SNIPPET_LENGTH)}...` : collapsed;
+}
+
+export function PassageSearchResults({
+  results,
+  isSearching,
+  onOpenDocument,
+  maxResults = 5
+}: PassageSearchResultsProps) {
+  if (!isSearching && results.length === 0) return null;
+
+  return (
+    <div className="flex-shrink-0 p-4 bg-card/50 border-b border-border/50">
+      <div className="flex items-center gap-2 mb-3">
+        <Sparkles className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-semibold">Related passages</h3>
+        {isSearching && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {results.slice(0, maxResults).map(result => {
+          const bestPassage = [...result.passages].sort((a, b) => b.similarity - a.similarity)[0];
+          return (
+            <button
+              key={result.id}
+              onClick={() => onOpenDocument(result.id)}
+              className="w-full text-left p-3 rounded-lg bg-muted/30 hover:bg-muted/60 border border-transparent hover:border-border transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="flex items-center gap-2 text-sm font-medium truncate">
+                  <FileText className="h-3 w-3 flex-shrink-0" />
+                  {result.title}
+                </span>
+                <Badge variant="outline" className="text-xs flex-shrink-0">
+                  {Math.round(result.similarity * 100)}% match
+                </Badge>
+              </div>
+              {bestPassage && (
+                <p className="text-xs text-muted-foreground leading-relaxed">
+                  {snippet(bestPassage.content)}
+                </p>
+              )}
+              {result.passages.length > 1 && (
+                <p className="text-xs text-muted-foreground/70 mt-1">
+                  +{result.passages.length - 1} more passage{result.passages.length > 2 ? 's' : ''}
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
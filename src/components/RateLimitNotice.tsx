@@ -0,0 +1,34 @@
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RateLimitState } from '@/hooks/useRateLimitCountdown';
+
+interface RateLimitNoticeProps {
+  rateLimit: RateLimitState | null;
+  className?: string;
+}
+
+function formatCountdown(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function RateLimitNotice({ rateLimit, className }: RateLimitNoticeProps) {
+  if (!rateLimit) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={cn(
+        'flex items-center gap-2 rounded-md border border-border/50 bg-muted/60 px-3 py-2 text-sm text-muted-foreground',
+        className
+      )}
+    >
+      <Timer className="h-4 w-4 flex-shrink-0" />
+      <span>
+        {rateLimit.label} is rate limited. Try again in{' '}
+        <span className="font-medium tabular-nums text-foreground">{formatCountdown(rateLimit.secondsLeft)}</span>
+      </span>
+    </div>
+  );
+}
@@ -299,6 +299,36 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               </RadioGroup>
             </div>
 
+            <div className={`flex items-center justify-between ${isMobile ? 'py-3' : 'py-2'}`}>
+              <div>
+                <Label htmlFor="stream-ai" className={isMobile ? 'text-base' : 'text-sm'}>Stream AI Responses</Label>
+                <p className={`text-muted-foreground ${isMobile ? 'text-sm' : 'text-xs'}`}>
+                  Show text as it is generated, with the option to stop early
+                </p>
+              </div>
+              <Switch
+                id="stream-ai"
+                checked={settings.streamAIResponses}
+                onCheckedChange={(checked) => updateSetting('streamAIResponses', checked)}
+                className={isMobile ? 'scale-110' : ''}
+              />
+            </div>
+
+            <div className={`flex items-center justify-between ${isMobile ? 'py-3' : 'py-2'}`}>
+              <div>
+                <Label htmlFor="review-ai" className={isMobile ? 'text-base' : 'text-sm'}>Review AI Edits</Label>
+                <p className={`text-muted-foreground ${isMobile ? 'text-sm' : 'text-xs'}`}>
+                  Show edits as tracked changes to accept or reject one at a time
+                </p>
+              </div>
+              <Switch
+                id="review-ai"
+                checked={settings.reviewAIEdits}
+                onCheckedChange={(checked) => updateSetting('reviewAIEdits', checked)}
+                className={isMobile ? 'scale-110' : ''}
+              />
+            </div>
+
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <Label className={isMobile ? 'text-base' : ''}>Custom Commands</Label>
@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { COLLABORATOR_ROLES, CollaboratorRole, DocumentMember, memberName } from '@/hooks/useDocumentSharing';
+import { Copy, UserPlus, Users, X } from 'lucide-react';
+
+interface ShareDocumentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentId: string | null;
+  documentTitle: string;
+  members: DocumentMember[];
+  currentUserId: string | undefined;
+  isOwner: boolean;
+  onShare: (email: string, role: CollaboratorRole) => Promise<void>;
+  onChangeRole: (userId: string, role: CollaboratorRole) => Promise<void>;
+  onRemove: (userId: string) => Promise<void>;
+}
+
+// RPC errors carry the reason the database gave, e.g. sharing with yourself
+const errorMessage = (error: unknown) =>
+  (error as { message?: string } | null)?.message || 'Please try again.';
+
+// Shares a document by email with a role, and lists who it's shared with
+export function ShareDocumentDialog({
+  isOpen,
+  onClose,
+  documentId,
+  documentTitle,
+  members,
+  currentUserId,
+  isOwner,
+  onShare,
+  onChangeRole,
+  onRemove
+}: ShareDocumentDialogProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('editor');
+  const [isSharing, setIsSharing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setEmail('');
+      setRole('editor');
+    }
+  }, [isOpen]);
+
+  const share = async () => {
+    if (!email.trim()) return;
+
+    setIsSharing(true);
+    try {
+      await onShare(email, role);
+      toast({
+        title: "Document shared",
+        // Whether the address has an account isn't revealed
+        description: `If ${email.trim()} has an account, they can now open "${documentTitle}".`,
+      });
+      setEmail('');
+    } catch (error) {
+      console.error('Error sharing document:', error);
+      toast({
+        title: "Sharing failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const changeRole = async (member: DocumentMember, newRole: CollaboratorRole) => {
+    try {
+      await onChangeRole(member.user_id, newRole);
+    } catch (error) {
+      console.error('Error changing collaborator role:', error);
+      toast({
+        title: "Couldn't change role",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const remove = async (member: DocumentMember) => {
+    try {
+      await onRemove(member.user_id);
+      toast({
+        title: member.user_id === currentUserId ? "Left document" : "Access removed",
+        description: member.user_id === currentUserId
+          ? `You no longer have access to "${documentTitle}".`
+          : `${memberName(member)} no longer has access.`,
+      });
+      if (member.user_id === currentUserId) onClose();
+    } catch (error) {
+      console.error('Error removing collaborator:', error);
+      toast({
+        title: "Couldn't remove access",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyLink = async () => {
+    if (!documentId) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/editor/${documentId}`);
+      toast({ title: "Link copied", description: "Only people it's shared with can open it." });
+    } catch (error) {
+      console.error('Error copying document link:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Share "{documentTitle}"
+          </DialogTitle>
+          <DialogDescription>
+            {documentId
+              ? 'People you share with open it from a link and edit it with you live.'
+              : 'Save the document before sharing it.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isOwner && documentId && (
+            <div className="space-y-2">
+              <Label htmlFor="share-email">Add people</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="share-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && share()}
+                  placeholder="Email address"
+                  className="flex-1"
+                />
+                <Select value={role} onValueChange={(value) => setRole(value as CollaboratorRole)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COLLABORATOR_ROLES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={share} className="w-full" disabled={!email.trim() || isSharing}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                {isSharing ? 'Sharing...' : 'Share'}
+              </Button>
+            </div>
+          )}
+
+          {members.length > 0 && (
+            <div className="space-y-2">
+              <Label>People with access</Label>
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {members.map(member => (
+                  <div key={member.user_id} className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50">
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">
+                        {memberName(member)}
+                        {member.user_id === currentUserId && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </p>
+                      {member.name && <p className="text-xs text-muted-foreground truncate">{member.email}</p>}
+                    </div>
+
+                    {member.role === 'owner' ? (
+                      <span className="text-sm text-muted-foreground px-2">Owner</span>
+                    ) : isOwner ? (
+                      <Select value={member.role} onValueChange={(value) => changeRole(member, value as CollaboratorRole)}>
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {COLLABORATOR_ROLES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm text-muted-foreground px-2">
+                        {COLLABORATOR_ROLES.find(option => option.value === member.role)?.label}
+                      </span>
+                    )}
+
+                    {member.role !== 'owner' && (isOwner || member.user_id === currentUserId) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => remove(member)}
+                        aria-label={member.user_id === currentUserId ? 'Leave document' : `Remove ${memberName(member)}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {documentId && (
+            <Button variant="outline" className="w-full" onClick={copyLink}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Link
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import { useNavigate } from 'react-router-dom';
+import { FileText, Users } from 'lucide-react';
+import { COLLABORATOR_ROLES, useSharedDocuments } from '@/hooks/useDocumentSharing';
+
+// Documents other people have shared with you, opened in the editor
+export function SharedDocumentsList() {
+  const navigate = useNavigate();
+  const { sharedDocuments } = useSharedDocuments();
+
+  if (sharedDocuments.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 px-2 py-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+        <Users className="h-3.5 w-3.5" />
+        Shared with me
+      </div>
+      {sharedDocuments.map(document => (
+        <button
+          key={document.id}
+          onClick={() => navigate(`/editor/${document.id}`)}
+          className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted/50"
+        >
+          <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="flex-1 truncate">{document.title}</span>
+          <span className="text-xs text-muted-foreground">
+            {COLLABORATOR_ROLES.find(option => option.value === document.role)?.label}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
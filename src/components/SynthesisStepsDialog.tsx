@@ -0,0 +1,51 @@
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AIJob, jobResult } from '@/hooks/useAIJobs';
+
+interface SynthesisStepsDialogProps {
+  job: AIJob | null;
+  onClose: () => void;
+}
+
+// The partial results a large synthesis went through, each with the documents it covers
+export function SynthesisStepsDialog({ job, onClose }: SynthesisStepsDialogProps) {
+  const result = job ? jobResult(job) : {};
+  const sources = result.sourceDocuments ?? [];
+  const steps = result.steps ?? [];
+  const rounds = Math.max(0, ...steps.map(step => step.level));
+
+  return (
+    <Dialog open={job !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Synthesis steps</DialogTitle>
+          <DialogDescription>
+            Each document was condensed first, then the results were combined
+            {rounds > 1 ? ` over ${rounds - 1} round${rounds === 2 ? '' : 's'}` : ''} before writing "{result.title}".
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <ol className="space-y-4">
+            {steps.map((step, index) => (
+              <li key={index} className="space-y-2 rounded-md border p-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">
+                    {step.stage === 'map' ? 'Condensed' : `Combined, round ${step.level - 1}`}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {step.sources
+                      .map(source => `[${source}] ${sources[source - 1]?.title ?? 'Unknown document'}`)
+                      .join(', ')}
+                  </span>
+                </div>
+                <p className="whitespace-pre-wrap text-sm text-muted-foreground">{step.content}</p>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { normalizeTagName, Tag, useTags } from '@/hooks/useTags';
+import { supabase } from '@/integrations/supabase/client';
+import { UnifiedCommand } from '@/types/commands';
+import { Check, Loader2, Plus, Sparkles, X } from 'lucide-react';
+
+interface TagInputProps {
+  documentId: string;
+  content: string;
+}
+
+export function TagInput({ documentId, content }: TagInputProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { tags, findOrCreateTag, loadDocumentTags, addTagsToDocuments, removeTagsFromDocuments } = useTags();
+  const [documentTags, setDocumentTags] = useState<Tag[]>([]);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSuggestions([]);
+    loadDocumentTags(documentId)
+      .then(loaded => {
+        if (!cancelled) setDocumentTags(loaded);
+      })
+      .catch(error => console.error('Error loading document tags:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, loadDocumentTags]);
+
+  const assignedIds = useMemo(() => new Set(documentTags.map(tag => tag.id)), [documentTags]);
+  const availableTags = tags.filter(tag => !assignedIds.has(tag.id));
+  const trimmedQuery = normalizeTagName(query);
+  const canCreate = !!trimmedQuery && !tags.some(tag => tag.name.toLowerCase() === trimmedQuery.toLowerCase());
+
+  const addTag = async (name: string) => {
+    try {
+      const tag = await findOrCreateTag(name);
+      if (!assignedIds.has(tag.id)) {
+        await addTagsToDocuments([tag.id], [documentId]);
+        setDocumentTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setSuggestions(prev => prev.filter(suggestion => suggestion.toLowerCase() !== tag.name.toLowerCase()));
+      setQuery('');
+      setOpen(false);
+    } catch (error) {
+      console.error('Error adding tag:', error);
+      toast({
+        title: "Error adding tag",
+        description: error instanceof Error ? error.message : 'Failed to add tag',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeTag = async (tag: Tag) => {
+    try {
+      await removeTagsFromDocuments([tag.id], [documentId]);
+      setDocumentTags(prev => prev.filter(candidate => candidate.id !== tag.id));
+    } catch (error) {
+      console.error('Error removing tag:', error);
+      toast({
+        title: "Error removing tag",
+        description: error instanceof Error ? error.message : 'Failed to remove tag',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const suggestTags = async () => {
+    if (!user || !content.trim()) return;
+
+    setIsSuggesting(true);
+    try {
+      const classifyCommand: UnifiedCommand = {
+        id: 'temp-classify',
+        user_id: user.id,
+        name: 'Suggest Tags',
+        ai_model: 'gpt-5-nano-2025-08-07',
+        system_prompt: 'You classify documents. Respond with JSON only.',
+        prompt: 'Return a JSON object with "category" (Personal, Business, Creative, Technical, Academic, Blog, Notes or General) and "status" (draft, polished or final) for this document.',
+        max_tokens: 150,
+        temperature: 0.3,
+        function_name: 'ai-classify-document',
+        category: 'utility',
+        icon: 'tags',
+        sort_order: 0
+      };
+
+      const { data, error } = await supabase.functions.invoke('ai-classify-document', {
+        body: {
+          command: classifyCommand,
+          content,
+          userId: user.id
+        }
+      });
+
+      if (error) throw error;
+
+      const assignedNames = new Set(documentTags.map(tag => tag.name.toLowerCase()));
+      const suggested: string[] = (data?.result?.tags || [])
+        .filter((name: string) => !assignedNames.has(name.toLowerCase()));
+      setSuggestions(suggested);
+
+      if (suggested.length === 0) {
+        toast({
+          title: "No new tags suggested",
+          description: "The document already has the tags the AI would suggest.",
+        });
+      }
+    } catch (error) {
+      console.error('Error suggesting tags:', error);
+      toast({
+        title: "Error suggesting tags",
+        description: error instanceof Error ? error.message : 'Failed to suggest tags',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const rejectSuggestion = (name: string) => {
+    setSuggestions(prev => prev.filter(suggestion => suggestion !== name));
+  };
+
+  return (
+    <div className="flex items-center gap-1.5 flex-wrap">
+      {documentTags.map(tag => (
+        <Badge key={tag.id} variant="secondary" className="gap-1 pr-1 text-xs">
+          <span
+            className="w-2 h-2 rounded-full"
+            style={{ backgroundColor: tag.color || '#6B7280' }}
+          />
+          {tag.name}
+          <button
+            type="button"
+            onClick={() => removeTag(tag)}
+            className="rounded-sm opacity-60 hover:opacity-100"
+            aria-label={`Remove tag ${tag.name}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+
+      {suggestions.map(name => (
+        <Badge key={name} variant="outline" className="gap-1 pr-1 text-xs border-dashed text-muted-foreground">
+          {name}
+          <button
+            type="button"
+            onClick={() => addTag(name)}
+            className="rounded-sm hover:text-green-600"
+            aria-label={`Accept tag ${name}`}
+          >
+            <Check className="h-3 w-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => rejectSuggestion(name)}
+            className="rounded-sm hover:text-destructive"
+            aria-label={`Reject tag ${name}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground">
+            <Plus className="h-3 w-3 mr-1" />
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Find or create a tag..."
+              value={query}
+              onValueChange={setQuery}
+            />
+            <CommandList>
+              <CommandEmpty>No tags found.</CommandEmpty>
+              {availableTags.length > 0 && (
+                <CommandGroup heading="Tags">
+                  {availableTags.map(tag => (
+                    <CommandItem key={tag.id} value={tag.name} onSelect={() => addTag(tag.name)}>
+                      <span
+                        className="w-2 h-2 rounded-full mr-2"
+                        style={{ backgroundColor: tag.color || '#6B7280' }}
+                      />
+                      {tag.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {/* Highlighted when nothing else matches, so Enter creates the typed tag */}
+              {canCreate && (
+                <CommandGroup>
+                  <CommandItem value={`create ${trimmedQuery}`} onSelect={() => addTag(trimmedQuery)}>
+                    <Plus className="h-3 w-3 mr-2" />
+                    Create "{trimmedQuery}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={suggestTags}
+        disabled={isSuggesting || !content.trim()}
+        className="h-6 px-2 text-xs text-muted-foreground"
+        title="Suggest tags with AI"
+      >
+        {isSuggesting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Sparkles className="h-3 w-3" />}
+      </Button>
+    </div>
+  );
+}
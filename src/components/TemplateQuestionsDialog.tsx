@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MessageSquareText } from 'lucide-react';
+
+interface TemplateQuestionsDialogProps {
+  // The command waiting on answers, or null when closed
+  commandName: string | null;
+  questions: string[];
+  onSubmit: (answers: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+// Collects the answers to a command's {{ask:...}} placeholders before it runs
+export function TemplateQuestionsDialog({
+  commandName,
+  questions,
+  onSubmit,
+  onClose
+}: TemplateQuestionsDialogProps) {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (commandName) setAnswers({});
+  }, [commandName]);
+
+  const isComplete = questions.every(question => answers[question]?.trim());
+
+  const submit = () => {
+    if (!isComplete) return;
+    onSubmit(Object.fromEntries(questions.map(question => [question, answers[question].trim()])));
+  };
+
+  return (
+    <Dialog open={!!commandName} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquareText className="h-5 w-5" />
+            {commandName}
+          </DialogTitle>
+          <DialogDescription>This command needs a few details before it runs.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          {questions.map((question, index) => (
+            <div key={question} className="space-y-2">
+              <Label htmlFor={`template-question-${index}`}>{question}</Label>
+              <Input
+                id={`template-question-${index}`}
+                value={answers[question] ?? ''}
+                onChange={(e) => setAnswers(prev => ({ ...prev, [question]: e.target.value }))}
+                autoFocus={index === 0}
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2 pt-2">
+            <Button type="submit" disabled={!isComplete} className="flex-1">
+              Run Command
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { Check, CheckCheck, ChevronLeft, ChevronRight, GitCompare, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { TrackedChangesReview } from '@/hooks/useTrackedChanges';
+
+interface TrackedChangesBarProps {
+  review: TrackedChangesReview | null;
+  onAccept: (hunkId: number) => void;
+  onReject: (hunkId: number) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  onNavigate: (offset: number) => void;
+  className?: string;
+}
+
+const preview = (text: string) => (text.length > 80 ? `${text.slice(0, 80)}…` : text);
+
+// Steps through the tracked changes shown in the editor, one change at a time
+export function TrackedChangesBar({
+  review,
+  onAccept,
+  onReject,
+  onAcceptAll,
+  onRejectAll,
+  onNavigate,
+  className
+}: TrackedChangesBarProps) {
+  if (!review) return null;
+
+  const hunk = review.hunks[review.current];
+  const pending = review.hunks.filter(candidate => candidate.status === 'pending').length;
+
+  return (
+    <div
+      role="region"
+      aria-label="Review AI changes"
+      className={cn(
+        'flex flex-wrap items-center gap-3 rounded-lg border border-border/50 bg-surface/95 backdrop-blur-sm px-3 py-2 shadow-lg',
+        className
+      )}
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <GitCompare className="h-4 w-4 text-primary flex-shrink-0" />
+        <span className="font-medium">{review.label}</span>
+        <span className="text-muted-foreground tabular-nums">
+          {pending} of {review.hunks.length} change{review.hunks.length === 1 ? '' : 's'} left
+        </span>
+      </div>
+
+      <div className="flex min-w-0 flex-1 items-center gap-1 text-sm">
+        {hunk.removed && <del className="tracked-deletion truncate">{preview(hunk.removed)}</del>}
+        {hunk.inserted && <ins className="tracked-insertion truncate">{preview(hunk.inserted)}</ins>}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onNavigate(-1)} disabled={pending < 2} aria-label="Previous change">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onNavigate(1)} disabled={pending < 2} aria-label="Next change">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button size="sm" onClick={() => onAccept(hunk.id)}>
+          <Check className="h-4 w-4 mr-1" />
+          Accept
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onReject(hunk.id)}>
+          <X className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onAcceptAll}>
+          <CheckCheck className="h-4 w-4 mr-1" />
+          Accept All
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onRejectAll}>
+          Reject All
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, Loader2, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ChatConversation } from '@/hooks/useChatConversations';
+import { cn } from '@/lib/utils';
+
+interface ChatConversationListProps {
+  conversations: ChatConversation[];
+  activeConversationId: string | null;
+  isLoading: boolean;
+  onSelect: (conversationId: string) => void;
+  onNewChat: () => void;
+  onRename: (conversationId: string, title: string) => Promise<void>;
+  onDelete: (conversationId: string) => Promise<void>;
+}
+
+export function ChatConversationList({
+  conversations,
+  activeConversationId,
+  isLoading,
+  onSelect,
+  onNewChat,
+  onRename,
+  onDelete
+}: ChatConversationListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<ChatConversation | null>(null);
+
+  const startEditing = (conversation: ChatConversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const saveTitle = async () => {
+    const title = editingTitle.trim();
+    if (editingId && title) await onRename(editingId, title);
+    setEditingId(null);
+  };
+
+  const confirmDelete = async () => {
+    if (pendingDelete) await onDelete(pendingDelete.id);
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button variant="outline" size="sm" className="w-full" onClick={onNewChat}>
+        <Plus className="w-4 h-4 mr-2" />
+        New Chat
+      </Button>
+
+      {isLoading && conversations.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : conversations.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No saved conversations yet.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={cn(
+                "group flex items-center gap-2 rounded-lg px-3 py-2 transition-colors",
+                conversation.id === activeConversationId ? "bg-primary/10" : "hover:bg-muted"
+              )}
+            >
+              <MessageSquare className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+              {editingId === conversation.id ? (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveTitle();
+                  }}
+                >
+                  <Input
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    className="h-7 text-sm"
+                    autoFocus
+                  />
+                  <Button type="submit" variant="ghost" size="icon" className="h-7 w-7" aria-label="Save title">
+                    <Check className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setEditingId(null)}
+                    aria-label="Cancel rename"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <button className="flex-1 min-w-0 text-left" onClick={() => onSelect(conversation.id)}>
+                    <p className="text-sm font-medium truncate">{conversation.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(conversation.updated_at), { addSuffix: true })}
+                    </p>
+                  </button>
+                  <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => startEditing(conversation)}
+                      aria-label={`Rename ${conversation.title}`}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      onClick={() => setPendingDelete(conversation)}
+                      aria-label={`Delete ${conversation.title}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
-import { X, RotateCcw, Bot } from 'lucide-react';
+import { X, RotateCcw, Bot, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface ChatHeaderProps {
   onClose: () => void;
   onClearChat: () => void;
   messagesCount: number;
+  showHistory?: boolean;
+  onToggleHistory?: () => void;
 }
 
-export function ChatHeader({ onClose, onClearChat, messagesCount }: ChatHeaderProps) {
+export function ChatHeader({ onClose, onClearChat, messagesCount, showHistory = false, onToggleHistory }: ChatHeaderProps) {
   return (
     <div className="sticky top-0 z-50 glass-panel border-b border-border/20 backdrop-blur-xl">
       <div className="chat-container">
@@ -23,6 +25,17 @@ export function ChatHeader({ onClose, onClearChat, messagesCount }: ChatHeaderPr
           </div>
           
           <div className="flex items-center gap-2">
+            {onToggleHistory && (
+              <Button
+                variant={showHistory ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={onToggleHistory}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -1,11 +1,13 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, Mic, X, Plus } from 'lucide-react';
+import { Send, Mic, X, Plus, Square } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { useDevice } from '@/hooks/useDevice';
 import { useHaptics } from '@/hooks/useHaptics';
 import { useKeyboardViewport } from '@/hooks/useKeyboardViewport';
 import { cn } from '@/lib/utils';
+import { RateLimitState } from '@/hooks/useRateLimitCountdown';
+import { RateLimitNotice } from '@/components/RateLimitNotice';
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
@@ -14,6 +16,12 @@ interface ChatInputProps {
   placeholder?: string;
   suggestions?: string[];
   onSuggestionUse?: (suggestion: string) => void;
+  // When provided, the send button becomes a stop button while loading
+  onCancel?: () => void;
+  // Sending is paused, with a countdown, while set
+  rateLimit?: RateLimitState | null;
+  // Puts an unsent message back in the input; a new object each time
+  restoredMessage?: { text: string } | null;
 }
 
 export function ChatInput({ 
@@ -22,7 +30,10 @@ export function ChatInput({
   isLoading = false,
   placeholder = "Ask about your documents...",
   suggestions = [],
-  onSuggestionUse
+  onSuggestionUse,
+  onCancel,
+  rateLimit = null,
+  restoredMessage = null
 }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -32,14 +43,18 @@ export function ChatInput({
   const { impactLight } = useHaptics();
   const { isVisible: keyboardVisible } = useKeyboardViewport();
 
+  useEffect(() => {
+    if (restoredMessage) setMessage(restoredMessage.text);
+  }, [restoredMessage]);
+
   const handleSend = useCallback(() => {
-    if (message.trim() && !isLoading) {
+    if (message.trim() && !isLoading && !rateLimit) {
       onSendMessage(message.trim());
       setMessage('');
       setIsExpanded(false);
       impactLight();
     }
-  }, [message, isLoading, onSendMessage, impactLight]);
+  }, [message, isLoading, rateLimit, onSendMessage, impactLight]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
@@ -151,6 +166,7 @@ export function ChatInput({
         keyboardVisible && isMobile ? "pb-4" : "pb-safe-bottom"
       )}>
         <div className="chat-container">
+          <RateLimitNotice rateLimit={rateLimit} className="mb-2" />
           <div className={cn(
             "chat-input-glass rounded-2xl transition-all duration-300",
             isExpanded ? "p-4 ring-2 ring-primary/20" : "p-3"
@@ -198,17 +214,32 @@ export function ChatInput({
                   </Button>
                 )}
                 
-                <Button
-                  onClick={handleSend}
-                  disabled={!message.trim() || isLoading}
-                  size="icon"
-                  className={cn(
-                    "rounded-full shadow-lg hover:shadow-xl transition-all duration-200 touch-target",
-                    isMobile ? "h-12 w-12 min-h-[48px] min-w-[48px]" : "h-10 w-10"
-                  )}
-                >
-                  <Send className={isMobile ? "w-5 h-5" : "w-4 h-4"} />
-                </Button>
+                {isLoading && onCancel ? (
+                  <Button
+                    onClick={onCancel}
+                    variant="outline"
+                    size="icon"
+                    aria-label="Stop generating"
+                    className={cn(
+                      "rounded-full shadow-lg hover:shadow-xl transition-all duration-200 touch-target",
+                      isMobile ? "h-12 w-12 min-h-[48px] min-w-[48px]" : "h-10 w-10"
+                    )}
+                  >
+                    <Square className={isMobile ? "w-5 h-5" : "w-4 h-4"} />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSend}
+                    disabled={!message.trim() || isLoading || !!rateLimit}
+                    size="icon"
+                    className={cn(
+                      "rounded-full shadow-lg hover:shadow-xl transition-all duration-200 touch-target",
+                      isMobile ? "h-12 w-12 min-h-[48px] min-w-[48px]" : "h-10 w-10"
+                    )}
+                  >
+                    <Send className={isMobile ? "w-5 h-5" : "w-4 h-4"} />
+                  </Button>
+                )}
               </div>
             </div>
             
@@ -1,16 +1,16 @@
 import { Bot, User, FileText } from 'lucide-react';
+import { ChatSource } from '@/hooks/useChatConversations';
+import { Citation } from '@/utils/citations';
+import { CitedMessageContent } from './CitedMessageContent';
 
 interface ChatMessageProps {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  sources?: Array<{
-    id: string;
-    title: string;
-    similarity: number;
-  }>;
+  sources?: ChatSource[];
   timestamp: Date;
   onSourceClick?: (sourceId: string) => void;
+  onCitationClick?: (citation: Citation) => void;
   isStreaming?: boolean;
 }
 
@@ -19,6 +19,7 @@ export function ChatMessage({
   content, 
   sources, 
   onSourceClick, 
+  onCitationClick,
   isStreaming = false 
 }: ChatMessageProps) {
   return (
@@ -40,7 +41,9 @@ export function ChatMessage({
           role === 'user' ? 'message-bubble-user' : 'message-bubble-ai'
         }`}>
           <div className="text-sm leading-relaxed whitespace-pre-wrap">
-            {content}
+            {role === 'assistant' ? (
+              <CitedMessageContent content={content} sources={sources} onCitationClick={onCitationClick} />
+            ) : content}
             {isStreaming && (
               <span className="inline-block w-2 h-5 bg-current ml-1 animate-caret-blink" />
             )}
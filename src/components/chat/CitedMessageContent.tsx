@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import { ChatSource } from '@/hooks/useChatConversations';
+import { Citation, resolveCitations, splitCitations } from '@/utils/citations';
+
+interface CitedMessageContentProps {
+  content: string;
+  sources?: ChatSource[];
+  onCitationClick?: (citation: Citation) => void;
+}
+
+/**
+ * Renders an answer with its [n] markers as chips linked to the cited
+ * passages. Markers without a matching passage are left as plain text.
+ */
+export function CitedMessageContent({ content, sources, onCitationClick }: CitedMessageContentProps) {
+  const citations = useMemo(() => resolveCitations(sources), [sources]);
+  const segments = useMemo(() => splitCitations(content), [content]);
+
+  if (citations.size === 0) return <>{content}</>;
+
+  return (
+    <>
+      {segments.map((segment, index) => {
+        if (segment.type === 'text') return <span key={index}>{segment.text}</span>;
+
+        const citation = citations.get(segment.number);
+        if (!citation) return <span key={index}>[{segment.number}]</span>;
+
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onCitationClick?.(citation)}
+            title={`${citation.title}: ${citation.span.text?.slice(0, 160) ?? ''}`}
+            aria-label={`Open citation ${citation.number} in ${citation.title}`}
+            className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-text-top text-[10px] font-semibold rounded-full bg-primary/10 text-primary border border-primary/20 hover:bg-primary hover:text-primary-foreground transition-colors"
+          >
+            {citation.number}
+          </button>
+        );
+      })}
+    </>
+  );
+}
@@ -2,18 +2,21 @@ import { useState, useEffect, useRef } from 'react';
 import { ChatHeader } from './ChatHeader';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
+import { ChatConversationList } from './ChatConversationList';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useStreamingAI } from '@/hooks/useStreamingAI';
+import { useRateLimitCountdown } from '@/hooks/useRateLimitCountdown';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { ChatSource, useChatConversations } from '@/hooks/useChatConversations';
+import { Citation, CitedSpan } from '@/utils/citations';
+import { toFunctionError } from '@/utils/functionErrors';
 
 interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  sources?: Array<{
-    id: string;
-    title: string;
-    similarity: number;
-  }>;
+  sources?: ChatSource[];
   timestamp: Date;
 }
 
@@ -27,7 +30,8 @@ interface Document {
 interface FullScreenAIChatProps {
   isOpen: boolean;
   onClose: () => void;
-  onDocumentSelect?: (documentId: string) => void;
+  // Called with the cited span when opened from an inline citation
+  onDocumentSelect?: (documentId: string, span?: CitedSpan) => void;
   onVoiceInput?: () => void;
 }
 
@@ -39,7 +43,9 @@ export function FullScreenAIChat({
 }: FullScreenAIChatProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const [suggestions, setSuggestions] = useState<string[]>([
     "What are the main themes in my documents?",
     "Find documents about mythology",
@@ -48,7 +54,22 @@ export function FullScreenAIChat({
     "Extract key insights from selected documents"
   ]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const restoredRef = useRef(false);
   const { toast } = useToast();
+  const { settings } = useSettingsStore();
+  const { streamFunction, cancelStream } = useStreamingAI();
+  const { rateLimit, handleRateLimit } = useRateLimitCountdown();
+  const [restoredMessage, setRestoredMessage] = useState<{ text: string } | null>(null);
+  const {
+    conversations,
+    isLoadingConversations,
+    activeConversationId,
+    setActiveConversationId,
+    refreshConversations,
+    loadMessages,
+    renameConversation,
+    deleteConversation
+  } = useChatConversations();
 
   useEffect(() => {
     const fetchUserId = async () => {
@@ -58,6 +79,20 @@ export function FullScreenAIChat({
     fetchUserId();
   }, []);
 
+  // Restore the conversation that was open before the page was reloaded
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    if (!activeConversationId) return;
+
+    loadMessages(activeConversationId)
+      .then(setMessages)
+      .catch(error => {
+        console.error('Error restoring conversation:', error);
+        setActiveConversationId(null);
+      });
+  }, [activeConversationId, loadMessages, setActiveConversationId]);
+
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
@@ -86,6 +121,47 @@ export function FullScreenAIChat({
     return newMessage.id;
   };
 
+  const updateMessage = (id: string, updates: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...updates } : msg));
+  };
+
+  // The server creates the conversation on the first message and returns its id
+  const trackConversation = (conversationId?: string) => {
+    if (!conversationId || conversationId === activeConversationId) return;
+    setActiveConversationId(conversationId);
+    refreshConversations();
+  };
+
+  const streamReply = async (messageText: string) => {
+    const assistantId = addMessage({ role: 'assistant', content: '' });
+    setStreamingMessageId(assistantId);
+
+    try {
+      const outcome = await streamFunction<{ message: string; sources: ChatMessage['sources'] }>(
+        'ai-chat',
+        { message: messageText, userId, conversationId: activeConversationId },
+        {
+          onMeta: (meta) => {
+            updateMessage(assistantId, { sources: (meta.sources as ChatMessage['sources']) || [] });
+            trackConversation(meta.conversationId as string | undefined);
+          },
+          onToken: (_token, fullText) => updateMessage(assistantId, { content: fullText })
+        }
+      );
+
+      if (outcome.cancelled) {
+        updateMessage(assistantId, { content: outcome.text || 'Response cancelled.' });
+      } else if (outcome.data) {
+        updateMessage(assistantId, { content: outcome.data.message, sources: outcome.data.sources || [] });
+      }
+    } catch (error) {
+      setMessages(prev => prev.filter(msg => msg.id !== assistantId || msg.content));
+      throw error;
+    } finally {
+      setStreamingMessageId(null);
+    }
+  };
+
   const sendMessage = async (messageText: string) => {
     if (!userId) {
       toast({
@@ -96,22 +172,33 @@ export function FullScreenAIChat({
       return;
     }
 
-    addMessage({ role: 'user', content: messageText });
+    const userMessageId = addMessage({ role: 'user', content: messageText });
     setIsLoading(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke('ai-chat', {
-        body: { message: messageText, userId }
-      });
+      if (settings.streamAIResponses) {
+        await streamReply(messageText);
+      } else {
+        const { data, error } = await supabase.functions.invoke('ai-chat', {
+          body: { message: messageText, userId, conversationId: activeConversationId }
+        });
 
-      if (error) throw error;
+        if (error) throw await toFunctionError(error);
+        trackConversation(data.conversationId);
 
-      addMessage({
-        role: 'assistant',
-        content: data.response,
-        sources: data.sources || []
-      });
+        addMessage({
+          role: 'assistant',
+          content: data.message,
+          sources: data.sources || []
+        });
+      }
     } catch (error) {
+      if (handleRateLimit(error, 'AI chat')) {
+        // Nothing was answered; put the message back to send once the countdown ends
+        setMessages(prev => prev.filter(msg => msg.id !== userMessageId));
+        setRestoredMessage({ text: messageText });
+        return;
+      }
       console.error('Error sending message:', error);
       toast({
         title: "Chat Error",
@@ -145,6 +232,11 @@ export function FullScreenAIChat({
     }
   };
 
+  const handleCitationClick = (citation: Citation) => {
+    onDocumentSelect?.(citation.documentId, citation.span);
+    onClose();
+  };
+
   const handleVoiceInput = async () => {
     try {
       // Integrate with existing VoiceRecorder functionality
@@ -200,10 +292,56 @@ export function FullScreenAIChat({
   };
 
   const clearChat = () => {
+    cancelStream();
     setMessages([]);
+    setActiveConversationId(null);
+    setShowHistory(false);
     updateSuggestionsBasedOnContext();
   };
 
+  const openConversation = async (conversationId: string) => {
+    cancelStream();
+    try {
+      setMessages(await loadMessages(conversationId));
+      setActiveConversationId(conversationId);
+      setShowHistory(false);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      toast({
+        title: "Chat Error",
+        description: "Failed to load conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRenameConversation = async (conversationId: string, title: string) => {
+    try {
+      await renameConversation(conversationId, title);
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      toast({
+        title: "Chat Error",
+        description: "Failed to rename conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    try {
+      await deleteConversation(conversationId);
+      if (conversationId === activeConversationId) setMessages([]);
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      toast({
+        title: "Chat Error",
+        description: "Failed to delete conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Update suggestions when messages change
   useEffect(() => {
     updateSuggestionsBasedOnContext();
@@ -223,11 +361,23 @@ export function FullScreenAIChat({
           onClose={onClose}
           onClearChat={clearChat}
           messagesCount={messages.length}
+          showHistory={showHistory}
+          onToggleHistory={() => setShowHistory(prev => !prev)}
         />
         
         <div className="flex-1 overflow-y-auto">
           <div className="chat-container py-6">
-            {messages.length === 0 ? (
+            {showHistory ? (
+              <ChatConversationList
+                conversations={conversations}
+                activeConversationId={activeConversationId}
+                isLoading={isLoadingConversations}
+                onSelect={openConversation}
+                onNewChat={clearChat}
+                onRename={handleRenameConversation}
+                onDelete={handleDeleteConversation}
+              />
+            ) : messages.length === 0 ? (
               <div className="text-center py-16">
                 <div className="max-w-md mx-auto space-y-6">
                   <div className="p-4 rounded-2xl bg-primary/5 border border-primary/10 w-fit mx-auto">
@@ -243,14 +393,16 @@ export function FullScreenAIChat({
               </div>
             ) : (
               <div className="space-y-4">
-                {messages.map((message) => (
+                {messages.filter(message => message.content).map((message) => (
                   <ChatMessage
                     key={message.id}
                     {...message}
                     onSourceClick={handleSourceClick}
+                    onCitationClick={handleCitationClick}
+                    isStreaming={message.id === streamingMessageId}
                   />
                 ))}
-                {isLoading && (
+                {isLoading && !messages.some(message => message.id === streamingMessageId && message.content) && (
                   <ChatMessage
                     id="loading"
                     role="assistant"
@@ -272,6 +424,9 @@ export function FullScreenAIChat({
             isLoading={isLoading}
             suggestions={suggestions}
             onSuggestionUse={handleSuggestionUse}
+            onCancel={streamingMessageId ? cancelStream : undefined}
+            rateLimit={rateLimit}
+            restoredMessage={restoredMessage}
             placeholder="Ask about your documents or use voice input..."
           />
         </div>
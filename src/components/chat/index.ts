@@ -1,4 +1,6 @@
 export { ChatMessage } from './ChatMessage';
 export { ChatInput } from './ChatInput';
 export { ChatHeader } from './ChatHeader';
-export { FullScreenAIChat } from './FullScreenAIChat';
\ No newline at end of file
+export { FullScreenAIChat } from './FullScreenAIChat';
+export { ChatConversationList } from './ChatConversationList';
+export { CitedMessageContent } from './CitedMessageContent';
\ No newline at end of file
@@ -19,6 +19,7 @@ import {
 import { useFileUpload } from '../hooks/useFileUpload';
 import { BulkUploaderProps } from '../types/upload';
 import { FileListItem } from './FileListItem';
+import { SUPPORTED_FILE_TYPES } from '../utils/fileProcessor';
 
 
 export function BulkUploader({ onUploadComplete, onDocumentAdded, onClose }: BulkUploaderProps) {
@@ -124,7 +125,7 @@ export function BulkUploader({ onUploadComplete, onDocumentAdded, onClose }: Bul
             Bulk Document Upload
           </CardTitle>
           <CardDescription>
-            Drag and drop files here or click to select. Supports .txt and .md files up to 10MB each.
+            Drag and drop files here or click to select. Supports text, Markdown, HTML, Word, PDF, RTF and EPUB files up to 10MB each.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -149,7 +150,7 @@ export function BulkUploader({ onUploadComplete, onDocumentAdded, onClose }: Bul
                 id="file-upload"
                 className="hidden"
                 multiple
-                accept=".txt,.md"
+                accept={SUPPORTED_FILE_TYPES.join(',')}
                 onChange={handleFileSelect}
                 disabled={uploadState.isUploading}
               />
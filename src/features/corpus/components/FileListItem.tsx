@@ -79,6 +79,12 @@ const FileListItem = memo(({ file, isUploading, onRetry, showSeparator }: FileLi
                 {file.error}
               </p>
             )}
+            {file.warnings?.map(warning => (
+              <p key={warning} className="text-xs text-amber-600 mt-1 flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 shrink-0" />
+                {warning}
+              </p>
+            ))}
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -3,7 +3,8 @@ import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { UploadFile, UploadState, UploadResult, UploadError } from '../types/upload';
-import { readFileAsText, validateFile, BATCH_SIZE } from '../utils/fileProcessor';
+import { validateFile, BATCH_SIZE } from '../utils/fileProcessor';
+import { extractFileContent } from '../utils/extractors';
 
 const RETRY_ATTEMPTS = 3;
 const RETRY_DELAY = 1000;
@@ -31,6 +32,15 @@ export function useFileUpload() {
     }));
   }, []);
 
+  const updateFileWarnings = useCallback((fileId: string, warnings: string[]) => {
+    setUploadState(prev => ({
+      ...prev,
+      files: prev.files.map(file =>
+        file.id === fileId ? { ...file, warnings } : file
+      )
+    }));
+  }, []);
+
   const updateOverallProgress = useCallback(() => {
     setUploadState(prev => {
       const completedCount = prev.files.filter(f => f.status === 'complete').length;
@@ -61,8 +71,9 @@ export function useFileUpload() {
 
       updateFileStatus(uploadFile.id, 'uploading');
       
-      // Read file content
-      const content = await readFileAsText(uploadFile.file);
+      // Extract text with the importer for this file type
+      const { content, warnings } = await extractFileContent(uploadFile.file);
+      updateFileWarnings(uploadFile.id, warnings);
       
       if (!content.trim()) {
         throw new Error('File is empty or contains no readable text');
@@ -4,9 +4,23 @@ export interface UploadFile {
   status: 'queued' | 'uploading' | 'processing' | 'complete' | 'error';
   progress: number;
   error?: string;
+  // Non-fatal problems found while extracting text (e.g. skipped images)
+  warnings?: string[];
   documentId?: string;
 }
 
+export interface ExtractionResult {
+  // Markdown-flavoured text ready for process-uploaded-document
+  content: string;
+  warnings: string[];
+}
+
+export interface FileExtractor {
+  // Lower-case extensions including the dot, e.g. '.docx'
+  extensions: string[];
+  extract: (file: File) => Promise<ExtractionResult>;
+}
+
 export interface UploadState {
   files: UploadFile[];
   overallProgress: number;
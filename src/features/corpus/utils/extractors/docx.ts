@@ -0,0 +1,26 @@
+import { FileExtractor } from '../../types/upload';
+import { htmlToMarkdown, parseHtml } from './htmlToMarkdown';
+
+export const docxExtractor: FileExtractor = {
+  extensions: ['.docx'],
+  async extract(file) {
+    // Loaded on demand so the converter only ships when a Word file is imported
+    const { default: mammoth } = await import('mammoth');
+
+    // Word heading styles map to <h1>-<h6>; images are dropped rather than inlined as data URIs
+    const result = await mammoth.convertToHtml(
+      { arrayBuffer: await file.arrayBuffer() },
+      { convertImage: mammoth.images.imgElement(async () => ({ src: '' })) }
+    );
+
+    const { content, warnings } = htmlToMarkdown(parseHtml(result.value).body);
+    const conversionWarnings = result.messages
+      .filter(message => message.type === 'warning')
+      .map(message => message.message);
+
+    return {
+      content,
+      warnings: [...warnings, ...new Set(conversionWarnings)]
+    };
+  }
+};
@@ -0,0 +1,75 @@
+import { FileExtractor } from '../../types/upload';
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+const XHTML_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+
+function parseXml(xml: string, type: DOMParserSupportedType = 'application/xml'): Document {
+  return new DOMParser().parseFromString(xml, type);
+}
+
+// Resolves a manifest href against the directory of the package (OPF) file
+function resolvePath(base: string, href: string): string {
+  const parts = (base ? `${base}/${decodeURIComponent(href)}` : decodeURIComponent(href)).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+export const epubExtractor: FileExtractor = {
+  extensions: ['.epub'],
+  async extract(file) {
+    // Loaded on demand so the unzipper only ships when an EPUB is imported
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const warnings = new Set<string>();
+
+    if (zip.file('META-INF/encryption.xml')) {
+      warnings.add('This EPUB contains encrypted (DRM-protected) content, which may not be readable.');
+    }
+
+    const container = await zip.file('META-INF/container.xml')?.async('string');
+    const packagePath = container && parseXml(container).querySelector('rootfile')?.getAttribute('full-path');
+    if (!packagePath) {
+      throw new Error('File is not a valid EPUB: missing package document');
+    }
+
+    const packageXml = await zip.file(packagePath)?.async('string');
+    if (!packageXml) {
+      throw new Error('File is not a valid EPUB: package document not found');
+    }
+
+    const opf = parseXml(packageXml);
+    const baseDir = packagePath.includes('/') ? packagePath.slice(0, packagePath.lastIndexOf('/')) : '';
+
+    const manifest = new Map<string, { href: string; mediaType: string }>();
+    opf.querySelectorAll('manifest > item').forEach(item => {
+      const id = item.getAttribute('id');
+      const href = item.getAttribute('href');
+      if (id && href) manifest.set(id, { href, mediaType: item.getAttribute('media-type') || '' });
+    });
+
+    // Chapters are read in spine (reading) order
+    const chapters: string[] = [];
+    for (const itemref of Array.from(opf.querySelectorAll('spine > itemref'))) {
+      const entry = manifest.get(itemref.getAttribute('idref') || '');
+      if (!entry || !XHTML_TYPES.has(entry.mediaType)) continue;
+
+      const chapterFile = await zip.file(resolvePath(baseDir, entry.href))?.async('string');
+      if (!chapterFile) {
+        warnings.add('Some chapters listed in the EPUB could not be found and were skipped.');
+        continue;
+      }
+
+      // Chapters are XHTML, but parsing as HTML tolerates the malformed markup common in the wild
+      const chapter = parseXml(chapterFile, 'text/html');
+      const { content, warnings: chapterWarnings } = htmlToMarkdown(chapter.body);
+      chapterWarnings.forEach(warning => warnings.add(warning));
+      if (content) chapters.push(content);
+    }
+
+    return { content: chapters.join('\n\n---\n\n'), warnings: [...warnings] };
+  }
+};
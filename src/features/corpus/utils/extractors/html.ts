@@ -0,0 +1,10 @@
+import { FileExtractor } from '../../types/upload';
+import { htmlToMarkdown, parseHtml } from './htmlToMarkdown';
+
+export const htmlExtractor: FileExtractor = {
+  extensions: ['.html', '.htm'],
+  async extract(file) {
+    const html = parseHtml(await file.text());
+    return htmlToMarkdown(html.body);
+  }
+};
@@ -0,0 +1,190 @@
+// Converts an HTML tree (from HTML files, Word documents or EPUB chapters)
+// into Markdown, keeping headings, lists, quotes and emphasis.
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'iframe', 'object']);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+class MarkdownConverter {
+  private readonly warnings = new Set<string>();
+
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  convert(root: Element): string {
+    return this.blocks(root)
+      .join('\n\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private isBlock(node: Node): node is Element {
+    return node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName.toLowerCase());
+  }
+
+  // Wraps text in an emphasis marker, keeping surrounding spaces outside it
+  private emphasize(text: string, marker: string): string {
+    if (!text.trim()) return text;
+    const [, leading, body, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return `${leading}${marker}${body}${marker}${trailing}`;
+  }
+
+  private inline(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return (node.textContent || '').replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return '';
+
+    switch (tag) {
+      case 'br':
+        return '\n';
+      case 'img':
+        this.warnings.add('Images were skipped; only text was imported.');
+        return element.getAttribute('alt') ? ` ${element.getAttribute('alt')} ` : '';
+    }
+
+    const content = Array.from(element.childNodes).map(child => this.inline(child)).join('');
+
+    switch (tag) {
+      case 'strong':
+      case 'b':
+        return this.emphasize(content, '**');
+      case 'em':
+      case 'i':
+        return this.emphasize(content, '*');
+      case 'code':
+        return content.trim() ? `\`${content}\`` : content;
+      case 'a': {
+        const href = element.getAttribute('href') || '';
+        return /^https?:\/\//.test(href) && content.trim() ? `[${content.trim()}](${href})` : content;
+      }
+      default:
+        return content;
+    }
+  }
+
+  private inlineText(element: Element): string {
+    return Array.from(element.childNodes)
+      .map(child => this.inline(child))
+      .join('')
+      .split('\n')
+      .map(line => line.trim())
+      .join('\n')
+      .trim();
+  }
+
+  private blocks(element: Element): string[] {
+    const blocks: string[] = [];
+    let pending = '';
+
+    const flush = () => {
+      const text = pending.split('\n').map(line => line.trim()).join('\n').trim();
+      if (text) blocks.push(text);
+      pending = '';
+    };
+
+    for (const child of Array.from(element.childNodes)) {
+      if (this.isBlock(child)) {
+        flush();
+        blocks.push(...this.block(child));
+      } else {
+        pending += this.inline(child);
+      }
+    }
+    flush();
+
+    return blocks;
+  }
+
+  private block(element: Element): string[] {
+    const tag = element.tagName.toLowerCase();
+
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      const text = this.inlineText(element).replace(/\s+/g, ' ').replace(/\*\*/g, '');
+      return text ? [`${'#'.repeat(Number(heading[1]))} ${text}`] : [];
+    }
+
+    switch (tag) {
+      case 'p':
+      case 'dt':
+      case 'figcaption': {
+        const text = this.inlineText(element);
+        return text ? [text] : [];
+      }
+      case 'ul':
+      case 'ol': {
+        const list = this.list(element, 0);
+        return list ? [list] : [];
+      }
+      case 'blockquote':
+        return [this.blocks(element).map(block => block.split('\n').map(line => `> ${line}`).join('\n')).join('\n>\n')];
+      case 'pre':
+        return [`\`\`\`\n${(element.textContent || '').replace(/\n$/, '')}\n\`\`\``];
+      case 'hr':
+        return ['---'];
+      case 'table':
+        return [this.table(element)];
+      default:
+        return this.blocks(element);
+    }
+  }
+
+  private list(list: Element, depth: number): string {
+    const ordered = list.tagName.toLowerCase() === 'ol';
+    const lines: string[] = [];
+    let number = Number(list.getAttribute('start')) || 1;
+
+    for (const item of Array.from(list.children)) {
+      if (item.tagName.toLowerCase() !== 'li') continue;
+
+      const nested: Element[] = [];
+      let text = '';
+      for (const child of Array.from(item.childNodes)) {
+        const childTag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).tagName.toLowerCase() : '';
+        if (childTag === 'ul' || childTag === 'ol') {
+          nested.push(child as Element);
+        } else if (this.isBlock(child)) {
+          text += ` ${this.inlineText(child)}`;
+        } else {
+          text += this.inline(child);
+        }
+      }
+
+      const marker = ordered ? `${number++}.` : '-';
+      lines.push(`${'  '.repeat(depth)}${marker} ${text.replace(/\s+/g, ' ').trim()}`);
+      nested.forEach(child => lines.push(this.list(child, depth + 1)));
+    }
+
+    return lines.join('\n');
+  }
+
+  private table(table: Element): string {
+    this.warnings.add('Tables were flattened to rows of text separated by "|".');
+    return Array.from(table.querySelectorAll('tr'))
+      .map(row => Array.from(row.children)
+        .map(cell => this.inlineText(cell).replace(/\s+/g, ' '))
+        .join(' | '))
+      .filter(row => row.replace(/[|\s]/g, ''))
+      .join('\n');
+  }
+}
+
+export function htmlToMarkdown(root: Element): { content: string; warnings: string[] } {
+  const converter = new MarkdownConverter();
+  const content = converter.convert(root);
+  return { content, warnings: converter.getWarnings() };
+}
+
+export function parseHtml(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
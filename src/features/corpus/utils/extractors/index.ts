@@ -0,0 +1,42 @@
+import { ExtractionResult, FileExtractor } from '../../types/upload';
+import { docxExtractor } from './docx';
+import { epubExtractor } from './epub';
+import { htmlExtractor } from './html';
+import { pdfExtractor } from './pdf';
+import { plainTextExtractor } from './plainText';
+import { rtfExtractor } from './rtf';
+
+// To support another format, add an extractor here; upload validation follows automatically
+const EXTRACTORS: FileExtractor[] = [
+  plainTextExtractor,
+  htmlExtractor,
+  docxExtractor,
+  pdfExtractor,
+  rtfExtractor,
+  epubExtractor
+];
+
+export const SUPPORTED_EXTENSIONS = EXTRACTORS.flatMap(extractor => extractor.extensions);
+
+function getExtractor(fileName: string): FileExtractor | undefined {
+  const lastDotIndex = fileName.lastIndexOf('.');
+  const extension = lastDotIndex !== -1 ? fileName.substring(lastDotIndex).toLowerCase() : '';
+  return EXTRACTORS.find(extractor => extractor.extensions.includes(extension));
+}
+
+export async function extractFileContent(file: File): Promise<ExtractionResult> {
+  const extractor = getExtractor(file.name);
+  if (!extractor) {
+    throw new Error(`No importer available for ${file.name}`);
+  }
+
+  const { content, warnings } = await extractor.extract(file);
+  return {
+    content: content
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+    warnings
+  };
+}
@@ -0,0 +1,143 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { FileExtractor } from '../../types/upload';
+
+interface PdfLine {
+  text: string;
+  size: number;
+  y: number;
+  page: number;
+}
+
+const BULLET = /^[•◦▪▫●○■□–·]\s*/;
+// Fewer characters than this per page suggests a scanned, image-only PDF
+const MIN_CHARS_PER_PAGE = 20;
+
+function groupLines(items: TextItem[], page: number): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+
+  for (const item of items) {
+    const size = Math.abs(item.transform[3]) || Math.abs(item.transform[0]);
+    const y = item.transform[5];
+
+    if (!current || Math.abs(current.y - y) > size * 0.5) {
+      if (current) lines.push(current);
+      current = { text: '', size: 0, y, page };
+    }
+
+    current.text += item.str;
+    if (item.str.trim()) current.size = Math.max(current.size, size);
+
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text);
+}
+
+// The most common font size, weighted by characters, is taken as body text
+function bodyFontSize(lines: PdfLine[]): number {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size);
+    weights.set(size, (weights.get(size) || 0) + line.text.length);
+  }
+  return [...weights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 12;
+}
+
+function linesToMarkdown(lines: PdfLine[]): { content: string; headingCount: number } {
+  const bodySize = bodyFontSize(lines);
+
+  // Distinct sizes noticeably larger than body text become heading levels, largest first
+  const headingSizes = [...new Set(lines
+    .filter(line => line.size >= bodySize * 1.15 && line.text.length <= 120)
+    .map(line => Math.round(line.size)))]
+    .sort((a, b) => b - a)
+    .slice(0, 3);
+
+  const blocks: string[] = [];
+  let paragraph = '';
+  let previous: PdfLine | null = null;
+  let headingCount = 0;
+
+  const flush = () => {
+    if (paragraph.trim()) blocks.push(paragraph.trim());
+    paragraph = '';
+  };
+
+  for (const line of lines) {
+    const level = line.text.length <= 120 ? headingSizes.indexOf(Math.round(line.size)) : -1;
+    if (level !== -1) {
+      flush();
+      blocks.push(`${'#'.repeat(level + 1)} ${line.text}`);
+      headingCount++;
+      previous = null;
+      continue;
+    }
+
+    if (BULLET.test(line.text)) {
+      flush();
+      paragraph = `- ${line.text.replace(BULLET, '')}`;
+      previous = line;
+      continue;
+    }
+
+    // A page change or a gap wider than the usual line spacing starts a new paragraph
+    const gap = previous && previous.page === line.page ? previous.y - line.y : Infinity;
+    if (!previous || gap > line.size * 1.8) {
+      flush();
+      paragraph = line.text;
+    } else if (paragraph.endsWith('-') && /^[a-z]/.test(line.text)) {
+      // Re-join words hyphenated across lines
+      paragraph = paragraph.slice(0, -1) + line.text;
+    } else {
+      paragraph += ` ${line.text}`;
+    }
+    previous = line;
+  }
+  flush();
+
+  return { content: blocks.join('\n\n'), headingCount };
+}
+
+export const pdfExtractor: FileExtractor = {
+  extensions: ['.pdf'],
+  async extract(file) {
+    // pdf.js and its worker are loaded on demand so they only ship when a PDF is imported
+    const pdfjs = await import('pdfjs-dist');
+    const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+    const warnings: string[] = [];
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+    try {
+      const lines: PdfLine[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+        const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+        lines.push(...groupLines(items, pageNumber));
+      }
+
+      const characters = lines.reduce((sum, line) => sum + line.text.length, 0);
+      if (characters < pdf.numPages * MIN_CHARS_PER_PAGE) {
+        warnings.push('Little or no text was found. This PDF may be scanned images, which are not read.');
+      }
+
+      const { content, headingCount } = linesToMarkdown(lines);
+      if (headingCount > 0) {
+        warnings.push('Headings were inferred from font sizes; check the structure after import.');
+      }
+
+      return { content, warnings };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+};
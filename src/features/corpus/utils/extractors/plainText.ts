@@ -0,0 +1,12 @@
+import { FileExtractor } from '../../types/upload';
+
+export const plainTextExtractor: FileExtractor = {
+  extensions: ['.txt', '.md', '.markdown'],
+  async extract(file) {
+    const content = await file.text();
+    const warnings = content.includes('�')
+      ? ['Some characters could not be decoded. The file may not be UTF-8 encoded.']
+      : [];
+    return { content, warnings };
+  }
+};
@@ -0,0 +1,317 @@
+import { FileExtractor } from '../../types/upload';
+
+// Groups whose text is never document content
+const IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'object', 'themedata', 'colorschememapping',
+  'datastore', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl',
+  'mmathPr', 'fldinst', 'pgdsctbl', 'revtbl'
+]);
+
+const CP1252 = new TextDecoder('windows-1252');
+
+interface GroupState {
+  ignore: boolean;
+  bold: boolean;
+  italic: boolean;
+  // Bullet or number text that Word writes before each list paragraph
+  listText: boolean;
+  // Characters to skip after a \u escape
+  unicodeSkip: number;
+}
+
+/**
+ * A small RTF reader: follows group state for bold and italics, maps Word's
+ * heading styles (and \outlinelevel) to Markdown headings, and turns list
+ * markers into "-" or "1." items.
+ */
+class RtfReader {
+  // Consecutive list items and table rows are kept on adjacent lines
+  private readonly paragraphs: { text: string; kind: 'text' | 'list' | 'row' }[] = [];
+  private readonly warnings = new Set<string>();
+  // Style number -> heading level, read from the stylesheet
+  private readonly headingStyles = new Map<number, number>();
+
+  private text = '';
+  private headingLevel = 0;
+  private listMarker = '';
+  private pendingStyle: number | null = null;
+  private styleName = '';
+  private inStylesheet = 0;
+  private skip = 0;
+
+  // Emphasis currently open in `text`
+  private openBold = false;
+  private openItalic = false;
+
+  constructor(private readonly source: string) {}
+
+  read(): { content: string; warnings: string[] } {
+    this.parse();
+    this.endParagraph();
+    const content = this.paragraphs
+      .map((paragraph, index) => {
+        const previous = this.paragraphs[index - 1];
+        const tight = previous && paragraph.kind !== 'text' && previous.kind === paragraph.kind;
+        return `${index === 0 ? '' : tight ? '\n' : '\n\n'}${paragraph.text}`;
+      })
+      .join('');
+
+    return {
+      content,
+      warnings: [...this.warnings]
+    };
+  }
+
+  private parse() {
+    const stack: GroupState[] = [];
+    let state: GroupState = { ignore: false, bold: false, italic: false, listText: false, unicodeSkip: 1 };
+    const src = this.source;
+    let i = 0;
+
+    while (i < src.length) {
+      const char = src[i];
+
+      if (char === '{') {
+        stack.push(state);
+        state = { ...state };
+        if (this.inStylesheet) this.inStylesheet++;
+        i++;
+        continue;
+      }
+
+      if (char === '}') {
+        if (this.inStylesheet) {
+          this.inStylesheet--;
+          if (this.inStylesheet === 1) this.finishStyle();
+        }
+        state = stack.pop() ?? state;
+        i++;
+        continue;
+      }
+
+      if (char === '\\') {
+        const next = src[i + 1];
+
+        // Escaped literal characters
+        if (next === '\\' || next === '{' || next === '}') {
+          this.emit(next, state);
+          i += 2;
+          continue;
+        }
+
+        // Hex-encoded Windows-1252 byte
+        if (next === "'") {
+          const byte = parseInt(src.substr(i + 2, 2), 16);
+          if (!Number.isNaN(byte)) this.emit(CP1252.decode(new Uint8Array([byte])), state);
+          i += 4;
+          continue;
+        }
+
+        // Ignorable destination: {\*\destination ...}
+        if (next === '*') {
+          state.ignore = true;
+          i += 2;
+          continue;
+        }
+
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(src.slice(i + 1, i + 40));
+        if (!match) {
+          // Control symbols like \~ (non-breaking space) or \- (optional hyphen)
+          if (next === '~') this.emit(' ', state);
+          i += 2;
+          continue;
+        }
+
+        i += 1 + match[0].length;
+        this.control(match[1], match[2] === undefined ? null : Number(match[2]), state);
+        continue;
+      }
+
+      if (char === '\r' || char === '\n') {
+        i++;
+        continue;
+      }
+
+      this.emit(char, state);
+      i++;
+    }
+  }
+
+  private control(word: string, param: number | null, state: GroupState) {
+    if (IGNORED_DESTINATIONS.has(word)) {
+      if (word === 'pict' || word === 'object') this.warnings.add('Embedded images and objects were skipped.');
+      if (word === 'stylesheet') {
+        this.inStylesheet = 1;
+        return;
+      }
+      state.ignore = true;
+      return;
+    }
+
+    switch (word) {
+      case 'par':
+        if (!state.ignore) this.endParagraph();
+        break;
+      case 'line':
+        this.emit('\n', state);
+        break;
+      case 'tab':
+        this.emit(state.listText ? ' ' : '\t', state);
+        break;
+      case 'cell':
+        this.emit(' | ', state);
+        this.warnings.add('Tables were flattened to rows of text separated by "|".');
+        break;
+      case 'row':
+        if (!state.ignore) this.endParagraph('row');
+        break;
+      case 'pard':
+        this.headingLevel = 0;
+        break;
+      case 's':
+        if (this.inStylesheet) {
+          this.pendingStyle = param ?? 0;
+          this.styleName = '';
+        } else if (param !== null && this.headingStyles.has(param)) {
+          this.headingLevel = this.headingStyles.get(param)!;
+        }
+        break;
+      case 'outlinelevel':
+        if (param !== null && param < 6) this.headingLevel = param + 1;
+        break;
+      case 'b':
+        state.bold = param !== 0;
+        break;
+      case 'i':
+        state.italic = param !== 0;
+        break;
+      case 'plain':
+        state.bold = false;
+        state.italic = false;
+        break;
+      case 'listtext':
+      case 'pntext':
+        state.listText = true;
+        break;
+      case 'uc':
+        state.unicodeSkip = param ?? 1;
+        break;
+      case 'u':
+        if (param !== null) {
+          this.emit(String.fromCharCode(param < 0 ? param + 65536 : param), state);
+          this.skip = state.unicodeSkip;
+        }
+        break;
+      case 'emdash':
+        this.emit('—', state);
+        break;
+      case 'endash':
+        this.emit('–', state);
+        break;
+      case 'bullet':
+        this.emit('•', state);
+        break;
+      case 'lquote':
+        this.emit('‘', state);
+        break;
+      case 'rquote':
+        this.emit('’', state);
+        break;
+      case 'ldblquote':
+        this.emit('“', state);
+        break;
+      case 'rdblquote':
+        this.emit('”', state);
+        break;
+    }
+  }
+
+  private emit(value: string, state: GroupState) {
+    // Fallback characters that follow a \u escape
+    if (this.skip > 0) {
+      this.skip--;
+      return;
+    }
+
+    if (this.inStylesheet) {
+      if (this.pendingStyle !== null && !state.ignore) this.styleName += value;
+      return;
+    }
+    if (state.ignore) return;
+
+    if (state.listText) {
+      this.listMarker += value;
+      return;
+    }
+
+    // Headings carry no emphasis of their own in Markdown
+    const bold = state.bold && this.headingLevel === 0;
+    const italic = state.italic && this.headingLevel === 0;
+    if (value.trim()) {
+      if ((this.openItalic && !italic) || (this.openBold && !bold)) {
+        this.closeEmphasis(bold, italic);
+      }
+      if (bold && !this.openBold) { this.text += '**'; this.openBold = true; }
+      if (italic && !this.openItalic) { this.text += '*'; this.openItalic = true; }
+    }
+    this.text += value;
+  }
+
+  // Closes emphasis that is no longer active, keeping trailing spaces outside the markers
+  private closeEmphasis(keepBold = false, keepItalic = false) {
+    const trailing = this.text.match(/\s*$/)![0];
+    this.text = this.text.slice(0, this.text.length - trailing.length);
+    // Italic is always opened inside bold, so it has to close first
+    if (this.openItalic && (!keepItalic || !keepBold)) {
+      this.text += '*';
+      this.openItalic = false;
+    }
+    if (this.openBold && !keepBold) {
+      this.text += '**';
+      this.openBold = false;
+    }
+    this.text += trailing;
+  }
+
+  private endParagraph(kind: 'text' | 'row' = 'text') {
+    this.closeEmphasis();
+    const text = this.text.replace(/[ \t]+/g, ' ').trim();
+
+    if (text) {
+      const marker = this.listMarker.trim();
+      if (kind === 'row') {
+        this.paragraphs.push({ text: text.replace(/\s*\|$/, ''), kind });
+      } else if (this.headingLevel > 0) {
+        this.paragraphs.push({ text: `${'#'.repeat(this.headingLevel)} ${text}`, kind });
+      } else if (marker) {
+        const number = marker.match(/^(\d+)[.)]?$/);
+        this.paragraphs.push({ text: `${number ? `${number[1]}.` : '-'} ${text}`, kind: 'list' });
+      } else {
+        this.paragraphs.push({ text, kind });
+      }
+    }
+
+    this.text = '';
+    this.listMarker = '';
+  }
+
+  private finishStyle() {
+    if (this.pendingStyle === null) return;
+    const heading = this.styleName.replace(/;$/, '').trim().match(/^heading\s*([1-6])$/i);
+    if (heading) this.headingStyles.set(this.pendingStyle, Number(heading[1]));
+    this.pendingStyle = null;
+    this.styleName = '';
+  }
+}
+
+export const rtfExtractor: FileExtractor = {
+  extensions: ['.rtf'],
+  async extract(file) {
+    const source = await file.text();
+    if (!source.startsWith('{\\rtf')) {
+      throw new Error('File is not a valid RTF document');
+    }
+    return new RtfReader(source).read();
+  }
+};
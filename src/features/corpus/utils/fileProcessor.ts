@@ -1,6 +1,8 @@
+import { SUPPORTED_EXTENSIONS } from './extractors';
+
 export const BATCH_SIZE = 5;
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-export const SUPPORTED_FILE_TYPES = ['.txt', '.md'];
+export const SUPPORTED_FILE_TYPES = SUPPORTED_EXTENSIONS;
 
 export function validateFile(file: File): { valid: boolean; error?: string } {
   // Check file size
@@ -12,11 +14,11 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   }
 
   // Check file type
-  const fileExtension = getFileExtension(file.name);
+  const fileExtension = getFileExtension(file.name).toLowerCase();
   if (!SUPPORTED_FILE_TYPES.includes(fileExtension)) {
     return {
       valid: false,
-      error: `File type ${fileExtension} not supported. Only .txt and .md files are allowed.`
+      error: `File type ${fileExtension || '(none)'} not supported. Supported types: ${SUPPORTED_FILE_TYPES.join(', ')}.`
     };
   }
 
@@ -31,27 +33,6 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   return { valid: true };
 }
 
-export function readFileAsText(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
-      const content = event.target?.result;
-      if (typeof content === 'string') {
-        resolve(content);
-      } else {
-        reject(new Error('Failed to read file as text'));
-      }
-    };
-    
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'));
-    };
-    
-    reader.readAsText(file);
-  });
-}
-
 export function generateFileId(): string {
   return crypto.randomUUID();
 }
@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, Loader2 } from 'lucide-react';
+import { useDocumentExport } from '../hooks/useDocumentExport';
+import { EXPORT_FORMAT_LABELS, ExportableDocument, ExportFormat } from '../types/export';
+
+interface ExportMenuProps {
+  // Resolved when a format is picked, so callers can pass the latest editor state
+  getDocuments: () => ExportableDocument[];
+  variant?: 'icon' | 'button';
+  label?: string;
+  disabled?: boolean;
+  className?: string;
+  onExported?: (format: ExportFormat) => void;
+}
+
+const FORMATS: ExportFormat[] = ['pdf', 'docx', 'md', 'txt'];
+
+export function ExportMenu({
+  getDocuments,
+  variant = 'icon',
+  label = 'Export',
+  disabled = false,
+  className,
+  onExported
+}: ExportMenuProps) {
+  const { exportDocuments, defaultFormat, isExporting } = useDocumentExport();
+
+  const handleExport = async (format: ExportFormat) => {
+    const exported = await exportDocuments(getDocuments(), format);
+    if (exported) onExported?.(format);
+  };
+
+  const Icon = isExporting ? Loader2 : Download;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size={variant === 'icon' ? 'icon' : 'sm'}
+          disabled={disabled || isExporting}
+          className={className}
+          title={label}
+          // Keep clicks from reaching cards and other clickable parents
+          onClick={(e) => e.stopPropagation()}
+          onPointerDown={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <Icon className={`h-4 w-4 ${isExporting ? 'animate-spin' : ''}`} />
+          {variant === 'button' && <span className="ml-2">{label}</span>}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExport(defaultFormat)}>
+          {EXPORT_FORMAT_LABELS[defaultFormat]}
+          <span className="ml-auto pl-4 text-xs text-muted-foreground">Default</span>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        {FORMATS.filter(format => format !== defaultFormat).map(format => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
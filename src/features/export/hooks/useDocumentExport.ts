@@ -0,0 +1,50 @@
+import { useCallback, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { EXPORT_FORMAT_LABELS, ExportableDocument, ExportFormat } from '../types/export';
+import { downloadBlob, exportFileName, renderExport } from '../utils/exportDocuments';
+
+export function useDocumentExport() {
+  const { toast } = useToast();
+  const defaultFormat = useSettingsStore(state => state.settings.exportFormat);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  // Uses the exportFormat setting unless a format is given explicitly
+  const exportDocuments = useCallback(async (
+    documents: ExportableDocument[],
+    exportFormat: ExportFormat = defaultFormat
+  ) => {
+    if (documents.length === 0) return false;
+
+    setExportingFormat(exportFormat);
+    try {
+      const blob = await renderExport(documents, exportFormat);
+      downloadBlob(blob, exportFileName(documents, exportFormat));
+
+      toast({
+        title: "Export complete",
+        description: documents.length === 1
+          ? `"${documents[0].title}" exported as ${EXPORT_FORMAT_LABELS[exportFormat]}.`
+          : `${documents.length} documents exported as ${EXPORT_FORMAT_LABELS[exportFormat]}.`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setExportingFormat(null);
+    }
+  }, [defaultFormat, toast]);
+
+  return {
+    exportDocuments,
+    defaultFormat,
+    exportingFormat,
+    isExporting: exportingFormat !== null
+  };
+}
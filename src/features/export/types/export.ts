@@ -0,0 +1,51 @@
+import type { Settings } from '@/stores/settingsStore';
+
+export type ExportFormat = Settings['exportFormat'];
+
+export interface ExportableDocument {
+  id: string;
+  title: string;
+  content: string;
+  category?: string;
+  word_count?: number;
+  updated_at?: string;
+}
+
+// Inline text with emphasis, as parsed from the document's Markdown
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type ExportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; runs: InlineRun[] }
+  | { type: 'paragraph'; runs: InlineRun[] }
+  | { type: 'list'; ordered: boolean; items: { depth: number; runs: InlineRun[] }[] }
+  | { type: 'quote'; runs: InlineRun[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+// A document ready to render: its title page details plus parsed body
+export interface ExportSection {
+  title: string;
+  subtitle?: string;
+  // Original Markdown, used as-is by the Markdown renderer
+  content: string;
+  blocks: ExportBlock[];
+}
+
+export interface ExportPayload {
+  // Shown on the title page
+  title: string;
+  subtitle: string;
+  sections: ExportSection[];
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  txt: 'Plain Text',
+  md: 'Markdown',
+  docx: 'Word Document',
+  pdf: 'PDF'
+};
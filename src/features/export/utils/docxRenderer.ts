@@ -0,0 +1,140 @@
+import { ExportBlock, ExportPayload, InlineRun } from '../types/export';
+
+const CODE_FONT = 'Courier New';
+const ORDERED_LIST = 'ordered-list';
+
+/**
+ * Renders the payload as a .docx file. The docx library is loaded on demand
+ * so it only ships to users who export to Word.
+ */
+export async function renderDocx(payload: ExportPayload): Promise<Blob> {
+  const {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    HeadingLevel,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    TextRun,
+  } = await import('docx');
+
+  const headingLevels = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+  ];
+
+  const toRuns = (runs: InlineRun[], extra: { italics?: boolean } = {}) =>
+    runs.map(run => new TextRun({
+      text: run.text,
+      bold: run.bold,
+      italics: run.italic || extra.italics,
+      font: run.code ? CODE_FONT : undefined,
+    }));
+
+  // Each ordered list gets its own numbering instance so it restarts at 1
+  let listInstance = 0;
+  // With several documents, each document title is Heading 1 and its own headings move down a level
+  const headingOffset = payload.sections.length > 1 ? 1 : 0;
+
+  const blockToParagraphs = (block: ExportBlock) => {
+    switch (block.type) {
+      case 'heading':
+        return [new Paragraph({
+          heading: headingLevels[Math.min(block.level - 1 + headingOffset, 5)],
+          children: toRuns(block.runs),
+        })];
+      case 'paragraph':
+        return [new Paragraph({ children: toRuns(block.runs), spacing: { after: 160 } })];
+      case 'list': {
+        const instance = listInstance++;
+        return block.items.map(item => new Paragraph({
+          children: toRuns(item.runs),
+          ...(block.ordered
+            ? { numbering: { reference: ORDERED_LIST, level: Math.min(item.depth, 8), instance } }
+            : { bullet: { level: Math.min(item.depth, 8) } }),
+        }));
+      }
+      case 'quote':
+        return [new Paragraph({
+          children: toRuns(block.runs, { italics: true }),
+          indent: { left: 720 },
+          border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'BBBBBB', space: 12 } },
+          spacing: { after: 160 },
+        })];
+      case 'code':
+        return [new Paragraph({
+          children: block.text.split('\n').map((line, index) => new TextRun({
+            text: line,
+            font: CODE_FONT,
+            size: 18,
+            break: index > 0 ? 1 : undefined,
+          })),
+          shading: { type: 'clear', fill: 'F3F3F3', color: 'auto' },
+          spacing: { after: 160 },
+        })];
+      case 'rule':
+        return [new Paragraph({
+          children: [],
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'BBBBBB', space: 1 } },
+          spacing: { after: 160 },
+        })];
+    }
+  };
+
+  const titlePage = [
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 3600, after: 240 },
+      children: [new TextRun(payload.title)],
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: payload.subtitle, italics: true, color: '666666' })],
+    }),
+  ];
+
+  const body = payload.sections.flatMap((section, index) => {
+    const paragraphs = [];
+    if (payload.sections.length > 1) {
+      paragraphs.push(new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        pageBreakBefore: index > 0,
+        children: [new TextRun(section.title)],
+      }));
+      if (section.subtitle) {
+        paragraphs.push(new Paragraph({
+          spacing: { after: 240 },
+          children: [new TextRun({ text: section.subtitle, italics: true, color: '666666' })],
+        }));
+      }
+    }
+    paragraphs.push(...section.blocks.flatMap(blockToParagraphs));
+    return paragraphs;
+  });
+
+  const document = new Document({
+    title: payload.title,
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    // The title page is its own section, so the body starts on a new page
+    sections: [{ children: titlePage }, { children: body }],
+  });
+
+  return Packer.toBlob(document);
+}
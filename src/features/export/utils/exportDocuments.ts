@@ -0,0 +1,87 @@
+import { format } from 'date-fns';
+import { ExportableDocument, ExportFormat, ExportPayload, ExportSection } from '../types/export';
+import { parseMarkdown, runsToPlainText } from './markdownParser';
+import { renderMarkdown, renderPlainText } from './textRenderers';
+
+function countWords(doc: ExportableDocument): number {
+  return doc.word_count ?? doc.content.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function toSection(doc: ExportableDocument): ExportSection {
+  const blocks = parseMarkdown(doc.content || '');
+
+  // Many documents open with their own title as a heading; the title page already shows it
+  const first = blocks[0];
+  if (first?.type === 'heading' && first.level === 1 &&
+      runsToPlainText(first.runs).trim().toLowerCase() === doc.title.trim().toLowerCase()) {
+    blocks.shift();
+  }
+
+  const details = [doc.category, `${countWords(doc).toLocaleString()} words`];
+  return {
+    title: doc.title,
+    subtitle: details.filter(Boolean).join(' · '),
+    content: doc.content || '',
+    blocks
+  };
+}
+
+export function buildExportPayload(documents: ExportableDocument[]): ExportPayload {
+  const exportedOn = format(new Date(), 'MMMM d, yyyy');
+  const sections = documents.map(toSection);
+
+  if (documents.length === 1) {
+    const [doc] = documents;
+    const updated = doc.updated_at ? `Last edited ${format(new Date(doc.updated_at), 'MMMM d, yyyy')}` : exportedOn;
+    return {
+      title: doc.title,
+      subtitle: [sections[0].subtitle, updated].filter(Boolean).join(' · '),
+      sections
+    };
+  }
+
+  const totalWords = documents.reduce((sum, doc) => sum + countWords(doc), 0);
+  return {
+    title: 'Document Collection',
+    subtitle: `${documents.length} documents · ${totalWords.toLocaleString()} words · Exported ${exportedOn}`,
+    sections
+  };
+}
+
+export function exportFileName(documents: ExportableDocument[], exportFormat: ExportFormat): string {
+  const base = documents.length === 1
+    ? documents[0].title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'document'
+    : `export-${documents.length}-documents-${format(new Date(), 'yyyy-MM-dd')}`;
+  return `${base}.${exportFormat}`;
+}
+
+export async function renderExport(documents: ExportableDocument[], exportFormat: ExportFormat): Promise<Blob> {
+  const payload = buildExportPayload(documents);
+
+  switch (exportFormat) {
+    case 'docx': {
+      const { renderDocx } = await import('./docxRenderer');
+      return renderDocx(payload);
+    }
+    case 'pdf': {
+      const { renderPdf } = await import('./pdfRenderer');
+      return renderPdf(payload);
+    }
+    case 'md':
+      return new Blob([renderMarkdown(payload)], { type: 'text/markdown;charset=utf-8' });
+    case 'txt':
+    default:
+      return new Blob([renderPlainText(payload)], { type: 'text/plain;charset=utf-8' });
+  }
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
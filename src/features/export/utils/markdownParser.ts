@@ -0,0 +1,145 @@
+import { ExportBlock, InlineRun } from '../types/export';
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+// **bold**, __bold__, *italic*, _italic_, `code`
+const INLINE_TOKEN = /(\*\*|__)(.+?)\1|\*(?!\s)(.+?)(?<!\s)\*|(?<!\w)_(?!\s)(.+?)(?<!\s)_(?!\w)|`([^`]+)`/g;
+
+export function parseInline(text: string, inherited: Omit<InlineRun, 'text'> = {}): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (value) runs.push({ ...inherited, text: value });
+  };
+
+  // matchAll iterates a copy of the regex, so the recursive calls below are safe
+  for (const match of text.matchAll(INLINE_TOKEN)) {
+    pushText(text.slice(lastIndex, match.index));
+
+    if (match[2] !== undefined) {
+      runs.push(...parseInline(match[2], { ...inherited, bold: true }));
+    } else if (match[3] !== undefined || match[4] !== undefined) {
+      runs.push(...parseInline(match[3] ?? match[4], { ...inherited, italic: true }));
+    } else {
+      runs.push({ ...inherited, text: match[5], code: true });
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+
+  pushText(text.slice(lastIndex));
+  return runs;
+}
+
+/**
+ * Parses the subset of Markdown writers use in documents (headings, lists,
+ * quotes, code fences, rules, emphasis) into blocks every renderer shares.
+ * Anything else is treated as paragraph text.
+ */
+export function parseMarkdown(content: string): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        runs: parseInline(heading[2])
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', runs: parseInline(quoted.join(' ')) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[2]);
+      const items: { depth: number; runs: InlineRun[] }[] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item) {
+          const depth = Math.floor(item[1].replace(/\t/g, '  ').length / 2);
+          // A top-level item of the other kind starts a new list
+          if (depth === 0 && items.length > 0 && /\d/.test(item[2]) !== ordered) break;
+          items.push({ depth, runs: parseInline(item[3]) });
+          i++;
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // Indented continuation of the previous item
+          items[items.length - 1].runs.push(...parseInline(` ${lines[i].trim()}`));
+          i++;
+        } else {
+          break;
+        }
+      }
+
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+export function runsToPlainText(runs: InlineRun[]): string {
+  return runs.map(run => run.text).join('');
+}
@@ -0,0 +1,229 @@
+import type { jsPDF } from 'jspdf';
+import { ExportBlock, ExportPayload, InlineRun } from '../types/export';
+
+const PAGE_MARGIN = 72;
+const BODY_SIZE = 11;
+const LINE_HEIGHT = 1.45;
+const HEADING_SIZES = [22, 18, 15, 13, 12, 11];
+const PARAGRAPH_SPACING = 8;
+const LIST_INDENT = 18;
+
+interface Word {
+  text: string;
+  run: InlineRun;
+  width: number;
+  // Whitespace before this word, measured in the preceding style
+  spaceBefore: number;
+}
+
+/**
+ * Lays out blocks onto A4 pages with jsPDF's built-in fonts, wrapping lines
+ * word by word so emphasis can change mid-line.
+ */
+class PdfWriter {
+  private y = PAGE_MARGIN;
+  private readonly pageWidth: number;
+  private readonly pageHeight: number;
+
+  constructor(private readonly pdf: jsPDF) {
+    this.pageWidth = pdf.internal.pageSize.getWidth();
+    this.pageHeight = pdf.internal.pageSize.getHeight();
+  }
+
+  get contentWidth() {
+    return this.pageWidth - PAGE_MARGIN * 2;
+  }
+
+  newPage() {
+    this.pdf.addPage();
+    this.y = PAGE_MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > this.pageHeight - PAGE_MARGIN) {
+      this.newPage();
+    }
+  }
+
+  private setStyle(run: InlineRun, size: number, forceBold = false, forceItalic = false) {
+    const bold = run.bold || forceBold;
+    const italic = run.italic || forceItalic;
+    const style = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+    this.pdf.setFont(run.code ? 'courier' : 'helvetica', style);
+    this.pdf.setFontSize(size);
+  }
+
+  private toWords(runs: InlineRun[], size: number, bold: boolean, italic: boolean): Word[] {
+    const words: Word[] = [];
+    let pendingSpace = 0;
+
+    for (const run of runs) {
+      this.setStyle(run, size, bold, italic);
+      const spaceWidth = this.pdf.getTextWidth(' ');
+      for (const token of run.text.split(/(\s+)/)) {
+        if (!token) continue;
+        if (/^\s+$/.test(token)) {
+          pendingSpace = spaceWidth;
+          continue;
+        }
+        words.push({ text: token, run, width: this.pdf.getTextWidth(token), spaceBefore: pendingSpace });
+        pendingSpace = 0;
+      }
+    }
+
+    return words;
+  }
+
+  writeRuns(
+    runs: InlineRun[],
+    { size = BODY_SIZE, bold = false, italic = false, indent = 0, align = 'left', color = 20 }:
+      { size?: number; bold?: boolean; italic?: boolean; indent?: number; align?: 'left' | 'center'; color?: number } = {}
+  ) {
+    const maxWidth = this.contentWidth - indent;
+    const lineHeight = size * LINE_HEIGHT;
+    const words = this.toWords(runs, size, bold, italic);
+
+    // Greedy line breaking
+    const lines: Word[][] = [];
+    let line: Word[] = [];
+    let lineWidth = 0;
+    for (const word of words) {
+      const advance = (line.length > 0 ? word.spaceBefore : 0) + word.width;
+      if (line.length > 0 && lineWidth + advance > maxWidth) {
+        lines.push(line);
+        line = [];
+        lineWidth = 0;
+      }
+      lineWidth += line.length > 0 ? advance : word.width;
+      line.push(word);
+    }
+    if (line.length > 0) lines.push(line);
+
+    this.pdf.setTextColor(color);
+    for (const current of lines) {
+      this.ensureSpace(lineHeight);
+      const width = current.reduce((sum, word, i) => sum + word.width + (i > 0 ? word.spaceBefore : 0), 0);
+      let x = PAGE_MARGIN + indent + (align === 'center' ? (maxWidth - width) / 2 : 0);
+      const baseline = this.y + size;
+
+      current.forEach((word, i) => {
+        if (i > 0) x += word.spaceBefore;
+        this.setStyle(word.run, size, bold, italic);
+        this.pdf.text(word.text, x, baseline);
+        x += word.width;
+      });
+
+      this.y += lineHeight;
+    }
+    this.pdf.setTextColor(0);
+  }
+
+  space(height: number) {
+    this.y += height;
+  }
+
+  moveTo(y: number) {
+    this.y = y;
+  }
+
+  writeBlock(block: ExportBlock, headingOffset: number) {
+    switch (block.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[Math.min(block.level - 1 + headingOffset, 5)];
+        // Keep a heading with at least two lines of the text that follows it
+        this.ensureSpace(size * LINE_HEIGHT + BODY_SIZE * LINE_HEIGHT * 2);
+        this.space(size * 0.5);
+        this.writeRuns(block.runs, { size, bold: true });
+        this.space(PARAGRAPH_SPACING / 2);
+        break;
+      }
+      case 'paragraph':
+        this.writeRuns(block.runs);
+        this.space(PARAGRAPH_SPACING);
+        break;
+      case 'list': {
+        const counters: number[] = [];
+        for (const item of block.items) {
+          counters[item.depth] = (counters[item.depth] || 0) + 1;
+          counters.length = item.depth + 1;
+          const marker = block.ordered ? `${counters[item.depth]}. ` : '• ';
+          this.writeRuns([{ text: marker }, ...item.runs], { indent: LIST_INDENT * (item.depth + 1) });
+        }
+        this.space(PARAGRAPH_SPACING);
+        break;
+      }
+      case 'quote': {
+        const top = this.y;
+        this.writeRuns(block.runs, { italic: true, indent: LIST_INDENT, color: 80 });
+        // Draw the quote bar when the quote did not cross a page break
+        if (this.y > top) {
+          this.pdf.setDrawColor(180);
+          this.pdf.setLineWidth(2);
+          this.pdf.line(PAGE_MARGIN + 4, top + 2, PAGE_MARGIN + 4, this.y - 2);
+        }
+        this.space(PARAGRAPH_SPACING);
+        break;
+      }
+      case 'code':
+        for (const line of block.text.split('\n')) {
+          this.writeRuns([{ text: line || ' ', code: true }], { size: 9.5, indent: 8 });
+        }
+        this.space(PARAGRAPH_SPACING);
+        break;
+      case 'rule':
+        this.ensureSpace(PARAGRAPH_SPACING * 2);
+        this.space(PARAGRAPH_SPACING);
+        this.pdf.setDrawColor(190);
+        this.pdf.setLineWidth(0.5);
+        this.pdf.line(PAGE_MARGIN, this.y, this.pageWidth - PAGE_MARGIN, this.y);
+        this.space(PARAGRAPH_SPACING);
+        break;
+    }
+  }
+
+  addPageNumbers(skipFirst: boolean) {
+    const pageCount = this.pdf.getNumberOfPages();
+    this.pdf.setFont('helvetica', 'normal');
+    this.pdf.setFontSize(9);
+    this.pdf.setTextColor(120);
+    for (let page = skipFirst ? 2 : 1; page <= pageCount; page++) {
+      this.pdf.setPage(page);
+      this.pdf.text(String(page - (skipFirst ? 1 : 0)), this.pageWidth / 2, this.pageHeight - PAGE_MARGIN / 2, { align: 'center' });
+    }
+    this.pdf.setTextColor(0);
+  }
+}
+
+/**
+ * Renders the payload as a PDF. jsPDF is loaded on demand so it only ships
+ * to users who export to PDF.
+ */
+export async function renderPdf(payload: ExportPayload): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  pdf.setProperties({ title: payload.title });
+
+  const writer = new PdfWriter(pdf);
+
+  // Title page
+  writer.moveTo(pdf.internal.pageSize.getHeight() / 3);
+  writer.writeRuns([{ text: payload.title }], { size: 28, bold: true, align: 'center' });
+  writer.space(12);
+  writer.writeRuns([{ text: payload.subtitle }], { size: 12, italic: true, align: 'center', color: 100 });
+
+  const headingOffset = payload.sections.length > 1 ? 1 : 0;
+  for (const section of payload.sections) {
+    writer.newPage();
+    if (payload.sections.length > 1) {
+      writer.writeRuns([{ text: section.title }], { size: HEADING_SIZES[0], bold: true });
+      if (section.subtitle) {
+        writer.writeRuns([{ text: section.subtitle }], { size: 10, italic: true, color: 100 });
+      }
+      writer.space(PARAGRAPH_SPACING * 2);
+    }
+    section.blocks.forEach(block => writer.writeBlock(block, headingOffset));
+  }
+
+  writer.addPageNumbers(true);
+  return pdf.output('blob');
+}
@@ -0,0 +1,64 @@
+import { ExportBlock, ExportPayload } from '../types/export';
+import { runsToPlainText } from './markdownParser';
+
+function underline(text: string, char: string): string {
+  return `${text}\n${char.repeat(Math.max(text.length, 3))}`;
+}
+
+function blockToText(block: ExportBlock): string {
+  switch (block.type) {
+    case 'heading': {
+      const text = runsToPlainText(block.runs);
+      if (block.level === 1) return underline(text, '=');
+      if (block.level === 2) return underline(text, '-');
+      return text;
+    }
+    case 'paragraph':
+      return runsToPlainText(block.runs);
+    case 'list': {
+      const counters: number[] = [];
+      return block.items.map(item => {
+        counters[item.depth] = (counters[item.depth] || 0) + 1;
+        counters.length = item.depth + 1;
+        const marker = block.ordered ? `${counters[item.depth]}.` : '-';
+        return `${'  '.repeat(item.depth)}${marker} ${runsToPlainText(item.runs)}`;
+      }).join('\n');
+    }
+    case 'quote':
+      return `    ${runsToPlainText(block.runs)}`;
+    case 'code':
+      return block.text.split('\n').map(line => `    ${line}`).join('\n');
+    case 'rule':
+      return '* * *';
+  }
+}
+
+export function renderPlainText(payload: ExportPayload): string {
+  const parts = [underline(payload.title, '='), payload.subtitle];
+
+  for (const section of payload.sections) {
+    if (payload.sections.length > 1) {
+      parts.push(underline(section.title.toUpperCase(), '='));
+      if (section.subtitle) parts.push(section.subtitle);
+    }
+    parts.push(...section.blocks.map(blockToText));
+  }
+
+  return `${parts.join('\n\n')}\n`;
+}
+
+// Documents are written in Markdown already, so their content is kept verbatim
+export function renderMarkdown(payload: ExportPayload): string {
+  const parts = [`# ${payload.title}`, `_${payload.subtitle}_`, '---'];
+
+  for (const section of payload.sections) {
+    if (payload.sections.length > 1) {
+      parts.push(`# ${section.title}`);
+      if (section.subtitle) parts.push(`_${section.subtitle}_`);
+    }
+    parts.push(section.content.trim());
+    if (payload.sections.length > 1) parts.push('---');
+  }
+
+  return `${parts.join('\n\n')}\n`;
+}
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+
+export type AIJob = Tables<'ai_jobs'>;
+export type AIJobKind = 'synthesize' | 'compare' | 'analyze';
+export type AIJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A partial result from a synthesis too large to run in one pass
+export interface SynthesisStep {
+  stage: 'map' | 'reduce';
+  level: number;
+  // Positions in sourceDocuments, counting from 1
+  sources: number[];
+  content: string;
+}
+
+// What the worker records on a succeeded job
+export interface AIJobResult {
+  title?: string;
+  sourceDocuments?: { id: string; title: string }[];
+  steps?: SynthesisStep[];
+}
+
+export function jobResult(job: AIJob): AIJobResult {
+  return (job.result ?? {}) as AIJobResult;
+}
+
+export const AI_JOB_LABELS: Record<AIJobKind, string> = {
+  synthesize: 'Synthesis',
+  compare: 'Comparison',
+  analyze: 'Analysis',
+};
+
+// How many recent jobs the tray lists
+const RECENT_JOB_LIMIT = 20;
+// A running job that hasn't reported for this long can be retried; matches ai_job_is_stale
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+export function isJobActive(job: AIJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+export function canRetryJob(job: AIJob): boolean {
+  return job.status === 'failed'
+    || job.status === 'cancelled'
+    || job.status === 'queued'
+    || (job.status === 'running' && Date.now() - new Date(job.updated_at).getTime() > STALE_AFTER_MS);
+}
+
+// Asks the worker to run a queued job; it answers once the job has started
+async function runJob(jobId: string) {
+  const { error } = await supabase.functions.invoke('process-ai-job', { body: { jobId } });
+  if (error) throw error;
+}
+
+/**
+ * Queues AI work over several documents and starts it in the background. The
+ * job carries on if the tab closes; its result is saved as a new document.
+ * A job that couldn't be started stays queued: the jobs tray can start it,
+ * and the scheduled resume picks it up after a minute.
+ */
+export async function startAIJob(userId: string, kind: AIJobKind, documentIds: string[], options: Record<string, Json> = {}) {
+  const { data: job, error } = await supabase
+    .from('ai_jobs')
+    .insert({ user_id: userId, kind, document_ids: documentIds, options })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  try {
+    await runJob(job.id);
+  } catch (runError) {
+    console.error('Error starting AI job:', runError);
+  }
+  return job;
+}
+
+/** The user's recent AI jobs, kept current over Realtime as workers report progress. */
+export function useAIJobs() {
+  const { user } = useAuth();
+  const [jobs, setJobs] = useState<AIJob[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refreshJobs = useCallback(async () => {
+    if (!user) {
+      setJobs([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('ai_jobs')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_JOB_LIMIT);
+
+      if (error) throw error;
+      setJobs(data || []);
+    } catch (error) {
+      console.error('Error loading AI jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshJobs();
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`ai-jobs:${user.id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'ai_jobs',
+        filter: `user_id=eq.${user.id}`,
+      }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const removed = payload.old as Partial<AIJob>;
+          setJobs(prev => prev.filter(job => job.id !== removed.id));
+          return;
+        }
+
+        const changed = payload.new as AIJob;
+        setJobs(prev => {
+          const existing = prev.some(job => job.id === changed.id);
+          return existing
+            ? prev.map(job => job.id === changed.id ? changed : job)
+            : [changed, ...prev].slice(0, RECENT_JOB_LIMIT);
+        });
+      })
+      .subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [user, refreshJobs]);
+
+  const cancelJob = useCallback(async (jobId: string) => {
+    const { error } = await supabase.rpc('cancel_ai_job', { job_id: jobId });
+    if (error) throw error;
+  }, []);
+
+  // A queued job is started again as it is; anything else goes back in the queue first
+  const retryJob = useCallback(async (job: AIJob) => {
+    if (job.status !== 'queued') {
+      const { error } = await supabase.rpc('retry_ai_job', { job_id: job.id });
+      if (error) throw error;
+    }
+    await runJob(job.id);
+  }, []);
+
+  const dismissJob = useCallback(async (jobId: string) => {
+    const { error } = await supabase
+      .from('ai_jobs')
+      .delete()
+      .eq('id', jobId);
+
+    if (error) throw error;
+    setJobs(prev => prev.filter(job => job.id !== jobId));
+  }, []);
+
+  return {
+    jobs,
+    loading,
+    activeCount: jobs.filter(isJobActive).length,
+    refreshJobs,
+    cancelJob,
+    retryJob,
+    dismissJob,
+  };
+}
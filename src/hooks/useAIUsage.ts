@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+// One day of usage for one function and model
+export interface UsageRow {
+  day: string;
+  function_name: string;
+  model: string;
+  requests: number;
+  tokens_input: number;
+  tokens_output: number;
+  cost: number;
+}
+
+export interface BudgetStatus {
+  periodStart: string;
+  spend: number;
+  tokens: number;
+  // null means no cap
+  spendLimit: number | null;
+  tokenLimit: number | null;
+}
+
+export interface BudgetLimits {
+  spendLimit: number | null;
+  tokenLimit: number | null;
+}
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - (days - 1));
+  return date.toISOString();
+}
+
+/**
+ * Daily AI usage for the last `days` days and this month's spend against the
+ * user's budget caps, which the edge functions enforce.
+ */
+export function useAIUsage(days: number) {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<UsageRow[]>([]);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [isLoadingUsage, setIsLoadingUsage] = useState(false);
+
+  const refreshUsage = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoadingUsage(true);
+    try {
+      const [summary, status] = await Promise.all([
+        supabase.rpc('ai_usage_summary', { since: daysAgo(days) }),
+        supabase.rpc('ai_budget_status').maybeSingle(),
+      ]);
+
+      if (summary.error) throw summary.error;
+      if (status.error) throw status.error;
+
+      setRows((summary.data || []).map(row => ({
+        ...row,
+        // numeric and bigint columns can arrive as strings
+        requests: Number(row.requests),
+        tokens_input: Number(row.tokens_input),
+        tokens_output: Number(row.tokens_output),
+        cost: Number(row.cost),
+      })));
+      setBudget(status.data
+        ? {
+            periodStart: status.data.period_start,
+            spend: Number(status.data.spend),
+            tokens: Number(status.data.tokens),
+            spendLimit: status.data.monthly_spend_limit === null ? null : Number(status.data.monthly_spend_limit),
+            tokenLimit: status.data.monthly_token_limit === null ? null : Number(status.data.monthly_token_limit),
+          }
+        : null);
+    } catch (error) {
+      console.error('Error loading AI usage:', error);
+    } finally {
+      setIsLoadingUsage(false);
+    }
+  }, [user, days]);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const saveBudget = useCallback(async ({ spendLimit, tokenLimit }: BudgetLimits) => {
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('ai_budgets')
+      .upsert(
+        { user_id: user.id, monthly_spend_limit: spendLimit, monthly_token_limit: tokenLimit },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) throw error;
+    setBudget(prev => prev && { ...prev, spendLimit, tokenLimit });
+  }, [user]);
+
+  return {
+    rows,
+    budget,
+    isLoadingUsage,
+    refreshUsage,
+    saveBudget,
+  };
+}
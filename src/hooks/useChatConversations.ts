@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ChatConversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatSource {
+  id: string;
+  title: string;
+  similarity: number;
+  passages?: Array<{
+    content: string;
+    start_offset: number;
+    end_offset: number;
+    similarity: number;
+    // Number used for [n] markers in the answer
+    citation?: number;
+  }>;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: ChatSource[];
+  timestamp: Date;
+}
+
+// Reopens the last conversation after a reload
+const ACTIVE_CONVERSATION_KEY = 'chat-active-conversation';
+
+export function useChatConversations() {
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [isLoadingConversations, setIsLoadingConversations] = useState(false);
+  const [activeConversationId, setActiveConversationIdState] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_CONVERSATION_KEY)
+  );
+
+  const setActiveConversationId = useCallback((conversationId: string | null) => {
+    setActiveConversationIdState(conversationId);
+    if (conversationId) {
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversationId);
+    } else {
+      localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+    }
+  }, []);
+
+  const refreshConversations = useCallback(async () => {
+    setIsLoadingConversations(true);
+    try {
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .select('id, title, created_at, updated_at')
+        .order('updated_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      setConversations(data || []);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    } finally {
+      setIsLoadingConversations(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshConversations();
+  }, [refreshConversations]);
+
+  const loadMessages = useCallback(async (conversationId: string): Promise<StoredChatMessage[]> => {
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .select('id, role, content, sources, created_at')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(message => ({
+      id: message.id,
+      role: message.role as StoredChatMessage['role'],
+      content: message.content,
+      sources: (message.sources as unknown as ChatSource[]) || [],
+      timestamp: new Date(message.created_at)
+    }));
+  }, []);
+
+  const renameConversation = useCallback(async (conversationId: string, title: string) => {
+    const { error } = await supabase
+      .from('chat_conversations')
+      .update({ title })
+      .eq('id', conversationId);
+
+    if (error) throw error;
+    setConversations(prev => prev.map(conversation =>
+      conversation.id === conversationId ? { ...conversation, title } : conversation
+    ));
+  }, []);
+
+  const deleteConversation = useCallback(async (conversationId: string) => {
+    const { error } = await supabase
+      .from('chat_conversations')
+      .delete()
+      .eq('id', conversationId);
+
+    if (error) throw error;
+    setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+    if (activeConversationId === conversationId) setActiveConversationId(null);
+  }, [activeConversationId, setActiveConversationId]);
+
+  return {
+    conversations,
+    isLoadingConversations,
+    activeConversationId,
+    setActiveConversationId,
+    refreshConversations,
+    loadMessages,
+    renameConversation,
+    deleteConversation
+  };
+}
@@ -0,0 +1,124 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { UnifiedCommand } from '@/types/commands';
+import {
+  buildPackImport,
+  CommandPack,
+  ConflictResolution,
+  PackImportResult,
+  parseCommandPack,
+} from '@/utils/commandPacks';
+
+// A pack opened from a share link
+export interface SharedPack {
+  id: string;
+  name: string;
+  description: string | null;
+  pack: CommandPack;
+  isOwner: boolean;
+  installCount: number;
+}
+
+export function commandPackShareLink(shareToken: string): string {
+  return `${window.location.origin}/packs/${shareToken}`;
+}
+
+/**
+ * Imports command packs into user_commands and publishes them as share links
+ * (command_packs) that other users install from.
+ */
+export function useCommandPacks() {
+  const { user } = useAuth();
+
+  /**
+   * Adds the pack's commands after the user's own. Commands whose name is
+   * taken are skipped, overwrite the existing command, or are added under a
+   * new name, depending on `resolution`. Chains are linked to their step
+   * commands by name once everything is in. The import is one transaction
+   * (import_command_pack): if any of it fails, none of it is kept.
+   */
+  const importPack = useCallback(async (pack: CommandPack, resolution: ConflictResolution): Promise<PackImportResult> => {
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: existing, error: loadError } = await supabase
+      .from('user_commands')
+      .select('*')
+      .eq('user_id', user.id);
+    if (loadError) throw loadError;
+
+    const { entries, result } = buildPackImport(pack, (existing || []) as UnifiedCommand[], resolution);
+    const { error } = await supabase.rpc('import_command_pack', { entries: entries as unknown as Json });
+    if (error) throw error;
+
+    return result;
+  }, [user]);
+
+  // Publishes the pack and returns its share token
+  const publishPack = useCallback(async (pack: CommandPack): Promise<string> => {
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('command_packs')
+      .insert({
+        user_id: user.id,
+        name: pack.name,
+        description: pack.description ?? null,
+        pack: pack as unknown as Json,
+      })
+      .select('share_token')
+      .single();
+
+    if (error) throw error;
+    return data.share_token;
+  }, [user]);
+
+  const unpublishPack = useCallback(async (packId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('command_packs')
+      .delete()
+      .eq('id', packId)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  }, [user]);
+
+  // The pack behind a share link, or null when the link is unknown
+  const loadSharedPack = useCallback(async (shareToken: string): Promise<SharedPack | null> => {
+    const { data, error } = await supabase
+      .rpc('get_shared_command_pack', { token: shareToken })
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      pack: parseCommandPack(data.pack),
+      isOwner: data.is_owner,
+      installCount: data.install_count,
+    };
+  }, []);
+
+  const installSharedPack = useCallback(async (shareToken: string, pack: CommandPack, resolution: ConflictResolution) => {
+    const result = await importPack(pack, resolution);
+
+    const { error } = await supabase.rpc('record_command_pack_install', { token: shareToken });
+    if (error) console.error('Error recording command pack install (non-critical):', error);
+
+    return result;
+  }, [importPack]);
+
+  return {
+    importPack,
+    publishPack,
+    unpublishPack,
+    loadSharedPack,
+    installSharedPack,
+  };
+}
@@ -0,0 +1,309 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import type { EditorRange } from '@/hooks/useTrackedChanges';
+import { relocateAnchor, remapAnchors, TextAnchor } from '@/utils/commentAnchors';
+
+export type DocumentComment = Tables<'document_comments'>;
+
+export interface CommentThread {
+  root: DocumentComment;
+  replies: DocumentComment[];
+  // Where the thread points in the hook's anchoredText
+  anchor: TextAnchor;
+}
+
+export type CommentFilter = 'open' | 'resolved' | 'all';
+
+export function isThreadResolved(thread: CommentThread): boolean {
+  return thread.root.resolved_at !== null;
+}
+
+export function filterThreads(threads: CommentThread[], filter: CommentFilter): CommentThread[] {
+  if (filter === 'all') return threads;
+  return threads.filter(thread => isThreadResolved(thread) === (filter === 'resolved'));
+}
+
+function buildThreads(comments: DocumentComment[], text: string): CommentThread[] {
+  const replies = new Map<string, DocumentComment[]>();
+  for (const comment of comments) {
+    if (!comment.parent_id) continue;
+    replies.set(comment.parent_id, [...(replies.get(comment.parent_id) || []), comment]);
+  }
+
+  return comments
+    .filter(comment => !comment.parent_id)
+    .map(root => ({
+      root,
+      replies: replies.get(root.id) || [],
+      anchor: relocateAnchor({ start: root.anchor_start ?? 0, end: root.anchor_end ?? 0 }, root.anchor_text, text),
+    }))
+    .sort((a, b) => a.anchor.start - b.anchor.start || a.root.created_at.localeCompare(b.root.created_at));
+}
+
+/**
+ * Comment threads on a document. Thread anchors point into anchoredText: the
+ * editor's `text` when the comments loaded, then the text of each save as
+ * moveAnchors moves them. Reloads when anyone comments, replies or resolves.
+ */
+export function useDocumentComments(documentId: string | null | undefined, text: string) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<DocumentComment[]>([]);
+  const [anchored, setAnchored] = useState<{ threads: CommentThread[]; text: string }>({ threads: [], text: '' });
+  const textRef = useRef(text);
+  textRef.current = text;
+
+  const refreshComments = useCallback(async () => {
+    if (!documentId) {
+      setComments([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('document_comments')
+        .select('*')
+        .eq('document_id', documentId)
+        .order('created_at');
+
+      if (error) throw error;
+      setComments(data || []);
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    refreshComments();
+    if (!documentId) return;
+
+    const channel = supabase
+      .channel(`document-comments:${documentId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'document_comments',
+        filter: `document_id=eq.${documentId}`,
+      }, () => refreshComments())
+      .subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [documentId, refreshComments]);
+
+  // Found in the text as it is when they load, not again on every keystroke
+  useEffect(() => {
+    setAnchored({ threads: buildThreads(comments, textRef.current), text: textRef.current });
+  }, [comments]);
+
+  // `anchor` points into the editor's current text
+  const addComment = useCallback(async (anchor: TextAnchor, body: string) => {
+    if (!user || !documentId) throw new Error('Save the document before commenting');
+
+    const { data, error } = await supabase
+      .from('document_comments')
+      .insert({
+        document_id: documentId,
+        user_id: user.id,
+        body: body.trim(),
+        anchor_start: anchor.start,
+        anchor_end: anchor.end,
+        anchor_text: textRef.current.slice(anchor.start, anchor.end),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setComments(prev => prev.some(comment => comment.id === data.id) ? prev : [...prev, data]);
+    return data;
+  }, [user, documentId]);
+
+  const replyToThread = useCallback(async (threadId: string, body: string) => {
+    if (!user || !documentId) return;
+
+    const { data, error } = await supabase
+      .from('document_comments')
+      .insert({ document_id: documentId, user_id: user.id, parent_id: threadId, body: body.trim() })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setComments(prev => prev.some(comment => comment.id === data.id) ? prev : [...prev, data]);
+  }, [user, documentId]);
+
+  const setResolved = useCallback(async (threadId: string, resolved: boolean) => {
+    const { error } = await supabase.rpc('set_comment_resolved', { comment_id: threadId, resolved });
+    if (error) throw error;
+
+    const resolvedAt = resolved ? new Date().toISOString() : null;
+    setComments(prev => prev.map(comment => comment.id === threadId
+      ? { ...comment, resolved_at: resolvedAt, resolved_by: resolved ? user?.id ?? null : null }
+      : comment
+    ));
+  }, [user]);
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    const { error } = await supabase
+      .from('document_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) throw error;
+    // Deleting a thread's first comment deletes its replies too
+    setComments(prev => prev.filter(comment => comment.id !== commentId && comment.parent_id !== commentId));
+  }, []);
+
+  /**
+   * Moves every thread's anchor through the diff from anchoredText to the
+   * `savedText` of a save, and stores the ones that moved. Only people who
+   * can edit the text call this.
+   */
+  const moveAnchors = useCallback(async (savedText: string) => {
+    const { threads, text: oldText } = anchored;
+    if (!documentId || oldText === savedText) return;
+
+    const anchors = threads.map(thread => ({ id: thread.root.id, ...thread.anchor }));
+    const remapped = remapAnchors(anchors, oldText, savedText);
+    setAnchored({
+      threads: threads.map((thread, index) => ({ ...thread, anchor: { start: remapped[index].start, end: remapped[index].end } })),
+      text: savedText,
+    });
+
+    // Anchors whose stored text is out of date, including any found again on load
+    const moved = remapped.filter((anchor, index) =>
+      threads[index].root.anchor_start !== anchor.start ||
+      threads[index].root.anchor_end !== anchor.end ||
+      threads[index].root.anchor_text !== savedText.slice(anchor.start, anchor.end)
+    );
+    if (moved.length === 0) return;
+
+    const { error } = await supabase.rpc('move_comment_anchors', {
+      doc_id: documentId,
+      anchors: moved.map(anchor => ({ ...anchor, text: savedText.slice(anchor.start, anchor.end) })) as unknown as Json,
+    });
+    if (error) console.error('Error moving comments:', error);
+  }, [documentId, anchored]);
+
+  return {
+    threads: anchored.threads,
+    anchoredText: anchored.text,
+    refreshComments,
+    addComment,
+    replyToThread,
+    setResolved,
+    deleteComment,
+    moveAnchors,
+  };
+}
+
+// The parts of Monaco's editor used here
+interface CodeEditor {
+  getModel(): {
+    getValue(): string;
+    getPositionAt(offset: number): { lineNumber: number; column: number };
+    getDecorationRange(id: string): EditorRange | null;
+  } | null;
+  deltaDecorations(oldIds: string[], decorations: { range: EditorRange; options: object }[]): string[];
+  setSelection(range: EditorRange): void;
+  revealRangeInCenterIfOutsideViewport(range: EditorRange): void;
+  focus(): void;
+  onMouseDown(listener: (event: { target: { type: number; position: { lineNumber: number } | null } }) => void): { dispose(): void };
+}
+
+// MouseTargetType.GUTTER_GLYPH_MARGIN
+const GLYPH_MARGIN = 2;
+
+/**
+ * Highlights each thread's passage in Monaco with a marker in the glyph
+ * margin; clicking a marker opens its thread. Anchors are moved from
+ * `anchoredText` to the editor's text when drawn, and the highlights follow
+ * edits from there.
+ */
+export function useCommentDecorations(
+  editorRef: MutableRefObject<CodeEditor | null>,
+  editorReady: boolean,
+  threads: CommentThread[],
+  anchoredText: string,
+  activeThreadId: string | null,
+  onSelectThread: (threadId: string) => void
+) {
+  const decorationsRef = useRef<string[]>([]);
+  // Highlight decoration id for each thread drawn
+  const threadDecorationsRef = useRef<Map<string, string>>(new Map());
+  const onSelectRef = useRef(onSelectThread);
+  onSelectRef.current = onSelectThread;
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editorReady || !editor || !model) return;
+
+    const anchors = remapAnchors(threads.map(thread => thread.anchor), anchoredText, model.getValue());
+    const ranges = threads.map((thread, index) => {
+      const start = model.getPositionAt(anchors[index].start);
+      const end = model.getPositionAt(anchors[index].end);
+      return { thread, range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column } };
+    });
+
+    decorationsRef.current = editor.deltaDecorations(decorationsRef.current, ranges.flatMap(({ thread, range }) => {
+      const active = thread.root.id === activeThreadId;
+      const hoverMessage = { value: thread.root.body };
+      return [
+        {
+          range,
+          options: {
+            // TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+            stickiness: 1,
+            inlineClassName: active ? 'comment-highlight comment-highlight-active' : 'comment-highlight',
+            hoverMessage,
+          },
+        },
+        {
+          range: { ...range, endLineNumber: range.startLineNumber, endColumn: range.startColumn },
+          options: { glyphMarginClassName: 'comment-glyph', glyphMarginHoverMessage: hoverMessage },
+        },
+      ];
+    }));
+    // Each thread adds a highlight then a marker
+    threadDecorationsRef.current = new Map(threads.map((thread, index) => [thread.root.id, decorationsRef.current[index * 2]]));
+  }, [editorRef, editorReady, threads, anchoredText, activeThreadId]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editorReady || !editor) return;
+
+    const listener = editor.onMouseDown(event => {
+      const model = editor.getModel();
+      if (event.target.type !== GLYPH_MARGIN || !event.target.position || !model) return;
+
+      const line = event.target.position.lineNumber;
+      for (const [threadId, decorationId] of threadDecorationsRef.current) {
+        if (model.getDecorationRange(decorationId)?.startLineNumber === line) {
+          onSelectRef.current(threadId);
+          return;
+        }
+      }
+    });
+
+    return () => {
+      listener.dispose();
+      if (editor.getModel()) decorationsRef.current = editor.deltaDecorations(decorationsRef.current, []);
+    };
+  }, [editorRef, editorReady]);
+
+  // Selects a thread's passage where it is now, after any edits
+  const revealThread = useCallback((threadId: string) => {
+    const editor = editorRef.current;
+    const decorationId = threadDecorationsRef.current.get(threadId);
+    const range = decorationId && editor?.getModel()?.getDecorationRange(decorationId);
+    if (!editor || !range) return;
+
+    editor.setSelection(range);
+    editor.revealRangeInCenterIfOutsideViewport(range);
+    editor.focus();
+  }, [editorRef]);
+
+  return { revealThread };
+}
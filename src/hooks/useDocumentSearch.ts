@@ -0,0 +1,92 @@
+import { useCallback, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DocumentSearchResult {
+  id: string;
+  title: string;
+  // Matched terms are wrapped in <mark> tags
+  snippet: string;
+  text_rank: number | null;
+  similarity: number | null;
+  score: number;
+}
+
+export interface MatchedPassage {
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  similarity: number;
+}
+
+export interface PassageSearchResult {
+  id: string;
+  title: string;
+  similarity: number;
+  passages: MatchedPassage[];
+}
+
+/**
+ * Searches the user's library server-side, fusing full-text rank with vector
+ * similarity, and returns the best-matching passages grouped by document
+ * (see the search-documents edge function).
+ */
+export function useDocumentSearch() {
+  const [results, setResults] = useState<DocumentSearchResult[]>([]);
+  const [passages, setPassages] = useState<PassageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  // Only the latest query may update results
+  const requestRef = useRef(0);
+
+  const search = useCallback(async (query: string) => {
+    const requestId = ++requestRef.current;
+    const trimmed = query.trim();
+
+    if (!trimmed) {
+      setResults([]);
+      setPassages([]);
+      setIsSearching(false);
+      return [];
+    }
+
+    setIsSearching(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('search-documents', {
+        body: { query: trimmed }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const matches = (data?.results || []) as DocumentSearchResult[];
+      if (requestId === requestRef.current) {
+        setResults(matches);
+        setPassages((data?.passages || []) as PassageSearchResult[]);
+      }
+      return matches;
+    } catch (error) {
+      console.error('Document search failed:', error);
+      if (requestId === requestRef.current) {
+        setResults([]);
+        setPassages([]);
+      }
+      return [];
+    } finally {
+      if (requestId === requestRef.current) setIsSearching(false);
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    requestRef.current++;
+    setResults([]);
+    setPassages([]);
+    setIsSearching(false);
+  }, []);
+
+  return {
+    results,
+    passages,
+    isSearching,
+    search,
+    clear
+  };
+}
@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type CollaboratorRole = 'viewer' | 'commenter' | 'editor';
+export type DocumentRole = 'owner' | CollaboratorRole;
+
+export interface DocumentMember {
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: DocumentRole;
+}
+
+export interface SharedDocument {
+  id: string;
+  title: string;
+  updated_at: string | null;
+  role: CollaboratorRole;
+}
+
+export const COLLABORATOR_ROLES: { value: CollaboratorRole; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'Can read' },
+  { value: 'commenter', label: 'Commenter', description: 'Can read and comment' },
+  { value: 'editor', label: 'Editor', description: 'Can read, comment and edit' },
+];
+
+export function canEditDocument(role: DocumentRole | null): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export function canCommentOnDocument(role: DocumentRole | null): boolean {
+  return role !== null && role !== 'viewer';
+}
+
+export function memberName(member: Pick<DocumentMember, 'email' | 'name'>): string {
+  return member.name || member.email;
+}
+
+/**
+ * The signed-in user's role on a document and everyone it's shared with.
+ * Only the owner can share, change roles or remove people; anyone can leave.
+ */
+export function useDocumentSharing(documentId: string | null | undefined) {
+  const [role, setRole] = useState<DocumentRole | null>(null);
+  const [members, setMembers] = useState<DocumentMember[]>([]);
+  // Which document role and members were last loaded for
+  const [loadedDocumentId, setLoadedDocumentId] = useState<string | null>(null);
+
+  const refreshMembers = useCallback(async () => {
+    if (!documentId) {
+      setRole(null);
+      setMembers([]);
+      setLoadedDocumentId(null);
+      return;
+    }
+
+    try {
+      const [roleResult, membersResult] = await Promise.all([
+        supabase.rpc('document_role', { doc_id: documentId }),
+        supabase.rpc('get_document_members', { doc_id: documentId }),
+      ]);
+
+      if (roleResult.error) throw roleResult.error;
+      if (membersResult.error) throw membersResult.error;
+      setRole(roleResult.data as DocumentRole | null);
+      setMembers((membersResult.data || []) as DocumentMember[]);
+    } catch (error) {
+      console.error('Error loading document members:', error);
+    } finally {
+      setLoadedDocumentId(documentId);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    refreshMembers();
+  }, [refreshMembers]);
+
+  // Shares with the account using `email`, or changes its role if already shared.
+  // An address with no account succeeds without sharing, as the RPC doesn't say.
+  const shareDocument = useCallback(async (email: string, newRole: CollaboratorRole) => {
+    if (!documentId) throw new Error('Save the document before sharing it');
+
+    const { error } = await supabase.rpc('share_document', {
+      doc_id: documentId,
+      email: email.trim(),
+      new_role: newRole,
+    });
+    if (error) throw error;
+    await refreshMembers();
+  }, [documentId, refreshMembers]);
+
+  const changeRole = useCallback(async (userId: string, newRole: CollaboratorRole) => {
+    if (!documentId) return;
+
+    const { error } = await supabase
+      .from('document_collaborators')
+      .update({ role: newRole })
+      .eq('document_id', documentId)
+      .eq('user_id', userId);
+    if (error) throw error;
+    setMembers(prev => prev.map(member => member.user_id === userId ? { ...member, role: newRole } : member));
+  }, [documentId]);
+
+  const removeMember = useCallback(async (userId: string) => {
+    if (!documentId) return;
+
+    const { error } = await supabase
+      .from('document_collaborators')
+      .delete()
+      .eq('document_id', documentId)
+      .eq('user_id', userId);
+    if (error) throw error;
+    setMembers(prev => prev.filter(member => member.user_id !== userId));
+  }, [documentId]);
+
+  const isLoadingMembers = !!documentId && loadedDocumentId !== documentId;
+
+  return {
+    role,
+    members,
+    isLoadingMembers,
+    refreshMembers,
+    shareDocument,
+    changeRole,
+    removeMember,
+  };
+}
+
+// Other people's documents shared with the signed-in user, most recently edited first
+export function useSharedDocuments() {
+  const { user } = useAuth();
+  const [sharedDocuments, setSharedDocuments] = useState<SharedDocument[]>([]);
+
+  const refreshSharedDocuments = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('document_collaborators')
+        .select('role, documents(id, title, updated_at)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setSharedDocuments((data || [])
+        .flatMap(row => row.documents ? [{ ...row.documents, role: row.role as CollaboratorRole }] : [])
+        .sort((a, b) => (b.updated_at || '').localeCompare(a.updated_at || '')));
+    } catch (error) {
+      console.error('Error loading shared documents:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshSharedDocuments();
+  }, [refreshSharedDocuments]);
+
+  return { sharedDocuments, refreshSharedDocuments };
+}
@@ -0,0 +1,123 @@
+import { useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { changedCharCount } from '@/utils/textDiff';
+
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  user_id: string;
+  version_number: number;
+  title: string;
+  content: string | null;
+  word_count: number | null;
+  created_at: string;
+}
+
+interface SnapshotInput {
+  documentId: string;
+  userId: string;
+  title: string;
+  content: string;
+  wordCount: number;
+}
+
+interface SnapshotState {
+  title: string;
+  content: string;
+  createdAt: number;
+}
+
+// A save is "meaningful" when enough text changed or enough time has passed
+const MIN_CHANGED_CHARS = 200;
+const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+export function useDocumentVersions() {
+  // Last snapshot per document, so autosaves don't re-query the history table
+  const lastSnapshotRef = useRef<Map<string, SnapshotState>>(new Map());
+
+  const getLastSnapshot = useCallback(async (documentId: string): Promise<SnapshotState | null> => {
+    const cached = lastSnapshotRef.current.get(documentId);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('document_versions')
+      .select('title, content, created_at')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const state = {
+      title: data.title,
+      content: data.content || '',
+      createdAt: new Date(data.created_at).getTime()
+    };
+    lastSnapshotRef.current.set(documentId, state);
+    return state;
+  }, []);
+
+  const createSnapshot = useCallback(async ({ documentId, userId, title, content, wordCount }: SnapshotInput) => {
+    const { data, error } = await supabase
+      .from('document_versions')
+      .insert({
+        document_id: documentId,
+        user_id: userId,
+        title,
+        content,
+        word_count: wordCount
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    lastSnapshotRef.current.set(documentId, {
+      title,
+      content,
+      createdAt: new Date(data.created_at).getTime()
+    });
+    return data as DocumentVersion;
+  }, []);
+
+  const snapshotIfMeaningful = useCallback(async (input: SnapshotInput) => {
+    try {
+      const last = await getLastSnapshot(input.documentId);
+
+      if (last) {
+        if (last.content === input.content && last.title === input.title) return null;
+
+        const changed = changedCharCount(last.content, input.content);
+        const elapsed = Date.now() - last.createdAt;
+        if (changed < MIN_CHANGED_CHARS && elapsed < SNAPSHOT_INTERVAL_MS && last.title === input.title) {
+          return null;
+        }
+      }
+
+      return await createSnapshot(input);
+    } catch (error) {
+      // History is best-effort; never fail the save because of it
+      console.error('Failed to snapshot document version:', error);
+      return null;
+    }
+  }, [getLastSnapshot, createSnapshot]);
+
+  const fetchVersions = useCallback(async (documentId: string): Promise<DocumentVersion[]> => {
+    const { data, error } = await supabase
+      .from('document_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as DocumentVersion[];
+  }, []);
+
+  return {
+    createSnapshot,
+    snapshotIfMeaningful,
+    fetchVersions
+  };
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { buildFolderTree, compareFolderOrder, FolderRecord, isFolderWithin } from '@/utils/folderTree';
+
+export type { FolderNode, FolderRecord } from '@/utils/folderTree';
+
+const FOLDER_COLUMNS = 'id, name, color, parent_id, display_order';
+
+export function useFolderTree() {
+  const { user } = useAuth();
+  const [folders, setFolders] = useState<FolderRecord[]>([]);
+  const [counts, setCounts] = useState<Map<string, number>>(new Map());
+  const [unfiledCount, setUnfiledCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshCounts = useCallback(async () => {
+    const { data, error } = await supabase.rpc('folder_document_counts');
+    if (error) throw error;
+
+    const next = new Map<string, number>();
+    let unfiled = 0;
+    for (const row of data || []) {
+      if (row.folder_id) next.set(row.folder_id, Number(row.document_count));
+      else unfiled = Number(row.document_count);
+    }
+    setCounts(next);
+    setUnfiledCount(unfiled);
+  }, []);
+
+  const refreshFolders = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const [{ data, error }] = await Promise.all([
+        supabase
+          .from('folders')
+          .select(FOLDER_COLUMNS)
+          .eq('user_id', user.id)
+          .order('display_order'),
+        refreshCounts()
+      ]);
+
+      if (error) throw error;
+      setFolders(data || []);
+    } catch (error) {
+      console.error('Error loading folders:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, refreshCounts]);
+
+  useEffect(() => {
+    refreshFolders();
+  }, [refreshFolders]);
+
+  const tree = useMemo(() => buildFolderTree(folders, counts), [folders, counts]);
+
+  const nextDisplayOrder = useCallback((parentId: string | null) => {
+    const siblings = folders.filter(folder => folder.parent_id === parentId);
+    return siblings.reduce((max, folder) => Math.max(max, (folder.display_order ?? 0) + 1), 0);
+  }, [folders]);
+
+  const createFolder = useCallback(async (name: string, parentId: string | null = null) => {
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('folders')
+      .insert({ name, parent_id: parentId, user_id: user.id, display_order: nextDisplayOrder(parentId) })
+      .select(FOLDER_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    setFolders(prev => [...prev, data]);
+    return data;
+  }, [user, nextDisplayOrder]);
+
+  const updateFolder = useCallback(async (folderId: string, updates: Pick<Partial<FolderRecord>, 'name' | 'color'>) => {
+    const { error } = await supabase
+      .from('folders')
+      .update(updates)
+      .eq('id', folderId);
+
+    if (error) throw error;
+    setFolders(prev => prev.map(folder => folder.id === folderId ? { ...folder, ...updates } : folder));
+  }, []);
+
+  // Moves a folder under a new parent (null for the top level), keeping the tree acyclic
+  const moveFolder = useCallback(async (folderId: string, parentId: string | null) => {
+    const folder = folders.find(candidate => candidate.id === folderId);
+    if (!folder || folder.parent_id === parentId) return;
+    if (parentId && isFolderWithin(folders, parentId, folderId)) {
+      throw new Error('A folder cannot be moved into itself or one of its subfolders');
+    }
+
+    const display_order = nextDisplayOrder(parentId);
+    const { error } = await supabase
+      .from('folders')
+      .update({ parent_id: parentId, display_order })
+      .eq('id', folderId);
+
+    if (error) throw error;
+    setFolders(prev => prev.map(candidate =>
+      candidate.id === folderId ? { ...candidate, parent_id: parentId, display_order } : candidate
+    ));
+  }, [folders, nextDisplayOrder]);
+
+  // Swaps a folder with its previous or next sibling, renumbering the siblings
+  const reorderFolder = useCallback(async (folderId: string, direction: 'up' | 'down') => {
+    const folder = folders.find(candidate => candidate.id === folderId);
+    if (!folder) return;
+
+    const siblings = folders
+      .filter(candidate => candidate.parent_id === folder.parent_id)
+      .sort(compareFolderOrder);
+    const index = siblings.findIndex(candidate => candidate.id === folderId);
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= siblings.length) return;
+
+    const reordered = [...siblings];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const changed = reordered
+      .map((candidate, order) => ({ id: candidate.id, display_order: order }))
+      .filter(({ id, display_order }) => siblings.find(candidate => candidate.id === id)?.display_order !== display_order);
+
+    const results = await Promise.all(changed.map(({ id, display_order }) =>
+      supabase.from('folders').update({ display_order }).eq('id', id)
+    ));
+    const failed = results.find(result => result.error);
+    if (failed?.error) throw failed.error;
+
+    const orders = new Map(changed.map(({ id, display_order }) => [id, display_order]));
+    setFolders(prev => prev.map(candidate =>
+      orders.has(candidate.id) ? { ...candidate, display_order: orders.get(candidate.id)! } : candidate
+    ));
+  }, [folders]);
+
+  // Subfolders are deleted with their parent; their documents become unfiled
+  const deleteFolder = useCallback(async (folderId: string) => {
+    const { error } = await supabase
+      .from('folders')
+      .delete()
+      .eq('id', folderId);
+
+    if (error) throw error;
+    await refreshFolders();
+  }, [refreshFolders]);
+
+  const moveDocuments = useCallback(async (documentIds: string[], folderId: string | null) => {
+    if (documentIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('documents')
+      .update({ folder_id: folderId })
+      .in('id', documentIds);
+
+    if (error) throw error;
+    await refreshCounts();
+  }, [refreshCounts]);
+
+  return {
+    folders,
+    tree,
+    unfiledCount,
+    totalCount: unfiledCount + [...counts.values()].reduce((sum, count) => sum + count, 0),
+    isLoading,
+    refreshFolders,
+    refreshCounts,
+    createFolder,
+    updateFolder,
+    moveFolder,
+    reorderFolder,
+    deleteFolder,
+    moveDocuments
+  };
+}
+
+export type FolderTreeState = ReturnType<typeof useFolderTree>;
@@ -0,0 +1,505 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { EditorRange } from '@/hooks/useTrackedChanges';
+
+export type LiveStatus = 'off' | 'connecting' | 'live' | 'offline';
+
+/** Someone else with the document open. */
+export interface LiveCollaborator {
+  // One per open editor, so the same person in two tabs shows twice
+  key: string;
+  userId: string;
+  name: string;
+  // Their remote-color-N class, shared by their cursor and avatar
+  color: number;
+}
+
+export interface LiveSession {
+  documentId: string;
+  userId: string;
+  name: string;
+  canEdit: boolean;
+  // Only the owner folds the update log into a snapshot
+  isOwner: boolean;
+}
+
+type UpdateRow = Pick<Tables<'document_updates'>, 'id' | 'yjs_update'>;
+
+// Sent with presence; the positions are Yjs relative positions, so they
+// still point at the same text after edits elsewhere
+interface CursorPresence {
+  userId: string;
+  name: string;
+  anchor: unknown;
+  head: unknown;
+}
+
+interface EditorPosition {
+  lineNumber: number;
+  column: number;
+}
+
+// The parts of Monaco's editor and text model used here
+interface Disposable {
+  dispose(): void;
+}
+
+interface TextModel {
+  getValue(): string;
+  getFullModelRange(): EditorRange;
+  getOffsetAt(position: EditorPosition): number;
+  getPositionAt(offset: number): EditorPosition;
+  applyEdits(edits: { range: EditorRange; text: string }[]): void;
+}
+
+interface EditorSelection {
+  selectionStartLineNumber: number;
+  selectionStartColumn: number;
+  positionLineNumber: number;
+  positionColumn: number;
+}
+
+interface CodeEditor {
+  getModel(): TextModel | null;
+  getSelection(): EditorSelection | null;
+  onDidChangeModelContent(listener: (event: { changes: { rangeOffset: number; rangeLength: number; text: string }[] }) => void): Disposable;
+  onDidChangeCursorSelection(listener: () => void): Disposable;
+  deltaDecorations(oldIds: string[], decorations: { range: EditorRange; options: object }[]): string[];
+}
+
+// Transaction origins, so each direction of the binding skips its own changes
+const LOCAL = 'local';
+const REMOTE = 'remote';
+
+const SEND_DELAY = 250;
+const RETRY_DELAY = 5000;
+const CURSOR_DELAY = 100;
+const PAGE_SIZE = 1000;
+// Opening a document with more updates than this merges them into one
+const COMPACT_AFTER = 200;
+const APPEND_ATTEMPTS = 3;
+const CURSOR_COLORS = 6;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+function cursorColor(userId: string): number {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return hash % CURSOR_COLORS;
+}
+
+// Edits `text` into `target` as one replaced middle; false when they already match
+function replaceText(text: Y.Text, target: string): boolean {
+  const current = text.toString();
+  if (current === target) return false;
+
+  let prefix = 0;
+  while (prefix < current.length && prefix < target.length && current[prefix] === target[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < current.length - prefix &&
+    suffix < target.length - prefix &&
+    current[current.length - 1 - suffix] === target[target.length - 1 - suffix]
+  ) suffix++;
+
+  text.delete(prefix, current.length - prefix - suffix);
+  text.insert(prefix, target.slice(prefix, target.length - suffix));
+  return true;
+}
+
+async function loadUpdates(documentId: string, after: number | null): Promise<UpdateRow[]> {
+  const rows: UpdateRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('document_updates')
+      .select('id, yjs_update')
+      .eq('document_id', documentId);
+    if (after !== null) query = query.gt('id', after);
+
+    const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Live co-editing of a document in Monaco. The text is a Yjs document kept
+ * as a log of updates in document_updates; Realtime delivers other people's
+ * updates as they're added, along with presence for their cursors. Merging
+ * never conflicts, so everyone with the document open converges on the same
+ * text. Pass null to stop.
+ */
+export function useLiveDocument(editorRef: MutableRefObject<CodeEditor | null>, session: LiveSession | null) {
+  const [status, setStatus] = useState<LiveStatus>('off');
+  // True once the editor shows the shared text; edits made before aren't shared
+  const [ready, setReady] = useState(false);
+  const [collaborators, setCollaborators] = useState<LiveCollaborator[]>([]);
+  const flushRef = useRef<(() => Promise<number | null>) | null>(null);
+
+  const documentId = session?.documentId;
+  const userId = session?.userId;
+  const name = session?.name ?? '';
+  const canEdit = session?.canEdit ?? false;
+  const isOwner = session?.isOwner ?? false;
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!documentId || !userId || !editor || !model) return;
+
+    let disposed = false;
+    let bound = false;
+    let loadStarted = false;
+    let loaded = false;
+    let applyingRemote = false;
+    // The newest update this client has, which a live save's content includes
+    let lastId: number | null = null;
+    let pending: Uint8Array[] = [];
+    let sending: Promise<void> = Promise.resolve();
+    let sendTimer: ReturnType<typeof setTimeout> | undefined;
+    let cursorTimer: ReturnType<typeof setTimeout> | undefined;
+    let cursorDecorations: string[] = [];
+    let others: (CursorPresence & { key: string })[] = [];
+    // Updates that arrive while the log is loading
+    const buffered: UpdateRow[] = [];
+
+    const ydoc = new Y.Doc();
+    const ytext = ydoc.getText('content');
+    const presenceKey = crypto.randomUUID();
+    setStatus('connecting');
+    setReady(false);
+
+    const replaceModel = (text: string) => {
+      applyingRemote = true;
+      try {
+        model.applyEdits([{ range: model.getFullModelRange(), text }]);
+      } finally {
+        applyingRemote = false;
+      }
+    };
+
+    const renderCursors = () => {
+      if (!editor.getModel()) return;
+
+      const toPosition = (json: unknown) => {
+        if (!json) return null;
+        const absolute = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(json), ydoc);
+        return absolute ? model.getPositionAt(absolute.index) : null;
+      };
+
+      const decorations = bound ? others.flatMap(other => {
+        const anchor = toPosition(other.anchor);
+        const head = toPosition(other.head);
+        if (!anchor || !head) return [];
+
+        const color = cursorColor(other.userId);
+        const anchorOffset = model.getOffsetAt(anchor);
+        const headOffset = model.getOffsetAt(head);
+        const [start, end] = anchorOffset <= headOffset ? [anchor, head] : [head, anchor];
+        const cursor = {
+          range: { startLineNumber: head.lineNumber, startColumn: head.column, endLineNumber: head.lineNumber, endColumn: head.column },
+          options: { beforeContentClassName: `remote-cursor remote-color-${color}`, hoverMessage: { value: other.name } },
+        };
+        if (anchorOffset === headOffset) return [cursor];
+
+        return [cursor, {
+          range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+          options: { inlineClassName: `remote-selection remote-color-${color}` },
+        }];
+      }) : [];
+      cursorDecorations = editor.deltaDecorations(cursorDecorations, decorations);
+    };
+
+    // The editor starts showing the shared text from here on
+    const bind = () => {
+      if (bound) return;
+      if (model.getValue() !== ytext.toString()) replaceModel(ytext.toString());
+      bound = true;
+      setReady(true);
+      setStatus(current => current === 'connecting' ? 'live' : current);
+      renderCursors();
+    };
+
+    const applyRow = (row: UpdateRow) => {
+      lastId = Math.max(lastId ?? 0, row.id);
+      Y.applyUpdate(ydoc, fromBase64(row.yjs_update), REMOTE);
+    };
+
+    const receive = (row: UpdateRow) => {
+      if (!loaded) {
+        buffered.push(row);
+        return;
+      }
+      applyRow(row);
+      // A viewer of a document nobody had opened live waits for its first update
+      bind();
+    };
+
+    // Yjs to Monaco: replays other people's changes as edits
+    ytext.observe((event, transaction) => {
+      if (transaction.origin === LOCAL || !bound) return;
+
+      applyingRemote = true;
+      try {
+        let index = 0;
+        for (const operation of event.delta) {
+          if (operation.retain) {
+            index += operation.retain;
+          } else if (typeof operation.insert === 'string') {
+            const at = model.getPositionAt(index);
+            model.applyEdits([{ range: { startLineNumber: at.lineNumber, startColumn: at.column, endLineNumber: at.lineNumber, endColumn: at.column }, text: operation.insert }]);
+            index += operation.insert.length;
+          } else if (operation.delete) {
+            const start = model.getPositionAt(index);
+            const end = model.getPositionAt(index + operation.delete);
+            model.applyEdits([{ range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column }, text: '' }]);
+          }
+        }
+      } finally {
+        applyingRemote = false;
+      }
+
+      // Monaco normalizes line endings, which can throw offsets off
+      if (model.getValue() !== ytext.toString()) replaceModel(ytext.toString());
+      renderCursors();
+    });
+
+    // Monaco to Yjs: changes in an event are relative to the text before it,
+    // so they're applied from the end backwards
+    const contentListener = editor.onDidChangeModelContent(event => {
+      if (applyingRemote || !bound || !canEdit) return;
+
+      ydoc.transact(() => {
+        [...event.changes]
+          .sort((a, b) => b.rangeOffset - a.rangeOffset)
+          .forEach(change => {
+            if (change.rangeLength > 0) ytext.delete(change.rangeOffset, change.rangeLength);
+            if (change.text) ytext.insert(change.rangeOffset, change.text);
+          });
+      }, LOCAL);
+    });
+
+    const send = (): Promise<void> => {
+      clearTimeout(sendTimer);
+      sendTimer = undefined;
+
+      sending = sending.then(async () => {
+        if (pending.length === 0) return;
+        const batch = pending;
+        pending = [];
+
+        const { data, error } = await supabase
+          .from('document_updates')
+          .insert({ document_id: documentId, user_id: userId, yjs_update: toBase64(Y.mergeUpdates(batch)) })
+          .select('id')
+          .single();
+
+        if (error) {
+          console.error('Error sending live changes:', error);
+          pending = [...batch, ...pending];
+          if (!disposed) {
+            setStatus('offline');
+            sendTimer = setTimeout(send, RETRY_DELAY);
+          }
+          return;
+        }
+
+        lastId = Math.max(lastId ?? 0, data.id);
+        if (!disposed) setStatus(current => current === 'offline' ? 'live' : current);
+      });
+      return sending;
+    };
+
+    ydoc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin !== LOCAL) return;
+      pending.push(update);
+      if (!sendTimer) sendTimer = setTimeout(send, SEND_DELAY);
+    });
+
+    flushRef.current = async () => {
+      await send();
+      return pending.length === 0 ? lastId : null;
+    };
+
+    /**
+     * Appends the change `edit` makes to the text, as long as nobody has
+     * added an update since this client's newest. Otherwise catches up and
+     * retries against the newer text. `edit` returns false when there is
+     * nothing (left) to change.
+     */
+    const appendIfLatest = async (edit: (text: Y.Text) => boolean) => {
+      for (let attempt = 0; attempt < APPEND_ATTEMPTS; attempt++) {
+        // Made on a copy so a lost race leaves this client's text alone
+        const draft = new Y.Doc();
+        Y.applyUpdate(draft, Y.encodeStateAsUpdate(ydoc));
+        if (!edit(draft.getText('content'))) return;
+
+        const update = Y.encodeStateAsUpdate(draft, Y.encodeStateVector(ydoc));
+        const { data, error } = await supabase.rpc('append_document_update', {
+          doc_id: documentId,
+          update_data: toBase64(update),
+          ...(lastId !== null && { through_id: lastId }),
+        });
+        if (error) throw error;
+
+        if (data !== null) {
+          lastId = data;
+          Y.applyUpdate(ydoc, update, REMOTE);
+          return;
+        }
+        (await loadUpdates(documentId, lastId)).forEach(applyRow);
+      }
+      throw new Error('The document kept changing while live editing started');
+    };
+
+    const load = async () => {
+      try {
+        const [{ data: saved, error }, rows] = await Promise.all([
+          supabase.from('documents').select('content, live_update_id').eq('id', documentId).single(),
+          loadUpdates(documentId, null),
+        ]);
+        if (error) throw error;
+        if (disposed) return;
+
+        rows.forEach(applyRow);
+        const content = saved.content || '';
+        if (canEdit && rows.length === 0) {
+          // First live session: the saved text becomes the first update
+          await appendIfLatest(text => text.length === 0 && replaceText(text, content));
+        } else if (canEdit && saved.live_update_id === null) {
+          // Saved outside live editing since; fold that edit into the updates
+          await appendIfLatest(text => replaceText(text, content));
+        }
+        if (disposed) return;
+
+        loaded = true;
+        buffered.splice(0).forEach(applyRow);
+        if (canEdit || rows.length > 0) bind();
+
+        if (isOwner && rows.length > COMPACT_AFTER && lastId !== null) {
+          const { error: compactError } = await supabase.rpc('compact_document_updates', {
+            doc_id: documentId,
+            snapshot: toBase64(Y.encodeStateAsUpdate(ydoc)),
+            through_id: lastId,
+          });
+          if (compactError) console.error('Error compacting live changes:', compactError);
+        }
+      } catch (error) {
+        console.error('Error starting live editing:', error);
+        if (!disposed) setStatus('offline');
+      }
+    };
+
+    // Catches up on updates missed while disconnected
+    const catchUp = async () => {
+      try {
+        (await loadUpdates(documentId, lastId)).forEach(receive);
+      } catch (error) {
+        console.error('Error catching up on live changes:', error);
+      }
+    };
+
+    const channel: RealtimeChannel = supabase.channel(`document:${documentId}`, {
+      config: { private: true, presence: { key: presenceKey } },
+    });
+
+    const trackCursor = () => {
+      cursorTimer = undefined;
+      const selection = editor.getSelection();
+      const relative = (lineNumber: number, column: number) => Y.relativePositionToJSON(
+        Y.createRelativePositionFromTypeIndex(ytext, model.getOffsetAt({ lineNumber, column }))
+      );
+
+      const presence: CursorPresence = {
+        userId,
+        name,
+        anchor: bound && selection ? relative(selection.selectionStartLineNumber, selection.selectionStartColumn) : null,
+        head: bound && selection ? relative(selection.positionLineNumber, selection.positionColumn) : null,
+      };
+      void channel.track(presence);
+    };
+
+    const selectionListener = editor.onDidChangeCursorSelection(() => {
+      if (!cursorTimer) cursorTimer = setTimeout(trackCursor, CURSOR_DELAY);
+    });
+
+    channel
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'document_updates',
+        filter: `document_id=eq.${documentId}`,
+      }, payload => receive(payload.new as UpdateRow))
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<CursorPresence>();
+        others = Object.entries(state)
+          .filter(([key, presences]) => key !== presenceKey && presences.length > 0)
+          .map(([key, presences]) => ({ ...presences[presences.length - 1], key }));
+        setCollaborators(others.map(other => ({
+          key: other.key,
+          userId: other.userId,
+          name: other.name,
+          color: cursorColor(other.userId),
+        })));
+        renderCursors();
+      })
+      .subscribe(channelStatus => {
+        if (disposed) return;
+
+        if (channelStatus === 'SUBSCRIBED') {
+          setStatus(bound ? 'live' : 'connecting');
+          trackCursor();
+          if (loaded) void catchUp();
+        } else if (channelStatus === 'CHANNEL_ERROR' || channelStatus === 'TIMED_OUT') {
+          // Updates still save without Realtime; they just don't arrive live
+          setStatus('offline');
+        }
+
+        if (!loadStarted && channelStatus !== 'CLOSED') {
+          loadStarted = true;
+          void load();
+        }
+      });
+
+    return () => {
+      disposed = true;
+      flushRef.current = null;
+      // Whatever hasn't been sent yet still goes
+      void send();
+      clearTimeout(cursorTimer);
+      contentListener.dispose();
+      selectionListener.dispose();
+      if (editor.getModel()) editor.deltaDecorations(cursorDecorations, []);
+      void supabase.removeChannel(channel);
+      ydoc.destroy();
+      setStatus('off');
+      setReady(false);
+      setCollaborators([]);
+    };
+  }, [editorRef, documentId, userId, name, canEdit, isOwner]);
+
+  /**
+   * Sends edits still waiting to go out. Resolves to the newest update the
+   * editor's text includes, or null when some couldn't be sent.
+   */
+  const flush = useCallback(async () => {
+    return flushRef.current ? flushRef.current() : null;
+  }, []);
+
+  return { status, ready, collaborators, flush };
+}
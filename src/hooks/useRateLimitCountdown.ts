@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RateLimitError } from '@/utils/functionErrors';
+
+export interface RateLimitState {
+  // What was rate limited, e.g. a command name
+  label: string;
+  secondsLeft: number;
+}
+
+/**
+ * Tracks a rate-limited AI call and counts down to when it may be retried.
+ * `handleRateLimit` returns false for any other error, so callers can fall
+ * back to their usual error toast.
+ */
+export function useRateLimitCountdown() {
+  const [limit, setLimit] = useState<{ label: string; until: number } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!limit) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= limit.until) setLimit(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [limit]);
+
+  const handleRateLimit = useCallback((error: unknown, label: string) => {
+    if (!(error instanceof RateLimitError)) return false;
+
+    const current = Date.now();
+    setNow(current);
+    setLimit({ label, until: current + error.retryAfter * 1000 });
+    return true;
+  }, []);
+
+  const clearRateLimit = useCallback(() => setLimit(null), []);
+
+  const secondsLeft = limit ? Math.max(0, Math.ceil((limit.until - now) / 1000)) : 0;
+  const rateLimit: RateLimitState | null = limit && secondsLeft > 0
+    ? { label: limit.label, secondsLeft }
+    : null;
+
+  return {
+    rateLimit,
+    handleRateLimit,
+    clearRateLimit,
+  };
+}
@@ -0,0 +1,129 @@
+import { useCallback, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { functionResponseError } from '@/utils/functionErrors';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+// Events emitted by streaming edge functions (see supabase/functions/_shared/streaming.ts)
+type StreamEvent =
+  | { type: 'meta'; [key: string]: unknown }
+  | { type: 'token'; content: string }
+  | { type: 'done'; [key: string]: unknown }
+  | { type: 'error'; error: string };
+
+interface StreamHandlers {
+  onMeta?: (meta: Record<string, unknown>) => void;
+  onToken?: (token: string, fullText: string) => void;
+}
+
+export interface StreamOutcome<T> {
+  // Final payload from the `done` event, or null when cancelled
+  data: T | null;
+  // Everything streamed so far, kept even when cancelled
+  text: string;
+  cancelled: boolean;
+}
+
+/**
+ * Calls an AI edge function with `stream: true` and reads its server-sent
+ * events. supabase.functions.invoke buffers the whole body, so this uses
+ * fetch directly with the current session token.
+ */
+export function useStreamingAI() {
+  const abortRef = useRef<AbortController | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  const streamFunction = useCallback(async <T = Record<string, unknown>>(
+    functionName: string,
+    body: Record<string, unknown>,
+    handlers: StreamHandlers = {}
+  ): Promise<StreamOutcome<T>> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsStreaming(true);
+
+    let text = '';
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/${functionName}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_PUBLISHABLE_KEY,
+          'Authorization': `Bearer ${session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`,
+        },
+        body: JSON.stringify({ ...body, stream: true }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorBody = await response.json().catch(() => null);
+        throw functionResponseError(response.status, response.headers, errorBody, `${functionName} failed with status ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+
+        for (const raw of events) {
+          const line = raw.trim();
+          if (!line.startsWith('data:')) continue;
+
+          const event = JSON.parse(line.slice(5).trim()) as StreamEvent;
+          switch (event.type) {
+            case 'meta': {
+              const { type: _type, ...meta } = event;
+              handlers.onMeta?.(meta);
+              break;
+            }
+            case 'token':
+              text += event.content;
+              handlers.onToken?.(event.content, text);
+              break;
+            case 'error':
+              throw new Error(event.error);
+            case 'done': {
+              const { type: _type, ...payload } = event;
+              if (typeof payload.error === 'string') throw new Error(payload.error);
+              return { data: payload as T, text, cancelled: false };
+            }
+          }
+        }
+      }
+
+      throw new Error('Stream ended before completion');
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { data: null, text, cancelled: true };
+      }
+      throw error;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, []);
+
+  const cancelStream = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  return {
+    streamFunction,
+    cancelStream,
+    isStreaming
+  };
+}
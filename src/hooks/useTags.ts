@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+const TAG_COLUMNS = 'id, name, color';
+const MAX_TAG_LENGTH = 50;
+
+export function normalizeTagName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+}
+
+export function useTags() {
+  const { user } = useAuth();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoadingTags, setIsLoadingTags] = useState(false);
+
+  const refreshTags = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoadingTags(true);
+    try {
+      const { data, error } = await supabase
+        .from('tags')
+        .select(TAG_COLUMNS)
+        .eq('user_id', user.id)
+        .order('name');
+
+      if (error) throw error;
+      setTags(data || []);
+    } catch (error) {
+      console.error('Error loading tags:', error);
+    } finally {
+      setIsLoadingTags(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshTags();
+  }, [refreshTags]);
+
+  // Returns the existing tag with this name (ignoring case) or creates it
+  const findOrCreateTag = useCallback(async (rawName: string): Promise<Tag> => {
+    if (!user) throw new Error('Not authenticated');
+    const name = normalizeTagName(rawName);
+    if (!name) throw new Error('Tag name is required');
+
+    const existing = tags.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+    if (existing) return existing;
+
+    const { data, error } = await supabase
+      .from('tags')
+      .insert({ name, user_id: user.id })
+      .select(TAG_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    setTags(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data;
+  }, [user, tags]);
+
+  const loadDocumentTags = useCallback(async (documentId: string): Promise<Tag[]> => {
+    const { data, error } = await supabase
+      .from('document_tags')
+      .select(`tags(${TAG_COLUMNS})`)
+      .eq('document_id', documentId);
+
+    if (error) throw error;
+    return (data || [])
+      .map(row => row.tags)
+      .filter((tag): tag is Tag => !!tag)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, []);
+
+  const addTagsToDocuments = useCallback(async (tagIds: string[], documentIds: string[]) => {
+    if (!user || tagIds.length === 0 || documentIds.length === 0) return;
+
+    const rows = documentIds.flatMap(document_id =>
+      tagIds.map(tag_id => ({ document_id, tag_id, user_id: user.id }))
+    );
+    const { error } = await supabase
+      .from('document_tags')
+      .upsert(rows, { onConflict: 'document_id,tag_id', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }, [user]);
+
+  const removeTagsFromDocuments = useCallback(async (tagIds: string[], documentIds: string[]) => {
+    if (tagIds.length === 0 || documentIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('document_tags')
+      .delete()
+      .in('tag_id', tagIds)
+      .in('document_id', documentIds);
+
+    if (error) throw error;
+  }, []);
+
+  return {
+    tags,
+    isLoadingTags,
+    refreshTags,
+    findOrCreateTag,
+    loadDocumentTags,
+    addTagsToDocuments,
+    removeTagsFromDocuments
+  };
+}
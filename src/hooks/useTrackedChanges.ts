@@ -0,0 +1,237 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { DiffHunk, diffWords } from '@/utils/wordDiff';
+
+// Monaco's IRange; kept local since the editor is loaded at runtime
+export interface EditorRange {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+export type HunkStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface TrackedHunk extends DiffHunk {
+  status: HunkStatus;
+}
+
+export interface TrackedChangesReview {
+  // What produced the changes, e.g. a command name
+  label: string;
+  hunks: TrackedHunk[];
+  // Index into hunks of the change being looked at
+  current: number;
+}
+
+export interface ReviewSummary {
+  label: string;
+  accepted: number;
+  total: number;
+}
+
+interface EditorPosition {
+  lineNumber: number;
+  column: number;
+}
+
+// The parts of Monaco's editor and text model used here
+interface MonacoRange extends EditorRange {
+  isEmpty(): boolean;
+}
+
+interface TextModel {
+  getValueInRange(range: EditorRange): string;
+  getFullModelRange(): MonacoRange;
+  getOffsetAt(position: EditorPosition): number;
+  getPositionAt(offset: number): EditorPosition;
+  getDecorationRange(id: string): MonacoRange | null;
+}
+
+interface CodeEditor {
+  getModel(): TextModel | null;
+  getSelection(): MonacoRange | null;
+  setSelection(range: EditorRange): void;
+  executeEdits(source: string, edits: { range: EditorRange; text: string; forceMoveMarkers?: boolean }[]): boolean;
+  deltaDecorations(oldIds: string[], decorations: { range: EditorRange; options: object }[]): string[];
+  revealRangeInCenterIfOutsideViewport(range: EditorRange): void;
+}
+
+// TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+const NEVER_GROWS = 1;
+
+/**
+ * The selection when an AI command starts, or the whole document when
+ * nothing is selected. Results are written back to this range rather than
+ * to wherever the selection is when they arrive.
+ */
+export function captureEditorRange(editor: CodeEditor | null): EditorRange | undefined {
+  const model = editor?.getModel();
+  if (!model) return undefined;
+
+  const selection = editor.getSelection();
+  return selection && !selection.isEmpty() ? selection : model.getFullModelRange();
+}
+
+/** Replaces `range` with `text` if it still holds `originalText`; false when it has changed since. */
+export function replaceEditorRange(editor: CodeEditor | null, range: EditorRange, originalText: string, text: string): boolean {
+  const model = editor?.getModel();
+  if (!model || model.getValueInRange(range) !== originalText) return false;
+
+  editor.executeEdits('ai-command', [{ range, text, forceMoveMarkers: true }]);
+  editor.setSelection({ ...range, endLineNumber: range.startLineNumber, endColumn: range.startColumn });
+  return true;
+}
+
+// Injected text is a single line, so line breaks are shown as a symbol
+const displayText = (text: string) => text.replace(/\r?\n/g, '↵');
+
+/**
+ * Shows an AI rewrite of a range as tracked changes in Monaco: deletions are
+ * struck through and insertions are shown inline after them. Each change is
+ * accepted (edited into the document) or rejected on its own. Decorations
+ * follow the text, so the document can still be edited during review.
+ */
+export function useTrackedChanges(editorRef: MutableRefObject<CodeEditor | null>, onFinish?: (summary: ReviewSummary) => void) {
+  const [review, setReview] = useState<TrackedChangesReview | null>(null);
+  // Decoration ids by hunk id, for hunks still pending
+  const decorationsRef = useRef<Map<number, string>>(new Map());
+  const currentDecorationRef = useRef<string[]>([]);
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+
+  const clearDecorations = useCallback(() => {
+    const editor = editorRef.current;
+    const ids = [...decorationsRef.current.values(), ...currentDecorationRef.current];
+    if (editor && ids.length > 0) editor.deltaDecorations(ids, []);
+    decorationsRef.current = new Map();
+    currentDecorationRef.current = [];
+  }, [editorRef]);
+
+  /**
+   * Starts reviewing `suggestedText` as a replacement for `range`. Returns
+   * false, leaving the document alone, when the range no longer holds
+   * `originalText` or there is nothing to review.
+   */
+  const startReview = useCallback((label: string, range: EditorRange, originalText: string, suggestedText: string) => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!model || model.getValueInRange(range) !== originalText) return false;
+
+    const hunks = diffWords(originalText, suggestedText);
+    if (hunks.length === 0) return false;
+
+    clearDecorations();
+    const base = model.getOffsetAt({ lineNumber: range.startLineNumber, column: range.startColumn });
+    const ids: string[] = editor.deltaDecorations([], hunks.map(hunk => {
+      const start = model.getPositionAt(base + hunk.start);
+      const end = model.getPositionAt(base + hunk.end);
+      return {
+        range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+        options: {
+          stickiness: NEVER_GROWS,
+          inlineClassName: hunk.removed ? 'tracked-deletion' : undefined,
+          after: hunk.inserted ? { content: displayText(hunk.inserted), inlineClassName: 'tracked-insertion' } : undefined,
+        },
+      };
+    }));
+    decorationsRef.current = new Map(hunks.map((hunk, index) => [hunk.id, ids[index]]));
+
+    setReview({ label, hunks: hunks.map(hunk => ({ ...hunk, status: 'pending' })), current: 0 });
+    return true;
+  }, [editorRef, clearDecorations]);
+
+  const decide = useCallback((hunkIds: number[], accept: boolean) => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!review || !model) return;
+
+    const decided = new Map<number, HunkStatus>();
+    const edits: { range: EditorRange; text: string; forceMoveMarkers: boolean }[] = [];
+    const removed: string[] = [];
+
+    for (const hunkId of hunkIds) {
+      const hunk = review.hunks.find(candidate => candidate.id === hunkId);
+      const decorationId = decorationsRef.current.get(hunkId);
+      if (!hunk || hunk.status !== 'pending' || !decorationId) continue;
+
+      const range = model.getDecorationRange(decorationId);
+      if (accept && range) edits.push({ range, text: hunk.inserted, forceMoveMarkers: true });
+      removed.push(decorationId);
+      decorationsRef.current.delete(hunkId);
+      decided.set(hunkId, accept ? 'accepted' : 'rejected');
+    }
+
+    editor.deltaDecorations(removed, []);
+    // One edit operation, so accepting several changes is a single undo step
+    if (edits.length > 0) editor.executeEdits('ai-review', edits);
+
+    const hunks = review.hunks.map(hunk => decided.has(hunk.id) ? { ...hunk, status: decided.get(hunk.id)! } : hunk);
+    const after = hunks.findIndex((hunk, index) => index >= review.current && hunk.status === 'pending');
+    const next = after >= 0 ? after : hunks.findIndex(hunk => hunk.status === 'pending');
+    if (next >= 0) {
+      setReview({ ...review, hunks, current: next });
+      return;
+    }
+
+    // Nothing left to decide
+    clearDecorations();
+    setReview(null);
+    onFinishRef.current?.({
+      label: review.label,
+      accepted: hunks.filter(hunk => hunk.status === 'accepted').length,
+      total: hunks.length,
+    });
+  }, [editorRef, review, clearDecorations]);
+
+  const pendingIds = review?.hunks.filter(hunk => hunk.status === 'pending').map(hunk => hunk.id) ?? [];
+
+  const acceptHunk = useCallback((hunkId: number) => decide([hunkId], true), [decide]);
+  const rejectHunk = useCallback((hunkId: number) => decide([hunkId], false), [decide]);
+  const acceptAll = () => decide(pendingIds, true);
+  const rejectAll = () => decide(pendingIds, false);
+
+  // Moves between pending changes; offset is +1 or -1
+  const goTo = useCallback((offset: number) => {
+    setReview(previous => {
+      if (!previous) return previous;
+
+      const count = previous.hunks.length;
+      for (let step = 1; step <= count; step++) {
+        const index = (previous.current + offset * step + count * step) % count;
+        if (previous.hunks[index].status === 'pending') return { ...previous, current: index };
+      }
+      return previous;
+    });
+  }, []);
+
+  // Reveal and outline the change being looked at
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const hunk = review?.hunks[review.current];
+    const decorationId = hunk && decorationsRef.current.get(hunk.id);
+    const range = decorationId && model?.getDecorationRange(decorationId);
+    if (!editor || !range) return;
+
+    currentDecorationRef.current = editor.deltaDecorations(currentDecorationRef.current, [
+      { range, options: { className: 'tracked-current', isWholeLine: range.isEmpty() } },
+    ]);
+    editor.revealRangeInCenterIfOutsideViewport(range);
+  }, [editorRef, review]);
+
+  const cancelReview = useCallback(() => {
+    clearDecorations();
+    setReview(null);
+  }, [clearDecorations]);
+
+  return {
+    review,
+    startReview,
+    acceptHunk,
+    rejectHunk,
+    acceptAll,
+    rejectAll,
+    goTo,
+    cancelReview,
+  };
+}
@@ -14,6 +14,119 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_budgets: {
+        Row: {
+          created_at: string
+          id: string
+          monthly_spend_limit: number | null
+          monthly_token_limit: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          monthly_spend_limit?: number | null
+          monthly_token_limit?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          monthly_spend_limit?: number | null
+          monthly_token_limit?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          document_ids: string[]
+          error: string | null
+          finished_at: string | null
+          id: string
+          kind: string
+          options: Json
+          progress: number
+          progress_message: string | null
+          result: Json | null
+          result_document_id: string | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          document_ids: string[]
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          kind: string
+          options?: Json
+          progress?: number
+          progress_message?: string | null
+          result?: Json | null
+          result_document_id?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          document_ids?: string[]
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          kind?: string
+          options?: Json
+          progress?: number
+          progress_message?: string | null
+          result?: Json | null
+          result_document_id?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_jobs_result_document_id_fkey"
+            columns: ["result_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_rate_limit_events: {
+        Row: {
+          created_at: string
+          function_name: string
+          id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          function_name: string
+          id?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          function_name?: string
+          id?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       ai_usage: {
         Row: {
           cost_estimate: number | null
@@ -77,6 +190,361 @@ export type Database = {
         }
         Relationships: []
       }
+      chat_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          summarized_until: string | null
+          summary: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          summarized_until?: string | null
+          summary?: string | null
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          summarized_until?: string | null
+          summary?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chat_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          role: string
+          sources: Json
+          user_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          role: string
+          sources?: Json
+          user_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+          sources?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      command_packs: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          install_count: number
+          name: string
+          pack: Json
+          share_token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          install_count?: number
+          name: string
+          pack: Json
+          share_token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          install_count?: number
+          name?: string
+          pack?: Json
+          share_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          document_id: string
+          embedding: string | null
+          end_offset: number
+          id: string
+          start_offset: number
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          document_id: string
+          embedding?: string | null
+          end_offset: number
+          id?: string
+          start_offset: number
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          document_id?: string
+          embedding?: string | null
+          end_offset?: number
+          id?: string
+          start_offset?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_collaborators: {
+        Row: {
+          created_at: string
+          document_id: string
+          id: string
+          invited_by: string | null
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_collaborators_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_comments: {
+        Row: {
+          anchor_end: number | null
+          anchor_start: number | null
+          anchor_text: string | null
+          body: string
+          created_at: string
+          document_id: string
+          id: string
+          parent_id: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          anchor_end?: number | null
+          anchor_start?: number | null
+          anchor_text?: string | null
+          body: string
+          created_at?: string
+          document_id: string
+          id?: string
+          parent_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          anchor_end?: number | null
+          anchor_start?: number | null
+          anchor_text?: string | null
+          body?: string
+          created_at?: string
+          document_id?: string
+          id?: string
+          parent_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_comments_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "document_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_tags: {
+        Row: {
+          created_at: string
+          document_id: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_tags_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_updates: {
+        Row: {
+          created_at: string
+          document_id: string
+          id: number
+          user_id: string
+          yjs_update: string
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          id?: number
+          user_id: string
+          yjs_update: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          id?: number
+          user_id?: string
+          yjs_update?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_updates_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_versions: {
+        Row: {
+          content: string | null
+          created_at: string
+          document_id: string
+          id: string
+          title: string
+          user_id: string
+          version_number: number
+          word_count: number | null
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          document_id: string
+          id?: string
+          title: string
+          user_id: string
+          version_number?: number
+          word_count?: number | null
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          document_id?: string
+          id?: string
+          title?: string
+          user_id?: string
+          version_number?: number
+          word_count?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           category: string | null
@@ -86,12 +554,13 @@ export type Database = {
           embedding: string | null
           folder_id: string | null
           id: string
+          live_update_id: number | null
           status: string | null
           title: string
           updated_at: string | null
           user_id: string
-          version: number | null
-          word_count: number | null
+          version: number
+          word_count: number
         }
         Insert: {
           category?: string | null
@@ -101,11 +570,12 @@ export type Database = {
           embedding?: string | null
           folder_id?: string | null
           id?: string
+          live_update_id?: number | null
           status?: string | null
           title: string
           updated_at?: string | null
           user_id: string
-          version?: number | null
+          version?: number
           word_count?: number | null
         }
         Update: {
@@ -116,11 +586,12 @@ export type Database = {
           embedding?: string | null
           folder_id?: string | null
           id?: string
+          live_update_id?: number | null
           status?: string | null
           title?: string
           updated_at?: string | null
           user_id?: string
-          version?: number | null
+          version?: number
           word_count?: number | null
         }
         Relationships: [
@@ -198,6 +669,30 @@ export type Database = {
         }
         Relationships: []
       }
+      tags: {
+        Row: {
+          color: string | null
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_commands: {
         Row: {
           ai_model: string | null
@@ -212,6 +707,7 @@ export type Database = {
           name: string
           prompt: string
           sort_order: number | null
+          steps: Json | null
           system_prompt: string
           temperature: number | null
           updated_at: string
@@ -231,6 +727,7 @@ export type Database = {
           name: string
           prompt: string
           sort_order?: number | null
+          steps?: Json | null
           system_prompt: string
           temperature?: number | null
           updated_at?: string
@@ -250,6 +747,7 @@ export type Database = {
           name?: string
           prompt?: string
           sort_order?: number | null
+          steps?: Json | null
           system_prompt?: string
           temperature?: number | null
           updated_at?: string
@@ -263,10 +761,122 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      ai_budget_status: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          monthly_spend_limit: number
+          monthly_token_limit: number
+          period_start: string
+          spend: number
+          tokens: number
+        }[]
+      }
+      ai_budget_status_for: {
+        Args: { owner_id: string }
+        Returns: {
+          monthly_spend_limit: number
+          monthly_token_limit: number
+          period_start: string
+          spend: number
+          tokens: number
+        }[]
+      }
+      ai_job_is_stale: {
+        Args: { job: Database["public"]["Tables"]["ai_jobs"]["Row"] }
+        Returns: boolean
+      }
+      ai_usage_summary: {
+        Args: { since: string }
+        Returns: {
+          cost: number
+          day: string
+          function_name: string
+          model: string
+          requests: number
+          tokens_input: number
+          tokens_output: number
+        }[]
+      }
+      append_document_update: {
+        Args: { doc_id: string; through_id?: number; update_data: string }
+        Returns: number
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      cancel_ai_job: {
+        Args: { job_id: string }
+        Returns: undefined
+      }
+      claim_ai_job: {
+        Args: { job_id: string }
+        Returns: boolean
+      }
+      claim_stale_ai_jobs: {
+        Args: { max_jobs?: number }
+        Returns: string[]
+      }
+      compact_document_updates: {
+        Args: { doc_id: string; snapshot: string; through_id: number }
+        Returns: undefined
+      }
+      consume_rate_limit: {
+        Args: {
+          function_max_requests: number
+          function_name: string
+          function_window_seconds: number
+          user_max_requests: number
+          user_window_seconds: number
+        }
+        Returns: number
+      }
+      document_channel_role: {
+        Args: { topic: string }
+        Returns: string
+      }
+      document_role: {
+        Args: { doc_id: string }
+        Returns: string
+      }
+      finish_ai_job: {
+        Args: {
+          failure?: string
+          job_id: string
+          job_result?: Json
+          result_doc_id?: string
+          succeeded: boolean
+        }
+        Returns: boolean
+      }
+      folder_document_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          document_count: number
+          folder_id: string
+        }[]
+      }
+      get_document_members: {
+        Args: { doc_id: string }
+        Returns: {
+          email: string
+          name: string
+          role: string
+          user_id: string
+        }[]
+      }
+      get_shared_command_pack: {
+        Args: { token: string }
+        Returns: {
+          created_at: string
+          description: string
+          id: string
+          install_count: number
+          is_owner: boolean
+          name: string
+          pack: Json
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -299,6 +909,10 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      import_command_pack: {
+        Args: { entries: Json }
+        Returns: undefined
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -319,6 +933,23 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: unknown
       }
+      match_document_chunks: {
+        Args: {
+          match_count?: number
+          match_threshold?: number
+          query_embedding: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          document_id: string
+          end_offset: number
+          id: string
+          similarity: number
+          start_offset: number
+          title: string
+        }[]
+      }
       match_documents: {
         Args: {
           match_count?: number
@@ -333,6 +964,51 @@ export type Database = {
           title: string
         }[]
       }
+      move_comment_anchors: {
+        Args: { anchors: Json; doc_id: string }
+        Returns: undefined
+      }
+      record_command_pack_install: {
+        Args: { token: string }
+        Returns: undefined
+      }
+      replace_document_chunks: {
+        Args: { chunks: Json; doc_id: string; owner_id: string }
+        Returns: undefined
+      }
+      retry_ai_job: {
+        Args: { job_id: string }
+        Returns: undefined
+      }
+      search_documents: {
+        Args: {
+          match_count?: number
+          match_threshold?: number
+          query_embedding?: string
+          rrf_k?: number
+          search_query: string
+        }
+        Returns: {
+          id: string
+          score: number
+          similarity: number
+          snippet: string
+          text_rank: number
+          title: string
+        }[]
+      }
+      search_vector: {
+        Args: { "": Database["public"]["Tables"]["documents"]["Row"] }
+        Returns: unknown
+      }
+      set_comment_resolved: {
+        Args: { comment_id: string; resolved: boolean }
+        Returns: undefined
+      }
+      share_document: {
+        Args: { doc_id: string; email: string; new_role: string }
+        Returns: string
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -345,6 +1021,14 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      tag_ids: {
+        Args: { "": Database["public"]["Tables"]["documents"]["Row"] }
+        Returns: string[]
+      }
+      update_ai_job_progress: {
+        Args: { job_id: string; message?: string; progress: number }
+        Returns: boolean
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({ from: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: mocks.from } }));
+
+import { DEFAULT_FILTERS, UNFILED_FOLDER_ID, useDocumentStore } from '@/lib/stores/useDocumentStore';
+
+type Row = Record<string, unknown>;
+
+// A documents query that records its filters and resolves to `result`
+function documentsQuery(result: { data?: Row[] | null; error?: unknown }) {
+  const calls: [string, ...unknown[]][] = [];
+  const query: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve({ data: result.data ?? null, error: result.error ?? null }).then(resolve, reject),
+  };
+  for (const method of ['select', 'eq', 'in', 'is', 'textSearch', 'contains', 'overlaps', 'or', 'order', 'limit']) {
+    query[method] = (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return query;
+    };
+  }
+  mocks.from.mockReturnValueOnce(query);
+  return calls;
+}
+
+function row(id: string, overrides: Row = {}): Row {
+  return {
+    id,
+    title: `Document ${id}`,
+    content: 'Three small words',
+    word_count: 0,
+    updated_at: `2026-10-${id.padStart(2, '0')}T00:00:00Z`,
+    user_id: 'user-1',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  mocks.from.mockReset();
+  useDocumentStore.getState().resetDocuments();
+  useDocumentStore.setState({ filters: DEFAULT_FILTERS, loading: false });
+});
+
+describe('loadDocuments', () => {
+  it("loads the user's documents, counting words when the count is missing", async () => {
+    const calls = documentsQuery({
+      data: [row('1'), row('2', { word_count: 40 }), row('3', { content: null }), row('4', { content: '   ' })],
+    });
+
+    await useDocumentStore.getState().loadDocuments({ userId: 'user-1' });
+
+    const { documents, error, loading, hasMore } = useDocumentStore.getState();
+    expect(error).toBeNull();
+    expect(loading).toBe(false);
+    expect(hasMore).toBe(false);
+    expect(documents.map(doc => doc.word_count)).toEqual([3, 40, 0, 0]);
+    expect(calls).toContainEqual(['eq', 'user_id', 'user-1']);
+    expect(calls).toContainEqual(['order', 'updated_at', { ascending: false, nullsFirst: false }]);
+  });
+
+  it('applies the filters to the query', async () => {
+    const calls = documentsQuery({ data: [] });
+
+    await useDocumentStore.getState().loadDocuments({
+      userId: 'user-1',
+      filters: {
+        ...DEFAULT_FILTERS,
+        category: 'Essay',
+        status: ['draft'],
+        sortBy: 'az',
+        folderId: UNFILED_FOLDER_ID,
+        query: ' river ',
+        tagIds: ['tag-1', 'tag-2'],
+        tagMatch: 'all',
+      },
+    });
+
+    expect(calls).toEqual(expect.arrayContaining([
+      ['eq', 'category', 'Essay'],
+      ['in', 'status', ['draft']],
+      ['is', 'folder_id', null],
+      ['textSearch', 'search_vector', 'river', { type: 'websearch', config: 'english' }],
+      ['contains', 'tag_ids', ['tag-1', 'tag-2']],
+      ['order', 'title', { ascending: true, nullsFirst: false }],
+    ]));
+  });
+
+  it('continues after the last loaded row when appending', async () => {
+    const firstPage = Array.from({ length: 12 }, (_, i) => row(String(i + 1)));
+    documentsQuery({ data: firstPage });
+    await useDocumentStore.getState().loadDocuments({ userId: 'user-1' });
+    expect(useDocumentStore.getState().hasMore).toBe(true);
+
+    const calls = documentsQuery({ data: [row('13')] });
+    await useDocumentStore.getState().loadMoreDocuments('user-1');
+
+    const last = firstPage[11];
+    expect(calls).toContainEqual([
+      'or',
+      `updated_at.lt."${last.updated_at}",and(updated_at.eq."${last.updated_at}",id.lt.12),updated_at.is.null`,
+    ]);
+    const { documents, hasMore } = useDocumentStore.getState();
+    expect(documents.map(doc => doc.id)).toEqual([...firstPage.map(doc => doc.id), '13']);
+    expect(hasMore).toBe(false);
+  });
+
+  it('reuses a loaded result for the same filters', async () => {
+    documentsQuery({ data: [row('1')] });
+    await useDocumentStore.getState().loadDocuments({ userId: 'user-1' });
+    await useDocumentStore.getState().loadDocuments({ userId: 'user-1' });
+
+    expect(mocks.from).toHaveBeenCalledTimes(1);
+    expect(useDocumentStore.getState().documents).toHaveLength(1);
+  });
+
+  it('reports a failed load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    documentsQuery({ error: new Error('permission denied') });
+
+    await useDocumentStore.getState().loadDocuments({ userId: 'user-1' });
+
+    expect(useDocumentStore.getState()).toMatchObject({ loading: false, error: 'permission denied' });
+  });
+});
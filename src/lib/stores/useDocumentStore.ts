@@ -1,5 +1,15 @@
 import { create } from 'zustand';
 import { supabase } from '@/integrations/supabase/client';
+import { DocumentConflictError, saveDocumentText, ServerCopy, toServerCopy } from '@/utils/documentSaves';
+import {
+  deleteStoredDraft,
+  DraftConflict,
+  getStoredDraft,
+  isNetworkError,
+  listStoredDrafts,
+  OfflineDraft,
+  putStoredDraft
+} from '@/utils/offlineDrafts';
 
 interface Document {
   id: string;
@@ -12,101 +22,290 @@ interface Document {
   created_at: string;
   updated_at: string;
   user_id: string;
+  // Bumped by every change to title or content; saves must name the one they started from
+  version?: number;
 }
 
+export type DocumentSortBy = 'recent' | 'oldest' | 'az' | 'za' | 'wordcount';
+
+export interface FilterOptions {
+  // 'all' matches every category
+  category: string;
+  status: string[];
+  sortBy: DocumentSortBy;
+  // A folder id, UNFILED_FOLDER_ID, or undefined for every folder
+  folderId?: string;
+  // Full-text query over title and content
+  query?: string;
+  tagIds?: string[];
+  // 'any' matches documents with at least one of tagIds, 'all' requires every one
+  tagMatch?: TagMatch;
+}
+
+export type TagMatch = 'any' | 'all';
+
+export const UNFILED_FOLDER_ID = 'unfiled';
+
+export const DEFAULT_FILTERS: FilterOptions = {
+  category: 'all',
+  status: [],
+  sortBy: 'recent',
+  folderId: undefined,
+  tagIds: [],
+  tagMatch: 'any'
+};
+
+// Sort value and id of the last loaded row; the next page starts after it
+interface DocumentCursor {
+  value: string | number | null;
+  id: string;
+}
+
+interface CachedResult {
+  documents: Document[];
+  cursor: DocumentCursor | null;
+  hasMore: boolean;
+}
+
+// The document columns a draft is saved to and checked against
+type DraftFields = Pick<OfflineDraft, 'title' | 'content' | 'wordCount'>;
+
+/** What became of local edits handed to the store. */
+export type DraftSaveResult =
+  | { status: 'saved'; copy: ServerCopy }
+  // Kept on this device until the connection returns
+  | { status: 'queued' }
+  | { status: 'conflict'; conflict: DraftConflict };
+
 interface DocumentStore {
   // State
   documents: Document[];
   currentDocument: Document | null;
+  filters: FilterOptions;
   loading: boolean;
   hasMore: boolean;
-  page: number;
+  cursor: DocumentCursor | null;
+  // Loaded pages per user and filter combination
+  cache: Record<string, CachedResult>;
   error: string | null;
-  
+  // The copy on this device of each document opened, by id
+  drafts: Record<string, OfflineDraft>;
+  // Drafts waiting on the user to merge them with a newer server copy
+  draftConflicts: Record<string, DraftConflict>;
+  syncingDrafts: boolean;
+
   // Actions
   setCurrentDocument: (doc: Document | null) => void;
   resetDocuments: () => void;
-  loadDocuments: (options?: { append?: boolean; userId?: string }) => Promise<void>;
+  loadDocuments: (options?: { append?: boolean; userId?: string; filters?: FilterOptions }) => Promise<void>;
   loadMoreDocuments: (userId: string) => Promise<void>;
+  refreshDocuments: (userId: string) => Promise<void>;
   addDocument: (doc: Document) => void;
   updateDocument: (docId: string, updates: Partial<Document>) => void;
   removeDocument: (docId: string) => void;
   setError: (error: string | null) => void;
+  loadOfflineDrafts: (userId: string) => Promise<void>;
+  cacheDocumentCopy: (doc: CachedDocument, userId: string) => Promise<OfflineDraft>;
+  getOfflineDraft: (docId: string) => Promise<OfflineDraft | null>;
+  saveDocumentDraft: (docId: string, fields: DraftFields) => Promise<DraftSaveResult>;
+  markDraftSaved: (docId: string, copy: ServerCopy) => void;
+  // Resolves to how many drafts were saved
+  syncPendingDrafts: (userId: string) => Promise<number>;
+  // Saves the merged title and content, or takes the server copy when null
+  resolveDraftConflict: (docId: string, merged: Pick<OfflineDraft, 'title' | 'content'> | null) => Promise<DraftSaveResult>;
+}
+
+// A document row as loaded in the editor
+interface CachedDocument {
+  id: string;
+  title: string;
+  content: string | null;
+  category: string | null;
+  status: string | null;
+  word_count: number;
+  created_at: string | null;
+  updated_at: string | null;
+  user_id: string;
+  version: number;
 }
 
 const PAGE_SIZE = 12;
+const MAX_CACHED_RESULTS = 20;
+
+type SortColumn = 'updated_at' | 'created_at' | 'title' | 'word_count';
+
+// id breaks ties so every row has a unique position for the cursor
+const SORT_ORDERS: Record<DocumentSortBy, { column: SortColumn; ascending: boolean }> = {
+  recent: { column: 'updated_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  az: { column: 'title', ascending: true },
+  za: { column: 'title', ascending: false },
+  wordcount: { column: 'word_count', ascending: false }
+};
+
+// Only the latest fresh load may replace the list
+let latestRequest = 0;
+
+function cacheKey(userId: string, filters: FilterOptions): string {
+  return JSON.stringify([
+    userId,
+    filters.category,
+    [...filters.status].sort(),
+    filters.sortBy,
+    filters.folderId ?? null,
+    filters.query?.trim().toLowerCase() ?? '',
+    [...(filters.tagIds ?? [])].sort(),
+    filters.tagMatch ?? 'any'
+  ]);
+}
+
+// Quotes a value for a PostgREST logic tree, where commas and parentheses are syntax
+function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Rows after the cursor in (column, id) order; nulls sort last
+function keysetFilter(column: SortColumn, ascending: boolean, cursor: DocumentCursor): string {
+  const op = ascending ? 'gt' : 'lt';
+  if (cursor.value === null) return `and(${column}.is.null,id.${op}.${cursor.id})`;
+
+  const value = quoteFilterValue(cursor.value);
+  return `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id}),${column}.is.null`;
+}
+
+// Keeps the most recently loaded filter combinations
+function withCachedResult(cache: Record<string, CachedResult>, key: string, result: CachedResult) {
+  const kept = Object.keys(cache)
+    .filter(existing => existing !== key)
+    .slice(-(MAX_CACHED_RESULTS - 1));
+  return Object.fromEntries([...kept.map(existing => [existing, cache[existing]]), [key, result]]);
+}
+
+// One save per document at a time, so replays and autosaves don't race
+const draftSaves = new Map<string, Promise<DraftSaveResult>>();
+
+function matchesServer(draft: Pick<OfflineDraft, 'title' | 'content'>, server: ServerCopy): boolean {
+  return draft.title === server.title && draft.content === server.content;
+}
+
+// True when the draft reached IndexedDB; it stays in memory either way
+async function persistDraft(draft: OfflineDraft): Promise<boolean> {
+  try {
+    await putStoredDraft(draft);
+    return true;
+  } catch (error) {
+    console.error('Error storing offline draft:', error);
+    return false;
+  }
+}
 
 export const useDocumentStore = create<DocumentStore>((set, get) => ({
   // Initial state
   documents: [],
   currentDocument: null,
+  filters: DEFAULT_FILTERS,
   loading: false,
   hasMore: true,
-  page: 0,
+  cursor: null,
+  cache: {},
   error: null,
+  drafts: {},
+  draftConflicts: {},
+  syncingDrafts: false,
 
   // Actions
   setCurrentDocument: (doc) => set({ currentDocument: doc }),
 
-  resetDocuments: () => set({ 
-    documents: [], 
-    currentDocument: null, 
-    page: 0, 
-    hasMore: true, 
-    error: null 
+  resetDocuments: () => set({
+    documents: [],
+    currentDocument: null,
+    cursor: null,
+    hasMore: true,
+    cache: {},
+    error: null
   }),
 
   setError: (error) => set({ error }),
 
   loadDocuments: async (options = {}) => {
     const { append = false, userId } = options;
-    
+    const filters = options.filters ?? get().filters;
+
     if (!userId) {
       console.warn('loadDocuments called without userId');
       return;
     }
 
-    const { loading } = get();
-    if (loading) return; // Prevent concurrent requests
+    // Pages are appended one at a time; a fresh load supersedes any in flight
+    if (append && get().loading) return;
 
-    set({ loading: true, error: null });
+    const key = cacheKey(userId, filters);
+    const cached = get().cache[key];
+    if (!append && cached) {
+      latestRequest++;
+      set({ ...cached, filters, loading: false, error: null });
+      return;
+    }
+
+    const requestId = ++latestRequest;
+    set({ loading: true, error: null, filters });
 
     try {
-      const currentPage = append ? get().page : 0;
-      const from = currentPage * PAGE_SIZE;
-      const to = from + PAGE_SIZE - 1;
+      const { column, ascending } = SORT_ORDERS[filters.sortBy];
+      const cursor = append ? get().cursor : null;
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('documents')
         .select('*')
-        .eq('user_id', userId)
-        .order('updated_at', { ascending: false })
-        .range(from, to);
+        .eq('user_id', userId);
+
+      if (filters.category !== 'all') query = query.eq('category', filters.category);
+      if (filters.status.length > 0) query = query.in('status', filters.status);
+      if (filters.folderId === UNFILED_FOLDER_ID) query = query.is('folder_id', null);
+      else if (filters.folderId) query = query.eq('folder_id', filters.folderId);
+      if (filters.query?.trim()) {
+        query = query.textSearch('search_vector', filters.query.trim(), { type: 'websearch', config: 'english' });
+      }
+      if (filters.tagIds?.length) {
+        query = filters.tagMatch === 'all'
+          ? query.contains('tag_ids', filters.tagIds)
+          : query.overlaps('tag_ids', filters.tagIds);
+      }
+      if (cursor) query = query.or(keysetFilter(column, ascending, cursor));
+
+      const { data, error } = await query
+        .order(column, { ascending, nullsFirst: false })
+        .order('id', { ascending })
+        .limit(PAGE_SIZE);
 
       if (error) throw error;
+      if (requestId !== latestRequest) return;
 
       const documentsWithWordCount = (data || []).map(doc => ({
         ...doc,
-        word_count: doc.word_count || doc.content.trim().split(/\s+/).filter(word => word.length > 0).length
+        word_count: doc.word_count || (doc.content ?? '').trim().split(/\s+/).filter(word => word.length > 0).length
       }));
 
-      const newHasMore = documentsWithWordCount.length === PAGE_SIZE;
+      const last = data?.[data.length - 1];
+      const result: CachedResult = {
+        documents: append ? [...get().documents, ...documentsWithWordCount] : documentsWithWordCount,
+        cursor: last ? { value: last[column], id: last.id } : cursor,
+        hasMore: documentsWithWordCount.length === PAGE_SIZE
+      };
 
       set((state) => ({
-        documents: append 
-          ? [...state.documents, ...documentsWithWordCount]
-          : documentsWithWordCount,
-        page: append ? currentPage + 1 : 1,
-        hasMore: newHasMore,
+        ...result,
+        cache: withCachedResult(state.cache, key, result),
         loading: false,
         error: null
       }));
 
     } catch (error) {
+      if (requestId !== latestRequest) return;
       console.error('Error loading documents:', error);
-      set({ 
-        loading: false, 
-        error: error instanceof Error ? error.message : 'Failed to load documents' 
+      set({
+        loading: false,
+        error: error instanceof Error ? error.message : 'Failed to load documents'
       });
     }
   },
@@ -114,25 +313,233 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
   loadMoreDocuments: async (userId: string) => {
     const { hasMore, loading } = get();
     if (!hasMore || loading) return;
-    
+
     await get().loadDocuments({ append: true, userId });
   },
 
+  // Reloads the current filters from the first page after documents changed elsewhere
+  refreshDocuments: async (userId: string) => {
+    set({ cache: {} });
+    await get().loadDocuments({ userId });
+  },
+
+  // Local edits can move documents between filter results, so cached results are dropped
   addDocument: (doc) => set((state) => ({
-    documents: [doc, ...state.documents]
+    documents: [doc, ...state.documents],
+    cache: {}
   })),
 
   updateDocument: (docId, updates) => set((state) => ({
-    documents: state.documents.map(doc => 
+    documents: state.documents.map(doc =>
       doc.id === docId ? { ...doc, ...updates } : doc
     ),
-    currentDocument: state.currentDocument?.id === docId 
+    currentDocument: state.currentDocument?.id === docId
       ? { ...state.currentDocument, ...updates }
-      : state.currentDocument
+      : state.currentDocument,
+    cache: {}
   })),
 
-  removeDocument: (docId) => set((state) => ({
-    documents: state.documents.filter(doc => doc.id !== docId),
-    currentDocument: state.currentDocument?.id === docId ? null : state.currentDocument
-  }))
-}));
\ No newline at end of file
+  removeDocument: (docId) => {
+    set((state) => {
+      const drafts = { ...state.drafts };
+      const draftConflicts = { ...state.draftConflicts };
+      delete drafts[docId];
+      delete draftConflicts[docId];
+
+      return {
+        documents: state.documents.filter(doc => doc.id !== docId),
+        currentDocument: state.currentDocument?.id === docId ? null : state.currentDocument,
+        cache: {},
+        drafts,
+        draftConflicts
+      };
+    });
+    deleteStoredDraft(docId).catch(error => console.error('Error removing offline draft:', error));
+  },
+
+  // Picks up drafts left on this device by an earlier visit
+  loadOfflineDrafts: async (userId) => {
+    try {
+      const stored = await listStoredDrafts(userId);
+      set((state) => {
+        const drafts = { ...state.drafts };
+        for (const draft of stored) {
+          const current = drafts[draft.documentId];
+          if (!current || current.editedAt < draft.editedAt) drafts[draft.documentId] = draft;
+        }
+        return { drafts };
+      });
+    } catch (error) {
+      console.error('Error loading offline drafts:', error);
+    }
+  },
+
+  /**
+   * Keeps a copy of a document just loaded from the server so it opens
+   * offline. Edits still waiting to be saved are kept; they are returned
+   * for the editor to restore.
+   */
+  cacheDocumentCopy: async (doc, userId) => {
+    const existing = await get().getOfflineDraft(doc.id);
+    const base = toServerCopy(doc);
+    const pending = existing?.pending && existing.userId === userId && !matchesServer(existing, base);
+
+    const draft: OfflineDraft = pending && existing
+      ? existing
+      : {
+        documentId: doc.id,
+        userId,
+        title: base.title,
+        content: base.content,
+        wordCount: doc.word_count,
+        ownerId: doc.user_id,
+        category: doc.category ?? 'general',
+        status: doc.status ?? 'draft',
+        createdAt: doc.created_at ?? new Date().toISOString(),
+        base,
+        editedAt: doc.updated_at ?? new Date().toISOString(),
+        pending: false
+      };
+
+    set((state) => ({ drafts: { ...state.drafts, [doc.id]: draft } }));
+    await persistDraft(draft);
+    return draft;
+  },
+
+  getOfflineDraft: async (docId) => {
+    const inMemory = get().drafts[docId];
+    if (inMemory) return inMemory;
+
+    try {
+      return await getStoredDraft(docId);
+    } catch (error) {
+      console.error('Error reading offline draft:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Stores edits on this device, then saves them unless the server copy has
+   * changed since the draft's base, which leaves a conflict to merge. Edits
+   * made without a connection are queued for syncPendingDrafts.
+   */
+  saveDocumentDraft: async (docId, fields) => {
+    const current = get().drafts[docId];
+    if (!current) throw new Error('Document has not been loaded');
+
+    const draft: OfflineDraft = { ...current, ...fields, editedAt: new Date().toISOString(), pending: true };
+    set((state) => ({ drafts: { ...state.drafts, [docId]: draft } }));
+    const stored = await persistDraft(draft);
+
+    const result = await saveDraft(docId);
+    // Without a stored copy the edits would be lost on reload
+    if (result.status === 'queued' && !stored) throw new Error('You are offline and this device cannot store drafts');
+    return result;
+  },
+
+  // Records a save made outside saveDocumentDraft, such as a live one
+  markDraftSaved: (docId, copy) => {
+    const current = get().drafts[docId];
+    if (!current) return;
+
+    const draft = { ...current, base: copy, pending: !matchesServer(current, copy) };
+    set((state) => ({ drafts: { ...state.drafts, [docId]: draft } }));
+    void persistDraft(draft);
+  },
+
+  // Replays drafts edited offline; any that conflict wait in draftConflicts
+  syncPendingDrafts: async (userId) => {
+    if (get().syncingDrafts) return 0;
+    set({ syncingDrafts: true });
+
+    let saved = 0;
+    try {
+      await get().loadOfflineDrafts(userId);
+      const pending = Object.values(get().drafts).filter(draft =>
+        draft.pending && draft.userId === userId && !get().draftConflicts[draft.documentId]
+      );
+
+      for (const draft of pending) {
+        try {
+          const result = await saveDraft(draft.documentId);
+          if (result.status === 'saved') saved++;
+          // Still offline; the rest would fail the same way
+          if (result.status === 'queued') break;
+        } catch (error) {
+          console.error('Error syncing offline draft:', error);
+        }
+      }
+    } finally {
+      set({ syncingDrafts: false });
+    }
+    return saved;
+  },
+
+  resolveDraftConflict: async (docId, merged) => {
+    const conflict = get().draftConflicts[docId];
+    const current = get().drafts[docId];
+    if (!conflict || !current) throw new Error('There is nothing to merge');
+
+    const draftConflicts = { ...get().draftConflicts };
+    delete draftConflicts[docId];
+    const content = merged?.content ?? conflict.server.content;
+    const draft: OfflineDraft = {
+      ...current,
+      title: merged?.title ?? conflict.server.title,
+      content,
+      wordCount: content.split(' ').filter(word => word.length > 0).length,
+      base: conflict.server,
+      editedAt: new Date().toISOString(),
+      pending: merged !== null && !matchesServer(merged, conflict.server)
+    };
+    set((state) => ({ drafts: { ...state.drafts, [docId]: draft }, draftConflicts }));
+    await persistDraft(draft);
+
+    return draft.pending ? saveDraft(docId) : { status: 'saved', copy: conflict.server };
+  }
+}));
+
+// Saves a document's draft after any save of it already running
+function saveDraft(docId: string): Promise<DraftSaveResult> {
+  const previous = draftSaves.get(docId) ?? Promise.resolve(null);
+  const next = previous.catch(() => null).then(() => pushDraft(docId));
+  draftSaves.set(docId, next);
+  next.finally(() => {
+    if (draftSaves.get(docId) === next) draftSaves.delete(docId);
+  }).catch(() => undefined);
+  return next;
+}
+
+// Writes the draft over the version it started from. When someone else saved
+// first, their copy either already matches or becomes a conflict to merge.
+async function pushDraft(docId: string): Promise<DraftSaveResult> {
+  const { drafts, draftConflicts, markDraftSaved } = useDocumentStore.getState();
+  const draft = drafts[docId];
+  if (!draft) throw new Error('Document has not been loaded');
+  if (draftConflicts[docId]) return { status: 'conflict', conflict: draftConflicts[docId] };
+  if (!draft.pending) return { status: 'saved', copy: draft.base };
+
+  try {
+    const copy = await saveDocumentText(docId, draft.base.version, draft);
+    markDraftSaved(docId, copy);
+    return { status: 'saved', copy };
+  } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      if (matchesServer(draft, error.server)) {
+        markDraftSaved(docId, error.server);
+        return { status: 'saved', copy: error.server };
+      }
+
+      const conflict: DraftConflict = {
+        documentId: docId,
+        base: draft.base,
+        mine: { title: draft.title, content: draft.content },
+        server: error.server
+      };
+      useDocumentStore.setState((state) => ({ draftConflicts: { ...state.draftConflicts, [docId]: conflict } }));
+      return { status: 'conflict', conflict };
+    }
+    if (isNetworkError(error)) return { status: 'queued' };
+    throw error;
+  }
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, lazy, Suspense, useCallback, useRef } from "react";
+import { useState, useEffect, lazy, Suspense, useCallback, useRef, useMemo } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -21,7 +21,7 @@ import { CustomShortcuts } from "@/components/CustomShortcuts";
 import { AdvancedAICommands } from "@/components/AdvancedAICommands";
 import { CompactMoreCommands } from "@/components/CompactMoreCommands";
 import { VoiceRecorder } from "@/components/VoiceRecorder";
-import { AISuggestionPanel } from "@/components/AISuggestionPanel";
+import { AISuggestion, AISuggestionPanel } from "@/components/AISuggestionPanel";
 import { AIChatSidebar } from "@/components/AIChatSidebar";
 import { FullScreenAIChat } from "@/components/chat";
 import { DocumentSearch } from "@/components/DocumentSearch";
@@ -29,10 +29,23 @@ import { DocumentFilters } from "@/components/DocumentFilters";
 import { DocumentList } from "@/components/DocumentList";
 import { DocumentStats } from "@/components/DocumentStats";
 import { useEmbeddings } from "@/hooks/useEmbeddings";
-import { useDocumentStore } from "@/lib/stores/useDocumentStore";
+import { useDocumentVersions } from "@/hooks/useDocumentVersions";
+import { useStreamingAI } from "@/hooks/useStreamingAI";
+import { useRateLimitCountdown } from "@/hooks/useRateLimitCountdown";
+import { captureEditorRange, EditorRange, replaceEditorRange, useTrackedChanges } from "@/hooks/useTrackedChanges";
+import { RateLimitNotice } from "@/components/RateLimitNotice";
+import { TrackedChangesBar } from "@/components/TrackedChangesBar";
+import { TemplateQuestionsDialog } from "@/components/TemplateQuestionsDialog";
+import { DraftConflictDialog } from "@/components/DraftConflictDialog";
+import { DocumentConflictError, MergeConflict, saveDocumentText, ServerCopy } from "@/utils/documentSaves";
+import { toFunctionError } from "@/utils/functionErrors";
+import { templatePayload, templateQuestions, TemplateValues } from "@/utils/promptTemplate";
+import { CHAIN_STEP_INPUTS, chainQuestions, chainSteps, isChainCommand, loadChainCommands, runCommandChain } from "@/utils/commandChains";
+import { useDocumentStore, DEFAULT_FILTERS, FilterOptions } from "@/lib/stores/useDocumentStore";
 import { Badge } from "@/components/ui/badge";
 import { CommandSettings } from "@/components/CommandSettings";
 import { useDocumentSelection } from "@/hooks/useDocumentSelection";
+import { useDocumentSearch } from "@/hooks/useDocumentSearch";
 import { ContextualAIToolbar } from "@/components/ContextualAIToolbar";
 import { SettingsModal } from "@/components/SettingsModal";
 import { useHaptics } from "@/hooks/useHaptics";
@@ -62,25 +75,13 @@ interface Category {
   is_default: boolean;
 }
 
-interface FilterOptions {
-  category: string;
-  status: string[];
-  sortBy: 'recent' | 'oldest' | 'az' | 'za' | 'wordcount';
-  folderId?: string;
-}
-
-interface AISuggestion {
-  id: string;
-  type: 'light-edit' | 'expand' | 'condense' | 'outline';
-  originalText: string;
-  suggestedText: string;
-  changes?: boolean;
-}
-
 export default function Dashboard() {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const { generateEmbeddingsSilently } = useEmbeddings();
+  const { snapshotIfMeaningful } = useDocumentVersions();
+  const { streamFunction, cancelStream } = useStreamingAI();
+  const { rateLimit, handleRateLimit } = useRateLimitCountdown();
   const { settings } = useSettingsStore();
   // Document state management via Zustand store
   const {
@@ -91,22 +92,17 @@ export default function Dashboard() {
     setCurrentDocument,
     loadDocuments,
     loadMoreDocuments,
+    refreshDocuments,
     addDocument,
     updateDocument,
     removeDocument
   } = useDocumentStore();
   
-  const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [documentTitle, setDocumentTitle] = useState("");
   const [documentContent, setDocumentContent] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [filters, setFilters] = useState<FilterOptions>({
-    category: 'all',
-    status: [],
-    sortBy: 'recent',
-    folderId: undefined
-  });
+  const [filters, setFilters] = useState<FilterOptions>(DEFAULT_FILTERS);
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const saved = localStorage.getItem('darkMode');
     return saved !== null ? JSON.parse(saved) : false;
@@ -115,9 +111,11 @@ export default function Dashboard() {
   const [leftSidebarOpen, setLeftSidebarOpen] = useState(false);
   const [rightSidebarOpen, setRightSidebarOpen] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [searchLoading, setSearchLoading] = useState(false);
   const [aiSuggestion, setAiSuggestion] = useState<AISuggestion | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  // Which step of a command chain is running
+  const [chainProgress, setChainProgress] = useState<string | null>(null);
   const [selectedText, setSelectedText] = useState('');
   const [showCommandSettings, setShowCommandSettings] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
@@ -125,6 +123,8 @@ export default function Dashboard() {
   const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [saveIndicator, setSaveIndicator] = useState<'saved' | 'saving' | 'error' | null>(null);
+  // Edits someone else's save got in ahead of, waiting to be merged
+  const [saveConflict, setSaveConflict] = useState<MergeConflict | null>(null);
   
   // Analysis/Fact-check results
   const [analysisResult, setAnalysisResult] = useState<any>(null);
@@ -132,6 +132,8 @@ export default function Dashboard() {
   const [factCheckResult, setFactCheckResult] = useState<any>(null);
   const [showFactCheckModal, setShowFactCheckModal] = useState(false);
   const [showMoreCommands, setShowMoreCommands] = useState(false);
+  // A command waiting on answers to its {{ask:...}} questions
+  const [pendingQuestions, setPendingQuestions] = useState<{ command: UnifiedCommand; questions: string[] } | null>(null);
   const [showBulkUploader, setShowBulkUploader] = useState(false);
   
   // Compact commands state for More button
@@ -150,6 +152,8 @@ export default function Dashboard() {
   // Editor reference for text selection
   const editorRef = useRef<any>(null);
   const monacoRef = useRef<any>(null);
+  // The selection an advanced command's text replacement goes over
+  const replaceTargetRef = useRef<{ range: EditorRange | undefined; text: string } | null>(null);
   
   // Mobile state
   const [mobileDocumentLibraryOpen, setMobileDocumentLibraryOpen] = useState(false);
@@ -170,6 +174,19 @@ export default function Dashboard() {
     selectionCount
   } = useDocumentSelection();
 
+  // Hybrid full-text and semantic search runs server-side
+  const {
+    results: searchResults,
+    isSearching: documentSearchLoading,
+    search: searchDocuments,
+    clear: clearSearchResults
+  } = useDocumentSearch();
+
+  const searchSnippets = useMemo(
+    () => Object.fromEntries(searchResults.map(result => [result.id, result.snippet])),
+    [searchResults]
+  );
+
   // Helper functions for editor text selection
   const getSelectedTextFromEditor = useCallback(() => {
     if (editorRef.current && monacoRef.current) {
@@ -182,20 +199,6 @@ export default function Dashboard() {
     return '';
   }, []);
 
-  const replaceSelectedText = useCallback((newText: string) => {
-    if (editorRef.current && selectedText) {
-      const selection = editorRef.current.getSelection();
-      if (selection) {
-        editorRef.current.executeEdits('ai-command', [{
-          range: selection,
-          text: newText,
-          forceMoveMarkers: true
-        }]);
-        setSelectedText(''); // Clear selection after replacement
-      }
-    }
-  }, [selectedText]);
-
   // Function to handle editor mount and expose editor reference
   const handleEditorMount = useCallback((editor: any, monaco: any) => {
     editorRef.current = editor;
@@ -203,10 +206,28 @@ export default function Dashboard() {
     console.log('Monaco editor mounted and references set');
   }, []);
 
-  // Update filtered documents when documents, search, or filters change
+  const trackedChanges = useTrackedChanges(editorRef, ({ label, accepted, total }) => {
+    toast({
+      title: `${label} reviewed`,
+      description: `${accepted} of ${total} change${total === 1 ? '' : 's'} accepted.`,
+    });
+  });
+  const { startReview, cancelReview } = trackedChanges;
+
+  // Filtering, sorting and keyword search run in the document query
   useEffect(() => {
-    applyFiltersAndSearch();
-  }, [documents, searchQuery, filters]);
+    if (user) {
+      loadDocuments({ userId: user.id, filters: { ...filters, query: searchQuery } });
+    }
+  }, [user, filters, searchQuery, loadDocuments]);
+
+  useEffect(() => {
+    if (user && searchQuery.trim()) {
+      searchDocuments(searchQuery);
+    } else {
+      clearSearchResults();
+    }
+  }, [user, searchQuery, searchDocuments, clearSearchResults]);
 
   // Theme management from settings
   useEffect(() => {
@@ -244,20 +265,7 @@ export default function Dashboard() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  // Load initial data
-  useEffect(() => {
-    if (user) {
-      loadDocuments({ userId: user.id });
-      loadCategories();
-    }
-  }, [user]);
-
-  // Update loading state based on store
-  useEffect(() => {
-    setLoading(documentsLoading && categories.length === 0);
-  }, [documentsLoading, categories]);
-
-  const loadCategories = async () => {
+  const loadCategories = useCallback(async () => {
     if (!user) return;
 
     const { data, error } = await supabase
@@ -271,56 +279,19 @@ export default function Dashboard() {
     } else {
       setCategories(data || []);
     }
-  };
-
-  const applyFiltersAndSearch = () => {
-    setSearchLoading(true);
-    
-    // Add small delay to show loading state for very fast searches
-    setTimeout(() => {
-      let filtered = [...documents];
-
-      // Apply search filter
-      if (searchQuery.trim()) {
-        const query = searchQuery.toLowerCase();
-        filtered = filtered.filter(doc => 
-          doc.title.toLowerCase().includes(query) ||
-          doc.content.toLowerCase().includes(query) ||
-          doc.category.toLowerCase().includes(query)
-        );
-      }
-
-      // Apply category filter
-      if (filters.category !== 'all') {
-        filtered = filtered.filter(doc => doc.category === filters.category);
-      }
-
-      // Apply status filter
-      if (filters.status.length > 0) {
-        filtered = filtered.filter(doc => filters.status.includes(doc.status));
-      }
+  }, [user]);
 
-      // Apply sorting
-      filtered.sort((a, b) => {
-        switch (filters.sortBy) {
-          case 'oldest':
-            return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-          case 'az':
-            return a.title.localeCompare(b.title);
-          case 'za':
-            return b.title.localeCompare(a.title);
-          case 'wordcount':
-            return (b.word_count || 0) - (a.word_count || 0);
-          case 'recent':
-          default:
-            return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
-        }
-      });
+  // Load initial data
+  useEffect(() => {
+    if (user) {
+      loadCategories();
+    }
+  }, [user, loadCategories]);
 
-      setFilteredDocuments(filtered);
-      setSearchLoading(false);
-    }, searchQuery.trim() ? 100 : 0);
-  };
+  // Update loading state based on store
+  useEffect(() => {
+    setLoading(documentsLoading && categories.length === 0);
+  }, [documentsLoading, categories]);
 
   const createNewDocument = async () => {
     if (!user) return;
@@ -341,6 +312,7 @@ export default function Dashboard() {
     };
 
     // Set the temporary document as current so editor shows (add user_id)
+    cancelReview();
     const newDocWithUser = { ...newDoc, user_id: user?.id };
     setCurrentDocument(newDocWithUser);
     setDocumentTitle(newDoc.title);
@@ -364,16 +336,169 @@ export default function Dashboard() {
   };
 
   const openDocument = (doc: Document) => {
+    cancelReview();
     const docWithUserId = { ...doc, user_id: doc.user_id || user?.id };
     setCurrentDocument(docWithUserId);
     setDocumentTitle(doc.title);
     setDocumentContent(doc.content);
   };
 
+  // Editor context for prompt template variables
+  const getTemplateValues = useCallback((): TemplateValues => {
+    const values: TemplateValues = {
+      document: documentContent,
+      title: documentTitle,
+      category: currentDocument?.category ?? '',
+    };
+
+    const model = editorRef.current?.getModel();
+    const selection = editorRef.current?.getSelection();
+    if (model && selection) {
+      const lastLine = model.getLineCount();
+      values.before_cursor = model.getValueInRange({
+        startLineNumber: 1,
+        startColumn: 1,
+        endLineNumber: selection.startLineNumber,
+        endColumn: selection.startColumn
+      });
+      values.after_cursor = model.getValueInRange({
+        startLineNumber: selection.endLineNumber,
+        startColumn: selection.endColumn,
+        endLineNumber: lastLine,
+        endColumn: model.getLineMaxColumn(lastLine)
+      });
+    }
+    return values;
+  }, [currentDocument, documentContent, documentTitle]);
+
+  /**
+   * Writes an AI result over the text it was made from, as tracked changes
+   * when review is on. 'stale' means that text has changed since the command
+   * started, and nothing was written.
+   */
+  const applyAIResult = useCallback((
+    label: string,
+    range: EditorRange | undefined,
+    originalText: string,
+    text: string
+  ): 'review' | 'applied' | 'stale' => {
+    if (range && editorRef.current) {
+      if (settings.reviewAIEdits && startReview(label, range, originalText, text)) return 'review';
+      return replaceEditorRange(editorRef.current, range, originalText, text) ? 'applied' : 'stale';
+    }
+
+    // The mobile editor has no selection to anchor to; commands there run on the whole document
+    if (originalText !== documentContent) return 'stale';
+    setDocumentContent(text);
+    return 'applied';
+  }, [documentContent, settings.reviewAIEdits, startReview]);
+
+  const toastStaleResult = useCallback((label: string) => {
+    toast({
+      title: "Text has changed",
+      description: `The text changed while ${label} was running, so the result was not applied. Run it again.`,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Runs a command chain's steps in turn, then shows the combined result for review
+  const executeCommandChain = useCallback(async (
+    chain: UnifiedCommand,
+    currentSelectedText: string,
+    answers?: Record<string, string>
+  ) => {
+    const range = captureEditorRange(editorRef.current);
+    setAiLoading(true);
+
+    try {
+      const stepCommands = await loadChainCommands(chain);
+
+      // Every step's {{ask:...}} questions are answered once, up front
+      const questions = chainQuestions(stepCommands);
+      if (questions.length > 0 && !answers) {
+        setPendingQuestions({ command: chain, questions });
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const originalText = currentSelectedText || documentContent;
+      const templateValues = getTemplateValues();
+
+      const run = await runCommandChain(
+        chainSteps(chain),
+        stepCommands,
+        { selection: originalText, document: documentContent },
+        async (command, text, index) => {
+          setChainProgress(`Step ${index + 1} of ${stepCommands.length}: ${command.name}`);
+          setStreamingText('');
+
+          const payload = {
+            command,
+            selectedText: text,
+            userId: user.id,
+            ...templatePayload(command, templateValues, answers)
+          };
+
+          if (settings.streamAIResponses) {
+            const outcome = await streamFunction<{ result?: string }>(command.function_name, payload, {
+              onToken: (_token, fullText) => setStreamingText(fullText)
+            });
+            return outcome.cancelled ? null : outcome.data?.result ?? '';
+          }
+
+          const { data, error } = await supabase.functions.invoke(command.function_name, { body: payload });
+          if (error) throw await toFunctionError(error);
+          return data?.result ?? '';
+        }
+      );
+
+      if (!run) {
+        toast({
+          title: `${chain.name} stopped`,
+          description: "The chain was cancelled. Your document was not changed.",
+        });
+        return;
+      }
+
+      setAiSuggestion({
+        id: chain.id,
+        type: 'chain',
+        label: chain.name,
+        originalText,
+        suggestedText: run.text,
+        title: run.title,
+        range,
+        steps: run.steps.map(step => ({
+          name: step.command.name,
+          input: CHAIN_STEP_INPUTS.find(option => option.value === step.input)!.label.toLowerCase(),
+          output: step.output
+        }))
+      });
+    } catch (error) {
+      if (handleRateLimit(error, chain.name)) return;
+
+      console.error(`Command chain ${chain.name} error:`, error);
+      toast({
+        title: `Failed to run ${chain.name}`,
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setAiLoading(false);
+      setStreamingText('');
+      setChainProgress(null);
+    }
+  }, [documentContent, getTemplateValues, settings.streamAIResponses, streamFunction, toast, handleRateLimit]);
+
   // Enhanced AI command execution with proper error handling and text replacement
   const executeAICommand = useCallback(async (
-    command: UnifiedCommand
+    command: UnifiedCommand,
+    answers?: Record<string, string>
   ) => {
+    if (rateLimit?.label === command.name) return;
+
     if (!currentDocument) {
       toast({
         title: "No document selected",
@@ -386,6 +511,8 @@ export default function Dashboard() {
     // Get text to process (selected or full content)
     const currentSelectedText = getSelectedTextFromEditor();
     const textToProcess = currentSelectedText || documentContent;
+    // Results replace this range, wherever the selection is by the time they arrive
+    const range = captureEditorRange(editorRef.current);
     
     if (!textToProcess?.trim() || textToProcess.length < 10) {
       toast({
@@ -396,6 +523,11 @@ export default function Dashboard() {
       return;
     }
 
+    if (isChainCommand(command)) {
+      await executeCommandChain(command, currentSelectedText, answers);
+      return;
+    }
+
     console.log(`Executing AI command: ${command.name}`, {
       functionName: command.function_name,
       selectedText: !!currentSelectedText,
@@ -403,6 +535,13 @@ export default function Dashboard() {
       model: command.ai_model
     });
 
+    // Commands with {{ask:...}} placeholders run once the dialog is answered
+    const questions = templateQuestions(command.prompt, command.system_prompt);
+    if (questions.length > 0 && !answers) {
+      setPendingQuestions({ command, questions });
+      return;
+    }
+
     setAiLoading(true);
 
     try {
@@ -419,17 +558,34 @@ export default function Dashboard() {
         command,
         content: currentSelectedText ? undefined : documentContent,
         selectedText: currentSelectedText || undefined,
-        userId: user.id
+        userId: user.id,
+        ...templatePayload(command, getTemplateValues(), answers)
       };
 
-      const { data, error } = await supabase.functions.invoke(functionName, {
-        body: payload
-      });
+      let data;
+      if (settings.streamAIResponses) {
+        const outcome = await streamFunction(functionName, payload, {
+          onToken: (_token, fullText) => setStreamingText(fullText)
+        });
+
+        if (outcome.cancelled) {
+          toast({
+            title: `${command.name} stopped`,
+            description: "Generation was cancelled. Your document was not changed.",
+          });
+          return;
+        }
+        data = outcome.data;
+      } else {
+        const { data: invokeData, error } = await supabase.functions.invoke(functionName, {
+          body: payload
+        });
+        if (error) throw await toFunctionError(error);
+        data = invokeData;
+      }
 
       console.log('AI Command Result:', JSON.stringify(data, null, 2));
       console.log('Available keys in response:', Object.keys(data || {}));
-      
-      if (error) throw error;
 
       // Standardized response handling - all functions return { result }
       const result = data?.result;
@@ -477,12 +633,13 @@ export default function Dashboard() {
         return;
       }
 
-      // Replace text in editor for other commands
-      if (currentSelectedText && editorRef.current) {
-        replaceSelectedText(result);
-      } else {
-        setDocumentContent(result);
+      // Replace the text the command ran on, or review the changes in place
+      const applied = applyAIResult(command.name, range, textToProcess, result);
+      if (applied === 'stale') {
+        toastStaleResult(command.name);
+        return;
       }
+      if (applied === 'review') return;
       
       toast({
         title: `${command.name} completed`,
@@ -497,6 +654,8 @@ export default function Dashboard() {
       }, 1000);
 
     } catch (error) {
+      if (handleRateLimit(error, command.name)) return;
+
       console.error(`AI command ${command.name} error:`, error);
       toast({
         title: `Failed to execute ${command.name}`,
@@ -505,8 +664,9 @@ export default function Dashboard() {
       });
     } finally {
       setAiLoading(false);
+      setStreamingText('');
     }
-  }, [currentDocument, documentContent, getSelectedTextFromEditor, replaceSelectedText, toast]);
+  }, [currentDocument, documentContent, getSelectedTextFromEditor, getTemplateValues, executeCommandChain, applyAIResult, toastStaleResult, toast, settings.streamAIResponses, streamFunction, rateLimit, handleRateLimit]);
 
   // Update handleCustomShortcut to use the new executeAICommand
   const handleCustomShortcut = useCallback(async (
@@ -515,13 +675,40 @@ export default function Dashboard() {
     await executeAICommand(command);
   }, [executeAICommand]);
 
-  // Load documents and categories on mount
-  useEffect(() => {
-    if (user) {
-      loadDocuments({ userId: user.id });
-      loadCategories();
+  const applySavedCopy = useCallback((copy: ServerCopy, wordCount: number) => {
+    if (!currentDocument) return;
+
+    const updatedDoc = {
+      ...currentDocument,
+      title: copy.title,
+      content: copy.content,
+      word_count: wordCount,
+      updated_at: copy.updated_at ?? new Date().toISOString(),
+      version: copy.version
+    };
+    setCurrentDocument(updatedDoc);
+    updateDocument(currentDocument.id, updatedDoc);
+  }, [currentDocument, setCurrentDocument, updateDocument]);
+
+  /**
+   * Saves the open document over the version it was loaded at, or over
+   * `base` after a merge. Resolves to null when someone else saved first,
+   * leaving the edits in the merge dialog.
+   */
+  const saveOverLoadedVersion = useCallback(async (title: string, content: string, wordCount: number, base?: ServerCopy) => {
+    if (!currentDocument) return null;
+
+    const from = base ?? { title: currentDocument.title, content: currentDocument.content, version: currentDocument.version ?? 1 };
+    try {
+      const saved = await saveDocumentText(currentDocument.id, from.version, { title, content, wordCount });
+      applySavedCopy(saved, wordCount);
+      return saved;
+    } catch (error) {
+      if (!(error instanceof DocumentConflictError)) throw error;
+      setSaveConflict({ base: from, mine: { title, content }, server: error.server });
+      return null;
     }
-  }, [user, loadDocuments]);
+  }, [currentDocument, applySavedCopy]);
 
   const handleAutoSave = useCallback(async () => {
     const { data: { user } } = await supabase.auth.getUser();
@@ -533,6 +720,9 @@ export default function Dashboard() {
       return;
     }
 
+    // Nothing more is saved until the merge is settled
+    if (saveConflict) return;
+
     setSaveIndicator('saving');
 
     // Check if this is a new document that needs a title
@@ -602,33 +792,23 @@ export default function Dashboard() {
 
       // Save document with generated or existing title
       if (currentDocument?.id && !currentDocument.id.startsWith('temp-')) {
-        // Update existing document in database
-        const { error } = await supabase
-          .from('documents')
-          .update({
+        // Update existing document in database, if nobody saved since it loaded
+        const saved = await saveOverLoadedVersion(finalTitle, documentContent, wordCount);
+
+        if (saved) {
+          snapshotIfMeaningful({
+            documentId: currentDocument.id,
+            userId: user.id,
             title: finalTitle,
             content: documentContent,
-            word_count: wordCount,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', currentDocument.id);
-
-        if (!error) {
-          // Update local state
-          const updatedDoc = { 
-            ...currentDocument, 
-            title: documentTitle, 
-            content: documentContent, 
-            updated_at: new Date().toISOString() 
-          };
-          setCurrentDocument(updatedDoc);
-          updateDocument(currentDocument.id, updatedDoc);
+            wordCount
+          });
           
           setLastSaved(new Date());
           setSaveIndicator('saved');
         } else {
-          setSaveIndicator('error');
-          throw error;
+          setSaveIndicator(null);
+          return;
         }
       } else {
         // Create new document in database (for temp documents or null currentDocument)
@@ -648,6 +828,13 @@ export default function Dashboard() {
         if (newDoc && !error) {
           setCurrentDocument(newDoc);
           addDocument(newDoc);
+          snapshotIfMeaningful({
+            documentId: newDoc.id,
+            userId: user.id,
+            title: finalTitle,
+            content: documentContent,
+            wordCount
+          });
           setLastSaved(new Date());
           setSaveIndicator('saved');
         } else {
@@ -672,7 +859,7 @@ export default function Dashboard() {
         variant: "destructive",
       });
     }
-  }, [user, documentContent, documentTitle, currentDocument, isGeneratingTitle, settings, documents, toast, generateEmbeddingsSilently]);
+  }, [documentContent, documentTitle, currentDocument, isGeneratingTitle, settings, documents, toast, generateEmbeddingsSilently, snapshotIfMeaningful, saveConflict, saveOverLoadedVersion, setCurrentDocument, addDocument]);
 
   // Auto-save document content with title generation
   useEffect(() => {
@@ -691,41 +878,47 @@ export default function Dashboard() {
   }, [documentContent, currentDocument, settings.autoSaveInterval, handleAutoSave]);
 
   const saveDocument = async () => {
-    if (!currentDocument) return;
+    if (!currentDocument || saveConflict) return;
 
     const wordCount = documentContent.trim().split(/\s+/).filter(word => word.length > 0).length;
 
-    const { error } = await supabase
-      .from("documents")
-      .update({ 
-        title: documentTitle,
-        content: documentContent,
-        word_count: wordCount,
-        updated_at: new Date().toISOString()
-      })
-      .eq("id", currentDocument.id);
+    try {
+      const saved = await saveOverLoadedVersion(documentTitle, documentContent, wordCount);
 
-    if (error) {
+      // Generate embeddings in the background for AI search
+      if (saved && documentContent.trim()) {
+        generateEmbeddingsSilently(currentDocument.id, documentContent);
+      }
+    } catch (error) {
       toast({
         title: "Error saving document",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Failed to save document",
         variant: "destructive",
       });
-    } else {
-      // Update local state
-      const updatedDoc = { 
-        ...currentDocument, 
-        title: documentTitle, 
-        content: documentContent,
-        word_count: wordCount 
-      };
-      setCurrentDocument(updatedDoc);
-      updateDocument(currentDocument.id, updatedDoc);
-      
-      // Generate embeddings in the background for AI search
-      if (documentContent.trim()) {
-        generateEmbeddingsSilently(currentDocument.id, documentContent);
-      }
+    }
+  };
+
+  // Takes the merged text, or the saved copy when `merged` is null
+  const resolveSaveConflict = async (merged: { title: string; content: string } | null) => {
+    if (!saveConflict || !currentDocument) return;
+
+    const { server } = saveConflict;
+    if (!merged) {
+      setSaveConflict(null);
+      applySavedCopy(server, server.content.trim().split(/\s+/).filter(word => word.length > 0).length);
+      setDocumentTitle(server.title);
+      setDocumentContent(server.content);
+      return;
+    }
+
+    const wordCount = merged.content.trim().split(/\s+/).filter(word => word.length > 0).length;
+    setSaveConflict(null);
+    const saved = await saveOverLoadedVersion(merged.title, merged.content, wordCount, server);
+    setDocumentTitle(merged.title);
+    setDocumentContent(merged.content);
+    if (saved) {
+      setLastSaved(new Date());
+      generateEmbeddingsSilently(currentDocument.id, merged.content);
     }
   };
 
@@ -744,6 +937,7 @@ export default function Dashboard() {
     } else {
       removeDocument(docId);
       if (currentDocument?.id === docId) {
+        cancelReview();
         setCurrentDocument(null);
         setDocumentTitle("");
         setDocumentContent("");
@@ -902,6 +1096,7 @@ export default function Dashboard() {
       if (error) throw error;
 
       addDocument(data);
+      cancelReview();
       setCurrentDocument(data);
       setDocumentTitle(data.title);
       setDocumentContent(data.content);
@@ -933,16 +1128,17 @@ export default function Dashboard() {
   };
 
   const handleAcceptSuggestion = async (suggestion: AISuggestion) => {
-    if (selectedText) {
-      // Replace selected text
-      const newContent = documentContent.replace(selectedText, suggestion.suggestedText);
-      setDocumentContent(newContent);
-    } else {
-      // Replace entire document
-      setDocumentContent(suggestion.suggestedText);
-    }
-
+    const label = suggestion.label || 'The AI command';
+    setAiSuggestion(null);
     setSelectedText('');
+
+    const applied = applyAIResult(label, suggestion.range, suggestion.originalText, suggestion.suggestedText);
+    if (applied === 'stale') {
+      toastStaleResult(label);
+      return;
+    }
+    if (suggestion.title) setDocumentTitle(suggestion.title);
+    if (applied === 'review') return;
     
     toast({
       title: "Changes applied",
@@ -951,6 +1147,7 @@ export default function Dashboard() {
   };
 
   const handleRejectSuggestion = () => {
+    setAiSuggestion(null);
     setSelectedText('');
     toast({
       title: "Changes rejected",
@@ -973,7 +1170,7 @@ export default function Dashboard() {
   // Advanced AI command handlers
   const handleDocumentCreated = (documentId: string) => {
     if (user) {
-      loadDocuments({ userId: user.id });
+      refreshDocuments(user.id);
     }
     // Open the newly created document
     setTimeout(() => {
@@ -993,16 +1190,24 @@ export default function Dashboard() {
   };
 
   const handleTextReplace = (text: string) => {
-    if (selectedText && currentDocument) {
-      // Replace selected text
-      const newContent = documentContent.replace(selectedText, text);
-      setDocumentContent(newContent);
-      setSelectedText('');
+    const target = replaceTargetRef.current;
+    if (!target?.text || !currentDocument) return;
+
+    replaceTargetRef.current = null;
+    setSelectedText('');
+    if (applyAIResult('Rewrite', target.range, target.text, text) === 'stale') {
+      toastStaleResult('Rewrite');
     }
   };
 
   const getCurrentText = () => documentContent;
-  const getSelectedText = () => selectedText;
+  // Remembers where the selection was, so a rewrite chosen later replaces that text
+  const getSelectedText = () => {
+    const range = captureEditorRange(editorRef.current);
+    const text = range ? getSelectedTextFromEditor() : selectedText;
+    replaceTargetRef.current = { range, text };
+    return text;
+  };
   const getCursorContext = () => {
     // Return last 500 characters as cursor context
     return documentContent.slice(-500);
@@ -1105,7 +1310,7 @@ export default function Dashboard() {
             <MobileDocumentLibrary
               isOpen={mobileDocumentLibraryOpen}
               onClose={() => setMobileDocumentLibraryOpen(false)}
-              documents={filteredDocuments}
+              documents={documents}
               onDocumentSelect={(doc) => {
                 openDocument(doc);
                 setMobileDocumentLibraryOpen(false);
@@ -1117,7 +1322,7 @@ export default function Dashboard() {
               filters={filters}
               onFiltersChange={setFilters}
               categories={categories}
-              loading={searchLoading}
+              loading={documentsLoading || documentSearchLoading}
               selectedDocuments={selectedDocuments}
               onSelectionChange={(selected) => {
                 // Update selected documents directly
@@ -1134,6 +1339,12 @@ export default function Dashboard() {
               }}
             />
 
+            {/* Rate limit countdown above the bottom navigation */}
+            <RateLimitNotice
+              rateLimit={rateLimit}
+              className="fixed bottom-28 left-6 right-6 z-40 shadow-md"
+            />
+
             {/* Mobile AI Commands Overlay */}
             <MobileAICommands
               isOpen={mobileAICommandsOpen}
@@ -1272,7 +1483,7 @@ export default function Dashboard() {
                                     <BulkUploader 
                                       onUploadComplete={(successCount, failCount) => {
                                         if (successCount > 0) {
-                                          user && loadDocuments({ userId: user.id }); // Refresh document list
+                                          user && refreshDocuments(user.id); // Refresh document list
                                         }
                                         if (failCount === 0) {
                                           setShowBulkUploader(false);
@@ -1289,7 +1500,7 @@ export default function Dashboard() {
                              <DocumentSearch 
                                onSearch={handleDocumentSearch}
                                onClear={clearDocumentSearch}
-                               isLoading={searchLoading}
+                               isLoading={documentsLoading || documentSearchLoading}
                              />
                             </div>
                          </div>
@@ -1309,12 +1520,13 @@ export default function Dashboard() {
                                 {/* Document List */}
                                 <div className="min-h-0 space-y-4">
                                     <DocumentList
-                                      documents={filteredDocuments}
+                                      documents={documents}
                                       categories={categories}
                                       currentDocument={currentDocument}
                                       onDocumentSelect={openDocument}
-                                      onDocumentUpdate={() => user && loadDocuments({ userId: user.id })}
+                                      onDocumentUpdate={() => user && refreshDocuments(user.id)}
                                       searchQuery={searchQuery}
+                                      searchSnippets={searchSnippets}
                                       selectedDocuments={selectedDocuments}
                                       onDocumentSelectionChange={(newSelection: string[]) => {
                                         // Clear current selection and set new one
@@ -1411,6 +1623,16 @@ export default function Dashboard() {
 
             {/* Desktop Bottom Toolbar */}
             <footer className="border-t bg-gradient-to-r from-card to-surface shadow-lg">
+              <RateLimitNotice rateLimit={rateLimit} className="mx-6 mt-3" />
+              <TrackedChangesBar
+                review={trackedChanges.review}
+                onAccept={trackedChanges.acceptHunk}
+                onReject={trackedChanges.rejectHunk}
+                onAcceptAll={trackedChanges.acceptAll}
+                onRejectAll={trackedChanges.rejectAll}
+                onNavigate={trackedChanges.goTo}
+                className="mx-6 mt-3"
+              />
               <div className="flex items-center gap-4 px-6 py-4 min-h-[72px]">
                 {/* Left Section - Custom Shortcuts */}
                  <div className="flex-1 flex items-center gap-1 overflow-x-auto">
@@ -1492,7 +1714,14 @@ export default function Dashboard() {
           isLoading={aiLoading}
           onAccept={handleAcceptSuggestion}
           onReject={handleRejectSuggestion}
-          onClose={() => setAiSuggestion(null)}
+          onClose={() => {
+            cancelStream();
+            setAiSuggestion(null);
+          }}
+          streamingText={streamingText}
+          onCancel={cancelStream}
+          progressLabel={chainProgress ?? undefined}
+          acceptLabel={settings.reviewAIEdits && !isMobile ? 'Review in Editor' : undefined}
         />
 
         {/* Settings Modal */}
@@ -1522,6 +1751,21 @@ export default function Dashboard() {
           factCheckData={factCheckResult}
         />
 
+        {/* Save Conflict Dialog */}
+        <DraftConflictDialog conflict={saveConflict} onResolve={resolveSaveConflict} />
+
+        {/* Template Questions Dialog */}
+        <TemplateQuestionsDialog
+          commandName={pendingQuestions?.command.name ?? null}
+          questions={pendingQuestions?.questions ?? []}
+          onSubmit={(answers) => {
+            const command = pendingQuestions?.command;
+            setPendingQuestions(null);
+            if (command) executeAICommand(command, answers);
+          }}
+          onClose={() => setPendingQuestions(null)}
+        />
+
         {/* More Commands Sheet */}
         <Sheet open={showMoreCommands} onOpenChange={setShowMoreCommands}>
           <SheetContent side="bottom">
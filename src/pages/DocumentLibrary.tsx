@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
@@ -33,7 +33,13 @@ import { DocumentSearch } from "@/components/DocumentSearch";
 import { DocumentFilters } from "@/components/DocumentFilters";
 import { DocumentList } from "@/components/DocumentList";
 import { DocumentStats } from "@/components/DocumentStats";
-import { useDocumentStore } from "@/lib/stores/useDocumentStore";
+import { SharedDocumentsList } from "@/components/SharedDocumentsList";
+import { PassageSearchResults } from "@/components/PassageSearchResults";
+import { FolderTree } from "@/components/FolderTree";
+import { FolderBreadcrumbs } from "@/components/FolderBreadcrumbs";
+import { useDocumentSearch } from "@/hooks/useDocumentSearch";
+import { useFolderTree } from "@/hooks/useFolderTree";
+import { useDocumentStore, DEFAULT_FILTERS, FilterOptions } from "@/lib/stores/useDocumentStore";
 import { useDocumentSelection } from "@/hooks/useDocumentSelection";
 import { BulkUploader } from '@/features/corpus/components/BulkUploader';
 import { SettingsModal } from "@/components/SettingsModal";
@@ -60,13 +66,6 @@ interface Category {
   is_default: boolean;
 }
 
-interface FilterOptions {
-  category: string;
-  status: string[];
-  sortBy: 'recent' | 'oldest' | 'az' | 'za' | 'wordcount';
-  folderId?: string;
-}
-
 export default function DocumentLibrary() {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
@@ -80,29 +79,40 @@ export default function DocumentLibrary() {
     hasMore,
     loadDocuments,
     loadMoreDocuments,
+    refreshDocuments,
     addDocument,
     updateDocument,
     removeDocument
   } = useDocumentStore();
   
-  const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
-  const [filters, setFilters] = useState<FilterOptions>({
-    category: 'all',
-    status: [],
-    sortBy: 'recent',
-    folderId: undefined
-  });
+  const [filters, setFilters] = useState<FilterOptions>(DEFAULT_FILTERS);
+  // Kept apart from the filter panel, which doesn't know about folders
+  const [selectedFolderId, setSelectedFolderId] = useState<string | undefined>(undefined);
+  const folderTree = useFolderTree();
   
   const [leftSidebarOpen, setLeftSidebarOpen] = useState(!isMobile);
   const [rightSidebarOpen, setRightSidebarOpen] = useState(!isMobile);
-  const [searchLoading, setSearchLoading] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showBulkUploader, setShowBulkUploader] = useState(false);
   const [selectedDocumentForPreview, setSelectedDocumentForPreview] = useState<Document | null>(null);
   const [viewLayout, setViewLayout] = useState<'grid' | 'list'>('list');
 
+  // Hybrid full-text and semantic search runs server-side
+  const {
+    results: searchResults,
+    passages: passageResults,
+    isSearching: documentSearchLoading,
+    search: searchDocuments,
+    clear: clearSearchResults
+  } = useDocumentSearch();
+
+  const searchSnippets = useMemo(
+    () => Object.fromEntries(searchResults.map(result => [result.id, result.snippet])),
+    [searchResults]
+  );
+
   // Document selection hook
   const {
     selectedDocuments,
@@ -113,18 +123,43 @@ export default function DocumentLibrary() {
     selectionCount
   } = useDocumentSelection();
 
+  const loadCategories = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("categories")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("display_order");
+
+    if (error) {
+      console.error("Error loading categories:", error);
+    } else {
+      setCategories(data || []);
+    }
+  }, [user]);
+
   // Load initial data
   useEffect(() => {
     if (user) {
-      loadDocuments({ userId: user.id });
       loadCategories();
     }
-  }, [user]);
+  }, [user, loadCategories]);
 
-  // Update filtered documents when documents, search, or filters change
+  // Filtering, sorting and keyword search run in the document query
   useEffect(() => {
-    applyFiltersAndSearch();
-  }, [documents, searchQuery, filters]);
+    if (user) {
+      loadDocuments({ userId: user.id, filters: { ...filters, folderId: selectedFolderId, query: searchQuery } });
+    }
+  }, [user, filters, selectedFolderId, searchQuery, loadDocuments]);
+
+  useEffect(() => {
+    if (user && searchQuery.trim()) {
+      searchDocuments(searchQuery);
+    } else {
+      clearSearchResults();
+    }
+  }, [user, searchQuery, searchDocuments, clearSearchResults]);
 
   // Settings keyboard shortcut (Cmd/Ctrl + ,)
   useEffect(() => {
@@ -139,70 +174,6 @@ export default function DocumentLibrary() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  const loadCategories = async () => {
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from("categories")
-      .select("*")
-      .eq("user_id", user.id)
-      .order("display_order");
-
-    if (error) {
-      console.error("Error loading categories:", error);
-    } else {
-      setCategories(data || []);
-    }
-  };
-
-  const applyFiltersAndSearch = () => {
-    setSearchLoading(true);
-    
-    setTimeout(() => {
-      let filtered = [...documents];
-
-      // Apply search filter
-      if (searchQuery.trim()) {
-        const query = searchQuery.toLowerCase();
-        filtered = filtered.filter(doc => 
-          doc.title.toLowerCase().includes(query) ||
-          doc.content.toLowerCase().includes(query) ||
-          doc.category.toLowerCase().includes(query)
-        );
-      }
-
-      // Apply category filter
-      if (filters.category !== 'all') {
-        filtered = filtered.filter(doc => doc.category === filters.category);
-      }
-
-      // Apply status filter
-      if (filters.status.length > 0) {
-        filtered = filtered.filter(doc => filters.status.includes(doc.status));
-      }
-
-      // Apply sorting
-      filtered.sort((a, b) => {
-        switch (filters.sortBy) {
-          case 'oldest':
-            return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-          case 'az':
-            return a.title.localeCompare(b.title);
-          case 'za':
-            return b.title.localeCompare(a.title);
-          case 'wordcount':
-            return (b.word_count || 0) - (a.word_count || 0);
-          case 'recent':
-          default:
-            return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
-        }
-      });
-
-      setFilteredDocuments(filtered);
-      setSearchLoading(false);
-    }, searchQuery.trim() ? 100 : 0);
-  };
-
   const createNewDocument = async () => {
     if (!user) return;
 
@@ -351,10 +322,30 @@ export default function DocumentLibrary() {
 
   const handleDocumentUpdate = () => {
     if (user) {
-      loadDocuments({ userId: user.id });
+      refreshDocuments(user.id);
+      folderTree.refreshCounts().catch(error => console.error('Error loading folder counts:', error));
     }
   };
 
+  const folderNavigation = (
+    <FolderTree
+      folderTree={folderTree}
+      selectedFolderId={selectedFolderId}
+      onSelectFolder={setSelectedFolderId}
+      onDocumentsMoved={handleDocumentUpdate}
+    />
+  );
+
+  const folderBreadcrumbs = (
+    <div className="flex-shrink-0 px-4 py-2 border-b border-border/50">
+      <FolderBreadcrumbs
+        folders={folderTree.folders}
+        folderId={selectedFolderId}
+        onSelectFolder={setSelectedFolderId}
+      />
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-surface/30 to-background">
       {/* Main Layout */}
@@ -372,13 +363,15 @@ export default function DocumentLibrary() {
                     <DocumentSearch 
                       onSearch={setSearchQuery}
                       onClear={() => setSearchQuery('')}
-                      isLoading={searchLoading}
+                      isLoading={documentsLoading || documentSearchLoading}
                     />
                     <DocumentFilters
                       initialFilters={filters}
                       onFiltersChange={setFilters}
                     />
-                    <DocumentStats documents={filteredDocuments} />
+                    {folderNavigation}
+                    <SharedDocumentsList />
+                    <DocumentStats documents={documents} />
                   </div>
                 </ScrollArea>
               </div>
@@ -483,14 +476,24 @@ export default function DocumentLibrary() {
               </div>
             )}
 
+            {folderBreadcrumbs}
+
+
+            <PassageSearchResults
+              results={passageResults}
+              isSearching={documentSearchLoading}
+              onOpenDocument={(id) => navigate(`/editor/${id}`)}
+            />
+
             {/* Document List */}
             <div className="flex-1 overflow-hidden">
               <DocumentList
-                documents={filteredDocuments}
+                documents={documents}
                 categories={categories}
                 onDocumentSelect={handleDocumentSelect}
                 onDocumentUpdate={handleDocumentUpdate}
                 searchQuery={searchQuery}
+                searchSnippets={searchSnippets}
                 selectedDocuments={selectedDocuments}
                 onDocumentSelectionChange={(ids) => {
                   ids.forEach(id => {
@@ -566,7 +569,7 @@ export default function DocumentLibrary() {
                     <DocumentSearch 
                       onSearch={setSearchQuery}
                       onClear={() => setSearchQuery('')}
-                      isLoading={searchLoading}
+                      isLoading={documentsLoading || documentSearchLoading}
                     />
                     <DocumentFilters
                       initialFilters={filters}
@@ -574,9 +577,17 @@ export default function DocumentLibrary() {
                     />
                   </div>
 
+                  {/* Folder Tree */}
+                  <ScrollArea className="flex-1 min-h-0">
+                    <div className="p-3 space-y-4">
+                      {folderNavigation}
+                      <SharedDocumentsList />
+                    </div>
+                  </ScrollArea>
+
                   {/* Document Stats */}
                   <div className="flex-shrink-0 p-4">
-                    <DocumentStats documents={filteredDocuments} />
+                    <DocumentStats documents={documents} />
                   </div>
                 </div>
               </div>
@@ -673,14 +684,24 @@ export default function DocumentLibrary() {
                   </div>
                 )}
 
+                {folderBreadcrumbs}
+
+
+                <PassageSearchResults
+                  results={passageResults}
+                  isSearching={documentSearchLoading}
+                  onOpenDocument={(id) => navigate(`/editor/${id}`)}
+                />
+
                 {/* Document List */}
                 <div className="flex-1 overflow-hidden">
                   <DocumentList
-                    documents={filteredDocuments}
+                    documents={documents}
                     categories={categories}
                     onDocumentSelect={handleDocumentSelect}
                     onDocumentUpdate={handleDocumentUpdate}
                     searchQuery={searchQuery}
+                    searchSnippets={searchSnippets}
                     selectedDocuments={selectedDocuments}
                     onDocumentSelectionChange={(ids) => {
                       ids.forEach(id => {
@@ -705,7 +726,7 @@ export default function DocumentLibrary() {
                   <AIChatSidebar
                     isOpen={true}
                     onClose={() => setRightSidebarOpen(false)}
-                    onDocumentSelect={handleDocumentSelect}
+                    onDocumentSelect={(doc, span) => navigate(`/editor/${doc.id}`, { state: span ? { citedSpan: span } : undefined })}
                   />
                 </ResizablePanel>
               </>
@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback, useRef } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -15,7 +15,11 @@ import {
   Settings,
   Maximize2,
   Minimize2,
-  MoreVertical
+  MoreVertical,
+  History,
+  MessageSquarePlus,
+  MessagesSquare,
+  Share2
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useDevice } from "@/hooks/useDevice";
@@ -25,12 +29,36 @@ import { AIChatSidebar } from "@/components/AIChatSidebar";
 import { AdvancedAICommands } from "@/components/AdvancedAICommands";
 import { CompactMoreCommands } from "@/components/CompactMoreCommands";
 import { VoiceRecorder } from "@/components/VoiceRecorder";
-import { AISuggestionPanel } from "@/components/AISuggestionPanel";
+import { AISuggestion, AISuggestionPanel } from "@/components/AISuggestionPanel";
 import { ContextualAIToolbar } from "@/components/ContextualAIToolbar";
 import { AnalysisModal } from "@/components/AnalysisModal";
 import { FactCheckModal } from "@/components/FactCheckModal";
+import { DocumentHistoryPanel } from "@/components/DocumentHistoryPanel";
+import { TagInput } from "@/components/TagInput";
+import { RateLimitNotice } from "@/components/RateLimitNotice";
+import { TrackedChangesBar } from "@/components/TrackedChangesBar";
+import { TemplateQuestionsDialog } from "@/components/TemplateQuestionsDialog";
+import { ShareDocumentDialog } from "@/components/ShareDocumentDialog";
+import { CommentsPanel } from "@/components/CommentsPanel";
+import { DraftConflictDialog } from "@/components/DraftConflictDialog";
+import { ExportMenu } from "@/features/export/components/ExportMenu";
+import { useDocumentVersions, DocumentVersion } from "@/hooks/useDocumentVersions";
+import { canCommentOnDocument, canEditDocument, DocumentRole, memberName, useDocumentSharing } from "@/hooks/useDocumentSharing";
+import { CommentFilter, filterThreads, isThreadResolved, useCommentDecorations, useDocumentComments } from "@/hooks/useDocumentComments";
+import { useLiveDocument } from "@/hooks/useLiveDocument";
+import { useStreamingAI } from "@/hooks/useStreamingAI";
+import { useRateLimitCountdown } from "@/hooks/useRateLimitCountdown";
+import { captureEditorRange, EditorRange, replaceEditorRange, useTrackedChanges } from "@/hooks/useTrackedChanges";
 import { useSettingsStore } from "@/stores/settingsStore";
+import { DraftSaveResult, useDocumentStore } from "@/lib/stores/useDocumentStore";
 import { UnifiedCommand } from '@/types/commands';
+import { CitedSpan, locateCitedSpan } from '@/utils/citations';
+import { TextAnchor } from '@/utils/commentAnchors';
+import { CHAIN_STEP_INPUTS, chainQuestions, chainSteps, isChainCommand, loadChainCommands, runCommandChain } from '@/utils/commandChains';
+import { SERVER_COPY_COLUMNS, toServerCopy } from '@/utils/documentSaves';
+import { toFunctionError } from '@/utils/functionErrors';
+import { isNetworkError, OfflineDraft } from '@/utils/offlineDrafts';
+import { templatePayload, templateQuestions, TemplateValues } from '@/utils/promptTemplate';
 import { format } from 'date-fns';
 
 interface Document {
@@ -46,21 +74,17 @@ interface Document {
   user_id?: string;
 }
 
-interface AISuggestion {
-  id: string;
-  type: 'light-edit' | 'expand' | 'condense' | 'outline';
-  originalText: string;
-  suggestedText: string;
-  changes?: boolean;
-}
-
 export default function Editor() {
   const navigate = useNavigate();
   const { documentId } = useParams();
+  const location = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
   const { settings } = useSettingsStore();
   const { isMobile } = useDevice();
+  const { snapshotIfMeaningful, createSnapshot } = useDocumentVersions();
+  const { streamFunction, cancelStream } = useStreamingAI();
+  const { rateLimit, handleRateLimit } = useRateLimitCountdown();
 
   const [document, setDocument] = useState<Document | null>(null);
   const [documentTitle, setDocumentTitle] = useState("");
@@ -68,7 +92,8 @@ export default function Editor() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
-  const [saveIndicator, setSaveIndicator] = useState<'saved' | 'saving' | 'error' | null>(null);
+  // 'offline' when the last save was kept on this device to sync later
+  const [saveIndicator, setSaveIndicator] = useState<'saved' | 'saving' | 'offline' | 'error' | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   
   const [rightSidebarOpen, setRightSidebarOpen] = useState(false);
@@ -76,6 +101,9 @@ export default function Editor() {
   const [selectedText, setSelectedText] = useState('');
   const [aiSuggestion, setAiSuggestion] = useState<AISuggestion | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  // Which step of a command chain is running
+  const [chainProgress, setChainProgress] = useState<string | null>(null);
   
   // Analysis/Fact-check results
   const [analysisResult, setAnalysisResult] = useState<any>(null);
@@ -83,12 +111,51 @@ export default function Editor() {
   const [factCheckResult, setFactCheckResult] = useState<any>(null);
   const [showFactCheckModal, setShowFactCheckModal] = useState(false);
   const [showMoreCommands, setShowMoreCommands] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [commentFilter, setCommentFilter] = useState<CommentFilter>('open');
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // The passage a comment being written will be anchored to
+  const [commentDraft, setCommentDraft] = useState<{ anchor: TextAnchor; text: string } | null>(null);
+  // A command waiting on answers to its {{ask:...}} questions
+  const [pendingQuestions, setPendingQuestions] = useState<{ command: UnifiedCommand; questions: string[] } | null>(null);
   
   // Editor reference for text selection
   const editorRef = useRef<any>(null);
   const monacoRef = useRef<any>(null);
+  const [editorReady, setEditorReady] = useState(false);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  const savedDocumentId = document && !document.id.includes('temp-') ? document.id : null;
+  const sharing = useDocumentSharing(savedDocumentId);
+  // Known straight away for your own documents; loaded for shared ones
+  const role: DocumentRole | null = !savedDocumentId || document?.user_id === user?.id ? 'owner' : sharing.role;
+  const canEdit = canEditDocument(role);
+  const ownMember = sharing.members.find(member => member.user_id === user?.id);
+
+  // Documents shared with anyone are edited live in the desktop editor
+  const live = useLiveDocument(editorRef, savedDocumentId && user && editorReady && !isMobile && sharing.members.length > 1 ? {
+    documentId: savedDocumentId,
+    userId: user.id,
+    name: ownMember ? memberName(ownMember) : user.email || 'Someone',
+    canEdit,
+    isOwner: role === 'owner',
+  } : null);
+  const isLive = live.status !== 'off';
+
+  const cacheDocumentCopy = useDocumentStore(state => state.cacheDocumentCopy);
+  const getOfflineDraft = useDocumentStore(state => state.getOfflineDraft);
+  const saveDocumentDraft = useDocumentStore(state => state.saveDocumentDraft);
+  const markDraftSaved = useDocumentStore(state => state.markDraftSaved);
+  const resolveDraftConflict = useDocumentStore(state => state.resolveDraftConflict);
+  const draftConflict = useDocumentStore(state => savedDocumentId ? state.draftConflicts[savedDocumentId] ?? null : null);
+
+  const canComment = canCommentOnDocument(role);
+  const comments = useDocumentComments(savedDocumentId, documentContent);
+  const { flush } = live;
+  const { moveAnchors } = comments;
+
   // Auto-title generation constants
   const MIN_CONTENT_LENGTH = 50;
   const AUTO_TITLE_THRESHOLD = 200;
@@ -147,7 +214,6 @@ export default function Editor() {
         .from('documents')
         .select('*')
         .eq('id', documentId)
-        .eq('user_id', user.id)
         .single();
 
       if (error) {
@@ -164,12 +230,27 @@ export default function Editor() {
       }
 
       setDocument(data);
-      setDocumentTitle(data.title);
-      setDocumentContent(data.content || '');
       setLastSaved(new Date(data.updated_at));
-      setHasUnsavedChanges(false);
+
+      // Edits from an earlier visit that never reached the server come back
+      // as unsaved, and autosave takes them from there
+      const draft = await cacheDocumentCopy(data, user.id);
+      setDocumentTitle(draft.title);
+      setDocumentContent(draft.content);
+      setHasUnsavedChanges(draft.pending);
+      if (draft.pending) {
+        toast({
+          title: "Unsaved edits restored",
+          description: "Edits made on this device before are being saved now.",
+        });
+      }
     } catch (error) {
       console.error('Error loading document:', error);
+      const draft = isNetworkError(error) ? await getOfflineDraft(documentId) : null;
+      if (draft) {
+        openOfflineCopy(draft);
+        return;
+      }
       toast({
         title: "Error loading document",
         description: "Failed to load the document. Please try again.",
@@ -181,6 +262,45 @@ export default function Editor() {
     }
   };
 
+  // The copy kept on this device, opened while the server can't be reached
+  const openOfflineCopy = (draft: OfflineDraft) => {
+    setDocument({
+      id: draft.documentId,
+      title: draft.title,
+      content: draft.content,
+      category: draft.category,
+      status: draft.status,
+      word_count: draft.wordCount,
+      created_at: draft.createdAt,
+      updated_at: draft.base.updated_at ?? draft.editedAt,
+      user_id: draft.ownerId
+    });
+    setDocumentTitle(draft.title);
+    setDocumentContent(draft.content);
+    setLastSaved(new Date(draft.editedAt));
+    setHasUnsavedChanges(false);
+    setSaveIndicator(draft.pending ? 'offline' : null);
+    toast({
+      title: "You're offline",
+      description: "Showing the copy saved on this device. Edits will sync when you reconnect.",
+    });
+  };
+
+  // Shows the outcome of saving through the document store; true once on the server
+  const applyDraftSave = (result: DraftSaveResult) => {
+    if (result.status === 'queued') {
+      setHasUnsavedChanges(false);
+      setSaveIndicator('offline');
+      return false;
+    }
+    // Waits on the merge dialog
+    if (result.status === 'conflict') {
+      setSaveIndicator(null);
+      return false;
+    }
+    return true;
+  };
+
   const handleAutoSave = useCallback(async () => {
     if (!user || !documentContent.trim() || documentContent.length < MIN_CONTENT_LENGTH) {
       return;
@@ -211,26 +331,59 @@ export default function Editor() {
         
         docToSave = newDoc;
         setDocument(newDoc);
+
+        snapshotIfMeaningful({
+          documentId: newDoc.id,
+          userId: user.id,
+          title: documentTitle,
+          content: documentContent,
+          wordCount: newDoc.word_count || 0
+        });
         
         // Update URL to reflect the new document ID
         navigate(`/editor/${newDoc.id}`, { replace: true });
       } else {
-        // Update existing document
-        const wordCount = documentContent.split(' ').filter(word => word.length > 0).length;
+        // Update existing document. Live, the text saved is the shared text
+        // as of the newest update sent or received.
+        const liveUpdateId = isLive ? await flush() : null;
+        if (isLive && liveUpdateId === null) throw new Error('Live changes could not be sent');
+        const content = isLive ? editorRef.current?.getModel()?.getValue() ?? documentContent : documentContent;
+        const wordCount = content.split(' ').filter(word => word.length > 0).length;
         
-        const { error: updateError } = await supabase
-          .from('documents')
-          .update({
-            title: documentTitle,
-            content: documentContent,
-            word_count: wordCount,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', docToSave.id);
+        if (liveUpdateId !== null) {
+          const { data: saved, error: updateError } = await supabase
+            .from('documents')
+            .update({
+              title: documentTitle,
+              content,
+              word_count: wordCount,
+              updated_at: new Date().toISOString(),
+              live_update_id: liveUpdateId
+            })
+            .eq('id', docToSave.id)
+            // A collaborator who saved newer live changes already has this text covered
+            .or(`live_update_id.is.null,live_update_id.lte.${liveUpdateId}`)
+            .select(SERVER_COPY_COLUMNS)
+            .maybeSingle();
 
-        if (updateError) throw updateError;
+          if (updateError) throw updateError;
+          if (saved) markDraftSaved(docToSave.id, toServerCopy(saved));
+        } else {
+          // Kept on this device first, then saved unless someone else saved since
+          const result = await saveDocumentDraft(docToSave.id, { title: documentTitle, content, wordCount });
+          if (!applyDraftSave(result)) return;
+        }
         
-        setDocument(prev => prev ? { ...prev, title: documentTitle, content: documentContent, word_count: wordCount } : null);
+        setDocument(prev => prev ? { ...prev, title: documentTitle, content, word_count: wordCount } : null);
+        moveAnchors(content);
+
+        snapshotIfMeaningful({
+          documentId: docToSave.id,
+          userId: user.id,
+          title: documentTitle,
+          content,
+          wordCount
+        });
       }
 
       setLastSaved(new Date());
@@ -250,7 +403,7 @@ export default function Editor() {
     } finally {
       setSaving(false);
     }
-  }, [user, document, documentTitle, documentContent, navigate]);
+  }, [user, document, documentTitle, documentContent, navigate, snapshotIfMeaningful, isLive, flush, moveAnchors, saveDocumentDraft, markDraftSaved, toast]);
 
   const handleManualSave = async () => {
     await handleAutoSave();
@@ -262,6 +415,8 @@ export default function Editor() {
 
   const handleContentChange = (newContent: string) => {
     setDocumentContent(newContent);
+    // Viewers and commenters see collaborators' edits but never save them
+    if (!canEdit) return;
     setHasUnsavedChanges(true);
     
     // Auto-generate title if document is new and has enough content
@@ -273,10 +428,38 @@ export default function Editor() {
   };
 
   const handleTitleChange = (newTitle: string) => {
+    if (!canEdit) return;
     setDocumentTitle(newTitle);
     setHasUnsavedChanges(true);
   };
 
+  const handleRestoreVersion = async (version: DocumentVersion) => {
+    if (!canEdit) return;
+
+    // Keep the text being replaced in history so a restore can be undone
+    if (user && document && !document.id.includes('temp-')) {
+      try {
+        await createSnapshot({
+          documentId: document.id,
+          userId: user.id,
+          title: documentTitle,
+          content: documentContent,
+          wordCount: documentContent.split(' ').filter(word => word.length > 0).length
+        });
+      } catch (error) {
+        console.error('Error snapshotting before restore:', error);
+      }
+    }
+
+    setDocumentTitle(version.title);
+    setDocumentContent(version.content || '');
+    setHasUnsavedChanges(true);
+    toast({
+      title: "Version restored",
+      description: `Restored version ${version.version_number} from ${format(new Date(version.created_at), 'MMM d, HH:mm')}.`,
+    });
+  };
+
   const generateTitle = async (content: string) => {
     if (!user) return;
 
@@ -299,8 +482,99 @@ export default function Editor() {
   const handleEditorMount = useCallback((editor: any, monaco: any) => {
     editorRef.current = editor;
     monacoRef.current = monaco;
+    setEditorReady(true);
+  }, []);
+
+  const trackedChanges = useTrackedChanges(editorRef, ({ label, accepted, total }) => {
+    toast({
+      title: `${label} reviewed`,
+      description: `${accepted} of ${total} change${total === 1 ? '' : 's'} accepted.`,
+    });
+  });
+  const { startReview, cancelReview } = trackedChanges;
+
+  // Monaco is unmounted while a document loads and mounts a new instance afterwards
+  useEffect(() => {
+    if (loading) {
+      setEditorReady(false);
+      cancelReview();
+      setActiveThreadId(null);
+      setCommentDraft(null);
+    }
+  }, [loading, cancelReview]);
+
+  const openComments = useCallback((threadId?: string) => {
+    setShowComments(true);
+    setRightSidebarOpen(false);
+    if (threadId) setActiveThreadId(threadId);
   }, []);
 
+  // Open threads are marked in the editor, plus whichever one is selected
+  const markedThreads = useMemo(
+    () => comments.threads.filter(thread => !isThreadResolved(thread) || thread.root.id === activeThreadId),
+    [comments.threads, activeThreadId]
+  );
+  const openThreadCount = filterThreads(comments.threads, 'open').length;
+  const { revealThread } = useCommentDecorations(
+    editorRef,
+    editorReady,
+    markedThreads,
+    comments.anchoredText,
+    activeThreadId,
+    openComments
+  );
+
+  const startComment = () => {
+    const selection = editorRef.current?.getSelection();
+    const model = editorRef.current?.getModel();
+    if (!selection || !model || selection.isEmpty()) {
+      toast({ title: "Select a passage", description: "Select the text you want to comment on first." });
+      return;
+    }
+
+    const start = model.getOffsetAt(selection.getStartPosition());
+    const end = model.getOffsetAt(selection.getEndPosition());
+    setCommentDraft({ anchor: { start, end }, text: model.getValueInRange(selection) });
+    setCommentFilter('open');
+    openComments();
+  };
+
+  // Reveal and highlight the passage when opened from a chat citation
+  useEffect(() => {
+    const citedSpan = (location.state as { citedSpan?: CitedSpan } | null)?.citedSpan;
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    if (!citedSpan || loading || !editorReady || !editor || !monaco) return;
+
+    const model = editor.getModel();
+    const located = model && locateCitedSpan(model.getValue(), citedSpan);
+    if (!located) return;
+
+    const start = model.getPositionAt(located.start);
+    const end = model.getPositionAt(located.end);
+    const range = new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column);
+
+    let decorations: string[] = editor.deltaDecorations([], [
+      { range, options: { inlineClassName: 'citation-highlight' } }
+    ]);
+    editor.revealRangeInCenter(range);
+    editor.setPosition(start);
+
+    // The highlight goes away as soon as the text is edited
+    const clear = () => {
+      decorations = editor.deltaDecorations(decorations, []);
+    };
+    const listener = editor.onDidChangeModelContent(() => {
+      clear();
+      listener.dispose();
+    });
+
+    return () => {
+      listener.dispose();
+      clear();
+    };
+  }, [location.state, loading, editorReady]);
+
   const getSelectedTextFromEditor = useCallback(() => {
     if (editorRef.current && monacoRef.current) {
       const selection = editorRef.current.getSelection();
@@ -326,7 +600,159 @@ export default function Editor() {
     }
   }, [selectedText]);
 
-  const executeAICommand = useCallback(async (command: UnifiedCommand) => {
+  // Editor context for prompt template variables
+  const getTemplateValues = useCallback((): TemplateValues => {
+    const values: TemplateValues = {
+      document: documentContent,
+      title: documentTitle,
+      category: document?.category ?? '',
+    };
+
+    const model = editorRef.current?.getModel();
+    const selection = editorRef.current?.getSelection();
+    if (model && selection) {
+      const lastLine = model.getLineCount();
+      values.before_cursor = model.getValueInRange({
+        startLineNumber: 1,
+        startColumn: 1,
+        endLineNumber: selection.startLineNumber,
+        endColumn: selection.startColumn
+      });
+      values.after_cursor = model.getValueInRange({
+        startLineNumber: selection.endLineNumber,
+        startColumn: selection.endColumn,
+        endLineNumber: lastLine,
+        endColumn: model.getLineMaxColumn(lastLine)
+      });
+    }
+    return values;
+  }, [document, documentContent, documentTitle]);
+
+  /**
+   * Writes an AI result over the text it was made from, as tracked changes
+   * when review is on. 'stale' means that text has changed since the command
+   * started, and nothing was written.
+   */
+  const applyAIResult = useCallback((
+    label: string,
+    range: EditorRange | undefined,
+    originalText: string,
+    text: string
+  ): 'review' | 'applied' | 'stale' => {
+    if (range && editorRef.current) {
+      if (settings.reviewAIEdits && startReview(label, range, originalText, text)) return 'review';
+      return replaceEditorRange(editorRef.current, range, originalText, text) ? 'applied' : 'stale';
+    }
+
+    // The mobile editor has no selection to anchor to; commands there run on the whole document
+    if (originalText !== documentContent) return 'stale';
+    setDocumentContent(text);
+    setHasUnsavedChanges(true);
+    return 'applied';
+  }, [documentContent, settings.reviewAIEdits, startReview]);
+
+  const toastStaleResult = useCallback((label: string) => {
+    toast({
+      title: "Text has changed",
+      description: `The text changed while ${label} was running, so the result was not applied. Run it again.`,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Runs a command chain's steps in turn, then shows the combined result for review
+  const executeCommandChain = useCallback(async (
+    chain: UnifiedCommand,
+    currentSelectedText: string,
+    answers?: Record<string, string>
+  ) => {
+    const range = captureEditorRange(editorRef.current);
+    setAiLoading(true);
+
+    try {
+      const stepCommands = await loadChainCommands(chain);
+
+      // Every step's {{ask:...}} questions are answered once, up front
+      const questions = chainQuestions(stepCommands);
+      if (questions.length > 0 && !answers) {
+        setPendingQuestions({ command: chain, questions });
+        return;
+      }
+
+      const { data: { user: authUser } } = await supabase.auth.getUser();
+      if (!authUser) throw new Error('Not authenticated');
+
+      const originalText = currentSelectedText || documentContent;
+      const templateValues = getTemplateValues();
+
+      const run = await runCommandChain(
+        chainSteps(chain),
+        stepCommands,
+        { selection: originalText, document: documentContent },
+        async (command, text, index) => {
+          setChainProgress(`Step ${index + 1} of ${stepCommands.length}: ${command.name}`);
+          setStreamingText('');
+
+          const payload = {
+            command,
+            selectedText: text,
+            userId: authUser.id,
+            ...templatePayload(command, templateValues, answers)
+          };
+
+          if (settings.streamAIResponses) {
+            const outcome = await streamFunction<{ result?: string }>(command.function_name, payload, {
+              onToken: (_token, fullText) => setStreamingText(fullText)
+            });
+            return outcome.cancelled ? null : outcome.data?.result ?? '';
+          }
+
+          const { data, error } = await supabase.functions.invoke(command.function_name, { body: payload });
+          if (error) throw await toFunctionError(error);
+          return data?.result ?? '';
+        }
+      );
+
+      if (!run) {
+        toast({
+          title: `${chain.name} stopped`,
+          description: "The chain was cancelled. Your document was not changed.",
+        });
+        return;
+      }
+
+      setAiSuggestion({
+        id: chain.id,
+        type: 'chain',
+        label: chain.name,
+        originalText,
+        suggestedText: run.text,
+        title: run.title,
+        range,
+        steps: run.steps.map(step => ({
+          name: step.command.name,
+          input: CHAIN_STEP_INPUTS.find(option => option.value === step.input)!.label.toLowerCase(),
+          output: step.output
+        }))
+      });
+    } catch (error) {
+      if (handleRateLimit(error, chain.name)) return;
+      console.error('Command chain error:', error);
+      toast({
+        title: `Failed to run ${chain.name}`,
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setAiLoading(false);
+      setStreamingText('');
+      setChainProgress(null);
+    }
+  }, [documentContent, getTemplateValues, settings.streamAIResponses, streamFunction, toast, handleRateLimit]);
+
+  const executeAICommand = useCallback(async (command: UnifiedCommand, answers?: Record<string, string>) => {
+    // The countdown notice is already showing
+    if (rateLimit?.label === command.name) return;
+
     if (!document && !documentContent.trim()) {
       toast({
         title: "No content to process",
@@ -338,6 +764,8 @@ export default function Editor() {
 
     const currentSelectedText = getSelectedTextFromEditor();
     const textToProcess = currentSelectedText || documentContent;
+    // Results replace this range, wherever the selection is by the time they arrive
+    const range = captureEditorRange(editorRef.current);
     
     if (!textToProcess?.trim() || textToProcess.length < 10) {
       toast({
@@ -348,6 +776,18 @@ export default function Editor() {
       return;
     }
 
+    if (isChainCommand(command)) {
+      await executeCommandChain(command, currentSelectedText, answers);
+      return;
+    }
+
+    // Commands with {{ask:...}} placeholders run once the dialog is answered
+    const questions = templateQuestions(command.prompt, command.system_prompt);
+    if (questions.length > 0 && !answers) {
+      setPendingQuestions({ command, questions });
+      return;
+    }
+
     setAiLoading(true);
 
     try {
@@ -358,14 +798,31 @@ export default function Editor() {
         command,
         content: currentSelectedText ? undefined : documentContent,
         selectedText: currentSelectedText || undefined,
-        userId: authUser.id
+        userId: authUser.id,
+        ...templatePayload(command, getTemplateValues(), answers)
       };
 
-      const { data, error } = await supabase.functions.invoke(command.function_name, {
-        body: payload
-      });
+      let data;
+      if (settings.streamAIResponses) {
+        const outcome = await streamFunction(command.function_name, payload, {
+          onToken: (_token, fullText) => setStreamingText(fullText)
+        });
 
-      if (error) throw error;
+        if (outcome.cancelled) {
+          toast({
+            title: `${command.name} stopped`,
+            description: "Generation was cancelled. Your document was not changed.",
+          });
+          return;
+        }
+        data = outcome.data;
+      } else {
+        const { data: invokeData, error } = await supabase.functions.invoke(command.function_name, {
+          body: payload
+        });
+        if (error) throw await toFunctionError(error);
+        data = invokeData;
+      }
 
       const result = data?.result;
       
@@ -388,14 +845,13 @@ export default function Editor() {
           description: "Analysis is ready for review.",
         });
       } else {
-        // Replace text for other commands
-        if (currentSelectedText && editorRef.current) {
-          replaceSelectedText(result);
-        } else {
-          setDocumentContent(result);
+        // Replace the text the command ran on, or review the changes in place
+        const applied = applyAIResult(command.name, range, textToProcess, result);
+        if (applied === 'stale') {
+          toastStaleResult(command.name);
+          return;
         }
-        
-        setHasUnsavedChanges(true);
+        if (applied === 'review') return;
         
         toast({
           title: `${command.name} completed`,
@@ -403,6 +859,7 @@ export default function Editor() {
         });
       }
     } catch (error) {
+      if (handleRateLimit(error, command.name)) return;
       console.error('AI command error:', error);
       toast({
         title: "AI command failed",
@@ -411,8 +868,9 @@ export default function Editor() {
       });
     } finally {
       setAiLoading(false);
+      setStreamingText('');
     }
-  }, [document, documentContent, getSelectedTextFromEditor, replaceSelectedText, toast]);
+  }, [document, documentContent, getSelectedTextFromEditor, getTemplateValues, executeCommandChain, applyAIResult, toastStaleResult, toast, settings.streamAIResponses, streamFunction, rateLimit, handleRateLimit]);
 
   const handleBackToLibrary = () => {
     if (hasUnsavedChanges) {
@@ -463,6 +921,7 @@ export default function Editor() {
               <Input
                 value={documentTitle}
                 onChange={(e) => handleTitleChange(e.target.value)}
+                readOnly={!canEdit}
                 className="text-lg font-semibold bg-transparent border-none shadow-none px-0 focus-visible:ring-0 min-w-[200px]"
                 placeholder="Document title..."
               />
@@ -475,12 +934,37 @@ export default function Editor() {
                   <span className="text-sm text-muted-foreground">
                     {document.word_count || 0} words
                   </span>
+                  {role === 'viewer' && <Badge variant="secondary">View only</Badge>}
+                  {role === 'commenter' && <Badge variant="secondary">Can comment</Badge>}
+                  {!document.id.includes('temp-') && role === 'owner' && (
+                    <TagInput documentId={document.id} content={documentContent} />
+                  )}
                 </div>
               )}
             </div>
           </div>
 
           <div className="flex items-center gap-3">
+            {/* Who else has the document open */}
+            {live.collaborators.length > 0 && (
+              <div className="flex -space-x-2">
+                {live.collaborators.slice(0, 5).map(collaborator => (
+                  <div
+                    key={collaborator.key}
+                    title={collaborator.name}
+                    className={`remote-avatar remote-color-${collaborator.color} h-7 w-7 rounded-full border-2 border-surface flex items-center justify-center text-xs font-medium text-white`}
+                  >
+                    {collaborator.name.charAt(0).toUpperCase()}
+                  </div>
+                ))}
+              </div>
+            )}
+            {live.status === 'offline' && (
+              <span className="text-sm text-red-600" title="Your edits are kept and sent when the connection is back">
+                Offline
+              </span>
+            )}
+
             {/* Save Status Indicator */}
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               {saveIndicator === 'saving' && (
@@ -495,6 +979,14 @@ export default function Editor() {
                   <span className="text-green-600">Saved</span>
                 </>
               )}
+              {saveIndicator === 'offline' && (
+                <>
+                  <Clock className="h-3 w-3 text-amber-600" />
+                  <span className="text-amber-600" title="Kept on this device and saved when you're back online">
+                    Saved offline
+                  </span>
+                </>
+              )}
               {saveIndicator === 'error' && (
                 <>
                   <Clock className="h-3 w-3 text-red-600" />
@@ -519,7 +1011,68 @@ export default function Editor() {
             <Button 
               variant="ghost" 
               size="icon" 
-              onClick={() => setRightSidebarOpen(!rightSidebarOpen)}
+              onClick={() => setShowShare(true)}
+              disabled={!savedDocumentId}
+              title="Share"
+            >
+              <Share2 className="h-4 w-4" />
+            </Button>
+
+            {canComment && !isMobile && (
+              <Button 
+                variant="ghost" 
+                size="icon" 
+                onClick={startComment}
+                disabled={!savedDocumentId || !selectedText}
+                title="Comment on selection"
+              >
+                <MessageSquarePlus className="h-4 w-4" />
+              </Button>
+            )}
+
+            <Button 
+              variant={showComments ? "secondary" : "ghost"}
+              size="icon" 
+              onClick={() => showComments ? setShowComments(false) : openComments()}
+              disabled={!savedDocumentId}
+              title="Comments"
+              className="relative"
+            >
+              <MessagesSquare className="h-4 w-4" />
+              {openThreadCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-[10px] leading-4 text-primary-foreground">
+                  {openThreadCount}
+                </span>
+              )}
+            </Button>
+
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              onClick={() => setShowHistory(true)}
+              disabled={!document}
+              title="Version history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+
+            <ExportMenu
+              disabled={!document}
+              getDocuments={() => document ? [{
+                ...document,
+                title: documentTitle || document.title,
+                content: documentContent,
+                word_count: documentContent.trim().split(/\s+/).filter(Boolean).length
+              }] : []}
+            />
+
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              onClick={() => {
+                setRightSidebarOpen(!rightSidebarOpen);
+                setShowComments(false);
+              }}
             >
               <MessageSquare className="h-4 w-4" />
             </Button>
@@ -548,6 +1101,7 @@ export default function Editor() {
                       onChange={handleContentChange}
                       isDarkMode={false}
                       settings={settings}
+                      readOnly={!canEdit}
                     />
                   ) : (
                     <MonacoEditor
@@ -557,26 +1111,38 @@ export default function Editor() {
                       settings={settings}
                       onSelectionChange={setSelectedText}
                       onProvideEditor={handleEditorMount}
+                      readOnly={!canEdit || sharing.isLoadingMembers || (isLive && !live.ready)}
+                      glyphMargin={comments.threads.length > 0}
                     />
                   )}
                 </div>
 
                 {/* AI Suggestion Panel */}
-                {aiSuggestion && (
+                {(aiSuggestion || streamingText || chainProgress) && (
                   <AISuggestionPanel
                     suggestion={aiSuggestion}
                     isLoading={aiLoading}
+                    streamingText={streamingText}
+                    onCancel={cancelStream}
+                    progressLabel={chainProgress ?? undefined}
+                    acceptLabel={settings.reviewAIEdits && !isMobile ? 'Review in Editor' : undefined}
                     onAccept={(suggestion) => {
-                      if (aiSuggestion.type === 'light-edit' && selectedText) {
-                        replaceSelectedText(suggestion.suggestedText);
-                      } else {
-                        setDocumentContent(suggestion.suggestedText);
-                      }
+                      const label = suggestion.label || 'The AI command';
                       setAiSuggestion(null);
-                      setHasUnsavedChanges(true);
+                      if (applyAIResult(label, suggestion.range, suggestion.originalText, suggestion.suggestedText) === 'stale') {
+                        toastStaleResult(label);
+                        return;
+                      }
+                      if (suggestion.title) {
+                        setDocumentTitle(suggestion.title);
+                        setHasUnsavedChanges(true);
+                      }
                     }}
                     onReject={() => setAiSuggestion(null)}
-                    onClose={() => setAiSuggestion(null)}
+                    onClose={() => {
+                      cancelStream();
+                      setAiSuggestion(null);
+                    }}
                   />
                 )}
               </div>
@@ -590,7 +1156,48 @@ export default function Editor() {
                   <AIChatSidebar
                     isOpen={true}
                     onClose={() => setRightSidebarOpen(false)}
-                    onDocumentSelect={(doc) => navigate(`/editor/${doc.id}`)}
+                    onDocumentSelect={(doc, span) => navigate(`/editor/${doc.id}`, { state: span ? { citedSpan: span } : undefined })}
+                  />
+                </ResizablePanel>
+              </>
+            )}
+
+            {/* Comments */}
+            {showComments && !isFocusMode && (
+              <>
+                <ResizableHandle />
+                <ResizablePanel defaultSize={25} minSize={20} maxSize={40}>
+                  <CommentsPanel
+                    threads={comments.threads}
+                    filter={commentFilter}
+                    onFilterChange={setCommentFilter}
+                    members={sharing.members}
+                    currentUserId={user?.id}
+                    canComment={canComment}
+                    isOwner={role === 'owner'}
+                    activeThreadId={activeThreadId}
+                    onSelectThread={(threadId) => {
+                      setActiveThreadId(threadId);
+                      revealThread(threadId);
+                    }}
+                    draftText={commentDraft?.text ?? null}
+                    onSubmitDraft={async (body) => {
+                      if (!commentDraft) return;
+                      const comment = await comments.addComment(commentDraft.anchor, body);
+                      setCommentDraft(null);
+                      setActiveThreadId(comment.id);
+                    }}
+                    onCancelDraft={() => setCommentDraft(null)}
+                    onReply={comments.replyToThread}
+                    onResolve={async (threadId, resolved) => {
+                      await comments.setResolved(threadId, resolved);
+                      if (resolved && threadId === activeThreadId) setActiveThreadId(null);
+                    }}
+                    onDelete={comments.deleteComment}
+                    onClose={() => {
+                      setShowComments(false);
+                      setCommentDraft(null);
+                    }}
                   />
                 </ResizablePanel>
               </>
@@ -598,9 +1205,20 @@ export default function Editor() {
           </ResizablePanelGroup>
         </div>
 
+        <TrackedChangesBar
+          review={trackedChanges.review}
+          onAccept={trackedChanges.acceptHunk}
+          onReject={trackedChanges.rejectHunk}
+          onAcceptAll={trackedChanges.acceptAll}
+          onRejectAll={trackedChanges.rejectAll}
+          onNavigate={trackedChanges.goTo}
+          className="mx-4 mb-3"
+        />
+
         {/* Bottom Toolbar - AI Commands */}
         {!isFocusMode && (
           <div className="flex-shrink-0 p-4 bg-surface/60 backdrop-blur-sm border-t border-border/50 shadow-lg">
+            <RateLimitNotice rateLimit={rateLimit} className="mb-3" />
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
                 <AdvancedAICommands
@@ -647,7 +1265,7 @@ export default function Editor() {
                 {selectedText && (
                   <ContextualAIToolbar
                     selectedText={selectedText}
-                    onCommand={executeAICommand}
+                    onCommand={(command) => executeAICommand(command)}
                     aiLoading={aiLoading}
                     onClose={() => setSelectedText('')}
                   />
@@ -670,6 +1288,59 @@ export default function Editor() {
         onOpenChange={setShowFactCheckModal}
         factCheckData={factCheckResult}
       />
+
+      <TemplateQuestionsDialog
+        commandName={pendingQuestions?.command.name ?? null}
+        questions={pendingQuestions?.questions ?? []}
+        onSubmit={(answers) => {
+          const command = pendingQuestions?.command;
+          setPendingQuestions(null);
+          if (command) executeAICommand(command, answers);
+        }}
+        onClose={() => setPendingQuestions(null)}
+      />
+
+      <ShareDocumentDialog
+        isOpen={showShare}
+        onClose={() => setShowShare(false)}
+        documentId={savedDocumentId}
+        documentTitle={documentTitle}
+        members={sharing.members}
+        currentUserId={user?.id}
+        isOwner={role === 'owner'}
+        onShare={sharing.shareDocument}
+        onChangeRole={sharing.changeRole}
+        onRemove={async (userId) => {
+          await sharing.removeMember(userId);
+          if (userId === user?.id) navigate('/');
+        }}
+      />
+
+      <DraftConflictDialog
+        conflict={draftConflict}
+        onResolve={async (merged) => {
+          if (!savedDocumentId) return;
+          const result = await resolveDraftConflict(savedDocumentId, merged);
+          const content = merged?.content ?? draftConflict?.server.content ?? documentContent;
+          setDocumentTitle(merged?.title ?? draftConflict?.server.title ?? documentTitle);
+          setDocumentContent(content);
+          setHasUnsavedChanges(false);
+          if (applyDraftSave(result)) {
+            moveAnchors(content);
+            setLastSaved(new Date());
+            setSaveIndicator('saved');
+            setTimeout(() => setSaveIndicator(null), 2000);
+          }
+        }}
+      />
+
+      <DocumentHistoryPanel
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        documentId={document?.id}
+        currentContent={documentContent}
+        onRestore={handleRestoreVersion}
+      />
     </div>
   );
 }
\ No newline at end of file
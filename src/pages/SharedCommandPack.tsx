@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Download, Link2Off, Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PackContents } from '@/components/ImportCommandPackDialog';
+import { UserMenu } from '@/components/UserMenu';
+import { useAuth } from '@/hooks/useAuth';
+import { SharedPack, useCommandPacks } from '@/hooks/useCommandPacks';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { UnifiedCommand } from '@/types/commands';
+import { CommandPackError, ConflictResolution, describeImportResult } from '@/utils/commandPacks';
+
+const SharedCommandPack = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { loadSharedPack, installSharedPack, unpublishPack } = useCommandPacks();
+  const [shared, setShared] = useState<SharedPack | null>(null);
+  const [existing, setExisting] = useState<UnifiedCommand[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [resolution, setResolution] = useState<ConflictResolution>('skip');
+  const [isInstalling, setIsInstalling] = useState(false);
+
+  useEffect(() => {
+    if (!token || !user) return;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [pack, commands] = await Promise.all([
+          loadSharedPack(token),
+          supabase.from('user_commands').select('*').eq('user_id', user.id),
+        ]);
+        if (commands.error) throw commands.error;
+
+        setShared(pack);
+        setExisting((commands.data || []) as UnifiedCommand[]);
+        if (!pack) setLoadError('This share link is invalid or the pack is no longer shared.');
+      } catch (error) {
+        console.error('Error loading shared command pack:', error);
+        setLoadError(error instanceof CommandPackError ? error.message : 'Failed to load the command pack.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [token, user, loadSharedPack]);
+
+  const install = async () => {
+    if (!token || !shared) return;
+
+    setIsInstalling(true);
+    try {
+      const result = await installSharedPack(token, shared.pack, resolution);
+      toast({
+        title: `Installed "${shared.name}"`,
+        description: describeImportResult(result),
+      });
+      navigate('/');
+    } catch (error) {
+      console.error('Error installing command pack:', error);
+      toast({
+        title: "Install failed",
+        description: "Failed to install the command pack. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsInstalling(false);
+    }
+  };
+
+  const stopSharing = async () => {
+    if (!shared || !confirm('Stop sharing this pack? The link will stop working for everyone.')) return;
+
+    try {
+      await unpublishPack(shared.id);
+      toast({ title: "Pack unshared", description: "The share link no longer works." });
+      navigate('/');
+    } catch (error) {
+      console.error('Error unsharing command pack:', error);
+      toast({
+        title: "Unshare failed",
+        description: "Failed to stop sharing the pack. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-surface/30 to-background">
+      <div className="flex items-center justify-between p-4 bg-surface/60 backdrop-blur-sm border-b border-border/50 shadow-sm">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')} aria-label="Back to documents">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-heading-lg font-bold">Command Pack</h1>
+            <p className="text-sm text-muted-foreground">Install shared AI commands</p>
+          </div>
+        </div>
+        <UserMenu />
+      </div>
+
+      <div className="max-w-xl mx-auto p-4">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : !shared ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">{loadError}</CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                {shared.name}
+              </CardTitle>
+              <CardDescription>
+                {shared.description || `${shared.pack.commands.length} command(s)`}
+                {shared.isOwner && ` · You shared this pack · ${shared.installCount} install(s)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <PackContents
+                pack={shared.pack}
+                existing={existing}
+                resolution={resolution}
+                onResolutionChange={setResolution}
+              />
+
+              <div className="flex gap-2">
+                <Button onClick={install} disabled={isInstalling} className="flex-1">
+                  <Download className="h-4 w-4 mr-2" />
+                  {isInstalling ? 'Installing...' : 'Install Commands'}
+                </Button>
+                {shared.isOwner && (
+                  <Button variant="outline" onClick={stopSharing}>
+                    <Link2Off className="h-4 w-4 mr-2" />
+                    Stop Sharing
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedCommandPack;
@@ -0,0 +1,384 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { UserMenu } from '@/components/UserMenu';
+import { BudgetLimits, BudgetStatus, useAIUsage, UsageRow } from '@/hooks/useAIUsage';
+import { useToast } from '@/hooks/use-toast';
+
+type Metric = 'cost' | 'tokens';
+
+const RANGE_OPTIONS = [
+  { value: 7, label: 'Last 7 days' },
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' },
+];
+
+// Functions beyond the top few are grouped as "Other" in the daily chart
+const MAX_SERIES = 5;
+const SERIES_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--accent))',
+  'hsl(var(--ai-button))',
+  'hsl(var(--status-draft))',
+  'hsl(var(--destructive))',
+  'hsl(var(--muted-foreground))',
+];
+
+interface Breakdown {
+  name: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+function formatCost(cost: number) {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(count: number) {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+  return count.toLocaleString();
+}
+
+const rowTokens = (row: UsageRow) => row.tokens_input + row.tokens_output;
+
+function breakdownBy(rows: UsageRow[], key: 'function_name' | 'model'): Breakdown[] {
+  const totals = new Map<string, Breakdown>();
+  for (const row of rows) {
+    const entry = totals.get(row[key]) ?? { name: row[key], requests: 0, tokens: 0, cost: 0 };
+    entry.requests += row.requests;
+    entry.tokens += rowTokens(row);
+    entry.cost += row.cost;
+    totals.set(row[key], entry);
+  }
+  return [...totals.values()].sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+}
+
+// Every day in the range, oldest first, as YYYY-MM-DD (UTC, matching ai_usage_summary)
+function rangeDays(days: number): string[] {
+  const today = new Date();
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1 - i)));
+    return date.toISOString().slice(0, 10);
+  });
+}
+
+function BreakdownTable({ title, rows }: { title: string; rows: Breakdown[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No AI usage in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Requests</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.name}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatTokens(row.tokens)}</TableCell>
+                  <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LimitMeter({ label, used, limit, format }: {
+  label: string;
+  used: number;
+  limit: number | null;
+  format: (value: number) => string;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-medium">
+          {format(used)}
+          {limit !== null && <span className="text-muted-foreground"> of {format(limit)}</span>}
+        </span>
+      </div>
+      {limit !== null && (
+        <Progress value={limit > 0 ? Math.min(100, (used / limit) * 100) : 100} className="h-2" />
+      )}
+    </div>
+  );
+}
+
+function BudgetCard({ budget, onSave }: {
+  budget: BudgetStatus | null;
+  onSave: (limits: BudgetLimits) => Promise<void>;
+}) {
+  const { toast } = useToast();
+  const [spendLimit, setSpendLimit] = useState('');
+  const [tokenLimit, setTokenLimit] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setSpendLimit(budget?.spendLimit != null ? String(budget.spendLimit) : '');
+    setTokenLimit(budget?.tokenLimit != null ? String(budget.tokenLimit) : '');
+  }, [budget?.spendLimit, budget?.tokenLimit]);
+
+  const resetsOn = useMemo(() => {
+    const start = budget ? new Date(budget.periodStart) : new Date();
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+      .toLocaleDateString(undefined, { month: 'long', day: 'numeric', timeZone: 'UTC' });
+  }, [budget]);
+
+  const parseLimit = (value: string) => {
+    if (!value.trim()) return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+
+  const handleSave = async () => {
+    const spend = parseLimit(spendLimit);
+    const tokens = parseLimit(tokenLimit);
+    if (spend === undefined || tokens === undefined) {
+      toast({
+        title: 'Invalid limit',
+        description: 'Limits must be positive numbers, or empty for no cap.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({ spendLimit: spend, tokenLimit: tokens === null ? null : Math.round(tokens) });
+      toast({
+        title: 'Budget saved',
+        description: 'AI requests stop once this month reaches either cap.',
+      });
+    } catch (error) {
+      console.error('Error saving AI budget:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save your AI budget.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Monthly budget</CardTitle>
+        <CardDescription>Usage resets on {resetsOn}. Leave a field empty for no cap.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <LimitMeter label="Spend this month" used={budget?.spend ?? 0} limit={budget?.spendLimit ?? null} format={formatCost} />
+        <LimitMeter label="Tokens this month" used={budget?.tokens ?? 0} limit={budget?.tokenLimit ?? null} format={formatTokens} />
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="spend-limit">Spend cap (USD)</Label>
+            <Input
+              id="spend-limit"
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="No cap"
+              value={spendLimit}
+              onChange={(e) => setSpendLimit(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="token-limit">Token cap</Label>
+            <Input
+              id="token-limit"
+              type="number"
+              min={0}
+              step="1000"
+              placeholder="No cap"
+              value={tokenLimit}
+              onChange={(e) => setTokenLimit(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save budget'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const Usage = () => {
+  const navigate = useNavigate();
+  const [days, setDays] = useState(30);
+  const [metric, setMetric] = useState<Metric>('cost');
+  const { rows, budget, isLoadingUsage, refreshUsage, saveBudget } = useAIUsage(days);
+
+  const byFunction = useMemo(() => breakdownBy(rows, 'function_name'), [rows]);
+  const byModel = useMemo(() => breakdownBy(rows, 'model'), [rows]);
+
+  const totals = useMemo(() => ({
+    requests: rows.reduce((sum, row) => sum + row.requests, 0),
+    tokens: rows.reduce((sum, row) => sum + rowTokens(row), 0),
+    cost: rows.reduce((sum, row) => sum + row.cost, 0),
+  }), [rows]);
+
+  // Daily totals stacked by function; series keys are indexes because
+  // function names end up in CSS variable names
+  const { chartData, chartConfig, seriesKeys } = useMemo(() => {
+    const topFunctions = byFunction.slice(0, MAX_SERIES).map(entry => entry.name);
+    const hasOther = byFunction.length > MAX_SERIES;
+    const labels = hasOther ? [...topFunctions, 'Other'] : topFunctions;
+    const keys = labels.map((_, i) => `series${i}`);
+
+    const config: ChartConfig = Object.fromEntries(
+      labels.map((label, i) => [keys[i], { label, color: SERIES_COLORS[i] }])
+    );
+
+    const byDay = new Map<string, Record<string, number>>(
+      rangeDays(days).map(day => [day, Object.fromEntries(keys.map(key => [key, 0]))])
+    );
+    for (const row of rows) {
+      const values = byDay.get(row.day);
+      if (!values) continue;
+      const index = topFunctions.indexOf(row.function_name);
+      const key = keys[index === -1 ? keys.length - 1 : index];
+      values[key] += metric === 'cost' ? row.cost : rowTokens(row);
+    }
+
+    return {
+      chartData: [...byDay.entries()].map(([day, values]) => ({ day, ...values })),
+      chartConfig: config,
+      seriesKeys: keys,
+    };
+  }, [rows, byFunction, days, metric]);
+
+  const formatValue = metric === 'cost' ? formatCost : formatTokens;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-surface/30 to-background">
+      <div className="flex items-center justify-between p-4 bg-surface/60 backdrop-blur-sm border-b border-border/50 shadow-sm">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')} aria-label="Back to documents">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-heading-lg font-bold">AI Usage</h1>
+            <p className="text-sm text-muted-foreground">Requests, tokens and estimated cost</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={refreshUsage} disabled={isLoadingUsage} aria-label="Refresh usage">
+            <RefreshCw className={`h-4 w-4 ${isLoadingUsage ? 'animate-spin' : ''}`} />
+          </Button>
+          <UserMenu />
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-4 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          {[
+            { label: 'Requests', value: totals.requests.toLocaleString() },
+            { label: 'Tokens', value: formatTokens(totals.tokens) },
+            { label: 'Estimated cost', value: formatCost(totals.cost) },
+          ].map(stat => (
+            <Card key={stat.label}>
+              <CardHeader className="pb-2">
+                <CardDescription>{stat.label}</CardDescription>
+                <CardTitle className="text-2xl">{stat.value}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <div>
+              <CardTitle className="text-base">Daily usage by function</CardTitle>
+              <CardDescription>Days are in UTC</CardDescription>
+            </div>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={metric}
+              onValueChange={(value) => value && setMetric(value as Metric)}
+            >
+              <ToggleGroupItem value="cost">Cost</ToggleGroupItem>
+              <ToggleGroupItem value="tokens">Tokens</ToggleGroupItem>
+            </ToggleGroup>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-[280px] w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="day"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={(day: string) => day.slice(5)}
+                />
+                <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={(value: number) => formatValue(value)} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {seriesKeys.map(key => (
+                  <Bar key={key} dataKey={key} stackId="usage" fill={`var(--color-${key})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <BreakdownTable title="By function" rows={byFunction} />
+          <BreakdownTable title="By model" rows={byModel} />
+        </div>
+
+        <BudgetCard budget={budget} onSave={saveBudget} />
+      </div>
+    </div>
+  );
+};
+
+export default Usage;
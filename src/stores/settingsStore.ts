@@ -17,6 +17,8 @@ export interface Settings {
   // AI
   defaultAIModel: 'gpt-5-nano' | 'gpt-5-mini';
   voiceLanguage: string;
+  streamAIResponses: boolean;
+  reviewAIEdits: boolean;
 }
 
 const DEFAULT_SETTINGS: Settings = {
@@ -35,6 +37,8 @@ const DEFAULT_SETTINGS: Settings = {
   // AI
   defaultAIModel: 'gpt-5-nano', // Cheaper default
   voiceLanguage: 'en-US',
+  streamAIResponses: true,
+  reviewAIEdits: true,
 };
 
 interface SettingsStore {
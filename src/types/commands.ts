@@ -1,3 +1,5 @@
+import { Json } from '@/integrations/supabase/types';
+
 // Unified command interface for database-driven AI commands
 export interface UnifiedCommand {
   // Database fields (matches user_commands table)
@@ -21,6 +23,22 @@ export interface UnifiedCommand {
   // Optional UI fields (can be derived)
   description?: string;
   estimated_time?: string;
+
+  // Set for command chains (function_name CHAIN_FUNCTION_NAME): a ChainStep[]
+  // of the commands to run in order; read it with chainSteps()
+  steps?: Json | null;
+}
+
+// A chain isn't an edge function; the client runs each step's command in turn
+export const CHAIN_FUNCTION_NAME = 'command-chain';
+
+// What a chain step works on: the previous step's output, the text selected
+// when the chain started (the whole document if nothing was), or the whole document
+export type ChainStepInput = 'previous' | 'selection' | 'document';
+
+export interface ChainStep {
+  command_id: string;
+  input: ChainStepInput;
 }
 
 // Default commands that will be inserted into database on "Restore Defaults"
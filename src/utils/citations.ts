@@ -0,0 +1,78 @@
+import type { ChatSource } from '@/hooks/useChatConversations';
+
+// A character range in a document, as cited by a chat answer
+export interface CitedSpan {
+  start: number;
+  end: number;
+  // Passage text at indexing time, used to re-find the span after edits
+  text?: string;
+}
+
+export interface Citation {
+  number: number;
+  documentId: string;
+  title: string;
+  span: CitedSpan;
+}
+
+export type CitationSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; number: number };
+
+// Matches [1] as well as grouped markers like [1, 3]
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export function splitCitations(content: string): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(CITATION_MARKER)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ type: 'text', text: content.slice(lastIndex, index) });
+    match[1].split(',').forEach(value => segments.push({ type: 'citation', number: Number(value.trim()) }));
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < content.length) segments.push({ type: 'text', text: content.slice(lastIndex) });
+
+  return segments;
+}
+
+export function resolveCitations(sources: ChatSource[] = []): Map<number, Citation> {
+  const citations = new Map<number, Citation>();
+  for (const source of sources) {
+    for (const passage of source.passages || []) {
+      if (passage.citation === undefined) continue;
+      citations.set(passage.citation, {
+        number: passage.citation,
+        documentId: source.id,
+        title: source.title,
+        span: { start: passage.start_offset, end: passage.end_offset, text: passage.content }
+      });
+    }
+  }
+  return citations;
+}
+
+/**
+ * Finds a cited span in the document's current content. Offsets are trusted
+ * while the text still matches; otherwise the passage is searched for, so
+ * edits made since indexing don't highlight the wrong text.
+ */
+export function locateCitedSpan(content: string, span: CitedSpan): { start: number; end: number } | null {
+  if (!span.text || content.slice(span.start, span.end) === span.text) {
+    const start = Math.min(span.start, content.length);
+    return { start, end: Math.min(Math.max(span.end, start), content.length) };
+  }
+
+  const exact = content.indexOf(span.text);
+  if (exact !== -1) return { start: exact, end: exact + span.text.length };
+
+  // Fall back to the passage's opening words, highlighting its original length
+  const opening = span.text.slice(0, 80);
+  const partial = content.indexOf(opening);
+  if (partial !== -1) {
+    return { start: partial, end: Math.min(partial + span.text.length, content.length) };
+  }
+
+  return null;
+}
@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CHAIN_FUNCTION_NAME, ChainStep, ChainStepInput, UnifiedCommand } from '@/types/commands';
+import { templateQuestions } from '@/utils/promptTemplate';
+
+export const CHAIN_STEP_INPUTS: { value: ChainStepInput; label: string }[] = [
+  { value: 'previous', label: 'Previous output' },
+  { value: 'selection', label: 'Original selection' },
+  { value: 'document', label: 'Whole document' },
+];
+
+// Their results are reports rather than text to pass to the next step
+const REPORT_FUNCTIONS = ['ai-analyze', 'ai-fact-check'];
+
+// Its output becomes the document title instead of the text the next step sees
+export const TITLE_FUNCTION = 'ai-generate-title';
+
+export interface ChainStepResult {
+  command: UnifiedCommand;
+  input: ChainStepInput;
+  output: string;
+}
+
+export interface ChainRun {
+  steps: ChainStepResult[];
+  // The last text output, or the original text when every step made a title
+  text: string;
+  title?: string;
+}
+
+/** A chain's stored steps, dropping any entry that isn't a well-formed step. */
+export function chainSteps(command: Pick<UnifiedCommand, 'steps'>): ChainStep[] {
+  if (!Array.isArray(command.steps)) return [];
+
+  return command.steps.flatMap(value => {
+    const step = (value ?? {}) as Record<string, unknown>;
+    const input = CHAIN_STEP_INPUTS.find(option => option.value === step.input)?.value;
+    return typeof step.command_id === 'string' && input ? [{ command_id: step.command_id, input }] : [];
+  });
+}
+
+export function isChainCommand(command: Pick<UnifiedCommand, 'function_name'>): boolean {
+  return command.function_name === CHAIN_FUNCTION_NAME;
+}
+
+// Chains can't nest, which also rules out cycles
+export function canRunInChain(command: UnifiedCommand): boolean {
+  return !isChainCommand(command) && !REPORT_FUNCTIONS.includes(command.function_name);
+}
+
+/** Problems with a chain's steps against the user's commands, as messages. */
+export function validateChain(steps: ChainStep[] | null | undefined, commands: UnifiedCommand[]): string[] {
+  if (!steps || steps.length === 0) return ['Add at least one step'];
+
+  return steps.flatMap((step, index) => {
+    const command = commands.find(candidate => candidate.id === step.command_id);
+    if (!command) return [`Step ${index + 1}: choose a command`];
+    if (!canRunInChain(command)) return [`Step ${index + 1}: ${command.name} can't run in a chain`];
+    return [];
+  });
+}
+
+/**
+ * The commands a chain's steps run, loaded fresh so edits made since the
+ * toolbar loaded are used. Throws when a step can't run.
+ */
+export async function loadChainCommands(chain: UnifiedCommand): Promise<UnifiedCommand[]> {
+  const steps = chainSteps(chain);
+  const ids = [...new Set(steps.map(step => step.command_id))];
+
+  const { data, error } = await supabase
+    .from('user_commands')
+    .select('*')
+    .in('id', ids);
+  if (error) throw error;
+
+  const commands = (data || []) as UnifiedCommand[];
+  const problems = validateChain(steps, commands);
+  if (problems.length > 0) throw new Error(`${chain.name}: ${problems[0]}`);
+
+  return steps.map(step => commands.find(command => command.id === step.command_id)!);
+}
+
+export function chainQuestions(stepCommands: UnifiedCommand[]): string[] {
+  return templateQuestions(...stepCommands.flatMap(command => [command.prompt, command.system_prompt]));
+}
+
+/**
+ * Runs the steps in order, giving each the input its step asks for.
+ * `runStep` returns null when the user cancels, which stops the chain.
+ */
+export async function runCommandChain(
+  steps: ChainStep[],
+  stepCommands: UnifiedCommand[],
+  inputs: { selection: string; document: string },
+  runStep: (command: UnifiedCommand, text: string, index: number) => Promise<string | null>
+): Promise<ChainRun | null> {
+  const results: ChainStepResult[] = [];
+  let previous = inputs.selection;
+  let title: string | undefined;
+
+  for (const [index, step] of steps.entries()) {
+    const command = stepCommands[index];
+    const text = step.input === 'previous' ? previous : inputs[step.input];
+
+    const output = await runStep(command, text, index);
+    if (output === null) return null;
+
+    results.push({ command, input: step.input, output });
+    if (command.function_name === TITLE_FUNCTION) {
+      title = output.trim();
+    } else {
+      previous = output;
+    }
+  }
+
+  return { steps: results, text: previous, title };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CHAIN_FUNCTION_NAME, UnifiedCommand } from '@/types/commands';
+import {
+  buildCommandPack,
+  buildPackImport,
+  COMMAND_PACK_FORMAT,
+  CommandPack,
+  CommandPackError,
+  PackCommand,
+  parseCommandPack,
+  uniqueCommandName,
+} from '@/utils/commandPacks';
+
+// commandChains runs chains through the app's client, which these tests never reach
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+function existingCommand(id: string, name: string, sortOrder: number, fields: Partial<UnifiedCommand> = {}): UnifiedCommand {
+  return {
+    id,
+    user_id: 'user-1',
+    name,
+    prompt: `${name} prompt`,
+    system_prompt: 'You are an editor.',
+    ai_model: 'gpt-5-mini-2025-08-07',
+    max_tokens: 500,
+    sort_order: sortOrder,
+    function_name: 'ai-light-edit',
+    icon: 'Sparkles',
+    category: 'edit',
+    ...fields,
+  };
+}
+
+function packCommand(name: string, fields: Partial<PackCommand> = {}): PackCommand {
+  return {
+    name,
+    prompt: `${name} prompt`,
+    system_prompt: 'You are an editor.',
+    ai_model: 'gpt-5-mini-2025-08-07',
+    max_tokens: 500,
+    function_name: 'ai-light-edit',
+    icon: 'Sparkles',
+    category: 'edit',
+    ...fields,
+  };
+}
+
+function pack(commands: PackCommand[]): CommandPack {
+  return { format: COMMAND_PACK_FORMAT, version: 1, name: 'Pack', exported_at: '', commands };
+}
+
+describe('buildPackImport', () => {
+  const existing = [existingCommand('a', 'Polish', 3), existingCommand('b', 'Summarize', 7)];
+  const imported = pack([
+    packCommand('Translate'),
+    packCommand('polish', { prompt: 'New polish prompt' }),
+    packCommand('Tidy up', {
+      function_name: CHAIN_FUNCTION_NAME,
+      steps: [{ command: 'Polish', input: 'selection' }, { command: 'Summarize', input: 'previous' }],
+    }),
+  ]);
+
+  it('adds new commands after the user\'s own, in pack order', () => {
+    const { entries, result } = buildPackImport(imported, existing, 'skip');
+
+    expect(result).toEqual({ added: 2, overwritten: 0, renamed: 0, skipped: 1 });
+    expect(entries.filter(entry => entry.id === null).map(entry => [entry.command?.name, entry.command?.sort_order]))
+      .toEqual([['Translate', 8], ['Tidy up', 9]]);
+  });
+
+  it('keeps a skipped conflict as a reference to the existing command', () => {
+    const { entries } = buildPackImport(imported, existing, 'skip');
+    expect(entries).toContainEqual({ key: 'polish', id: 'a', command: null, steps: null });
+  });
+
+  it('overwrites a conflict in place, keeping the existing name', () => {
+    const { entries, result } = buildPackImport(imported, existing, 'overwrite');
+    const overwrite = entries.find(entry => entry.id === 'a');
+
+    expect(result.overwritten).toBe(1);
+    expect(overwrite?.command).toMatchObject({ name: 'Polish', prompt: 'New polish prompt' });
+    expect(overwrite?.command).not.toHaveProperty('sort_order');
+  });
+
+  it('adds a renamed copy of a conflict under a free name', () => {
+    const { entries, result } = buildPackImport(imported, existing, 'rename');
+    const renamed = entries.find(entry => entry.key === 'polish');
+
+    expect(result.renamed).toBe(1);
+    expect(renamed).toMatchObject({ id: null, command: { name: 'polish (2)', sort_order: 10 } });
+  });
+
+  it('passes chain steps by name, apart from the command fields', () => {
+    const { entries } = buildPackImport(imported, existing, 'skip');
+    const chain = entries.find(entry => entry.key === 'tidy up');
+
+    expect(chain?.steps).toEqual([{ command: 'Polish', input: 'selection' }, { command: 'Summarize', input: 'previous' }]);
+    expect(chain?.command).not.toHaveProperty('steps');
+  });
+
+  it('starts sort orders at 1 for a user with no commands', () => {
+    const { entries } = buildPackImport(pack([packCommand('First')]), [], 'skip');
+    expect(entries[0].command?.sort_order).toBe(1);
+  });
+});
+
+describe('parseCommandPack', () => {
+  it('reads back a built pack', () => {
+    const built = buildCommandPack([existingCommand('a', 'Polish', 1)], ' My pack ');
+    const parsed = parseCommandPack(JSON.parse(JSON.stringify(built)));
+
+    expect(parsed.name).toBe('My pack');
+    expect(parsed.commands).toEqual([expect.objectContaining({ name: 'Polish', prompt: 'Polish prompt' })]);
+  });
+
+  it('refuses files that are not packs or come from a newer version', () => {
+    expect(() => parseCommandPack({ format: 'something-else' })).toThrow(CommandPackError);
+    expect(() => parseCommandPack({ format: COMMAND_PACK_FORMAT, version: 99, commands: [] })).toThrow(/update the app/);
+  });
+
+  it('names the command that is missing a field', () => {
+    const file = { format: COMMAND_PACK_FORMAT, version: 1, commands: [{ name: 'Broken', prompt: 'p', ai_model: 'm' }] };
+    expect(() => parseCommandPack(file)).toThrow('Command "Broken" is missing system_prompt.');
+  });
+});
+
+describe('uniqueCommandName', () => {
+  it('numbers the name past the ones taken, ignoring case', () => {
+    expect(uniqueCommandName('Polish', ['Polish', 'polish (2)'])).toBe('Polish (3)');
+    expect(uniqueCommandName('Polish (2)', ['Polish (2)'])).toBe('Polish (3)');
+  });
+});
@@ -0,0 +1,289 @@
+import { ChainStepInput, UnifiedCommand } from '@/types/commands';
+import { CHAIN_STEP_INPUTS, chainSteps, isChainCommand } from '@/utils/commandChains';
+import { validateTemplate } from '@/utils/promptTemplate';
+
+// Identifies a command pack file; version goes up when the format changes
+export const COMMAND_PACK_FORMAT = 'write-wellspring.command-pack';
+export const COMMAND_PACK_VERSION = 1;
+
+// The command fields a pack carries; ids, owners and usage stats stay behind
+export const PACK_COMMAND_FIELDS = [
+  'name',
+  'prompt',
+  'system_prompt',
+  'ai_model',
+  'max_tokens',
+  'temperature',
+  'function_name',
+  'icon',
+  'category',
+  'description',
+] as const;
+
+// A chain step names its command, since ids don't carry over to another account
+export interface PackChainStep {
+  command: string;
+  input: ChainStepInput;
+}
+
+export type PackCommand = Pick<UnifiedCommand, typeof PACK_COMMAND_FIELDS[number]> & {
+  steps?: PackChainStep[];
+};
+
+export interface CommandPack {
+  format: typeof COMMAND_PACK_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  exported_at: string;
+  commands: PackCommand[];
+}
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+export interface PackImportPlan {
+  // Commands with no existing command of the same name
+  additions: PackCommand[];
+  // Pack commands whose name is already taken, with the command they collide with
+  conflicts: { command: PackCommand; existing: UnifiedCommand }[];
+}
+
+/**
+ * One command of an import, as import_command_pack applies it. `key` is the
+ * pack's name for it (lowercased), which chain steps refer to. With an `id`
+ * the entry overwrites that command, or only stands for it when there is no
+ * `command` (a skipped conflict); without one the command is added.
+ */
+export interface PackImportEntry {
+  key: string;
+  id: string | null;
+  command: (Omit<PackCommand, 'steps'> & { sort_order?: number }) | null;
+  steps: PackChainStep[] | null;
+}
+
+export interface PackImportResult {
+  added: number;
+  overwritten: number;
+  renamed: number;
+  skipped: number;
+}
+
+/** A pack file that can't be imported; the message is shown to the user. */
+export class CommandPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandPackError';
+  }
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** The selected commands plus any that their chains run, so the pack is complete. */
+export function withChainStepCommands(selected: UnifiedCommand[], all: UnifiedCommand[]): UnifiedCommand[] {
+  const stepIds = new Set(selected.filter(isChainCommand).flatMap(chain => chainSteps(chain).map(step => step.command_id)));
+  const missing = all.filter(command => stepIds.has(command.id) && !selected.includes(command));
+  return [...selected, ...missing];
+}
+
+/** `commands` resolves chain steps to names; steps whose command is missing are left out. */
+export function toPackCommand(command: UnifiedCommand, commands: UnifiedCommand[] = []): PackCommand {
+  const packCommand: PackCommand = {
+    name: command.name,
+    prompt: command.prompt,
+    system_prompt: command.system_prompt,
+    ai_model: command.ai_model,
+    max_tokens: command.max_tokens,
+    temperature: command.temperature,
+    function_name: command.function_name,
+    icon: command.icon,
+    category: command.category,
+    description: command.description || undefined,
+  };
+
+  if (isChainCommand(command)) {
+    packCommand.steps = chainSteps(command).flatMap(step => {
+      const stepCommand = commands.find(candidate => candidate.id === step.command_id);
+      return stepCommand ? [{ command: stepCommand.name, input: step.input }] : [];
+    });
+  }
+  return packCommand;
+}
+
+export function buildCommandPack(commands: UnifiedCommand[], name: string, description?: string): CommandPack {
+  return {
+    format: COMMAND_PACK_FORMAT,
+    version: COMMAND_PACK_VERSION,
+    name: name.trim(),
+    description: description?.trim() || undefined,
+    exported_at: new Date().toISOString(),
+    commands: commands.map(command => toPackCommand(command, commands)),
+  };
+}
+
+function readPackCommand(value: unknown, index: number): PackCommand {
+  const command = (value ?? {}) as Record<string, unknown>;
+  const label = typeof command.name === 'string' && command.name.trim() ? `"${command.name}"` : `#${index + 1}`;
+  const text = (field: string, required: boolean) => {
+    const fieldValue = command[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (required) throw new CommandPackError(`Command ${label} is missing ${field}.`);
+      return undefined;
+    }
+    if (typeof fieldValue !== 'string') throw new CommandPackError(`Command ${label} has an invalid ${field}.`);
+    return fieldValue;
+  };
+  const number = (field: string) => {
+    const fieldValue = command[field];
+    if (fieldValue === undefined || fieldValue === null) return undefined;
+    if (typeof fieldValue !== 'number' || !Number.isFinite(fieldValue)) {
+      throw new CommandPackError(`Command ${label} has an invalid ${field}.`);
+    }
+    return fieldValue;
+  };
+
+  const packCommand: PackCommand = {
+    name: text('name', true)!.trim(),
+    prompt: text('prompt', true)!,
+    system_prompt: text('system_prompt', true)!,
+    ai_model: text('ai_model', true)!,
+    max_tokens: number('max_tokens') ?? 1000,
+    temperature: number('temperature'),
+    function_name: text('function_name', false) || 'ai-light-edit',
+    icon: text('icon', false) || 'Sparkles',
+    category: text('category', false) || 'edit',
+    description: text('description', false),
+  };
+
+  if (isChainCommand(packCommand)) {
+    const steps = command.steps;
+    if (!Array.isArray(steps)) throw new CommandPackError(`Command ${label} is a chain with no steps.`);
+    packCommand.steps = steps.map((value, stepIndex) => {
+      const step = (value ?? {}) as Record<string, unknown>;
+      const input = CHAIN_STEP_INPUTS.find(option => option.value === step.input)?.value;
+      if (typeof step.command !== 'string' || !step.command.trim() || !input) {
+        throw new CommandPackError(`Command ${label} has an invalid step ${stepIndex + 1}.`);
+      }
+      return { command: step.command, input };
+    });
+  }
+
+  const templateErrors = [...validateTemplate(packCommand.prompt), ...validateTemplate(packCommand.system_prompt)];
+  if (templateErrors.length > 0) {
+    throw new CommandPackError(`Command ${label} has an invalid prompt template: ${templateErrors[0]}`);
+  }
+  return packCommand;
+}
+
+/**
+ * Checks an exported pack (already JSON-parsed) and returns its commands in a
+ * shape ready to insert. Packs from newer versions of the app are refused
+ * rather than half-imported.
+ */
+export function parseCommandPack(value: unknown): CommandPack {
+  const pack = (value ?? {}) as Record<string, unknown>;
+  if (pack.format !== COMMAND_PACK_FORMAT) {
+    throw new CommandPackError('This file is not a command pack.');
+  }
+  if (typeof pack.version !== 'number' || !Number.isInteger(pack.version) || pack.version < 1) {
+    throw new CommandPackError('The command pack has no valid version.');
+  }
+  if (pack.version > COMMAND_PACK_VERSION) {
+    throw new CommandPackError(`This pack uses format version ${pack.version}; update the app to import it.`);
+  }
+  if (!Array.isArray(pack.commands) || pack.commands.length === 0) {
+    throw new CommandPackError('The command pack has no commands.');
+  }
+
+  return {
+    format: COMMAND_PACK_FORMAT,
+    version: pack.version,
+    name: typeof pack.name === 'string' && pack.name.trim() ? pack.name.trim() : 'Untitled pack',
+    description: typeof pack.description === 'string' ? pack.description : undefined,
+    exported_at: typeof pack.exported_at === 'string' ? pack.exported_at : '',
+    commands: pack.commands.map(readPackCommand),
+  };
+}
+
+/** Splits a pack into new commands and ones whose name is already taken (ignoring case). */
+export function planPackImport(pack: CommandPack, existing: UnifiedCommand[]): PackImportPlan {
+  const plan: PackImportPlan = { additions: [], conflicts: [] };
+  for (const command of pack.commands) {
+    const match = existing.find(current => sameName(current.name, command.name));
+    if (match) {
+      plan.conflicts.push({ command, existing: match });
+    } else {
+      plan.additions.push(command);
+    }
+  }
+  return plan;
+}
+
+const packKey = (command: PackCommand) => command.name.trim().toLowerCase();
+
+/**
+ * What importing `pack` next to the user's `existing` commands writes, and
+ * the counts to report. Added commands go after the user's own, in pack
+ * order with renamed conflicts last.
+ */
+export function buildPackImport(
+  pack: CommandPack,
+  existing: UnifiedCommand[],
+  resolution: ConflictResolution
+): { entries: PackImportEntry[]; result: PackImportResult } {
+  const plan = planPackImport(pack, existing);
+  const result: PackImportResult = { added: plan.additions.length, overwritten: 0, renamed: 0, skipped: 0 };
+  const entries: PackImportEntry[] = [];
+  const takenNames = [...existing.map(command => command.name), ...plan.additions.map(command => command.name)];
+  let sortOrder = Math.max(0, ...existing.map(command => command.sort_order ?? 0));
+
+  const add = ({ steps, ...command }: PackCommand, name = command.name) => {
+    entries.push({ key: packKey(command), id: null, command: { ...command, name, sort_order: ++sortOrder }, steps: steps ?? null });
+  };
+
+  plan.additions.forEach(command => add(command));
+  for (const { command, existing: current } of plan.conflicts) {
+    if (resolution === 'skip') {
+      entries.push({ key: packKey(command), id: current.id, command: null, steps: null });
+      result.skipped++;
+    } else if (resolution === 'overwrite') {
+      const { steps, ...fields } = command;
+      entries.push({ key: packKey(command), id: current.id, command: { ...fields, name: current.name }, steps: steps ?? null });
+      result.overwritten++;
+    } else {
+      const name = uniqueCommandName(command.name, takenNames);
+      takenNames.push(name);
+      add(command, name);
+      result.renamed++;
+    }
+  }
+
+  return { entries, result };
+}
+
+/** "Name (2)", "Name (3)"... - the first that none of `takenNames` uses. */
+export function uniqueCommandName(name: string, takenNames: string[]): string {
+  const base = name.replace(/\s\(\d+\)$/, '');
+  let suffix = 2;
+  let candidate = `${base} (${suffix})`;
+  while (takenNames.some(taken => sameName(taken, candidate))) {
+    suffix++;
+    candidate = `${base} (${suffix})`;
+  }
+  return candidate;
+}
+
+export function commandPackFileName(pack: CommandPack): string {
+  const slug = pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'commands'}.commands.json`;
+}
+
+// e.g. "3 added, 1 renamed, 2 skipped"
+export function describeImportResult(result: PackImportResult): string {
+  const parts = [
+    result.added && `${result.added} added`,
+    result.overwritten && `${result.overwritten} overwritten`,
+    result.renamed && `${result.renamed} renamed`,
+    result.skipped && `${result.skipped} skipped`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'Nothing to import';
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { relocateAnchor, remapAnchors } from '@/utils/commentAnchors';
+
+describe('remapAnchors', () => {
+  const text = 'Alpha beta gamma delta.';
+  // "gamma"
+  const anchor = { id: 'c1', start: 11, end: 16 };
+
+  it('returns the anchors as they are when the text is unchanged', () => {
+    const anchors = [anchor];
+    expect(remapAnchors(anchors, text, text)).toBe(anchors);
+  });
+
+  it('shifts anchors after an insertion', () => {
+    const [moved] = remapAnchors([anchor], text, 'Alpha new beta gamma delta.');
+    expect(moved).toEqual({ id: 'c1', start: 15, end: 20 });
+  });
+
+  it('shifts anchors back after a deletion', () => {
+    const [moved] = remapAnchors([anchor], text, 'Alpha gamma delta.');
+    expect(moved).toEqual({ id: 'c1', start: 6, end: 11 });
+  });
+
+  it('leaves anchors before the change where they are', () => {
+    const [kept] = remapAnchors([anchor], text, 'Alpha beta gamma epsilon.');
+    expect(kept).toEqual(anchor);
+  });
+
+  it('keeps text inserted at an edge outside the anchor', () => {
+    const newText = 'Alpha beta gamma!!! delta.';
+    const [moved] = remapAnchors([anchor], text, newText);
+    expect(newText.slice(moved.start, moved.end)).toBe('gamma');
+  });
+
+  it('widens to take in a replacement inside the anchor', () => {
+    const newText = 'Alpha beta gamut delta.';
+    const [moved] = remapAnchors([anchor], text, newText);
+    expect(newText.slice(moved.start, moved.end)).toBe('gamut');
+  });
+
+  it('collapses when the anchored text is deleted', () => {
+    const [moved] = remapAnchors([anchor], text, 'Alpha beta delta.');
+    expect(moved.start).toBe(moved.end);
+  });
+});
+
+describe('relocateAnchor', () => {
+  it('keeps an anchor whose text is still there', () => {
+    expect(relocateAnchor({ start: 6, end: 10 }, 'beta', 'Alpha beta gamma.')).toEqual({ start: 6, end: 10 });
+  });
+
+  it('finds the nearest copy of text that moved', () => {
+    expect(relocateAnchor({ start: 6, end: 10 }, 'beta', 'Intro. Alpha beta gamma.')).toEqual({ start: 13, end: 17 });
+  });
+
+  it('clamps the anchor to the text when its text is gone', () => {
+    expect(relocateAnchor({ start: 6, end: 30 }, 'missing', 'Alpha beta.')).toEqual({ start: 6, end: 11 });
+  });
+});
@@ -0,0 +1,72 @@
+import { DiffHunk, diffWords } from '@/utils/wordDiff';
+
+/** A [start, end) character range into a document's text. */
+export interface TextAnchor {
+  start: number;
+  end: number;
+}
+
+// How far to look for a passage that moved without its anchor being updated
+const RELOCATE_WINDOW = 2000;
+
+/**
+ * Where `offset` in the old text ends up in the new one. Text inserted right
+ * at an anchor's edge stays outside it, and an anchor edge inside a changed
+ * passage widens to take in the whole replacement.
+ */
+function mapOffset(offset: number, hunks: DiffHunk[], edge: 'start' | 'end'): number {
+  let delta = 0;
+  for (const hunk of hunks) {
+    if (hunk.start >= offset && !(edge === 'start' && hunk.start === offset && hunk.end === offset)) break;
+
+    if (hunk.end <= offset && !(edge === 'end' && hunk.start === offset)) {
+      delta += hunk.inserted.length - hunk.removed.length;
+      continue;
+    }
+
+    // The offset is inside the changed passage
+    return edge === 'start'
+      ? hunk.start + delta
+      : hunk.start + delta + hunk.inserted.length;
+  }
+  return offset + delta;
+}
+
+/** The anchor moved through the change from `hunks`; collapses when its text is deleted. */
+export function remapAnchor<T extends TextAnchor>(anchor: T, hunks: DiffHunk[]): T {
+  const start = mapOffset(anchor.start, hunks, 'start');
+  const end = mapOffset(anchor.end, hunks, 'end');
+  return { ...anchor, start, end: Math.max(start, end) };
+}
+
+/** Anchors into `oldText` moved to the same passages in `newText`. */
+export function remapAnchors<T extends TextAnchor>(anchors: T[], oldText: string, newText: string): T[] {
+  if (anchors.length === 0 || oldText === newText) return anchors;
+
+  const hunks = diffWords(oldText, newText);
+  return anchors.map(anchor => remapAnchor(anchor, hunks));
+}
+
+/**
+ * The anchor when `text` still holds `anchorText` there; otherwise the
+ * nearest place it does, for text saved without moving the anchors. Falls
+ * back to the anchor clamped to the text.
+ */
+export function relocateAnchor(anchor: TextAnchor, anchorText: string | null, text: string): TextAnchor {
+  const clamped = {
+    start: Math.min(anchor.start, text.length),
+    end: Math.min(Math.max(anchor.start, anchor.end), text.length),
+  };
+  if (!anchorText || text.slice(anchor.start, anchor.end) === anchorText) return clamped;
+
+  const from = Math.max(0, anchor.start - RELOCATE_WINDOW);
+  const after = text.indexOf(anchorText, anchor.start);
+  const before = text.lastIndexOf(anchorText, anchor.start);
+  const candidates = [after, before].filter(index => index >= from && index <= anchor.start + RELOCATE_WINDOW);
+  if (candidates.length === 0) return clamped;
+
+  const start = candidates.reduce((best, index) =>
+    Math.abs(index - anchor.start) < Math.abs(best - anchor.start) ? index : best
+  );
+  return { start, end: start + anchorText.length };
+}
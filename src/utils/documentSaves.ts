@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DocumentText {
+  title: string;
+  content: string;
+}
+
+/** A document's title and content as saved, with the version they were saved at. */
+export interface ServerCopy extends DocumentText {
+  updated_at: string | null;
+  version: number;
+}
+
+/** Your edits and a newer server copy, both made from `base`. */
+export interface MergeConflict {
+  base: DocumentText;
+  mine: DocumentText;
+  server: ServerCopy;
+}
+
+/** A save was refused because someone else saved first; `server` is their copy. */
+export class DocumentConflictError extends Error {
+  readonly server: ServerCopy;
+
+  constructor(server: ServerCopy) {
+    super('This document was changed somewhere else since you loaded it');
+    this.name = 'DocumentConflictError';
+    this.server = server;
+  }
+}
+
+export const SERVER_COPY_COLUMNS = 'title, content, updated_at, version';
+
+export function toServerCopy(row: { title: string; content: string | null; updated_at: string | null; version: number }): ServerCopy {
+  return { title: row.title, content: row.content ?? '', updated_at: row.updated_at, version: row.version };
+}
+
+export async function fetchServerCopy(docId: string): Promise<ServerCopy> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select(SERVER_COPY_COLUMNS)
+    .eq('id', docId)
+    .single();
+
+  if (error) throw error;
+  return toServerCopy(data);
+}
+
+/**
+ * Saves a document's title and content if it is still at `expectedVersion`,
+ * returning the new server copy. Throws DocumentConflictError otherwise.
+ */
+export async function saveDocumentText(
+  docId: string,
+  expectedVersion: number,
+  text: DocumentText & { wordCount: number }
+): Promise<ServerCopy> {
+  const { data, error } = await supabase
+    .from('documents')
+    .update({
+      title: text.title,
+      content: text.content,
+      word_count: text.wordCount,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', docId)
+    .eq('version', expectedVersion)
+    .select(SERVER_COPY_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return toServerCopy(data);
+
+  // Nothing matched: either the version moved on or the row can't be written
+  const server = await fetchServerCopy(docId);
+  if (server.version === expectedVersion) throw new Error("You don't have permission to edit this document");
+  throw new DocumentConflictError(server);
+}
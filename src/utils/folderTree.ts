@@ -0,0 +1,88 @@
+export interface FolderRecord {
+  id: string;
+  name: string;
+  color: string | null;
+  parent_id: string | null;
+  display_order: number | null;
+}
+
+export interface FolderNode extends FolderRecord {
+  children: FolderNode[];
+  depth: number;
+  // Documents directly in this folder
+  documentCount: number;
+  // Documents in this folder and all of its subfolders
+  totalCount: number;
+}
+
+export const compareFolderOrder = (a: FolderRecord, b: FolderRecord) =>
+  (a.display_order ?? 0) - (b.display_order ?? 0) || a.name.localeCompare(b.name);
+
+/**
+ * Builds the folder hierarchy with recursive document counts. Folders whose
+ * parent is missing are shown at the root rather than dropped.
+ */
+export function buildFolderTree(folders: FolderRecord[], counts: Map<string, number> = new Map()): FolderNode[] {
+  const ids = new Set(folders.map(folder => folder.id));
+  const childrenOf = new Map<string | null, FolderRecord[]>();
+
+  for (const folder of folders) {
+    const parentId = folder.parent_id && ids.has(folder.parent_id) ? folder.parent_id : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), folder]);
+  }
+
+  // Tracks the current path so corrupt data with a cycle cannot recurse forever
+  const visiting = new Set<string>();
+
+  const build = (parentId: string | null, depth: number): FolderNode[] =>
+    (childrenOf.get(parentId) || [])
+      .filter(folder => !visiting.has(folder.id))
+      .sort(compareFolderOrder)
+      .map(folder => {
+        visiting.add(folder.id);
+        const children = build(folder.id, depth + 1);
+        visiting.delete(folder.id);
+
+        const documentCount = counts.get(folder.id) ?? 0;
+        return {
+          ...folder,
+          children,
+          depth,
+          documentCount,
+          totalCount: documentCount + children.reduce((sum, child) => sum + child.totalCount, 0)
+        };
+      });
+
+  return build(null, 0);
+}
+
+// Depth-first list of every node, in display order
+export function flattenFolderTree(nodes: FolderNode[]): FolderNode[] {
+  return nodes.flatMap(node => [node, ...flattenFolderTree(node.children)]);
+}
+
+// Folders from the root down to (and including) the given folder
+export function getFolderPath(folders: FolderRecord[], folderId: string | null | undefined): FolderRecord[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: FolderRecord[] = [];
+  let current = folderId ? byId.get(folderId) : undefined;
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * True when `folderId` is `ancestorId` or nested anywhere below it, i.e. when
+ * moving `ancestorId` into `folderId` would create a cycle.
+ */
+export function isFolderWithin(folders: FolderRecord[], folderId: string, ancestorId: string): boolean {
+  return getFolderPath(folders, folderId).some(folder => folder.id === ancestorId);
+}
+
+// dataTransfer types for dragging folders and documents onto tree nodes
+export const FOLDER_DRAG_TYPE = 'application/x-wellspring-folder';
+export const DOCUMENTS_DRAG_TYPE = 'application/x-wellspring-documents';
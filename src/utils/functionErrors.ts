@@ -0,0 +1,52 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Used when a 429 response doesn't say how long to wait
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+/** An edge function refused the request until `retryAfter` seconds have passed. */
+export class RateLimitError extends Error {
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+interface FunctionErrorBody {
+  error?: string;
+  retryAfter?: number;
+}
+
+/**
+ * The error for a failed edge function response, from its
+ * `{ error, code, retryAfter }` body and Retry-After header.
+ */
+export function functionResponseError(
+  status: number,
+  headers: Headers,
+  body: FunctionErrorBody | null,
+  fallbackMessage: string
+): Error {
+  const message = body?.error || fallbackMessage;
+  if (status !== 429) return new Error(message);
+
+  const retryAfter = Number(headers.get('Retry-After') ?? body?.retryAfter);
+  return new RateLimitError(
+    message,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? Math.ceil(retryAfter) : DEFAULT_RETRY_AFTER_SECONDS
+  );
+}
+
+/**
+ * supabase.functions.invoke reports every non-2xx response with the same
+ * generic message; this reads the response instead.
+ */
+export async function toFunctionError(error: unknown): Promise<unknown> {
+  if (!(error instanceof FunctionsHttpError)) return error;
+
+  const response = error.context as Response;
+  const body = await response.json().catch(() => null);
+  return functionResponseError(response.status, response.headers, body, error.message);
+}
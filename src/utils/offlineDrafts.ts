@@ -0,0 +1,95 @@
+import type { MergeConflict, ServerCopy } from '@/utils/documentSaves';
+
+// Documents as last edited on this device, kept in IndexedDB so edits made
+// offline survive reloads until they reach the server.
+
+export interface OfflineDraft {
+  documentId: string;
+  // Who edited it on this device
+  userId: string;
+  title: string;
+  content: string;
+  wordCount: number;
+  // Enough of the document to open it without a connection
+  ownerId: string;
+  category: string;
+  status: string;
+  createdAt: string;
+  // The server copy the edits started from
+  base: ServerCopy;
+  // When title or content last changed on this device
+  editedAt: string;
+  // Edited since base and not yet written to the server
+  pending: boolean;
+}
+
+/** Local edits that can't be saved because someone else saved first. */
+export interface DraftConflict extends MergeConflict {
+  documentId: string;
+}
+
+const DB_NAME = 'write-wellspring';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(DRAFTS_STORE, { keyPath: 'documentId' });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after private browsing blocked it
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(DRAFTS_STORE, mode);
+    const request = run(transaction.objectStore(DRAFTS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getStoredDraft(documentId: string): Promise<OfflineDraft | null> {
+  const draft = await withStore<OfflineDraft | undefined>('readonly', store => store.get(documentId));
+  return draft ?? null;
+}
+
+export async function listStoredDrafts(userId: string): Promise<OfflineDraft[]> {
+  return withStore<OfflineDraft[]>('readonly', store => store.index('userId').getAll(userId));
+}
+
+export async function putStoredDraft(draft: OfflineDraft): Promise<void> {
+  await withStore('readwrite', store => store.put(draft));
+}
+
+export async function deleteStoredDraft(documentId: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(documentId));
+}
+
+/** True when a request failed because the server couldn't be reached. */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+
+  const message = (error as { message?: string } | null)?.message ?? '';
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
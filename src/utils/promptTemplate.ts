@@ -0,0 +1,97 @@
+import { UnifiedCommand } from '@/types/commands';
+
+// Prompt templates for commands. `{{name}}` inserts a value from the editor
+// and `{{ask:Label}}` asks the user for a value before the command runs.
+// Edge functions render the templates (supabase/functions/_shared/template.ts).
+
+export const TEMPLATE_VARIABLES = [
+  { name: 'selection', description: 'The selected text, or the whole document when nothing is selected' },
+  { name: 'document', description: 'The whole document' },
+  { name: 'title', description: 'The document title' },
+  { name: 'category', description: 'The document category' },
+  { name: 'before_cursor', description: 'Everything before the cursor or selection' },
+  { name: 'after_cursor', description: 'Everything after the cursor or selection' },
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number]['name'];
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const ASK_PREFIX = /^ask\s*:\s*/i;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return TEMPLATE_VARIABLES.some(variable => variable.name === name);
+}
+
+function askLabel(name: string): string | null {
+  return ASK_PREFIX.test(name) ? name.replace(ASK_PREFIX, '').trim() : null;
+}
+
+function placeholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER)].map(([, name]) => name);
+}
+
+/** Problems that would stop a template rendering as intended, as messages. */
+export function validateTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  for (const name of placeholders(template)) {
+    const label = askLabel(name);
+    if (label === '') {
+      errors.push('{{ask:...}} needs a question, e.g. {{ask:Target audience}}');
+    } else if (label === null && !isTemplateVariable(name)) {
+      errors.push(`Unknown variable {{${name}}}`);
+    }
+  }
+
+  // Braces left over once every placeholder is removed were never closed or opened
+  const remainder = template.replace(PLACEHOLDER, '');
+  if (remainder.includes('{{') || remainder.includes('}}')) {
+    errors.push('Every {{ needs a matching }}');
+  }
+
+  return [...new Set(errors)];
+}
+
+/** Questions the templates ask, in order of first use. */
+export function templateQuestions(...templates: string[]): string[] {
+  const labels = templates
+    .flatMap(placeholders)
+    .map(askLabel)
+    .filter((label): label is string => !!label);
+  return [...new Set(labels)];
+}
+
+export function templateVariablesUsed(...templates: string[]): Set<TemplateVariable> {
+  return new Set(templates.flatMap(placeholders).filter(isTemplateVariable));
+}
+
+/** Fills in a template; a question without an answer renders as its label in brackets. */
+export function renderTemplate(template: string, values: TemplateValues, answers: Record<string, string> = {}): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const label = askLabel(name);
+    if (label !== null) return answers[label] ?? `[${label}]`;
+    return isTemplateVariable(name) ? values[name] ?? '' : placeholder;
+  });
+}
+
+/**
+ * The template fields for a command request: only the values the command's
+ * prompts use, so plain commands send nothing extra. The edge function takes
+ * the selection from the request's usual text fields.
+ */
+export function templatePayload(
+  command: Pick<UnifiedCommand, 'prompt' | 'system_prompt'>,
+  values: TemplateValues,
+  answers: Record<string, string> = {}
+) {
+  const used = templateVariablesUsed(command.prompt, command.system_prompt);
+  used.delete('selection');
+  if (used.size === 0 && Object.keys(answers).length === 0) return {};
+
+  const templateValues: TemplateValues = {};
+  used.forEach(variable => {
+    if (values[variable] !== undefined) templateValues[variable] = values[variable];
+  });
+  return { templateValues, templateAnswers: answers };
+}
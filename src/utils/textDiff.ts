@@ -0,0 +1,156 @@
+export type DiffType = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+// Beyond this many edits the diff is reported as a full replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Myers O(ND) diff over token arrays. Common prefix/suffix are trimmed first
+ * so typical edits (a few changed paragraphs) stay cheap.
+ */
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start);
+  const suffix = a.slice(endA);
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  const parts: DiffPart[] = [];
+  if (prefix.length) parts.push({ type: 'equal', value: prefix.join('') });
+  parts.push(...myers(midA, midB));
+  if (suffix.length) parts.push({ type: 'equal', value: suffix.join('') });
+
+  return mergeParts(parts);
+}
+
+function myers(a: string[], b: string[]): DiffPart[] {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0 && m === 0) return [];
+  if (n === 0) return [{ type: 'insert', value: b.join('') }];
+  if (m === 0) return [{ type: 'delete', value: a.join('') }];
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // trace[d] holds the furthest-reaching x for diagonals -d..d before round d
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  // Too many edits to be useful as a granular diff
+  return [
+    { type: 'delete', value: a.join('') },
+    { type: 'insert', value: b.join('') },
+  ];
+}
+
+function backtrack(a: string[], b: string[], trace: number[][]): DiffPart[] {
+  const reversed: DiffPart[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: 'insert', value: b[y - 1] });
+      } else {
+        reversed.push({ type: 'delete', value: a[x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return reversed.reverse();
+}
+
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+  for (const part of parts) {
+    if (!part.value) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) {
+      last.value += part.value;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  return merged;
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+/g) || [];
+}
+
+export function diffLines(oldText: string, newText: string): DiffPart[] {
+  return diffTokens(tokenizeLines(oldText), tokenizeLines(newText));
+}
+
+/**
+ * Cheap estimate of how many characters differ between two strings,
+ * measured as the span left after trimming the common prefix and suffix.
+ */
+export function changedCharCount(oldText: string, newText: string): number {
+  let start = 0;
+  const minLength = Math.min(oldText.length, newText.length);
+  while (start < minLength && oldText[start] === newText[start]) start++;
+
+  let end = 0;
+  while (
+    end < minLength - start &&
+    oldText[oldText.length - 1 - end] === newText[newText.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return Math.max(oldText.length, newText.length) - start - end;
+}
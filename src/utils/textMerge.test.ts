@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { CONFLICT_END, CONFLICT_SEPARATOR, CONFLICT_START, mergeText, mergeTitle } from '@/utils/textMerge';
+
+describe('mergeText', () => {
+  const base = 'The quick brown fox jumps over the lazy dog.';
+
+  it('takes whichever side changed when only one did', () => {
+    const edited = 'The quick red fox jumps over the lazy dog.';
+    expect(mergeText(base, edited, base)).toEqual({ text: edited, conflicts: 0 });
+    expect(mergeText(base, base, edited)).toEqual({ text: edited, conflicts: 0 });
+  });
+
+  it('keeps identical edits once', () => {
+    const edited = 'The quick red fox jumps over the lazy dog.';
+    expect(mergeText(base, edited, edited)).toEqual({ text: edited, conflicts: 0 });
+  });
+
+  it('keeps changes to separate passages from both sides', () => {
+    const mine = 'The quick red fox jumps over the lazy dog.';
+    const theirs = 'The quick brown fox jumps over the sleepy dog.';
+    expect(mergeText(base, mine, theirs)).toEqual({
+      text: 'The quick red fox jumps over the sleepy dog.',
+      conflicts: 0,
+    });
+  });
+
+  it('keeps an insertion and a deletion elsewhere', () => {
+    const mine = 'The very quick brown fox jumps over the lazy dog.';
+    const theirs = 'The quick brown fox jumps over the dog.';
+    expect(mergeText(base, mine, theirs)).toEqual({
+      text: 'The very quick brown fox jumps over the dog.',
+      conflicts: 0,
+    });
+  });
+
+  it('leaves both versions of a passage changed differently between markers', () => {
+    const mine = 'The quick red fox jumps over the lazy dog.';
+    const theirs = 'The quick grey fox jumps over the lazy dog.';
+    const { text, conflicts } = mergeText(base, mine, theirs);
+
+    expect(conflicts).toBe(1);
+    expect(text).toBe(`The quick \n${CONFLICT_START}\nred\n${CONFLICT_SEPARATOR}\ngrey\n${CONFLICT_END}\n fox jumps over the lazy dog.`);
+  });
+
+  it('counts each conflicting passage', () => {
+    const mine = 'The quick red fox jumps over the lazy cat.';
+    const theirs = 'The quick grey fox jumps over the lazy cow.';
+    expect(mergeText(base, mine, theirs).conflicts).toBe(2);
+  });
+});
+
+describe('mergeTitle', () => {
+  it('takes their title when yours is unchanged', () => {
+    expect(mergeTitle('Draft', 'Draft', 'Final')).toBe('Final');
+  });
+
+  it('prefers your title when both renamed it', () => {
+    expect(mergeTitle('Draft', 'Mine', 'Theirs')).toBe('Mine');
+  });
+});
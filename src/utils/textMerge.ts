@@ -0,0 +1,73 @@
+import { applyHunks, DiffHunk, diffWords } from '@/utils/wordDiff';
+
+export const CONFLICT_START = '<<<<<<< Your edits';
+export const CONFLICT_SEPARATOR = '=======';
+export const CONFLICT_END = '>>>>>>> Saved version';
+
+export interface TextMerge {
+  text: string;
+  // Passages both sides changed differently, left between conflict markers
+  conflicts: number;
+}
+
+interface SidedHunk extends DiffHunk {
+  side: 'mine' | 'theirs';
+}
+
+// The base text from `start` to `end` with `hunks` applied
+function applyWithin(base: string, hunks: DiffHunk[], start: number, end: number): string {
+  const shifted = hunks.map(hunk => ({ ...hunk, start: hunk.start - start, end: hunk.end - start }));
+  return applyHunks(base.slice(start, end), shifted);
+}
+
+/**
+ * Combines two edits of `base` word by word. Changes to separate passages are
+ * both kept; where both sides changed the same passage differently, the two
+ * versions are left between conflict markers.
+ */
+export function mergeText(base: string, mine: string, theirs: string): TextMerge {
+  if (mine === theirs || theirs === base) return { text: mine, conflicts: 0 };
+  if (mine === base) return { text: theirs, conflicts: 0 };
+
+  const hunks: SidedHunk[] = [
+    ...diffWords(base, mine).map(hunk => ({ ...hunk, side: 'mine' as const })),
+    ...diffWords(base, theirs).map(hunk => ({ ...hunk, side: 'theirs' as const })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  let text = '';
+  let conflicts = 0;
+  let position = 0;
+
+  for (let i = 0; i < hunks.length;) {
+    // Changes that overlap or touch are merged as one passage
+    const cluster = [hunks[i]];
+    let end = hunks[i].end;
+    for (i++; i < hunks.length && hunks[i].start <= end; i++) {
+      cluster.push(hunks[i]);
+      end = Math.max(end, hunks[i].end);
+    }
+
+    const start = cluster[0].start;
+    const ours = applyWithin(base, cluster.filter(hunk => hunk.side === 'mine'), start, end);
+    const others = applyWithin(base, cluster.filter(hunk => hunk.side === 'theirs'), start, end);
+    const unchanged = base.slice(start, end);
+
+    text += base.slice(position, start);
+    if (ours === others || others === unchanged) {
+      text += ours;
+    } else if (ours === unchanged) {
+      text += others;
+    } else {
+      text += `\n${CONFLICT_START}\n${ours}\n${CONFLICT_SEPARATOR}\n${others}\n${CONFLICT_END}\n`;
+      conflicts++;
+    }
+    position = end;
+  }
+
+  return { text: text + base.slice(position), conflicts };
+}
+
+/** The title both sides would agree on, preferring yours when both renamed it. */
+export function mergeTitle(base: string, mine: string, theirs: string): string {
+  return mine === base ? theirs : mine;
+}
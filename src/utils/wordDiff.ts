@@ -0,0 +1,133 @@
+// Words (with apostrophes), runs of whitespace, or single punctuation marks
+const TOKEN = /[\p{L}\p{N}_]+(?:['’][\p{L}\p{N}_]+)*|\s+|[^\p{L}\p{N}_\s]/gu;
+
+// Above this many token pairs the changed middle becomes a single hunk
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** One change: `removed` (original[start, end)) becomes `inserted`. */
+export interface DiffHunk {
+  id: number;
+  start: number;
+  end: number;
+  removed: string;
+  inserted: string;
+}
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN) ?? [];
+}
+
+type Operation = { kind: 'same' | 'removed' | 'inserted'; token: string };
+
+// Longest common subsequence over tokens
+function diffTokens(a: string[], b: string[]): Operation[] {
+  const n = a.length;
+  const m = b.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(token => ({ kind: 'removed' as const, token })),
+      ...b.map(token => ({ kind: 'inserted' as const, token })),
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] = LCS of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = a[i] === b[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const operations: Operation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      operations.push({ kind: 'same', token: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      operations.push({ kind: 'removed', token: a[i++] });
+    } else {
+      operations.push({ kind: 'inserted', token: b[j++] });
+    }
+  }
+  while (i < n) operations.push({ kind: 'removed', token: a[i++] });
+  while (j < m) operations.push({ kind: 'inserted', token: b[j++] });
+  return operations;
+}
+
+/**
+ * Word-level changes that turn `original` into `suggested`, with offsets into
+ * `original`. Changes separated only by whitespace are merged, so rewording a
+ * phrase is one hunk rather than one per word.
+ */
+export function diffWords(original: string, suggested: string): DiffHunk[] {
+  const a = tokenize(original);
+  const b = tokenize(suggested);
+
+  // The unchanged head and tail don't need the quadratic pass
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const operations = diffTokens(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+  const hunks: DiffHunk[] = [];
+  let offset = a.slice(0, prefix).join('').length;
+  let open: DiffHunk | null = null;
+  // Whitespace seen since the open hunk, merged in if another change follows
+  let gap = '';
+
+  for (const operation of operations) {
+    if (operation.kind === 'same') {
+      if (open && /^\s+$/.test(operation.token)) {
+        gap += operation.token;
+      } else {
+        open = null;
+        gap = '';
+      }
+      offset += operation.token.length;
+      continue;
+    }
+
+    if (!open) {
+      open = { id: hunks.length, start: offset, end: offset, removed: '', inserted: '' };
+      hunks.push(open);
+    } else if (gap) {
+      open.removed += gap;
+      open.inserted += gap;
+      open.end += gap.length;
+      gap = '';
+    }
+
+    if (operation.kind === 'removed') {
+      open.removed += operation.token;
+      open.end += operation.token.length;
+      offset += operation.token.length;
+    } else {
+      open.inserted += operation.token;
+    }
+  }
+
+  return hunks;
+}
+
+/** `original` with the hunks `accept` returns true for applied. */
+export function applyHunks(original: string, hunks: DiffHunk[], accept: (hunk: DiffHunk) => boolean = () => true): string {
+  let result = '';
+  let cursor = 0;
+  for (const hunk of hunks) {
+    result += original.slice(cursor, hunk.start);
+    result += accept(hunk) ? hunk.inserted : hunk.removed;
+    cursor = hunk.end;
+  }
+  return result + original.slice(cursor);
+}
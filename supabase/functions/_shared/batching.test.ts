@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { batchByBudget, mapWithConcurrency, splitToBudget } from './batching.ts';
+
+// A passage estimated at `tokens` tokens
+function passage(id: number, tokens: number) {
+  return { id, content: 'x'.repeat(tokens * 4) };
+}
+
+const ids = (batches: { id: number }[][]) => batches.map(batch => batch.map(item => item.id));
+
+describe('batchByBudget', () => {
+  it('keeps everything in one batch when it fits', () => {
+    expect(ids(batchByBudget([passage(1, 100), passage(2, 100), passage(3, 100)], 1000))).toEqual([[1, 2, 3]]);
+  });
+
+  it('starts a new batch once the budget is reached', () => {
+    const passages = [1, 2, 3, 4, 5, 6].map(id => passage(id, 300));
+    expect(ids(batchByBudget(passages, 1000))).toEqual([[1, 2, 3], [4, 5, 6]]);
+  });
+
+  it('puts at least two passages in a batch, even over the budget', () => {
+    const passages = [passage(1, 800), passage(2, 800), passage(3, 800), passage(4, 800)];
+    expect(ids(batchByBudget(passages, 1000))).toEqual([[1, 2], [3, 4]]);
+  });
+
+  it('adds a lone passage left over to the batch before it', () => {
+    const passages = [passage(1, 800), passage(2, 800), passage(3, 800)];
+    expect(ids(batchByBudget(passages, 1000))).toEqual([[1, 2, 3]]);
+  });
+
+  it('returns no batches for no passages', () => {
+    expect(batchByBudget([], 1000)).toEqual([]);
+  });
+});
+
+describe('splitToBudget', () => {
+  it('keeps text within the budget whole', () => {
+    expect(splitToBudget('One.\n\nTwo.', 100)).toEqual(['One.\n\nTwo.']);
+  });
+
+  it('splits between paragraphs', () => {
+    const paragraph = 'y'.repeat(240);
+    expect(splitToBudget(`${paragraph}\n\n${paragraph}\n\n${paragraph}`, 100)).toEqual([paragraph, paragraph, paragraph]);
+  });
+
+  it('cuts a paragraph larger than the budget', () => {
+    const pieces = splitToBudget('z'.repeat(1000), 100);
+    expect(pieces).toEqual(['z'.repeat(400), 'z'.repeat(400), 'z'.repeat(200)]);
+  });
+
+  it('returns one empty piece for empty text', () => {
+    expect(splitToBudget('', 100)).toEqual(['']);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in order with no more than `limit` calls in flight', async () => {
+    let inFlight = 0;
+    let most = 0;
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async value => {
+      inFlight++;
+      most = Math.max(most, inFlight);
+      await new Promise(resolve => setTimeout(resolve, value));
+      inFlight--;
+      return value * 10;
+    });
+
+    expect(results).toEqual([50, 10, 40, 20, 30]);
+    expect(most).toBe(2);
+  });
+});
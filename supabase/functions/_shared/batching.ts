@@ -0,0 +1,67 @@
+// Splitting and batching text to fit a model's token budget
+import { estimateTokens } from "./usage.ts";
+
+// Paragraph-aligned pieces of at most `maxTokens`, cutting oversized paragraphs
+export function splitToBudget(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4;
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const parts: string[] = [];
+    for (let start = 0; start < paragraph.length; start += maxChars) {
+      parts.push(paragraph.slice(start, start + maxChars));
+    }
+
+    for (const part of parts) {
+      if (current && estimateTokens(`${current}\n\n${part}`) > maxTokens) {
+        pieces.push(current);
+        current = part;
+      } else {
+        current = current ? `${current}\n\n${part}` : part;
+      }
+    }
+  }
+
+  if (current.trim()) pieces.push(current);
+  return pieces.length > 0 ? pieces : [''];
+}
+
+// Consecutive batches within the budget, at least two per batch so each round shrinks
+export function batchByBudget<T extends { content: string }>(passages: T[], maxTokens: number): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let tokens = 0;
+
+  for (const passage of passages) {
+    const size = estimateTokens(passage.content);
+    if (batch.length >= 2 && tokens + size > maxTokens) {
+      batches.push(batch);
+      batch = [];
+      tokens = 0;
+    }
+    batch.push(passage);
+    tokens += size;
+  }
+
+  // A lone passage left over joins the batch before it
+  if (batch.length === 1 && batches.length > 0) batches[batches.length - 1].push(batch[0]);
+  else if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+// Runs `fn` over `items` with at most `limit` calls in flight, keeping their order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { enforceBudget } from './budget.ts';
+import { FunctionError } from './http.ts';
+
+const WITHIN_BUDGET = {
+  period_start: '2026-10-01',
+  spend: 4.5,
+  tokens: 120_000,
+  monthly_spend_limit: 10,
+  monthly_token_limit: 1_000_000,
+};
+
+// A client whose budget status RPCs resolve to `result`, recording the calls
+function budgetClient(result: { data?: unknown; error?: unknown }) {
+  const maybeSingle = vi.fn().mockResolvedValue({ data: result.data ?? null, error: result.error ?? null });
+  const rpc = vi.fn().mockReturnValue({ maybeSingle });
+  return { client: { rpc } as unknown as SupabaseClient, rpc };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('enforceBudget', () => {
+  it("checks the caller's budget", async () => {
+    const { client, rpc } = budgetClient({ data: WITHIN_BUDGET });
+
+    await expect(enforceBudget(client)).resolves.toBeUndefined();
+    expect(rpc).toHaveBeenCalledWith('ai_budget_status');
+  });
+
+  it("checks the named user's budget with the service role", async () => {
+    const { client, rpc } = budgetClient({ data: WITHIN_BUDGET });
+
+    await enforceBudget(client, 'user-1');
+    expect(rpc).toHaveBeenCalledWith('ai_budget_status_for', { owner_id: 'user-1' });
+  });
+
+  it('throws budget_exceeded once spend reaches the cap', async () => {
+    const { client } = budgetClient({ data: { ...WITHIN_BUDGET, spend: '10.00' } });
+
+    const error = await enforceBudget(client).catch(e => e);
+    expect(error).toBeInstanceOf(FunctionError);
+    expect(error).toMatchObject({ code: 'budget_exceeded', status: 402 });
+    expect(error.message).toContain('$10.00');
+  });
+
+  it('throws budget_exceeded once tokens reach the cap', async () => {
+    const { client } = budgetClient({ data: { ...WITHIN_BUDGET, tokens: 1_000_000 } });
+
+    await expect(enforceBudget(client)).rejects.toMatchObject({ code: 'budget_exceeded' });
+  });
+
+  it('has no cap when a limit is unset', async () => {
+    const { client } = budgetClient({
+      data: { ...WITHIN_BUDGET, spend: 500, tokens: 9_000_000, monthly_spend_limit: null, monthly_token_limit: null },
+    });
+
+    await expect(enforceBudget(client)).resolves.toBeUndefined();
+  });
+
+  it('lets the request through when the check fails or returns nothing', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(enforceBudget(budgetClient({ error: { message: 'timeout' } }).client)).resolves.toBeUndefined();
+    await expect(enforceBudget(budgetClient({ data: null }).client)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { FunctionError } from "./http.ts";
+
+interface BudgetStatus {
+  period_start: string;
+  spend: number;
+  tokens: number;
+  monthly_spend_limit: number | null;
+  monthly_token_limit: number | null;
+}
+
+/**
+ * Throws `budget_exceeded` once the caller's AI usage this calendar month has
+ * reached their spend or token cap (ai_budgets). Call it before every model
+ * request. A failed check lets the request through rather than blocking the
+ * user, as with rate limiting. With the service role there is no caller, so
+ * pass the user whose budget applies.
+ */
+export async function enforceBudget(supabase: SupabaseClient, userId?: string): Promise<void> {
+  const { data, error } = userId
+    ? await supabase.rpc('ai_budget_status_for', { owner_id: userId }).maybeSingle()
+    : await supabase.rpc('ai_budget_status').maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Budget check failed (non-critical):', error);
+    return;
+  }
+
+  const status = data as BudgetStatus;
+  const spend = Number(status.spend);
+  const tokens = Number(status.tokens);
+
+  if (status.monthly_spend_limit !== null && spend >= Number(status.monthly_spend_limit)) {
+    throw new FunctionError(
+      'budget_exceeded',
+      `You have reached your monthly AI budget of $${Number(status.monthly_spend_limit).toFixed(2)}. Raise it on the Usage page or wait until next month.`
+    );
+  }
+  if (status.monthly_token_limit !== null && tokens >= Number(status.monthly_token_limit)) {
+    throw new FunctionError(
+      'budget_exceeded',
+      `You have reached your monthly limit of ${Number(status.monthly_token_limit).toLocaleString()} AI tokens. Raise it on the Usage page or wait until next month.`
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { CHUNK_OVERLAP, CHUNK_SIZE, chunkText } from './chunking.ts';
+
+// `count` numbered sentences of about 60 characters each
+function sentences(count: number, from = 1): string {
+  return Array.from({ length: count }, (_, i) => `Sentence number ${from + i} talks about something worth keeping.`).join(' ');
+}
+
+describe('chunkText', () => {
+  it('returns nothing for blank text', () => {
+    expect(chunkText('')).toEqual([]);
+    expect(chunkText('  \n\n  ')).toEqual([]);
+  });
+
+  it('keeps short text in one trimmed chunk', () => {
+    const text = '  A short note.\n\nWith two paragraphs.  ';
+    expect(chunkText(text)).toEqual([
+      { index: 0, content: 'A short note.\n\nWith two paragraphs.', startOffset: 2, endOffset: 37 },
+    ]);
+  });
+
+  it('records offsets that point back into the text', () => {
+    const text = `${sentences(30)}\n\n${sentences(30, 31)}`;
+    for (const chunk of chunkText(text)) {
+      expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+    }
+  });
+
+  it('keeps chunks within the size, numbered in order', () => {
+    const chunks = chunkText(sentences(100));
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.index).toBe(index);
+      expect(chunk.content.length).toBeLessThanOrEqual(CHUNK_SIZE);
+    });
+  });
+
+  it('ends chunks on whole sentences', () => {
+    for (const chunk of chunkText(sentences(100))) {
+      expect(chunk.content).toMatch(/^Sentence number \d+/);
+      expect(chunk.content).toMatch(/keeping\.$/);
+    }
+  });
+
+  it('repeats trailing sentences of each chunk within the overlap', () => {
+    const chunks = chunkText(sentences(100));
+    for (let i = 1; i < chunks.length; i++) {
+      const overlap = chunks[i - 1].endOffset - chunks[i].startOffset;
+      expect(overlap).toBeGreaterThan(0);
+      expect(overlap).toBeLessThanOrEqual(CHUNK_OVERLAP);
+    }
+  });
+
+  it('prefers to end a chunk on a paragraph break', () => {
+    const first = sentences(15);
+    const text = `${first}\n\n${sentences(30, 16)}`;
+    expect(chunkText(text)[0].content).toBe(first);
+  });
+
+  it('cuts a sentence longer than a chunk at whitespace', () => {
+    const text = 'word '.repeat(CHUNK_SIZE).trim();
+    const chunks = chunkText(text);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(CHUNK_SIZE);
+      expect(chunk.content).toMatch(/^word( word)*$/);
+    }
+  });
+});
@@ -0,0 +1,124 @@
+// Paragraph-aware chunking for passage-level embeddings.
+// Chunks hold whole sentences, prefer to end on a paragraph break, and repeat
+// the trailing sentences of the previous chunk so no passage loses its context.
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  // Character range of the chunk within the original text
+  startOffset: number;
+  endOffset: number;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  paragraphEnd: boolean;
+}
+
+export const CHUNK_SIZE = 1500;
+export const CHUNK_OVERLAP = 200;
+
+const PARAGRAPH_BREAK = /\n[ \t]*\n\s*/g;
+const SENTENCE_END = /[.!?]+["')\]]*\s+/g;
+
+// Shrinks [start, end) so it begins and ends on non-whitespace
+function trimRange(text: string, start: number, end: number): [number, number] {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return [start, end];
+}
+
+// Splits a sentence longer than CHUNK_SIZE at the last whitespace before the limit
+function splitLongRange(text: string, start: number, end: number): [number, number][] {
+  const ranges: [number, number][] = [];
+  while (end - start > CHUNK_SIZE) {
+    let cut = text.lastIndexOf(' ', start + CHUNK_SIZE);
+    if (cut <= start) cut = start + CHUNK_SIZE;
+    ranges.push(trimRange(text, start, cut));
+    start = cut;
+  }
+  ranges.push(trimRange(text, start, end));
+  return ranges.filter(([s, e]) => e > s);
+}
+
+function paragraphSegments(text: string, start: number, end: number): Segment[] {
+  [start, end] = trimRange(text, start, end);
+  if (start >= end) return [];
+
+  const sentences: [number, number][] = [];
+  const paragraph = text.slice(start, end);
+  let sentenceStart = 0;
+  SENTENCE_END.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(paragraph)) !== null) {
+    const sentenceEnd = match.index + match[0].length;
+    sentences.push(...splitLongRange(text, start + sentenceStart, start + sentenceEnd));
+    sentenceStart = sentenceEnd;
+  }
+  if (sentenceStart < paragraph.length) {
+    sentences.push(...splitLongRange(text, start + sentenceStart, end));
+  }
+
+  return sentences.map(([s, e], i) => ({
+    start: s,
+    end: e,
+    paragraphEnd: i === sentences.length - 1,
+  }));
+}
+
+function splitSegments(text: string): Segment[] {
+  const segments: Segment[] = [];
+  let paragraphStart = 0;
+  PARAGRAPH_BREAK.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = PARAGRAPH_BREAK.exec(text)) !== null) {
+    segments.push(...paragraphSegments(text, paragraphStart, match.index));
+    paragraphStart = match.index + match[0].length;
+  }
+  segments.push(...paragraphSegments(text, paragraphStart, text.length));
+  return segments;
+}
+
+export function chunkText(text: string): TextChunk[] {
+  const segments = splitSegments(text);
+  const chunks: TextChunk[] = [];
+
+  let i = 0;
+  while (i < segments.length) {
+    const start = segments[i].start;
+    let j = i;
+    let lastParagraphEnd = -1;
+
+    while (j + 1 < segments.length && segments[j + 1].end - start <= CHUNK_SIZE) {
+      if (segments[j].paragraphEnd) lastParagraphEnd = j;
+      j++;
+    }
+
+    // Back up to the last paragraph break if that still leaves a reasonably full chunk
+    const isLast = j + 1 >= segments.length;
+    if (!isLast && !segments[j].paragraphEnd && lastParagraphEnd >= i &&
+        segments[lastParagraphEnd].end - start >= CHUNK_SIZE / 2) {
+      j = lastParagraphEnd;
+    }
+
+    const end = segments[j].end;
+    chunks.push({
+      index: chunks.length,
+      content: text.slice(start, end),
+      startOffset: start,
+      endOffset: end,
+    });
+
+    if (j + 1 >= segments.length) break;
+
+    // Start the next chunk on the trailing sentences that fit in the overlap window
+    let next = j + 1;
+    while (next - 1 > i && end - segments[next - 1].start <= CHUNK_OVERLAP) {
+      next--;
+    }
+    i = next;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,177 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { readChatResult, requestChatCompletion } from "./llm.ts";
+import { estimateTokens, UsageRecord } from "./usage.ts";
+import type { PassageSource } from "./retrieval.ts";
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+export interface Conversation {
+  id: string;
+  summary: string | null;
+  summarized_until: string | null;
+}
+
+// Prior turns sent verbatim with each request; older turns are folded into the summary
+export const HISTORY_TOKEN_BUDGET = 3000;
+const SUMMARY_MODEL = 'gpt-5-nano-2025-08-07';
+const TITLE_LENGTH = 60;
+
+export function conversationTitle(firstMessage: string): string {
+  const title = firstMessage.replace(/\s+/g, ' ').trim();
+  return title.length > TITLE_LENGTH ? `${title.substring(0, TITLE_LENGTH - 1)}…` : title;
+}
+
+// RLS guarantees users can only load their own conversations
+export async function getConversation(supabase: SupabaseClient, conversationId: string): Promise<Conversation> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select('id, summary, summarized_until')
+    .eq('id', conversationId)
+    .single();
+
+  if (error || !data) throw new Error('Conversation not found');
+  return data as Conversation;
+}
+
+export async function createConversation(
+  supabase: SupabaseClient,
+  { userId, firstMessage }: { userId: string; firstMessage: string }
+): Promise<Conversation> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .insert({ user_id: userId, title: conversationTitle(firstMessage) })
+    .select('id, summary, summarized_until')
+    .single();
+
+  if (error) throw error;
+  return data as Conversation;
+}
+
+// Turns not yet folded into the conversation summary, oldest first
+export async function loadUnsummarizedTurns(
+  supabase: SupabaseClient,
+  conversation: Conversation
+): Promise<ConversationTurn[]> {
+  let query = supabase
+    .from('chat_messages')
+    .select('role, content, created_at')
+    .eq('conversation_id', conversation.id)
+    .order('created_at', { ascending: true });
+
+  if (conversation.summarized_until) {
+    query = query.gt('created_at', conversation.summarized_until);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as ConversationTurn[];
+}
+
+/**
+ * Splits turns into the newest ones that fit the token budget and the older
+ * overflow. Turns are kept in user/assistant pairs where possible so the
+ * history never opens with a dangling assistant reply.
+ */
+export function fitTurnsToBudget(
+  turns: ConversationTurn[],
+  budget: number = HISTORY_TOKEN_BUDGET
+): { recent: ConversationTurn[]; overflow: ConversationTurn[] } {
+  let used = 0;
+  let start = turns.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(turns[start - 1].content);
+    if (used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+
+  if (start < turns.length && turns[start].role === 'assistant') start++;
+
+  return { recent: turns.slice(start), overflow: turns.slice(0, start) };
+}
+
+/**
+ * Folds turns that fell out of the history budget into the conversation's
+ * rolling summary and stores it, so each turn is only summarized once.
+ * Returns the summary to use, keeping the previous one if summarizing fails.
+ */
+export async function summarizeOverflow(
+  supabase: SupabaseClient,
+  {
+    conversation,
+    overflow,
+    onUsage,
+  }: {
+    conversation: Conversation;
+    overflow: ConversationTurn[];
+    onUsage?: (usage: Pick<UsageRecord, 'model' | 'tokensInput' | 'tokensOutput'>) => Promise<void>;
+  }
+): Promise<string | null> {
+  if (overflow.length === 0) return conversation.summary;
+
+  const transcript = overflow
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n\n');
+
+  try {
+    const completion = await requestChatCompletion({
+      model: SUMMARY_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: 'You maintain a running summary of a conversation between a writer and an assistant about their documents. Update the summary with the new turns. Keep names, document titles, decisions and open questions. Reply with the summary only, under 250 words.'
+        },
+        {
+          role: 'user',
+          content: `Current summary:\n${conversation.summary || '(none)'}\n\nNew turns:\n${transcript}`
+        }
+      ],
+      maxTokens: 600,
+      temperature: 0.3,
+    });
+
+    const { text, usage, model } = await readChatResult(completion);
+    const summary = text.trim() || conversation.summary || '';
+    if (usage) {
+      await onUsage?.({ model, ...usage });
+    }
+
+    const { error } = await supabase
+      .from('chat_conversations')
+      .update({ summary, summarized_until: overflow[overflow.length - 1].created_at })
+      .eq('id', conversation.id);
+    if (error) throw error;
+
+    return summary;
+  } catch (error) {
+    // The reply can still go ahead with the older summary and recent turns
+    console.error('Failed to summarize conversation history (non-critical):', error);
+    return conversation.summary;
+  }
+}
+
+export async function saveMessage(
+  supabase: SupabaseClient,
+  message: {
+    conversationId: string;
+    userId: string;
+    role: ConversationTurn['role'];
+    content: string;
+    sources?: PassageSource[];
+  }
+): Promise<void> {
+  const { error } = await supabase.from('chat_messages').insert({
+    conversation_id: message.conversationId,
+    user_id: message.userId,
+    role: message.role,
+    content: message.content,
+    sources: message.sources ?? []
+  });
+
+  if (error) throw error;
+}
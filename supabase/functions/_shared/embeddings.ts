@@ -0,0 +1,121 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chunkText } from "./chunking.ts";
+import { FunctionError } from "./http.ts";
+import { openaiBaseUrl } from "./providers.ts";
+
+// Any OpenAI-compatible embeddings endpoint works (EMBEDDING_BASE_URL, e.g.
+// Ollama), provided its vectors fit the vector(1536) columns
+export const EMBEDDING_MODEL = Deno.env.get('EMBEDDING_MODEL') || 'text-embedding-3-small';
+export const EMBEDDING_DIMENSIONS = 1536;
+// Recorded in ai_usage; self-hosted embeddings are free
+export const EMBEDDING_USAGE_MODEL = Deno.env.get('EMBEDDING_BASE_URL') ? `local/${EMBEDDING_MODEL}` : EMBEDDING_MODEL;
+
+// Inputs per embeddings request, well under OpenAI's per-request token limit
+const EMBEDDING_BATCH_SIZE = 64;
+
+function embeddingEndpoint(): { url: string; apiKey?: string } {
+  const baseUrl = Deno.env.get('EMBEDDING_BASE_URL');
+  if (baseUrl) {
+    return { url: `${baseUrl.replace(/\/+$/, '')}/embeddings`, apiKey: Deno.env.get('EMBEDDING_API_KEY') };
+  }
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) throw new FunctionError('config_error', 'OPENAI_API_KEY is not configured');
+  return { url: `${openaiBaseUrl()}/embeddings`, apiKey };
+}
+
+export async function embedTexts(inputs: string[]): Promise<number[][]> {
+  const { url, apiKey } = embeddingEndpoint();
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = inputs.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: EMBEDDING_MODEL,
+        input: batch,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Embedding API error:', error);
+      throw new FunctionError('upstream_error', `Embedding failed: ${response.status} ${error}`);
+    }
+
+    const data: { data: { index: number; embedding: number[] }[] } = await response.json();
+    data.data
+      .sort((a, b) => a.index - b.index)
+      .forEach(item => embeddings.push(item.embedding));
+  }
+
+  // A mismatched model would otherwise fail on insert, or silently in similarity search
+  const mismatched = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS);
+  if (mismatched) {
+    throw new FunctionError(
+      'config_error',
+      `${EMBEDDING_MODEL} returned ${mismatched.length}-dimensional embeddings; the database stores ${EMBEDDING_DIMENSIONS}`
+    );
+  }
+
+  return embeddings;
+}
+
+export async function embedText(input: string): Promise<number[]> {
+  const [embedding] = await embedTexts([input]);
+  return embedding;
+}
+
+// Normalised mean of the chunk vectors, used as the whole-document embedding
+function averageEmbedding(embeddings: number[][]): number[] {
+  const mean = new Array(embeddings[0].length).fill(0);
+  for (const embedding of embeddings) {
+    embedding.forEach((value, i) => { mean[i] += value; });
+  }
+  const norm = Math.sqrt(mean.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return mean.map(value => value / norm);
+}
+
+interface IndexDocumentInput {
+  documentId: string;
+  userId: string;
+  content: string;
+}
+
+/**
+ * Re-chunks a document, embeds every chunk and replaces its document_chunks
+ * rows. Returns the document-level embedding to store on documents.embedding.
+ */
+export async function indexDocumentChunks(
+  supabase: SupabaseClient,
+  { documentId, userId, content }: IndexDocumentInput
+): Promise<{ embedding: number[]; chunkCount: number }> {
+  const chunks = chunkText(content);
+  if (chunks.length === 0) {
+    throw new Error('Document has no text to embed');
+  }
+
+  const embeddings = await embedTexts(chunks.map(chunk => chunk.content));
+
+  // Old and new chunks are swapped in one transaction
+  const { error: replaceError } = await supabase.rpc('replace_document_chunks', {
+    doc_id: documentId,
+    owner_id: userId,
+    chunks: chunks.map((chunk, i) => ({
+      chunk_index: chunk.index,
+      content: chunk.content,
+      start_offset: chunk.startOffset,
+      end_offset: chunk.endOffset,
+      embedding: embeddings[i],
+    })),
+  });
+
+  if (replaceError) throw replaceError;
+
+  return { embedding: averageEmbedding(embeddings), chunkCount: chunks.length };
+}
@@ -0,0 +1,100 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'retry-after',
+};
+
+// Machine-readable error codes returned as `{ error, code }`
+export type ErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'budget_exceeded'
+  | 'config_error'
+  | 'upstream_error'
+  | 'timeout'
+  | 'invalid_response'
+  | 'internal_error';
+
+const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  rate_limited: 429,
+  budget_exceeded: 402,
+  config_error: 500,
+  upstream_error: 502,
+  timeout: 504,
+  invalid_response: 502,
+  internal_error: 500,
+};
+
+/**
+ * An error that is safe to show the caller. Anything else thrown from a
+ * handler is reported as `internal_error` with its message.
+ */
+export class FunctionError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  // Seconds until a rate-limited request may be retried
+  readonly retryAfter?: number;
+
+  constructor(code: ErrorCode, message: string, options: { retryAfter?: number } = {}) {
+    super(message);
+    this.name = 'FunctionError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+export function jsonResponse(body: unknown, init: { status?: number; headers?: Record<string, string> } = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: init.status ?? 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...init.headers },
+  });
+}
+
+export function errorResponse(error: unknown): Response {
+  const functionError = error instanceof FunctionError
+    ? error
+    : new FunctionError('internal_error', (error as Error)?.message || 'Unexpected error');
+
+  return jsonResponse(
+    {
+      error: functionError.message,
+      code: functionError.code,
+      ...(functionError.retryAfter !== undefined ? { retryAfter: functionError.retryAfter } : {}),
+    },
+    {
+      status: functionError.status,
+      headers: functionError.retryAfter !== undefined
+        ? { 'Retry-After': String(functionError.retryAfter) }
+        : undefined,
+    }
+  );
+}
+
+/**
+ * Answers CORS preflights and turns anything thrown by the handler into a
+ * structured error response.
+ */
+export function handleRequest(functionName: string, handler: (req: Request) => Promise<Response>) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      return await handler(req);
+    } catch (error) {
+      console.error(`Error in ${functionName}:`, error);
+      return errorResponse(error);
+    }
+  };
+}
+
+export function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new FunctionError('config_error', `${name} is not configured`);
+  return value;
+}
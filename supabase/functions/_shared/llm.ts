@@ -0,0 +1,138 @@
+import { FunctionError } from "./http.ts";
+import {
+  buildChatRequest,
+  ChatMessage,
+  normalizeChatResponse,
+  providerLabel,
+  ResolvedModel,
+  resolveModel,
+} from "./providers.ts";
+import { StreamUsage } from "./streaming.ts";
+
+export type { ChatMessage } from "./providers.ts";
+
+export interface ChatRequest {
+  // A UnifiedCommand ai_model; see providers.ts for how it selects a provider
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'json_object';
+  stream?: boolean;
+  // Per attempt; streaming requests only wait this long for the response to start
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface ChatCompletion {
+  // OpenAI chat completion format whatever the provider
+  response: Response;
+  // The model to record usage against
+  model: string;
+}
+
+export interface ChatResult {
+  text: string;
+  usage: StreamUsage | null;
+  model: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+
+// Rate limits and server errors are worth retrying; other 4xx responses are not
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+function backoffDelay(attempt: number, retryAfterHeader: string | null): number {
+  const retryAfter = Number(retryAfterHeader);
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, 10_000);
+  return BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+type Attempt =
+  | { response: Response }
+  | { failure: FunctionError; retryAfter: string | null };
+
+async function upstreamErrorMessage(label: string, response: Response): Promise<string> {
+  const errorText = await response.text();
+  console.error(`${label} API error (${response.status}):`, errorText);
+  try {
+    return JSON.parse(errorText).error?.message || `${label} API error: ${response.status}`;
+  } catch {
+    return `${label} API error: ${response.status}`;
+  }
+}
+
+async function attemptRequest(resolved: ResolvedModel, request: ChatRequest, timeoutMs: number): Promise<Attempt> {
+  const label = providerLabel(resolved.provider);
+  const { url, headers, body } = buildChatRequest(resolved, request);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    // Non-streaming bodies are read within the same timeout
+    if (response.ok) return { response: await normalizeChatResponse(resolved, response, !!request.stream) };
+
+    const failure = new FunctionError('upstream_error', await upstreamErrorMessage(label, response));
+    if (!isRetryableStatus(response.status)) throw failure;
+    return { failure, retryAfter: response.headers.get('retry-after') };
+  } catch (error) {
+    if (error instanceof FunctionError) throw error;
+    return {
+      failure: controller.signal.aborted
+        ? new FunctionError('timeout', `${label} did not respond within ${Math.ceil(timeoutMs / 1000)}s`)
+        : new FunctionError('upstream_error', `${label} request failed: ${(error as Error).message}`),
+      retryAfter: null,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends a chat completion request to the model's provider, retrying timeouts,
+ * rate limits and server errors with exponential backoff. The response can be
+ * piped to streamChatCompletion when streaming; use `readChatResult` otherwise.
+ */
+export async function requestChatCompletion(request: ChatRequest): Promise<ChatCompletion> {
+  const resolved = resolveModel(request.model);
+  const retries = request.retries ?? DEFAULT_RETRIES;
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await attemptRequest(resolved, request, timeoutMs);
+    if ('response' in result) return { response: result.response, model: resolved.usageModel };
+
+    if (attempt >= retries) throw result.failure;
+    const delay = backoffDelay(attempt, result.retryAfter);
+    console.warn(`Retrying ${providerLabel(resolved.provider)} request in ${Math.round(delay)}ms (attempt ${attempt + 2} of ${retries + 1}): ${result.failure.message}`);
+    await sleep(delay);
+  }
+}
+
+export async function readChatResult({ response, model }: ChatCompletion): Promise<ChatResult> {
+  const data = await response.json();
+  const message = data.choices?.[0]?.message;
+  if (!message) {
+    console.error('Invalid chat completion structure:', data);
+    throw new FunctionError('invalid_response', 'Invalid response from the AI provider');
+  }
+
+  return {
+    text: message.content ?? '',
+    usage: data.usage
+      ? { tokensInput: data.usage.prompt_tokens, tokensOutput: data.usage.completion_tokens }
+      : null,
+    model,
+  };
+}
@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  serve: vi.fn(),
+  getUser: vi.fn(),
+  requestChatCompletion: vi.fn(),
+  readChatResult: vi.fn(),
+  recordUsage: vi.fn(),
+  enforceRateLimit: vi.fn(),
+  enforceBudget: vi.fn(),
+}));
+
+vi.mock('https://deno.land/std@0.224.0/http/server.ts', () => ({ serve: mocks.serve }));
+vi.mock('https://esm.sh/@supabase/supabase-js@2', () => ({
+  createClient: () => ({ auth: { getUser: mocks.getUser } }),
+}));
+vi.mock('./llm.ts', () => ({
+  requestChatCompletion: mocks.requestChatCompletion,
+  readChatResult: mocks.readChatResult,
+}));
+vi.mock('./usage.ts', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./usage.ts')>(),
+  recordUsage: mocks.recordUsage,
+}));
+vi.mock('./rateLimit.ts', () => ({
+  enforceRateLimit: mocks.enforceRateLimit,
+  rateLimitFor: (_name: string, fallback?: unknown) => fallback ?? { maxRequests: 30, windowSeconds: 300 },
+}));
+vi.mock('./budget.ts', () => ({ enforceBudget: mocks.enforceBudget }));
+vi.mock('./embeddings.ts', () => ({ EMBEDDING_USAGE_MODEL: 'text-embedding-3-small', embedText: vi.fn() }));
+
+import { FunctionError } from './http.ts';
+import { CommandContext, CommandDefinition, defaultFinalize, defaultMessages, EMPTY_RESULT_MESSAGE, serveCommand } from './pipeline.ts';
+
+const COMMAND = {
+  ai_model: 'gpt-5-mini-2025-08-07',
+  system_prompt: 'You are an editor.',
+  prompt: 'Tighten this.',
+  max_tokens: 400,
+};
+
+// The handler serveCommand passes to serve
+function serveDefinition(definition: Partial<CommandDefinition> = {}) {
+  mocks.serve.mockClear();
+  serveCommand({ name: 'ai-test', defaultMaxTokens: 800, ...definition });
+  return mocks.serve.mock.calls[0][0] as (req: Request) => Promise<Response>;
+}
+
+function commandRequest(body: unknown, authorization: string | null = 'Bearer token') {
+  return new Request('http://localhost/ai-test', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {},
+    body: JSON.stringify(body),
+  });
+}
+
+function context(overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    command: COMMAND,
+    text: 'Some text that is long enough.',
+    promptIncludesText: false,
+    ...overrides,
+  } as CommandContext;
+}
+
+beforeEach(() => {
+  vi.stubGlobal('Deno', { env: { get: (name: string) => ({ SUPABASE_URL: 'http://db', SUPABASE_ANON_KEY: 'anon' })[name] } });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  mocks.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+  mocks.requestChatCompletion.mockResolvedValue({ response: new Response(), model: 'gpt-5-mini-2025-08-07' });
+  mocks.readChatResult.mockResolvedValue({
+    text: '  Tightened text.  ',
+    usage: { tokensInput: 50, tokensOutput: 10 },
+    model: 'gpt-5-mini-2025-08-07',
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  Object.values(mocks).forEach(mock => mock.mockReset());
+});
+
+describe('defaultMessages', () => {
+  it('appends the text to the command prompt', () => {
+    expect(defaultMessages(context())).toEqual([
+      { role: 'system', content: 'You are an editor.' },
+      { role: 'user', content: 'Tighten this.\n\n---\n\nSome text that is long enough.' },
+    ]);
+  });
+
+  it('leaves the text out when the templates placed it', () => {
+    expect(defaultMessages(context({ promptIncludesText: true }))[1]).toEqual({ role: 'user', content: 'Tighten this.' });
+  });
+});
+
+describe('defaultFinalize', () => {
+  it('returns the trimmed output', () => {
+    expect(defaultFinalize('  Done.\n', context())).toEqual({ result: 'Done.' });
+  });
+
+  it('falls back to the original text when the output is empty', () => {
+    expect(defaultFinalize(' \n ', context())).toEqual({
+      result: 'Some text that is long enough.',
+      fallback: true,
+      message: EMPTY_RESULT_MESSAGE,
+    });
+  });
+});
+
+describe('serveCommand', () => {
+  it('runs the command and records its usage', async () => {
+    const handler = serveDefinition();
+
+    const response = await handler(commandRequest({ command: COMMAND, content: 'Draft text.', userId: 'user-1' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ result: 'Tightened text.' });
+    expect(mocks.enforceRateLimit).toHaveBeenCalledWith(expect.anything(), 'ai-test', { maxRequests: 30, windowSeconds: 300 });
+    expect(mocks.enforceBudget).toHaveBeenCalled();
+    expect(mocks.requestChatCompletion).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'gpt-5-mini-2025-08-07',
+      maxTokens: 400,
+      messages: [
+        { role: 'system', content: 'You are an editor.' },
+        { role: 'user', content: 'Tighten this.\n\n---\n\nDraft text.' },
+      ],
+    }));
+    expect(mocks.recordUsage).toHaveBeenCalledWith(expect.any(Request), {
+      userId: 'user-1',
+      functionName: 'ai-test',
+      model: 'gpt-5-mini-2025-08-07',
+      tokensInput: 50,
+      tokensOutput: 10,
+    });
+  });
+
+  it('works on the selection rather than the whole document', async () => {
+    const handler = serveDefinition();
+
+    await handler(commandRequest({ command: COMMAND, content: 'Whole document.', selectedText: 'Selected part.', userId: 'user-1' }));
+
+    expect(mocks.requestChatCompletion.mock.calls[0][0].messages[1].content).toBe('Tighten this.\n\n---\n\nSelected part.');
+  });
+
+  it('does not append the text when the prompt places it', async () => {
+    const handler = serveDefinition();
+
+    await handler(commandRequest({
+      command: { ...COMMAND, prompt: 'Tighten "{{selection}}" for {{ask:Audience}}.' },
+      content: 'Draft text.',
+      userId: 'user-1',
+      templateAnswers: { Audience: 'students' },
+    }));
+
+    expect(mocks.requestChatCompletion.mock.calls[0][0].messages[1].content).toBe('Tighten "Draft text." for students.');
+  });
+
+  it('does not append the text when the system prompt places it', async () => {
+    const handler = serveDefinition();
+
+    await handler(commandRequest({
+      command: { ...COMMAND, system_prompt: 'You are editing this document:\n{{document}}' },
+      content: 'Draft text.',
+      userId: 'user-1',
+    }));
+
+    expect(mocks.requestChatCompletion.mock.calls[0][0].messages).toEqual([
+      { role: 'system', content: 'You are editing this document:\nDraft text.' },
+      { role: 'user', content: 'Tighten this.' },
+    ]);
+  });
+
+  it('rejects a command whose question was not answered', async () => {
+    const handler = serveDefinition();
+
+    const response = await handler(commandRequest({
+      command: { ...COMMAND, prompt: 'Tighten this for {{ask:Audience}}.' },
+      content: 'Draft text.',
+      userId: 'user-1',
+    }));
+
+    expect(response.status).toBe(400);
+    expect(mocks.requestChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('raises max_tokens to the minimum the definition needs', async () => {
+    const handler = serveDefinition({ minMaxTokens: 1000 });
+
+    await handler(commandRequest({ command: COMMAND, content: 'Draft text.', userId: 'user-1' }));
+
+    expect(mocks.requestChatCompletion.mock.calls[0][0].maxTokens).toBe(1000);
+  });
+
+  it('rejects requests without a command, text or user', async () => {
+    const handler = serveDefinition();
+
+    for (const body of [
+      { content: 'Draft text.', userId: 'user-1' },
+      { command: COMMAND, userId: 'user-1' },
+      { command: COMMAND, content: 'Draft text.' },
+      { command: { ...COMMAND, prompt: '' }, content: 'Draft text.', userId: 'user-1' },
+    ]) {
+      const response = await handler(commandRequest(body));
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'invalid_request' });
+    }
+    expect(mocks.requestChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('rejects callers signed in as someone else', async () => {
+    mocks.getUser.mockResolvedValue({ data: { user: { id: 'user-2' } }, error: null });
+    const handler = serveDefinition();
+
+    const response = await handler(commandRequest({ command: COMMAND, content: 'Draft text.', userId: 'user-1' }));
+
+    expect(response.status).toBe(401);
+    expect(mocks.requestChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests without a JWT', async () => {
+    const handler = serveDefinition();
+
+    const response = await handler(commandRequest({ command: COMMAND, content: 'Draft text.', userId: 'user-1' }, null));
+
+    expect(response.status).toBe(401);
+    expect(mocks.getUser).not.toHaveBeenCalled();
+  });
+
+  it('stops before the model call when the budget is spent', async () => {
+    mocks.enforceBudget.mockRejectedValue(new FunctionError('budget_exceeded', 'Budget reached.'));
+    const handler = serveDefinition();
+
+    const response = await handler(commandRequest({ command: COMMAND, content: 'Draft text.', userId: 'user-1' }));
+
+    expect(response.status).toBe(402);
+    expect(mocks.requestChatCompletion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,227 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceBudget } from "./budget.ts";
+import { EMBEDDING_USAGE_MODEL, embedText } from "./embeddings.ts";
+import { corsHeaders, FunctionError, handleRequest, jsonResponse, requireEnv } from "./http.ts";
+import { ChatMessage, readChatResult, requestChatCompletion } from "./llm.ts";
+import { enforceRateLimit, RateLimit, rateLimitFor } from "./rateLimit.ts";
+import { streamChatCompletion } from "./streaming.ts";
+import { readTemplateInput, renderTemplate, templateUses } from "./template.ts";
+import { estimateTokens, recordUsage } from "./usage.ts";
+
+// The user_commands fields a command function reads
+export interface CommandConfig {
+  name?: string;
+  ai_model: string;
+  system_prompt: string;
+  prompt: string;
+  max_tokens?: number;
+  temperature?: number;
+}
+
+export interface CommandContext {
+  req: Request;
+  functionName: string;
+  userId: string;
+  command: CommandConfig;
+  // The selection when there is one, otherwise the whole document
+  text: string;
+  // The prompt or system prompt template placed the text itself with
+  // {{selection}} or {{document}}
+  promptIncludesText: boolean;
+  // The full request body, for function-specific fields
+  payload: Record<string, unknown>;
+  stream: boolean;
+  // Acts as the caller, so RLS applies
+  supabase: SupabaseClient;
+  // Runs an intermediate completion with the command's model and records its usage
+  complete: (messages: ChatMessage[], options?: { maxTokens?: number; responseFormat?: 'json_object' }) => Promise<string>;
+  // Embeds text and records its usage
+  embed: (input: string) => Promise<number[]>;
+}
+
+export interface CommandDefinition {
+  name: string;
+  // Used when the command has no max_tokens
+  defaultMaxTokens: number;
+  // Lower bound on max_tokens, for output formats that need the room
+  minMaxTokens?: number;
+  responseFormat?: 'json_object';
+  rateLimit?: RateLimit;
+  // Defaults to the system prompt plus the command prompt followed by the text
+  buildMessages?: (context: CommandContext) => ChatMessage[] | Promise<ChatMessage[]>;
+  // Maps the model output to the response body; may throw a FunctionError
+  finalize?: (text: string, context: CommandContext) => Record<string, unknown>;
+}
+
+export const EMPTY_RESULT_MESSAGE = 'AI returned empty response, original text preserved';
+
+export function defaultMessages({ command, text, promptIncludesText }: CommandContext): ChatMessage[] {
+  return [
+    { role: 'system', content: command.system_prompt },
+    { role: 'user', content: promptIncludesText ? command.prompt : `${command.prompt}\n\n---\n\n${text}` },
+  ];
+}
+
+// Trimmed output, or the original text when the model returned nothing
+export function defaultFinalize(text: string, { text: original }: CommandContext): Record<string, unknown> {
+  return text.trim()
+    ? { result: text.trim() }
+    : { result: original, fallback: true, message: EMPTY_RESULT_MESSAGE };
+}
+
+async function readPayload(req: Request): Promise<Record<string, unknown>> {
+  try {
+    const payload = await req.json();
+    if (payload && typeof payload === 'object') return payload;
+  } catch {
+    // Reported below
+  }
+  throw new FunctionError('invalid_request', 'Request body must be a JSON object.');
+}
+
+// Command values are used directly - NO hardcoded fallbacks for model or prompts
+function validateCommand(command: unknown): CommandConfig {
+  const config = command as Partial<CommandConfig>;
+  if (!config.ai_model) throw new FunctionError('invalid_request', 'ai_model is required in command config');
+  if (!config.system_prompt) throw new FunctionError('invalid_request', 'system_prompt is required in command config');
+  if (!config.prompt) throw new FunctionError('invalid_request', 'prompt is required in command config');
+  return config as CommandConfig;
+}
+
+// The command with its prompt templates filled in (see template.ts)
+function renderCommand(command: CommandConfig, payload: Record<string, unknown>, text: string): CommandConfig {
+  const { values, answers } = readTemplateInput(payload, text);
+  return {
+    ...command,
+    system_prompt: renderTemplate(command.system_prompt, values, answers),
+    prompt: renderTemplate(command.prompt, values, answers),
+  };
+}
+
+// Whether either of the command's templates places the text, so it isn't appended again
+function templatesIncludeText({ system_prompt, prompt }: CommandConfig): boolean {
+  return [system_prompt, prompt].some(template =>
+    templateUses(template, 'selection') || templateUses(template, 'document')
+  );
+}
+
+// Client for the caller, after checking the JWT belongs to the user the body names
+export async function authenticate(req: Request, userId: string): Promise<SupabaseClient> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) throw new FunctionError('unauthorized', 'Missing Authorization header.');
+
+  const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace(/^Bearer\s+/i, ''));
+  if (error || !user || user.id !== userId) {
+    throw new FunctionError('unauthorized', 'You are not signed in as this user.');
+  }
+  return supabase;
+}
+
+/**
+ * Serves a command function: validates the `{ command, content, selectedText,
+ * userId, stream }` payload, renders the command's prompt templates,
+ * authenticates the caller, checks their rate limit and monthly budget, runs
+ * the completion with retries and a timeout, records per-model usage and
+ * returns `{ result }` as JSON or server-sent events.
+ */
+export function serveCommand(definition: CommandDefinition) {
+  const { name: functionName } = definition;
+
+  serve(handleRequest(functionName, async (req) => {
+    const payload = await readPayload(req);
+    const { command, content, selectedText, userId, stream } = payload;
+
+    if (typeof userId !== 'string' || !userId || !command) {
+      throw new FunctionError('invalid_request', 'User ID and command object are required.');
+    }
+    const text = (selectedText || content) as string | undefined;
+    if (typeof text !== 'string' || !text) {
+      throw new FunctionError('invalid_request', 'No text provided to process.');
+    }
+
+    const template = validateCommand(command);
+    const commandConfig = renderCommand(template, payload, text);
+    const supabase = await authenticate(req, userId);
+    await enforceRateLimit(supabase, functionName, rateLimitFor(functionName, definition.rateLimit));
+    await enforceBudget(supabase);
+
+    const model = commandConfig.ai_model;
+    // usageModel names the provider's model, which can differ from ai_model (see providers.ts)
+    const track = (usageModel: string, tokensInput: number, tokensOutput: number) =>
+      recordUsage(req, { userId, functionName, model: usageModel, tokensInput, tokensOutput });
+
+    const context: CommandContext = {
+      req,
+      functionName,
+      userId,
+      command: commandConfig,
+      text,
+      promptIncludesText: templatesIncludeText(template),
+      payload,
+      stream: !!stream,
+      supabase,
+      complete: async (messages, options = {}) => {
+        const completion = await requestChatCompletion({
+          model,
+          messages,
+          maxTokens: options.maxTokens ?? commandConfig.max_tokens ?? definition.defaultMaxTokens,
+          temperature: commandConfig.temperature,
+          responseFormat: options.responseFormat,
+        });
+        const result = await readChatResult(completion);
+        await track(
+          result.model,
+          result.usage?.tokensInput ?? estimateTokens(messages.map(m => m.content).join('\n')),
+          result.usage?.tokensOutput ?? estimateTokens(result.text)
+        );
+        return result.text;
+      },
+      embed: async (input) => {
+        const embedding = await embedText(input);
+        await track(EMBEDDING_USAGE_MODEL, estimateTokens(input), 0);
+        return embedding;
+      },
+    };
+
+    const messages = await (definition.buildMessages ?? defaultMessages)(context);
+    const promptText = messages.map(message => message.content).join('\n');
+    const finalize = (output: string) => (definition.finalize ?? defaultFinalize)(output, context);
+    const maxTokens = Math.max(commandConfig.max_tokens || definition.defaultMaxTokens, definition.minMaxTokens ?? 0);
+
+    console.log(`${functionName}: ${model}, max tokens ${maxTokens}, text length ${text.length}${stream ? ', streaming' : ''}`);
+
+    const completion = await requestChatCompletion({
+      model,
+      messages,
+      maxTokens,
+      temperature: commandConfig.temperature,
+      responseFormat: definition.responseFormat,
+      stream: !!stream,
+    });
+
+    if (stream) {
+      return streamChatCompletion({
+        upstream: completion.response,
+        corsHeaders,
+        promptText,
+        finalize,
+        onComplete: ({ usage }) => track(completion.model, usage.tokensInput, usage.tokensOutput),
+      });
+    }
+
+    const result = await readChatResult(completion);
+    await track(
+      result.model,
+      result.usage?.tokensInput ?? estimateTokens(promptText),
+      result.usage?.tokensOutput ?? estimateTokens(result.text)
+    );
+    if (!result.text.trim()) console.warn(`${functionName}: model returned an empty result`);
+
+    return jsonResponse(finalize(result.text));
+  }));
+}
@@ -0,0 +1,249 @@
+import { FunctionError } from "./http.ts";
+import { mapParams } from "./modelParams.ts";
+
+/**
+ * Model ids select a provider:
+ *   'anthropic/claude-sonnet-4-5', 'openai/gpt-5-mini', 'local/llama3.1:8b'
+ *   'claude-…'     Anthropic
+ *   anything else  LLM_PROVIDER (default 'openai')
+ *
+ * Configuration (Supabase function secrets):
+ *   OPENAI_API_KEY, OPENAI_BASE_URL         OpenAI, or a drop-in replacement
+ *   ANTHROPIC_API_KEY, ANTHROPIC_BASE_URL   Anthropic
+ *   LLM_BASE_URL, LLM_API_KEY               OpenAI-compatible server (Ollama, llama.cpp, a test stub)
+ *   LLM_PROVIDER                            'openai' | 'anthropic' | 'local' for unprefixed ids
+ *   LLM_MODEL                               replaces unprefixed ids, e.g. to run every command locally
+ */
+export type ProviderName = 'openai' | 'anthropic' | 'local';
+
+export interface ResolvedModel {
+  provider: ProviderName;
+  // The id sent to the provider
+  model: string;
+  // The id recorded in ai_usage; prefixed unless the provider is OpenAI
+  usageModel: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatParams {
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'json_object';
+  stream?: boolean;
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+const PROVIDER_LABELS: Record<ProviderName, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local model server',
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const env = (name: string) => Deno.env.get(name) || undefined;
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+export const providerLabel = (provider: ProviderName) => PROVIDER_LABELS[provider];
+
+export function openaiBaseUrl(): string {
+  return trimSlash(env('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1');
+}
+
+function isProviderName(value: string | undefined): value is ProviderName {
+  return value === 'openai' || value === 'anthropic' || value === 'local';
+}
+
+export function resolveModel(aiModel: string): ResolvedModel {
+  const [prefix, ...rest] = aiModel.split('/');
+  let provider: ProviderName;
+  let model: string;
+
+  if (rest.length > 0 && isProviderName(prefix)) {
+    provider = prefix;
+    model = rest.join('/');
+  } else if (aiModel.startsWith('claude-')) {
+    provider = 'anthropic';
+    model = aiModel;
+  } else {
+    const configured = env('LLM_PROVIDER') ?? 'openai';
+    if (!isProviderName(configured)) {
+      throw new FunctionError('config_error', `LLM_PROVIDER must be openai, anthropic or local, not "${configured}"`);
+    }
+    provider = configured;
+    model = env('LLM_MODEL') ?? aiModel;
+  }
+
+  const usageModel = provider === 'openai' ? model : `${provider}/${model}`;
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      if (!apiKey) throw new FunctionError('config_error', 'OPENAI_API_KEY is not configured');
+      return { provider, model, usageModel, baseUrl: openaiBaseUrl(), apiKey };
+    }
+    case 'anthropic': {
+      const apiKey = env('ANTHROPIC_API_KEY');
+      if (!apiKey) throw new FunctionError('config_error', 'ANTHROPIC_API_KEY is not configured');
+      return { provider, model, usageModel, baseUrl: trimSlash(env('ANTHROPIC_BASE_URL') ?? 'https://api.anthropic.com/v1'), apiKey };
+    }
+    case 'local': {
+      const baseUrl = env('LLM_BASE_URL');
+      if (!baseUrl) throw new FunctionError('config_error', 'LLM_BASE_URL is not configured for local models');
+      return { provider, model, usageModel, baseUrl: trimSlash(baseUrl), apiKey: env('LLM_API_KEY') };
+    }
+  }
+}
+
+function openaiRequest(resolved: ResolvedModel, params: ChatParams): ProviderRequest {
+  const { tokenKey, tokens, includeTemp } = mapParams(resolved.model, params.maxTokens, params.temperature);
+  const body: Record<string, unknown> = { model: resolved.model, messages: params.messages, [tokenKey]: tokens };
+  if (includeTemp !== false) body.temperature = includeTemp;
+  if (params.responseFormat) body.response_format = { type: params.responseFormat };
+  if (params.stream) {
+    body.stream = true;
+    body.stream_options = { include_usage: true };
+  }
+
+  return {
+    url: `${resolved.baseUrl}/chat/completions`,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(resolved.apiKey ? { 'Authorization': `Bearer ${resolved.apiKey}` } : {}),
+    },
+    body,
+  };
+}
+
+function anthropicRequest(resolved: ResolvedModel, params: ChatParams): ProviderRequest {
+  const system = params.messages.filter(m => m.role === 'system').map(m => m.content);
+  // Anthropic has no JSON mode; asking in the system prompt is the documented alternative
+  if (params.responseFormat === 'json_object') system.push('Respond with a single JSON object and nothing else.');
+
+  const body: Record<string, unknown> = {
+    model: resolved.model,
+    system: system.join('\n\n'),
+    messages: params.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content })),
+    max_tokens: mapParams(resolved.model, params.maxTokens, params.temperature).tokens,
+  };
+  if (params.temperature !== undefined) body.temperature = Math.min(params.temperature, 1);
+  if (params.stream) body.stream = true;
+
+  return {
+    url: `${resolved.baseUrl}/messages`,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': resolved.apiKey!,
+      'anthropic-version': ANTHROPIC_VERSION,
+    },
+    body,
+  };
+}
+
+export function buildChatRequest(resolved: ResolvedModel, params: ChatParams): ProviderRequest {
+  return resolved.provider === 'anthropic'
+    ? anthropicRequest(resolved, params)
+    : openaiRequest(resolved, params);
+}
+
+interface AnthropicMessage {
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+// Anthropic message -> OpenAI chat completion, so every caller reads one shape
+function anthropicToOpenAI(data: AnthropicMessage) {
+  return {
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: (data.content ?? []).filter(block => block.type === 'text').map(block => block.text ?? '').join(''),
+      },
+    }],
+    usage: data.usage
+      ? { prompt_tokens: data.usage.input_tokens, completion_tokens: data.usage.output_tokens }
+      : undefined,
+  };
+}
+
+// Anthropic server-sent events -> OpenAI stream chunks, ending with usage and [DONE]
+function anthropicStreamToOpenAI(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  const chunk = (payload: unknown) => encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(bytes, controller) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        let event;
+        try {
+          event = JSON.parse(trimmed.slice(5).trim());
+        } catch {
+          continue;
+        }
+
+        if (event.type === 'message_start') {
+          inputTokens = event.message?.usage?.input_tokens ?? 0;
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          controller.enqueue(chunk({ choices: [{ delta: { content: event.delta.text } }] }));
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+        } else if (event.type === 'error') {
+          controller.error(new Error(event.error?.message || 'Anthropic stream error'));
+          return;
+        }
+      }
+    },
+    flush(controller) {
+      controller.enqueue(chunk({ choices: [], usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens } }));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+    },
+  }));
+}
+
+/**
+ * Returns the provider's successful response in OpenAI's chat completion
+ * format (JSON or stream chunks).
+ */
+export async function normalizeChatResponse(resolved: ResolvedModel, response: Response, stream: boolean): Promise<Response> {
+  if (resolved.provider !== 'anthropic') {
+    if (stream) return response;
+    return new Response(await response.text(), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  if (stream) {
+    return new Response(anthropicStreamToOpenAI(response.body!), {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+    });
+  }
+  return new Response(JSON.stringify(anthropicToOpenAI(await response.json())), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
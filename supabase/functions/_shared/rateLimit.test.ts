@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// rateLimit.ts reads AI_RATE_LIMITS when it loads, so each test loads it afresh
+async function loadRateLimit(env: Record<string, string> = {}) {
+  vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } });
+  vi.resetModules();
+  return await import('./rateLimit.ts');
+}
+
+// A client whose consume_rate_limit returns `result`, recording the arguments
+function rpcClient(result: { data?: unknown; error?: unknown }) {
+  const rpc = vi.fn().mockResolvedValue({ data: result.data ?? null, error: result.error ?? null });
+  return { client: { rpc } as unknown as SupabaseClient, rpc };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('rateLimitFor', () => {
+  it('falls back from the function default to the shared default', async () => {
+    const { DEFAULT_RATE_LIMIT, rateLimitFor } = await loadRateLimit();
+    expect(rateLimitFor('search-documents')).toEqual({ maxRequests: 60, windowSeconds: 60 });
+    expect(rateLimitFor('ai-outline')).toEqual(DEFAULT_RATE_LIMIT);
+    expect(rateLimitFor('ai-outline', { maxRequests: 5, windowSeconds: 10 })).toEqual({ maxRequests: 5, windowSeconds: 10 });
+  });
+
+  it('prefers limits configured in AI_RATE_LIMITS', async () => {
+    const { rateLimitFor } = await loadRateLimit({
+      AI_RATE_LIMITS: JSON.stringify({ 'ai-outline': { maxRequests: 3, windowSeconds: 30 } }),
+    });
+    expect(rateLimitFor('ai-outline', { maxRequests: 5, windowSeconds: 10 })).toEqual({ maxRequests: 3, windowSeconds: 30 });
+  });
+
+  it('ignores invalid configuration', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { DEFAULT_RATE_LIMIT, rateLimitFor } = await loadRateLimit({
+      AI_RATE_LIMITS: JSON.stringify({ 'ai-outline': { maxRequests: 0, windowSeconds: 30 } }),
+    });
+    expect(rateLimitFor('ai-outline')).toEqual(DEFAULT_RATE_LIMIT);
+
+    const unparsable = await loadRateLimit({ AI_RATE_LIMITS: '{not json' });
+    expect(unparsable.rateLimitFor('ai-outline')).toEqual(unparsable.DEFAULT_RATE_LIMIT);
+  });
+});
+
+describe('enforceRateLimit', () => {
+  it('counts the request against the function and per-user windows', async () => {
+    const { DEFAULT_USER_RATE_LIMIT, enforceRateLimit } = await loadRateLimit();
+    const { client, rpc } = rpcClient({ data: 0 });
+
+    await enforceRateLimit(client, 'ai-outline', { maxRequests: 5, windowSeconds: 10 });
+
+    expect(rpc).toHaveBeenCalledWith('consume_rate_limit', {
+      function_name: 'ai-outline',
+      function_max_requests: 5,
+      function_window_seconds: 10,
+      user_max_requests: DEFAULT_USER_RATE_LIMIT.maxRequests,
+      user_window_seconds: DEFAULT_USER_RATE_LIMIT.windowSeconds,
+    });
+  });
+
+  it('uses the configured per-user limit', async () => {
+    const { enforceRateLimit } = await loadRateLimit({
+      AI_RATE_LIMITS: JSON.stringify({ '*': { maxRequests: 50, windowSeconds: 120 } }),
+    });
+    const { client, rpc } = rpcClient({ data: 0 });
+
+    await enforceRateLimit(client, 'ai-outline');
+
+    expect(rpc.mock.calls[0][1]).toMatchObject({ user_max_requests: 50, user_window_seconds: 120 });
+  });
+
+  it('throws rate_limited with the seconds to wait', async () => {
+    const { enforceRateLimit } = await loadRateLimit();
+    const { client } = rpcClient({ data: 42 });
+
+    const error = await enforceRateLimit(client, 'ai-outline').catch(e => e);
+
+    expect(error).toMatchObject({ name: 'FunctionError', code: 'rate_limited', status: 429, retryAfter: 42 });
+  });
+
+  it('lets the request through when the check fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { enforceRateLimit } = await loadRateLimit();
+    const { client } = rpcClient({ error: { message: 'connection refused' } });
+
+    await expect(enforceRateLimit(client, 'ai-outline')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { FunctionError } from "./http.ts";
+
+export interface RateLimit {
+  maxRequests: number;
+  windowSeconds: number;
+}
+
+// Matches the limit ai-analyze has always applied
+export const DEFAULT_RATE_LIMIT: RateLimit = { maxRequests: 30, windowSeconds: 5 * 60 };
+
+// Across every AI function, so switching functions doesn't multiply the limit
+export const DEFAULT_USER_RATE_LIMIT: RateLimit = { maxRequests: 200, windowSeconds: 5 * 60 };
+
+// Functions the app calls in the background or while typing get more room
+const FUNCTION_RATE_LIMITS: Record<string, RateLimit> = {
+  'search-documents': { maxRequests: 60, windowSeconds: 60 },
+  'generate-embeddings': { maxRequests: 60, windowSeconds: 5 * 60 },
+  'process-uploaded-document': { maxRequests: 60, windowSeconds: 5 * 60 },
+};
+
+function isRateLimit(value: unknown): value is RateLimit {
+  const limit = value as RateLimit;
+  return !!limit
+    && Number.isInteger(limit.maxRequests) && limit.maxRequests > 0
+    && Number.isInteger(limit.windowSeconds) && limit.windowSeconds > 0;
+}
+
+/**
+ * Limits from the AI_RATE_LIMITS secret, a JSON object keyed by function
+ * name, with "*" for the limit across all functions:
+ *   {"ai-chat": {"maxRequests": 20, "windowSeconds": 60}, "*": {...}}
+ */
+function configuredLimits(): Record<string, RateLimit> {
+  const raw = Deno.env.get('AI_RATE_LIMITS');
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return Object.fromEntries(
+      Object.entries(parsed ?? {}).filter(([name, limit]) => {
+        if (isRateLimit(limit)) return true;
+        console.warn(`Ignoring invalid AI_RATE_LIMITS entry for ${name}`);
+        return false;
+      })
+    ) as Record<string, RateLimit>;
+  } catch {
+    console.warn('AI_RATE_LIMITS is not valid JSON; using the default rate limits');
+    return {};
+  }
+}
+
+const CONFIGURED_LIMITS = configuredLimits();
+
+// Configuration wins over a function's own default
+export function rateLimitFor(functionName: string, fallback?: RateLimit): RateLimit {
+  return CONFIGURED_LIMITS[functionName] ?? fallback ?? FUNCTION_RATE_LIMITS[functionName] ?? DEFAULT_RATE_LIMIT;
+}
+
+/**
+ * Counts the request against the caller's sliding windows for this function
+ * and for all AI functions (consume_rate_limit), and throws `rate_limited`
+ * with the seconds until it would fit. A failed check lets the request
+ * through rather than blocking the user.
+ */
+export async function enforceRateLimit(
+  supabase: SupabaseClient,
+  functionName: string,
+  limit: RateLimit = rateLimitFor(functionName)
+): Promise<void> {
+  const userLimit = CONFIGURED_LIMITS['*'] ?? DEFAULT_USER_RATE_LIMIT;
+
+  const { data: retryAfter, error } = await supabase.rpc('consume_rate_limit', {
+    function_name: functionName,
+    function_max_requests: limit.maxRequests,
+    function_window_seconds: limit.windowSeconds,
+    user_max_requests: userLimit.maxRequests,
+    user_window_seconds: userLimit.windowSeconds,
+  });
+
+  if (error) {
+    console.error('Rate limit check failed (non-critical):', error);
+    return;
+  }
+
+  if (typeof retryAfter === 'number' && retryAfter > 0) {
+    throw new FunctionError(
+      'rate_limited',
+      'Rate limit exceeded. Please wait a moment before trying again.',
+      { retryAfter }
+    );
+  }
+}
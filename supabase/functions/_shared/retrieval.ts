@@ -0,0 +1,115 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chunkText } from "./chunking.ts";
+
+export interface Passage {
+  id: string;
+  document_id: string;
+  title: string;
+  content: string;
+  chunk_index: number;
+  start_offset: number;
+  end_offset: number;
+  similarity: number;
+}
+
+export interface SourcePassage extends Pick<Passage, 'content' | 'start_offset' | 'end_offset' | 'similarity'> {
+  // Number used for [n] citation markers in answers
+  citation?: number;
+}
+
+export interface PassageSource {
+  id: string;
+  title: string;
+  similarity: number;
+  passages: SourcePassage[];
+}
+
+interface MatchPassagesOptions {
+  embedding: number[];
+  threshold: number;
+  count: number;
+}
+
+// The caller's passages closest to `embedding`; needs a client acting as the user
+export async function matchPassages(
+  supabase: SupabaseClient,
+  { embedding, threshold, count }: MatchPassagesOptions
+): Promise<Passage[]> {
+  const { data, error } = await supabase.rpc('match_document_chunks', {
+    query_embedding: embedding,
+    match_threshold: threshold,
+    match_count: count
+  });
+
+  if (error) throw error;
+  return (data || []) as Passage[];
+}
+
+/**
+ * Groups passages by document, keeping each document's passages in reading
+ * order. Documents are ordered by their best passage.
+ */
+export function groupPassagesByDocument(passages: Passage[]): PassageSource[] {
+  const byDocument = new Map<string, PassageSource>();
+
+  for (const passage of passages) {
+    let source = byDocument.get(passage.document_id);
+    if (!source) {
+      source = { id: passage.document_id, title: passage.title, similarity: passage.similarity, passages: [] };
+      byDocument.set(passage.document_id, source);
+    }
+    source.similarity = Math.max(source.similarity, passage.similarity);
+    source.passages.push({
+      content: passage.content,
+      start_offset: passage.start_offset,
+      end_offset: passage.end_offset,
+      similarity: passage.similarity
+    });
+  }
+
+  return [...byDocument.values()]
+    .map(source => ({
+      ...source,
+      passages: source.passages.sort((a, b) => a.start_offset - b.start_offset)
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Picks passages from a document that has no indexed chunks, preferring the
+ * chunks that mention the most query terms. Falls back to the opening chunk.
+ */
+export function excerptPassages(
+  content: string,
+  query: string,
+  similarity: number,
+  maxPassages = 2
+): SourcePassage[] {
+  const terms = query.toLowerCase().split(/\W+/).filter(term => term.length > 2);
+  const scored = chunkText(content).map(chunk => {
+    const text = chunk.content.toLowerCase();
+    return { chunk, score: terms.filter(term => text.includes(term)).length };
+  });
+
+  const best = scored.some(entry => entry.score > 0)
+    ? scored.filter(entry => entry.score > 0).sort((a, b) => b.score - a.score).slice(0, maxPassages)
+    : scored.slice(0, 1);
+
+  return best
+    .map(({ chunk }) => ({
+      content: chunk.content,
+      start_offset: chunk.startOffset,
+      end_offset: chunk.endOffset,
+      similarity
+    }))
+    .sort((a, b) => a.start_offset - b.start_offset);
+}
+
+// Numbers every passage, in source order, so answers can cite them as [1], [2], ...
+export function numberPassages(sources: PassageSource[]): PassageSource[] {
+  let citation = 0;
+  return sources.map(source => ({
+    ...source,
+    passages: source.passages.map(passage => ({ ...passage, citation: ++citation }))
+  }));
+}
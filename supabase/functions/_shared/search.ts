@@ -0,0 +1,40 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface DocumentSearchResult {
+  id: string;
+  title: string;
+  // Matching excerpt with terms wrapped in <mark></mark>
+  snippet: string;
+  // Null when the document matched on only one side of the fusion
+  text_rank: number | null;
+  similarity: number | null;
+  score: number;
+}
+
+interface SearchDocumentsOptions {
+  query: string;
+  // Omit to search by keywords only
+  embedding?: number[];
+  threshold?: number;
+  count?: number;
+}
+
+/**
+ * Hybrid keyword + semantic search over whole documents (see the
+ * search_documents RPC), ranked by reciprocal rank fusion. Searches the
+ * documents of the user the client acts as.
+ */
+export async function searchDocuments(
+  supabase: SupabaseClient,
+  { query, embedding, threshold = 0.3, count = 20 }: SearchDocumentsOptions
+): Promise<DocumentSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_documents', {
+    search_query: query,
+    query_embedding: embedding ?? null,
+    match_threshold: threshold,
+    match_count: count
+  });
+
+  if (error) throw error;
+  return (data || []) as DocumentSearchResult[];
+}
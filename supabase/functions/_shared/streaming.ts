@@ -0,0 +1,152 @@
+import { FunctionError } from "./http.ts";
+import { estimateTokens } from "./usage.ts";
+
+// Server-sent event protocol shared by every streaming AI function:
+//   { type: 'meta', ...meta }           once, before any tokens (optional)
+//   { type: 'token', content }          for each delta from the model
+//   { type: 'done', result, ...extra }  after the model finishes
+//   { type: 'error', error, code? }     if the upstream stream or finalize fails
+
+export interface StreamUsage {
+  tokensInput: number;
+  tokensOutput: number;
+}
+
+export interface StreamCompletion {
+  text: string;
+  usage: StreamUsage;
+  cancelled: boolean;
+}
+
+interface StreamOptions {
+  // Streaming chat completion from requestChatCompletion, in OpenAI's chunk format
+  upstream: Response;
+  corsHeaders: Record<string, string>;
+  // Sent to the client before the first token (e.g. chat sources)
+  meta?: Record<string, unknown>;
+  // Used for usage accounting if the stream is cancelled before the provider reports usage
+  promptText?: string;
+  // Maps the full streamed text to the `done` event payload; defaults to `{ result: text.trim() }`
+  finalize?: (text: string) => Record<string, unknown>;
+  // Runs exactly once, when the stream completes or the client cancels
+  onComplete?: (completion: StreamCompletion) => Promise<void> | void;
+}
+
+interface OpenAIStreamChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+export function streamChatCompletion({
+  upstream,
+  corsHeaders,
+  meta,
+  promptText = '',
+  finalize = (text) => ({ result: text.trim() }),
+  onComplete,
+}: StreamOptions): Response {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const reader = upstream.body!.getReader();
+
+  let fullText = '';
+  let usage: StreamUsage | null = null;
+  let completed = false;
+
+  const complete = async (cancelled: boolean) => {
+    if (completed) return;
+    completed = true;
+    try {
+      await onComplete?.({
+        text: fullText,
+        usage: usage ?? {
+          tokensInput: estimateTokens(promptText),
+          tokensOutput: estimateTokens(fullText),
+        },
+        cancelled,
+      });
+    } catch (error) {
+      console.error('Stream completion handler failed:', error);
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      if (meta) send({ type: 'meta', ...meta });
+
+      let buffer = '';
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') continue;
+
+            let chunk: OpenAIStreamChunk;
+            try {
+              chunk = JSON.parse(payload);
+            } catch {
+              console.warn('Skipping malformed stream chunk:', payload);
+              continue;
+            }
+
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              fullText += delta;
+              send({ type: 'token', content: delta });
+            }
+
+            if (chunk.usage) {
+              usage = {
+                tokensInput: chunk.usage.prompt_tokens,
+                tokensOutput: chunk.usage.completion_tokens,
+              };
+            }
+          }
+        }
+
+        if (completed) return;
+        send({ type: 'done', ...finalize(fullText) });
+        await complete(false);
+        controller.close();
+      } catch (error) {
+        if (completed) return;
+        console.error('Streaming error:', error);
+        send({
+          type: 'error',
+          error: (error as Error).message,
+          ...(error instanceof FunctionError ? { code: error.code } : {}),
+        });
+        await complete(true);
+        controller.close();
+      }
+    },
+    async cancel() {
+      // Client disconnected or aborted: stop paying for tokens nobody will read
+      await reader.cancel().catch(() => {});
+      await complete(true);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,277 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { batchByBudget, mapWithConcurrency, splitToBudget } from "./batching.ts";
+import { indexDocumentChunks } from "./embeddings.ts";
+import { FunctionError } from "./http.ts";
+import { readChatResult, requestChatCompletion } from "./llm.ts";
+import { estimateTokens, recordUsage, UsageSink } from "./usage.ts";
+
+export type SynthesisType = 'merge' | 'summary' | 'outline' | 'comparison' | 'bestof';
+
+export interface SourceDocument {
+  id: string;
+  title: string;
+  content: string | null;
+}
+
+export interface SynthesisRequest {
+  // Where each model call's usage is recorded
+  usageSink: UsageSink;
+  userId: string;
+  documents: SourceDocument[];
+  synthesisType?: SynthesisType;
+  instructions?: string;
+  // Called between steps with a fraction of the work done
+  onProgress?: (fraction: number, message: string) => Promise<void>;
+}
+
+export interface GeneratedDocument {
+  title: string;
+  content: string;
+}
+
+const SYNTHESIS_PROMPTS: Record<SynthesisType, string> = {
+  merge: `Combine these documents into a single coherent piece. Maintain the author's voice and style. Remove redundancies and create smooth transitions:`,
+  summary: `Create a comprehensive summary that captures the key points from all these documents. Maintain the essence while being concise:`,
+  outline: `Create a structured outline that organizes all the content from these documents into a logical hierarchy:`,
+  comparison: `Analyze these documents and identify common themes, differences, and how they relate to each other:`,
+  bestof: `Review these document versions and create a single best version that takes the strongest parts from each. Maintain consistency and flow:`,
+};
+
+// What to keep from each document when a selection is too large for one pass
+const MAP_PROMPTS: Record<SynthesisType, string> = {
+  merge: `Extract everything from this document that belongs in a combined piece: its arguments, examples and distinctive passages. Keep the author's wording where it carries their voice.`,
+  summary: `Summarize the key points of this document, keeping its essence.`,
+  outline: `Outline the structure and main points of this document as a nested list.`,
+  comparison: `List this document's themes, positions, claims and evidence, so it can be compared with others.`,
+  bestof: `Quote the strongest passages of this document verbatim, noting briefly what makes each strong.`,
+};
+
+const REDUCE_PROMPT = `Combine these partial results into one. Merge overlapping points and remove repetition, but keep the detail a final document will need. Keep the source markers, such as [3], on every point.`;
+
+const CITATION_INSTRUCTIONS = `Each source is labelled with a marker such as [1]. End every section with the markers of the sources it draws on, for example [2][5]. Only cite the markers given.`;
+
+const SYNTHESIS_SYSTEM_PROMPT = 'You are an expert editor who combines multiple drafts into polished, coherent documents while preserving the author\'s unique voice.';
+
+// GPT-5 Mini for synthesis (excellent quality at low cost)
+const SYNTHESIS_MODEL = 'gpt-5-mini-2025-08-07';
+// GPT-5 Nano for titles (ultra-cheap for simple tasks)
+const TITLE_MODEL = 'gpt-5-nano-2025-08-07';
+
+// Source text sent in a single call. Larger selections are summarized per
+// document, then combined in batches of this size until one call can hold them.
+const INPUT_TOKEN_BUDGET = 24_000;
+// Left over for the prompt around the source text
+const PROMPT_OVERHEAD_TOKENS = 1_000;
+const MAP_OUTPUT_TOKENS = 1_000;
+const REDUCE_OUTPUT_TOKENS = 2_000;
+const FINAL_OUTPUT_TOKENS = 4_000;
+// Calls in flight at once during the map and reduce rounds
+const CONCURRENCY = 4;
+
+const SOURCE_SEPARATOR = '\n\n---\n\n';
+
+export interface SynthesisStep {
+  stage: 'map' | 'reduce';
+  // 1 for the per-document pass, rising with each round of combining
+  level: number;
+  // Markers of the source documents the step covers, counting from 1
+  sources: number[];
+  content: string;
+}
+
+export interface SynthesisResult extends GeneratedDocument {
+  // Partial results on the way to the final text; empty when it took one pass
+  steps: SynthesisStep[];
+}
+
+// Source text or a partial result, headed with the markers it covers
+interface Passage {
+  heading: string;
+  sources: number[];
+  content: string;
+}
+
+function formatPassages(passages: Passage[]): string {
+  return passages.map(passage => `## ${passage.heading}\n\n${passage.content}`).join(SOURCE_SEPARATOR);
+}
+
+function markers(sources: number[]): string {
+  return sources.map(source => `[${source}]`).join('');
+}
+
+export function isSynthesisType(value: unknown): value is SynthesisType {
+  return typeof value === 'string' && value in SYNTHESIS_PROMPTS;
+}
+
+/** A short title for generated text, or `fallback` when the model gives none. */
+export async function generateTitle(usageSink: UsageSink, userId: string, functionName: string, content: string, fallback: string): Promise<string> {
+  try {
+    const titleResponse = await requestChatCompletion({
+      model: TITLE_MODEL,
+      messages: [
+        { role: 'system', content: 'Generate a concise, descriptive title for this document.' },
+        { role: 'user', content: content.substring(0, 1000) },
+      ],
+      maxTokens: 50,
+      retries: 0,
+    });
+    const { text, usage, model } = await readChatResult(titleResponse);
+    if (usage) await recordUsage(usageSink, { userId, functionName, model, ...usage });
+    return text.trim() ? text.replace(/['"]/g, '').trim() : fallback;
+  } catch (titleError) {
+    console.error('Title generation failed, using default:', titleError);
+    return fallback;
+  }
+}
+
+async function complete({ usageSink, userId }: SynthesisRequest, prompt: string, maxTokens: number): Promise<string> {
+  const chatResponse = await requestChatCompletion({
+    model: SYNTHESIS_MODEL,
+    messages: [
+      { role: 'system', content: SYNTHESIS_SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ],
+    maxTokens,
+    // Long syntheses take a while to generate
+    timeoutMs: 120_000,
+  });
+
+  const { text, usage, model } = await readChatResult(chatResponse);
+  if (usage) {
+    await recordUsage(usageSink, { userId, functionName: 'synthesize-documents', model, ...usage });
+  }
+  if (!text.trim()) throw new FunctionError('invalid_response', 'The AI returned an empty response');
+  return text.trim();
+}
+
+/**
+ * Combines the documents into one as `synthesisType` describes, with a title.
+ * Sources are numbered in the order given and cited section by section. When
+ * they don't fit one call, each document is condensed for the synthesis type
+ * and the results are combined in budgeted batches first; those partial
+ * results are returned as `steps`.
+ */
+export async function synthesizeDocuments(request: SynthesisRequest): Promise<SynthesisResult> {
+  const { usageSink, userId, documents, synthesisType = 'merge', instructions, onProgress } = request;
+  if (!isSynthesisType(synthesisType)) {
+    throw new FunctionError('invalid_request', `Unknown synthesis type: ${synthesisType}`);
+  }
+
+  const withInstructions = (prompt: string) => instructions ? `${prompt}\n\nAdditional instructions: ${instructions}` : prompt;
+  const steps: SynthesisStep[] = [];
+  let passages: Passage[] = documents.map((doc, index) => ({
+    heading: `[${index + 1}] ${doc.title}`,
+    sources: [index + 1],
+    content: doc.content ?? '',
+  }));
+
+  console.log(`Using synthesis type: ${synthesisType}`);
+
+  if (estimateTokens(formatPassages(passages)) > INPUT_TOKEN_BUDGET) {
+    // Map: condense each document, in pieces when it is too long on its own
+    const pieces = passages.flatMap(passage => {
+      const parts = splitToBudget(passage.content, INPUT_TOKEN_BUDGET - PROMPT_OVERHEAD_TOKENS);
+      return parts.map((content, part) => ({
+        ...passage,
+        heading: parts.length > 1 ? `${passage.heading} (part ${part + 1} of ${parts.length})` : passage.heading,
+        content,
+      }));
+    });
+
+    console.log(`Mapping ${pieces.length} pieces of ${documents.length} documents`);
+    let mapped = 0;
+    passages = await mapWithConcurrency(pieces, CONCURRENCY, async piece => {
+      const content = await complete(
+        request,
+        withInstructions(`${MAP_PROMPTS[synthesisType]} Mark every point with ${markers(piece.sources)}.\n\n${formatPassages([piece])}`),
+        MAP_OUTPUT_TOKENS
+      );
+      steps.push({ stage: 'map', level: 1, sources: piece.sources, content });
+      mapped++;
+      await onProgress?.(0.05 + 0.55 * (mapped / pieces.length), `Reading documents (${mapped} of ${pieces.length})`);
+      return { heading: piece.heading, sources: piece.sources, content };
+    });
+
+    // Reduce: combine batches until everything fits the final call
+    let level = 1;
+    while (passages.length > 1 && estimateTokens(formatPassages(passages)) > INPUT_TOKEN_BUDGET) {
+      level++;
+      const batches = batchByBudget(passages, INPUT_TOKEN_BUDGET - PROMPT_OVERHEAD_TOKENS);
+      console.log(`Combining ${passages.length} partial results in ${batches.length} batches`);
+      await onProgress?.(Math.min(0.8, 0.6 + 0.05 * (level - 1)), `Combining ${passages.length} partial results`);
+
+      passages = await mapWithConcurrency(batches, CONCURRENCY, async batch => {
+        const sources = [...new Set(batch.flatMap(passage => passage.sources))].sort((a, b) => a - b);
+        const content = await complete(
+          request,
+          withInstructions(`${REDUCE_PROMPT}\n\n${formatPassages(batch)}`),
+          REDUCE_OUTPUT_TOKENS
+        );
+        steps.push({ stage: 'reduce', level, sources, content });
+        return { heading: `Sources ${markers(sources)}`, sources, content };
+      });
+    }
+  }
+
+  await onProgress?.(steps.length > 0 ? 0.8 : 0.1, 'Synthesizing documents');
+  const synthesized = await complete(
+    request,
+    withInstructions(`${SYNTHESIS_PROMPTS[synthesisType]}\n\n${CITATION_INSTRUCTIONS}\n\n${formatPassages(passages)}`),
+    FINAL_OUTPUT_TOKENS
+  );
+
+  const sourceList = documents.map((doc, index) => `[${index + 1}] ${doc.title}`).join('\n');
+  const content = `${synthesized}\n\n## Sources\n\n${sourceList}`;
+
+  await onProgress?.(0.9, 'Writing a title');
+  const title = await generateTitle(usageSink, userId, 'synthesize-documents', synthesized, 'Synthesized Document');
+  // Calls finish in any order; steps read by round, then by source
+  steps.sort((a, b) => a.level - b.level || a.sources[0] - b.sources[0]);
+  return { title, content, steps };
+}
+
+/**
+ * Saves generated text as a new draft for the user and indexes its chunks for
+ * search. A failed embedding is logged; the document is kept.
+ */
+export async function saveGeneratedDocument(
+  supabase: SupabaseClient,
+  userId: string,
+  document: GeneratedDocument & { category: string }
+) {
+  const { data: newDoc, error: insertError } = await supabase
+    .from('documents')
+    .insert({
+      user_id: userId,
+      title: document.title,
+      content: document.content,
+      category: document.category,
+      status: 'draft',
+      word_count: document.content.split(/\s+/).filter(Boolean).length,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    console.error('Error saving document:', insertError);
+    throw insertError;
+  }
+
+  try {
+    // Chunked like any saved document, so its passages can be cited in chat
+    const { embedding } = await indexDocumentChunks(supabase, {
+      documentId: newDoc.id,
+      userId,
+      content: document.content,
+    });
+    const { error: updateError } = await supabase
+      .from('documents')
+      .update({ embedding })
+      .eq('id', newDoc.id);
+    if (updateError) throw updateError;
+  } catch (embeddingError) {
+    console.error('Embedding generation failed:', embeddingError);
+  }
+
+  return newDoc;
+}
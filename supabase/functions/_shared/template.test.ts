@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { FunctionError } from './http.ts';
+import { readTemplateInput, renderTemplate, templateUses } from './template.ts';
+
+describe('templateUses', () => {
+  it('finds a variable with or without inner spaces', () => {
+    expect(templateUses('Fix {{selection}}.', 'selection')).toBe(true);
+    expect(templateUses('Fix {{ document }}.', 'document')).toBe(true);
+  });
+
+  it('ignores other variables and questions', () => {
+    expect(templateUses('Title: {{title}}, tone: {{ask:Tone}}', 'selection')).toBe(false);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills in variables and answers', () => {
+    const rendered = renderTemplate(
+      'Rewrite "{{title}}" in a {{ ask: Tone }} tone:\n{{selection}}',
+      { title: 'Notes', selection: 'Some text.' },
+      { Tone: 'warm' }
+    );
+    expect(rendered).toBe('Rewrite "Notes" in a warm tone:\nSome text.');
+  });
+
+  it('renders missing values as empty', () => {
+    expect(renderTemplate('Category: {{category}}.', {}, {})).toBe('Category: .');
+  });
+
+  it('leaves unknown placeholders as written', () => {
+    expect(renderTemplate('Keep {{ mustache }} and {{}} as is.', {}, {})).toBe('Keep {{ mustache }} and {{}} as is.');
+  });
+
+  it('rejects a question without an answer', () => {
+    const render = () => renderTemplate('Tone: {{ask:Tone}}', {}, { Audience: 'kids' });
+    expect(render).toThrow(FunctionError);
+    expect(render).toThrow('No answer was given for "Tone".');
+  });
+});
+
+describe('readTemplateInput', () => {
+  it('uses the text the command works on as the selection', () => {
+    const { values } = readTemplateInput({ templateValues: { selection: 'stale selection' } }, 'Selected part.');
+    expect(values.selection).toBe('Selected part.');
+  });
+
+  it('falls back to the request content for the document', () => {
+    expect(readTemplateInput({ content: 'Whole document.' }, 'Part.').values.document).toBe('Whole document.');
+    expect(readTemplateInput(
+      { content: 'Whole document.', templateValues: { document: 'Sent document.' } },
+      'Part.'
+    ).values.document).toBe('Sent document.');
+  });
+
+  it('keeps only known variables and string values', () => {
+    const { values, answers } = readTemplateInput({
+      templateValues: { title: 'Notes', unknown: 'x', category: 3 },
+      templateAnswers: { Tone: 'warm', Length: 2 },
+    }, 'Part.');
+
+    expect(values).toEqual({ title: 'Notes', selection: 'Part.' });
+    expect(answers).toEqual({ Tone: 'warm' });
+  });
+});
@@ -0,0 +1,80 @@
+// Prompt templates for user commands. `{{name}}` inserts a value from the
+// editor and `{{ask:Label}}` inserts the user's answer to a question asked
+// before the command runs. The syntax matches src/utils/promptTemplate.ts.
+import { FunctionError } from "./http.ts";
+
+export const TEMPLATE_VARIABLES = [
+  'selection',
+  'document',
+  'title',
+  'category',
+  'before_cursor',
+  'after_cursor',
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const ASK_PREFIX = /^ask\s*:\s*/i;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
+
+// The question for an `ask:` placeholder, or null for any other placeholder
+function askLabel(name: string): string | null {
+  return ASK_PREFIX.test(name) ? name.replace(ASK_PREFIX, '').trim() : null;
+}
+
+function asStringRecord(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
+export function templateUses(template: string, variable: TemplateVariable): boolean {
+  return [...template.matchAll(PLACEHOLDER)].some(([, name]) => name === variable);
+}
+
+/**
+ * Fills in a template. Unknown placeholders are left as written, so prompts
+ * that happen to contain braces keep working; a question without an answer
+ * is an invalid request.
+ */
+export function renderTemplate(template: string, values: TemplateValues, answers: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const label = askLabel(name);
+    if (label !== null) {
+      const answer = answers[label];
+      if (answer === undefined) {
+        throw new FunctionError('invalid_request', `No answer was given for "${label}".`);
+      }
+      return answer;
+    }
+    return isTemplateVariable(name) ? values[name] ?? '' : placeholder;
+  });
+}
+
+/**
+ * Template values from a command request. `{{selection}}` is the text the
+ * command works on, like the appended text it replaces; the client sends
+ * `templateValues` for the rest, with the questions answered in
+ * `templateAnswers`.
+ */
+export function readTemplateInput(
+  payload: Record<string, unknown>,
+  text: string
+): { values: TemplateValues; answers: Record<string, string> } {
+  const sent = asStringRecord(payload.templateValues);
+  const values: TemplateValues = {};
+  for (const variable of TEMPLATE_VARIABLES) {
+    if (sent[variable] !== undefined) values[variable] = sent[variable];
+  }
+
+  values.selection = text;
+  if (values.document === undefined && typeof payload.content === 'string') values.document = payload.content;
+
+  return { values, answers: asStringRecord(payload.templateAnswers) };
+}
@@ -0,0 +1,102 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface UsageRecord {
+  userId: string;
+  functionName: string;
+  model: string;
+  tokensInput: number;
+  tokensOutput: number;
+}
+
+// USD per million tokens. Dated model ids ('gpt-5-nano-2025-08-07') match by
+// their longest listed prefix.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'o3': { input: 2, output: 8 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+};
+
+// Unknown models are costed as GPT-5 Mini, the default chat model
+const FALLBACK_PRICE = MODEL_PRICES['gpt-5-mini'];
+
+function priceFor(model: string) {
+  // Models on a local OpenAI-compatible server cost nothing per token
+  if (model.startsWith('local/')) return { input: 0, output: 0 };
+  const listed = model.startsWith('anthropic/') ? model.slice('anthropic/'.length) : model;
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(candidate => listed === candidate || listed.startsWith(`${candidate}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!prefix) console.warn(`No price listed for model ${model}; using the default estimate`);
+  return prefix ? MODEL_PRICES[prefix] : FALLBACK_PRICE;
+}
+
+export function estimateCost(model: string, tokensInput: number, tokensOutput: number): number {
+  const price = priceFor(model);
+  return (tokensInput * price.input + tokensOutput * price.output) / 1_000_000;
+}
+
+// Rough token estimate for when the provider does not report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function callerClient(req: Request): SupabaseClient | null {
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+  const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
+  const authHeader = req.headers.get('Authorization');
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !authHeader) return null;
+
+  return createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } },
+  });
+}
+
+// Where usage is recorded: as the caller of a request, or through a client
+// (the service role, for work that outlives the caller's JWT)
+export type UsageSink = Request | SupabaseClient;
+
+/**
+ * Inserts an ai_usage row using the caller's JWT so RLS applies, or with the
+ * given client. Never throws: usage tracking must not fail the request.
+ */
+export async function recordUsage(sink: UsageSink, record: UsageRecord): Promise<void> {
+  try {
+    const supabase = sink instanceof Request ? callerClient(sink) : sink;
+    if (!supabase) {
+      console.warn('Skipping usage tracking: missing Supabase configuration or auth header');
+      return;
+    }
+
+    const { error } = await supabase.from('ai_usage').insert({
+      user_id: record.userId,
+      function_name: record.functionName,
+      model: record.model,
+      tokens_input: record.tokensInput,
+      tokens_output: record.tokensOutput,
+      cost_estimate: estimateCost(record.model, record.tokensInput, record.tokensOutput)
+    });
+
+    if (error) {
+      console.error('Failed to track usage (non-critical):', error);
+    }
+  } catch (trackingError) {
+    console.error('Failed to track usage (non-critical):', trackingError);
+  }
+}
@@ -1,177 +1,24 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    // 1) Expect the full command object and other necessary data
-    const { command, content, selectedText, userId } = await req.json();
-
-    // 2) Validate the payload
-    if (!userId || !command) {
-      throw new Error('User ID and command object are required.');
-    }
-    const textToProcess = selectedText || content;
-    if (!textToProcess) {
-      throw new Error('No text provided to process.');
-    }
-
-    // Get environment variables
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    const supabaseUrl = Deno.env.get('SUPABASE_URL');
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-
-    if (!openAIApiKey || !supabaseUrl || !supabaseServiceKey) {
-      console.error('Missing environment variables');
-      return new Response(
-        JSON.stringify({ 
-          error: 'Server configuration error',
-          success: false
-        }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Initialize Supabase client
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    // Rate limiting check
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
-    const { count } = await supabase
-      .from('ai_usage')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .gte('created_at', fiveMinutesAgo);
-
-    if (count && count >= 30) { // 30 requests per 5 minutes
-      return new Response(
-        JSON.stringify({ 
-          error: 'Rate limit exceeded. Please wait a moment before trying again.',
-          success: false
-        }),
-        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // 3) Use command object values directly - NO hardcoded fallbacks
-    const commandConfig = command;
-    
-    // Validate required fields
-    if (!commandConfig.ai_model) throw new Error('ai_model is required in command config');
-    if (!commandConfig.system_prompt) throw new Error('system_prompt is required in command config');
-    if (!commandConfig.prompt) throw new Error('prompt is required in command config');
-    
-    const model = commandConfig.ai_model;
-    const maxTokens = commandConfig.max_tokens || 1500;
-    const systemPrompt = commandConfig.system_prompt;
-    const userPrompt = commandConfig.prompt;
-
-    console.log(`Making OpenAI API call for analysis with model: ${model}`);
-    
-    // Determine token parameter based on model
-    const isNewerModel = model.includes('gpt-5') || model.includes('gpt-4.1') || model.includes('o3') || model.includes('o4');
-    const tokenParam = isNewerModel ? 'max_completion_tokens' : 'max_tokens';
-
-    const requestBody = {
-      model: model,
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt
-        },
-        {
-          role: 'user',
-          content: `${userPrompt}\n\n---\n\n${textToProcess}`
-        }
-      ],
-      response_format: { type: 'json_object' }
-    };
-
-    // Add appropriate token parameter
-    requestBody[tokenParam] = maxTokens;
-
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenAI API error:', errorData);
-      return new Response(
-        JSON.stringify({ 
-          error: 'AI analysis failed. Please try again.',
-          success: false
-        }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const data = await response.json();
-    const analysisResult = data.choices[0].message.content;
-
-    // Parse the JSON response
+import { FunctionError } from "../_shared/http.ts";
+import { serveCommand } from "../_shared/pipeline.ts";
+
+serveCommand({
+  name: 'ai-analyze',
+  defaultMaxTokens: 1500,
+  responseFormat: 'json_object',
+  finalize: (text, { text: original }) => {
     let analysis;
     try {
-      analysis = JSON.parse(analysisResult);
+      analysis = JSON.parse(text);
     } catch (e) {
       console.error('Failed to parse analysis JSON:', e);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Analysis formatting error. Please try again.',
-          success: false
-        }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Log usage to database
-    try {
-      await supabase.from('ai_usage').insert({
-        user_id: userId,
-        function_name: 'ai-analyze',
-        model: model,
-        tokens_input: data.usage?.prompt_tokens || 0,
-        tokens_output: data.usage?.completion_tokens || 0,
-        cost_estimate: (data.usage?.total_tokens || 0) * 0.0001 // Rough estimate
-      });
-    } catch (dbError) {
-      console.error('Failed to log usage:', dbError);
-      // Continue anyway - don't fail the request
+      throw new FunctionError('invalid_response', 'Analysis formatting error. Please try again.');
     }
 
-    console.log('Analysis completed successfully');
-
-    // 6) Consistent success response
-    return new Response(
-      JSON.stringify({ 
-        result: analysis,
-        originalText: textToProcess,
-        timestamp: new Date().toISOString()
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-
-  } catch (error) {
-    console.error('Error in ai-analyze function:', error);
-    return new Response(
-      JSON.stringify({ error: (error as Error).message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
-});
\ No newline at end of file
+    return {
+      result: analysis,
+      originalText: original,
+      timestamp: new Date().toISOString()
+    };
+  },
+});
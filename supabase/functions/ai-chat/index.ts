@@ -1,13 +1,54 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { mapParams } from "../_shared/modelParams.ts";
+import { enforceBudget } from "../_shared/budget.ts";
+import { EMBEDDING_USAGE_MODEL, embedText } from "../_shared/embeddings.ts";
+import { errorResponse, FunctionError } from "../_shared/http.ts";
+import { readChatResult, requestChatCompletion } from "../_shared/llm.ts";
+import { authenticate } from "../_shared/pipeline.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import { streamChatCompletion } from "../_shared/streaming.ts";
+import { estimateTokens, recordUsage } from "../_shared/usage.ts";
+import {
+  excerptPassages,
+  groupPassagesByDocument,
+  matchPassages,
+  numberPassages,
+  PassageSource,
+} from "../_shared/retrieval.ts";
+import { searchDocuments } from "../_shared/search.ts";
+import {
+  createConversation,
+  fitTurnsToBudget,
+  getConversation,
+  loadUnsummarizedTurns,
+  saveMessage,
+  summarizeOverflow,
+} from "../_shared/conversations.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// A document offered to the model as context: matched passages when it has
+// been chunked, otherwise its full content to excerpt passages from
+interface ContextDocument extends PassageSource {
+  content?: string;
+}
+
+function formatContextDocument(doc: PassageSource): string {
+  const header = `Document: "${doc.title}" (relevance: ${(doc.similarity * 100).toFixed(1)}%)`;
+  const passages = doc.passages
+    .map(passage => `[${passage.citation}] ${passage.content}`)
+    .join('\n\n');
+  return `${header}\n${passages}\n`;
+}
+
+// Markers in earlier answers point at passages from earlier retrievals, not this one
+function stripCitations(text: string): string {
+  return text.replace(/\s?\[\d+\]/g, '');
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -15,32 +56,25 @@ serve(async (req) => {
   }
 
   try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
-    const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
-    
-    if (!OPENAI_API_KEY || !SUPABASE_URL || !SUPABASE_ANON_KEY) {
-      throw new Error('Missing required environment variables');
-    }
-
-    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
-      global: {
-        headers: { Authorization: req.headers.get('Authorization')! },
-      },
-    });
-
     // 1) Expect the full command object and other necessary data
-    const { command, content, selectedText, userId, message } = await req.json();
+    const { command, content, selectedText, userId, message, stream, conversationId } = await req.json();
 
     // 2) Validate the payload - for chat, we need either message or content/selectedText
     if (!userId) {
-      throw new Error('User ID is required.');
+      throw new FunctionError('invalid_request', 'User ID is required.');
     }
     const userMessage = message || selectedText || content;
     if (!userMessage) {
-      throw new Error('No message was provided to process.');
+      throw new FunctionError('invalid_request', 'No message was provided to process.');
     }
 
+    // Everything below reads and writes as this user, so the JWT must be theirs
+    const supabase = await authenticate(req, userId);
+
+    // Per-function and per-user rate limits, then monthly spend and token caps
+    await enforceRateLimit(supabase, 'ai-chat');
+    await enforceBudget(supabase);
+
     // 3) Use command object with backward compatibility defaults
     const commandConfig = command || {
       ai_model: "gpt-5-mini-2025-08-07",
@@ -58,89 +92,80 @@ serve(async (req) => {
     const systemPrompt = commandConfig.system_prompt;
     const temperature = commandConfig.temperature || 0.7;
 
-    console.log(`Processing chat message for user ${userId}: ${userMessage}`);
+    // Prior turns that fit the history budget go to the model verbatim; older ones are summarized
+    const conversation = conversationId ? await getConversation(supabase, conversationId) : null;
+    const { recent: history, overflow } = fitTurnsToBudget(
+      conversation ? await loadUnsummarizedTurns(supabase, conversation) : []
+    );
+    const conversationSummary = conversation
+      ? await summarizeOverflow(supabase, {
+          conversation,
+          overflow,
+          onUsage: (usage) => recordUsage(req, { userId, functionName: 'ai-chat', ...usage }),
+        })
+      : null;
+
+    // Follow-ups like "tell me more" only make sense with the previous question
+    const previousQuestion = [...history].reverse().find(turn => turn.role === 'user')?.content;
+    const retrievalQuery = previousQuestion ? `${previousQuestion}\n${userMessage}` : userMessage;
 
     // Generate embedding for the user's message to find relevant documents
-    const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: userMessage,
-      }),
+    const queryEmbedding = await embedText(retrievalQuery);
+    await recordUsage(req, {
+      userId,
+      functionName: 'ai-chat',
+      model: EMBEDDING_USAGE_MODEL,
+      tokensInput: estimateTokens(retrievalQuery),
+      tokensOutput: 0,
     });
 
-    if (!embeddingResponse.ok) {
-      const error = await embeddingResponse.text();
-      console.error('OpenAI embedding error:', error);
-      throw new Error(`OpenAI embedding error: ${error}`);
-    }
-
-    const embeddingData = await embeddingResponse.json();
-    const queryEmbedding = embeddingData.data[0].embedding;
+    // Find the most relevant passages across the user's documents
+    const passages = await matchPassages(supabase, {
+      embedding: queryEmbedding,
+      threshold: 0.1, // Very low threshold to catch more results
+      count: 12
+    });
 
-    // Enhanced debugging
-    console.log('Generated query embedding, searching for relevant documents...');
-    console.log('Query embedding dimensions:', queryEmbedding.length);
-    console.log('First few embedding values:', queryEmbedding.slice(0, 5));
+    const relevantDocs: ContextDocument[] = groupPassagesByDocument(passages).slice(0, 5);
 
-    // Find relevant documents using the vector similarity function
-    console.log('Calling match_documents with:', {
-      userId,
-      embeddingLength: queryEmbedding.length,
+    // Hybrid keyword + semantic ranking catches exact terms that passages miss and
+    // covers documents embedded before chunking was introduced
+    const hybridResults = await searchDocuments(supabase, {
+      query: userMessage,
+      embedding: queryEmbedding,
       threshold: 0.1,
       count: 10
     });
 
-    const { data: relevantDocs, error: searchError } = await supabase.rpc('match_documents', {
-      query_embedding: queryEmbedding,
-      user_id: userId,
-      match_threshold: 0.1, // Very low threshold to catch more results
-      match_count: 10
-    });
-
-    if (searchError) {
-      console.error('Document search error:', searchError);
-      throw searchError;
-    }
-
-    console.log('Search results:', {
-      found: relevantDocs?.length || 0,
-      docs: relevantDocs?.map(d => ({ title: d.title, similarity: d.similarity }))
-    });
-    
-    // Try text search as additional fallback for better recall
-    let textSearchDocs = null;
-    const searchTerms = userMessage.toLowerCase().split(' ').filter(word => word.length > 2);
-    if (searchTerms.length > 0) {
-      console.log('Attempting text search with terms:', searchTerms);
-      const searchPattern = searchTerms.join('|');
-      
-      const { data: textDocs, error: textError } = await supabase
+    let hybridDocs: ContextDocument[] = [];
+    const passageDocIds = new Set(relevantDocs.map(doc => doc.id));
+    const hybridOnly = hybridResults.filter(result => !passageDocIds.has(result.id)).slice(0, 5);
+    if (hybridOnly.length > 0) {
+      const { data: matchedDocs, error: matchedError } = await supabase
         .from('documents')
-        .select('id, title, content')
-        .eq('user_id', userId)
-        .or(`title.ilike.%${searchTerms[0]}%,content.ilike.%${searchTerms[0]}%`)
-        .limit(5);
-      
-      if (!textError && textDocs && textDocs.length > 0) {
-        textSearchDocs = textDocs.map(doc => ({
-          id: doc.id,
-          title: doc.title,
-          content: doc.content,
-          similarity: 0.6 // Higher similarity for text matches
-        }));
-        console.log(`Found ${textSearchDocs.length} documents via text search`);
+        .select('id, content')
+        .in('id', hybridOnly.map(result => result.id));
+
+      if (matchedError) {
+        console.error('Document search error:', matchedError);
+        throw matchedError;
       }
+
+      const contentById = new Map((matchedDocs || []).map(doc => [doc.id, doc.content || '']));
+      hybridDocs = hybridOnly.map(result => ({
+        id: result.id,
+        title: result.title,
+        content: contentById.get(result.id) || '',
+        similarity: result.similarity ?? 0.6, // Keyword-only matches have no cosine score
+        passages: []
+      }));
+      console.log(`Found ${hybridDocs.length} additional documents via hybrid search`);
     }
     
     // If no documents found with semantic search, try recent documents as final fallback
     let fallbackDocs = null;
-    if (!relevantDocs || relevantDocs.length === 0) {
-      console.log('No relevant documents found via embedding search, trying recent documents...');
+    if (relevantDocs.length === 0 && hybridDocs.length === 0) {
+      console.log('No relevant documents found via search, trying recent documents...');
       const { data: recentDocs, error: recentError } = await supabase
         .from('documents')
         .select('id, title, content')
@@ -153,14 +178,15 @@ serve(async (req) => {
           id: doc.id,
           title: doc.title,
           content: doc.content,
-          similarity: 0.4 // Lower similarity for fallback docs
+          similarity: 0.4, // Lower similarity for fallback docs
+          passages: []
         }));
         console.log(`Found ${fallbackDocs.length} recent documents as fallback`);
       }
     }
 
-    // Build context from the best available documents (prioritize embedding matches, then text matches, then recent)
-    let docsToUse = [];
+    // Build context from the best available documents (prioritize passage matches, then hybrid matches, then recent)
+    let docsToUse: ContextDocument[] = [];
     
     // Start with embedding matches if available
     if (relevantDocs && relevantDocs.length > 0) {
@@ -168,13 +194,10 @@ serve(async (req) => {
       console.log(`Using ${relevantDocs.length} documents from embedding search`);
     }
     
-    // Add text search results if we have fewer than 5 documents
-    if (textSearchDocs && textSearchDocs.length > 0 && docsToUse.length < 5) {
-      // Avoid duplicates by checking IDs
-      const existingIds = new Set(docsToUse.map(doc => doc.id));
-      const newTextDocs = textSearchDocs.filter(doc => !existingIds.has(doc.id));
-      docsToUse = [...docsToUse, ...newTextDocs].slice(0, 5);
-      console.log(`Added ${newTextDocs.length} additional documents from text search`);
+    // Add hybrid search results if we have fewer than 5 documents
+    if (hybridDocs.length > 0 && docsToUse.length < 5) {
+      docsToUse = [...docsToUse, ...hybridDocs].slice(0, 5);
+      console.log(`Added ${Math.min(hybridDocs.length, 5 - relevantDocs.length)} additional documents from hybrid search`);
     }
     
     // Use recent documents as final fallback if still no matches
@@ -185,16 +208,20 @@ serve(async (req) => {
     
     let context = '';
     let hasDocuments = false;
+    let sources: PassageSource[] = [];
     
     if (docsToUse && docsToUse.length > 0) {
       hasDocuments = true;
       // Sort by similarity score descending
       docsToUse.sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
-      context = docsToUse
-        .map((doc: any) => 
-          `Document: "${doc.title}" (relevance: ${(doc.similarity * 100).toFixed(1)}%)\nContent: ${doc.content.substring(0, 800)}...\n`
-        )
-        .join('\n');
+      // Sources carry numbered passages and their offsets so answers can cite them, not whole documents
+      sources = numberPassages(docsToUse.map(({ content: docContent, ...source }) => ({
+        ...source,
+        passages: source.passages.length > 0
+          ? source.passages
+          : excerptPassages(docContent || '', userMessage, source.similarity)
+      })));
+      context = sources.map(formatContextDocument).join('\n');
       console.log(`Using ${docsToUse.length} total documents for context, top similarity: ${((docsToUse[0]?.similarity || 0) * 100).toFixed(1)}%`);
     } else {
       console.log('No documents found - user may not have any documents yet');
@@ -205,6 +232,8 @@ serve(async (req) => {
       ? `${systemPrompt}
 Use the provided context to give accurate, helpful responses about their writing.
 Always reference specific documents by title when answering questions about their content.
+Each passage below is numbered. Cite the passages you rely on by number in square brackets, e.g. [1] or [2][3],
+right after the sentence they support. Only cite numbers that appear in the context.
 Be conversational and helpful.
 
 Context from user's documents:
@@ -213,68 +242,63 @@ ${context}`
 The user doesn't seem to have any documents in their library yet, or their query doesn't match their existing content.
 Encourage them to create some documents first, or ask more specific questions about their writing needs.
 Be helpful and suggest how they can get started with their writing projects.`;
-    
-    // Use the modelParams helper for correct parameter handling
-    const { tokenKey, tokens, includeTemp } = mapParams(model, maxTokens, temperature);
 
-    const requestBody = {
-      model: model,
+    const conversationContext = conversationSummary
+      ? `\n\nSummary of the earlier conversation:\n${conversationSummary}`
+      : '';
+    
+    // Call the command's model provider for the chat response
+    const completion = await requestChatCompletion({
+      model,
       messages: [
         {
           role: 'system',
-          content: systemMessage
+          content: systemMessage + conversationContext
         },
+        ...history.map(turn => ({ role: turn.role, content: stripCitations(turn.content) })),
         {
           role: 'user',
           content: userMessage
         }
-      ]
-    };
-
-    // Add appropriate token parameter and temperature based on model
-    requestBody[tokenKey] = tokens;
-    if (includeTemp !== false) {
-      requestBody.temperature = includeTemp;
-    }
-
-    // Call OpenAI for the chat response
-    const chatResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+      ],
+      maxTokens,
+      temperature,
+      stream: !!stream,
     });
 
-    if (!chatResponse.ok) {
-      const error = await chatResponse.text();
-      console.error('OpenAI chat error:', error);
-      throw new Error(`OpenAI chat error: ${error}`);
+    // New conversations are only created once the model has accepted the request
+    const activeConversationId = conversation?.id
+      ?? (await createConversation(supabase, { userId, firstMessage: userMessage })).id;
+    await saveMessage(supabase, { conversationId: activeConversationId, userId, role: 'user', content: userMessage });
+    const saveReply = async (text: string) => {
+      try {
+        await saveMessage(supabase, { conversationId: activeConversationId, userId, role: 'assistant', content: text, sources });
+      } catch (saveError) {
+        console.error('Failed to save assistant reply:', saveError);
+      }
+    };
+
+    if (stream) {
+      return streamChatCompletion({
+        upstream: completion.response,
+        corsHeaders,
+        meta: { sources, conversationId: activeConversationId },
+        promptText: [systemMessage, conversationContext, ...history.map(turn => turn.content), userMessage].join('\n'),
+        finalize: (text) => ({ message: text, sources, conversationId: activeConversationId }),
+        onComplete: async ({ text, usage }) => {
+          // Replies cut short by the user are kept, as they were shown
+          await recordUsage(req, { userId, functionName: 'ai-chat', model: completion.model, ...usage });
+          if (text.trim()) await saveReply(text);
+        },
+      });
     }
 
-    const chatData = await chatResponse.json();
-    const assistantMessage = chatData.choices[0].message.content;
+    const { text: assistantMessage, usage, model: usageModel } = await readChatResult(completion);
+    await saveReply(assistantMessage);
 
     // Track usage for cost monitoring
-    const usage = chatData.usage;
     if (usage) {
-      try {
-        await supabase.from('ai_usage').insert({
-          user_id: userId,
-          function_name: 'ai-chat',
-          model: model,
-          tokens_input: usage.prompt_tokens,
-          tokens_output: usage.completion_tokens,
-          cost_estimate: (usage.prompt_tokens * 0.00000025) + (usage.completion_tokens * 0.000001) // GPT-5 Mini pricing
-        });
-        console.log('Usage tracked:', {
-          total_tokens: usage.total_tokens,
-          cost_usd: ((usage.prompt_tokens * 0.00000025) + (usage.completion_tokens * 0.000001)).toFixed(6)
-        });
-      } catch (trackingError) {
-        console.error('Failed to track usage (non-critical):', trackingError);
-      }
+      await recordUsage(req, { userId, functionName: 'ai-chat', model: usageModel, ...usage });
     }
 
     console.log('Generated AI response successfully');
@@ -282,19 +306,14 @@ Be helpful and suggest how they can get started with their writing projects.`;
     return new Response(
       JSON.stringify({ 
         message: assistantMessage,
-        sources: docsToUse || []
+        sources,
+        conversationId: activeConversationId
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Error in ai-chat function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(error);
   }
 });
\ No newline at end of file
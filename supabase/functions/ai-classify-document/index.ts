@@ -1,121 +1,78 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { CommandContext, serveCommand } from "../_shared/pipeline.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+const VALID_CATEGORIES = ['Personal', 'Business', 'Creative', 'Technical', 'Academic', 'Blog', 'Notes', 'General'];
+const VALID_STATUSES = ['draft', 'polished', 'final'];
+const MAX_SUGGESTED_TAGS = 5;
+const MAX_TAG_LENGTH = 50;
 
+// The user's existing tag names, so suggestions reuse them where they fit
+async function loadExistingTags({ supabase, userId }: CommandContext): Promise<string[]> {
   try {
-    // 1) Expect the full command object and other necessary data
-    const { command, content, selectedText, userId } = await req.json();
-
-    // 2) Validate the payload
-    if (!userId || !command) {
-      throw new Error('User ID and command object are required.');
-    }
-    const textToProcess = selectedText || content;
-    if (!textToProcess) {
-      throw new Error('No text provided to process.');
-    }
-
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIApiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
+    const { data, error } = await supabase
+      .from('tags')
+      .select('name')
+      .eq('user_id', userId)
+      .order('name')
+      .limit(100);
 
-    // 3) Use command object values directly - NO hardcoded fallbacks
-    const commandConfig = command;
-    
-    // Validate required fields
-    if (!commandConfig.ai_model) throw new Error('ai_model is required in command config');
-    if (!commandConfig.system_prompt) throw new Error('system_prompt is required in command config');
-    if (!commandConfig.prompt) throw new Error('prompt is required in command config');
-    
-    const systemPrompt = commandConfig.system_prompt;
-    const userPrompt = commandConfig.prompt;
-    
-    // Extract first few paragraphs for classification
-    const paragraphs = textToProcess.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-    const classificationContent = paragraphs.slice(0, 3).join('\n\n').slice(0, 1000);
-    
-    // Determine token parameter based on model
-    const aiModel = commandConfig.ai_model;
-    const isNewerModel = aiModel.includes('gpt-5') || aiModel.includes('gpt-4.1') || aiModel.includes('o3') || aiModel.includes('o4');
-    const tokenParam = isNewerModel ? 'max_completion_tokens' : 'max_tokens';
+    if (error) throw error;
+    return (data || []).map((tag: { name: string }) => tag.name);
+  } catch (error) {
+    console.error('Failed to load existing tags (non-critical):', error);
+    return [];
+  }
+}
 
-    const requestBody = {
-      model: aiModel,
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt
-        },
-        {
-          role: 'user',
-          content: `${userPrompt}:\n\n${classificationContent}`
-        }
-      ]
-    };
+function normalizeTags(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
 
-    // Add appropriate token parameter
-    requestBody[tokenParam] = commandConfig.max_tokens || 50;
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const item of value) {
+    if (typeof item !== 'string') continue;
+    const tag = item.replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags.slice(0, MAX_SUGGESTED_TAGS);
+}
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+serveCommand({
+  name: 'ai-classify-document',
+  defaultMaxTokens: 50,
+  // Room for the tag list on top of category and status
+  minMaxTokens: 150,
+  buildMessages: async (context) => {
+    // The first few paragraphs are enough to classify by
+    const paragraphs = context.text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+    const classificationContent = paragraphs.slice(0, 3).join('\n\n').slice(0, 1000);
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Failed to classify document');
-    }
+    const existingTags = await loadExistingTags(context);
+    const tagInstruction = `Also include a "tags" array of up to ${MAX_SUGGESTED_TAGS} short topical tags for the document.` +
+      (existingTags.length > 0
+        ? ` Prefer these existing tags when they fit: ${existingTags.join(', ')}.`
+        : '');
 
-    const data = await response.json();
-    const rawClassification = data.choices[0]?.message?.content?.trim();
-    
-    console.log('Raw classification response:', rawClassification);
-    
+    return [
+      { role: 'system', content: context.command.system_prompt },
+      { role: 'user', content: `${context.command.prompt}\n\n${tagInstruction}:\n\n${classificationContent}` }
+    ];
+  },
+  finalize: (text) => {
     try {
-      const classification = JSON.parse(rawClassification);
-      
-      // Validate the response
-      const validCategories = ['Personal', 'Business', 'Creative', 'Technical', 'Academic', 'Blog', 'Notes', 'General'];
-      const validStatuses = ['draft', 'polished', 'final'];
-      
-      const category = validCategories.includes(classification.category) ? classification.category : 'General';
-      const status = validStatuses.includes(classification.status) ? classification.status : 'draft';
-      
-      console.log('Classification result:', { category, status });
+      const classification = JSON.parse(text.trim());
 
-      return new Response(
-        JSON.stringify({ result: { category, status } }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      const category = VALID_CATEGORIES.includes(classification.category) ? classification.category : 'General';
+      const status = VALID_STATUSES.includes(classification.status) ? classification.status : 'draft';
+      const tags = normalizeTags(classification.tags);
 
+      console.log('Classification result:', { category, status, tags });
+      return { result: { category, status, tags } };
     } catch (parseError) {
-      console.error('Failed to parse classification JSON:', parseError);
-      // Fallback classification
-      return new Response(
-        JSON.stringify({ result: { category: 'General', status: 'draft' } }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      console.error('Failed to parse classification JSON:', parseError, text);
+      return { result: { category: 'General', status: 'draft', tags: [] } };
     }
-
-  } catch (error) {
-    console.error('Error in ai-classify-document:', error);
-    return new Response(
-      JSON.stringify({ error: (error as Error).message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
-});
\ No newline at end of file
+  },
+});
@@ -1,164 +1,49 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+import { CommandContext, EMPTY_RESULT_MESSAGE, serveCommand } from "../_shared/pipeline.ts";
 
+// Passages from the user's documents that read like the text being continued
+async function findStyleExamples({ supabase, userId, text, embed }: CommandContext): Promise<string> {
   try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
-    const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
-    
-    if (!OPENAI_API_KEY || !SUPABASE_URL || !SUPABASE_ANON_KEY) {
-      throw new Error('Missing required environment variables');
-    }
-
-    // 1) Expect the full command object and other necessary data
-    const { command, content, selectedText, userId } = await req.json();
-    
-    // 2) Validate the payload
-    if (!userId || !command) {
-      throw new Error('User ID and command object are required.');
-    }
-    const textToProcess = selectedText || content;
-    if (!textToProcess) {
-      throw new Error('No text provided to process.');
-    }
-
-    console.log(`Continuing text for user ${userId}, context length: ${textToProcess.length}`);
-
-    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
-      global: {
-        headers: { Authorization: req.headers.get('Authorization')! },
-      },
-    });
-
-    // Use command object values directly - NO hardcoded fallbacks
-    const commandConfig = command;
-    
-    // Validate required fields
-    if (!commandConfig.ai_model) throw new Error('ai_model is required in command config');
-    if (!commandConfig.system_prompt) throw new Error('system_prompt is required in command config');
-    if (!commandConfig.prompt) throw new Error('prompt is required in command config');
-    
-    const model = commandConfig.ai_model;
-    const maxTokens = commandConfig.max_tokens || 500;
-    const systemPrompt = commandConfig.system_prompt;
-    const userPrompt = commandConfig.prompt;
-    
-    // Determine token parameter based on model
-    const isNewerModel = model.includes('gpt-5') || model.includes('gpt-4.1') || model.includes('o3') || model.includes('o4');
-    const tokenParam = isNewerModel ? 'max_completion_tokens' : 'max_tokens';
-
-    console.log(`Using model: ${model}, ${tokenParam}: ${maxTokens}`);
-    
-    // Generate embedding for context to find similar writing style
-    const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: textToProcess
-      }),
-    });
-
-    let styleExamples = '';
-    if (embeddingResponse.ok) {
-      const embeddingData = await embeddingResponse.json();
-      const contextEmbedding = embeddingData.data[0].embedding;
-      
-      console.log('Finding similar writing style examples...');
-      
-      // Find similar passages in user's documents using RAG
-      const { data: similarPassages } = await supabase.rpc('match_documents', {
-        query_embedding: contextEmbedding,
-        user_id: userId,
-        match_threshold: 0.7, // Higher threshold for style matching
-        match_count: 3
-      });
-      
-      console.log(`Found ${similarPassages?.length || 0} similar passages for style matching`);
-      
-      // Build style examples from similar content
-      styleExamples = similarPassages
-        ?.map(doc => doc.content.substring(0, 500))
-        .join('\n\n') || '';
-    } else {
-      console.error('Embedding generation failed, proceeding without style matching');
-    }
-    
-    // Use configured model for continuation
-    const requestBody = {
-      model: model,
-      messages: [
-        {
-          role: 'system',
-          content: `${systemPrompt} 
-                   ${styleExamples ? `Here are examples of the author's writing style:\n${styleExamples}` : ''}`
-        },
-        {
-          role: 'user',
-          content: `${userPrompt}\n\n---\n\nContinue this text naturally:\n\n${textToProcess}`
-        }
-      ]
-    };
-
-    // Add appropriate token parameter
-    requestBody[tokenParam] = maxTokens;
-
-    const chatResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+    const contextEmbedding = await embed(text);
+
+    console.log('Finding similar writing style examples...');
+    const { data: similarPassages, error } = await supabase.rpc('match_documents', {
+      query_embedding: contextEmbedding,
+      user_id: userId,
+      match_threshold: 0.7, // Higher threshold for style matching
+      match_count: 3
     });
+    if (error) throw error;
 
-    if (!chatResponse.ok) {
-      const error = await chatResponse.text();
-      console.error('OpenAI continuation error:', error);
-      throw new Error(`OpenAI continuation error: ${error}`);
-    }
-
-    const chatData = await chatResponse.json();
-    const continuation = chatData.choices[0].message.content;
-    
-    // Validate result is not empty - return original as fallback
-    if (!continuation || continuation.trim().length === 0) {
-      console.error('OpenAI returned empty continuation result - returning original text as fallback');
-      return new Response(
-        JSON.stringify({ 
-          result: textToProcess,
-          message: 'AI returned empty response, original text preserved'
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-    
-    console.log('Generated continuation successfully');
-    
-    // 6) Consistent success response
-    return new Response(
-      JSON.stringify({ result: continuation }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    console.log(`Found ${similarPassages?.length || 0} similar passages for style matching`);
+    return similarPassages
+      ?.map((doc: { content: string }) => doc.content.substring(0, 500))
+      .join('\n\n') || '';
   } catch (error) {
-    console.error('Continue error:', error);
-    return new Response(
-      JSON.stringify({ error: (error as Error).message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    console.error('Style matching failed, proceeding without it:', error);
+    return '';
   }
-});
\ No newline at end of file
+}
+
+serveCommand({
+  name: 'ai-continue',
+  defaultMaxTokens: 500,
+  buildMessages: async (context) => {
+    const styleExamples = await findStyleExamples(context);
+    return [
+      {
+        role: 'system',
+        content: `${context.command.system_prompt}
+                   ${styleExamples ? `Here are examples of the author's writing style:\n${styleExamples}` : ''}`
+      },
+      {
+        role: 'user',
+        content: `${context.command.prompt}\n\n---\n\nContinue this text naturally:\n\n${context.text}`
+      }
+    ];
+  },
+  // Leading whitespace is kept so the continuation joins the text naturally
+  finalize: (text, { text: original }) => text.trim()
+    ? { result: text }
+    : { result: original, fallback: true, message: EMPTY_RESULT_MESSAGE },
+});
@@ -6,7 +6,11 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { mapParams } from '../_shared/modelParams.ts';
+import { enforceBudget } from '../_shared/budget.ts';
+import { errorResponse } from '../_shared/http.ts';
+import { readChatResult, requestChatCompletion } from '../_shared/llm.ts';
+import { enforceRateLimit } from '../_shared/rateLimit.ts';
+import { recordUsage } from '../_shared/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -34,11 +38,10 @@ serve(async (req) => {
   }
 
   try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
     const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
     
-    if (!OPENAI_API_KEY || !SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
       throw new Error('Missing required environment variables');
     }
 
@@ -65,6 +68,10 @@ serve(async (req) => {
         headers: { Authorization: req.headers.get('Authorization')! },
       },
     });
+
+    // Per-function and per-user rate limits, then monthly spend and token caps
+    await enforceRateLimit(supabase, 'compare-documents');
+    await enforceBudget(supabase);
     
     // Fetch documents
     const { data: documents, error: fetchError } = await supabase
@@ -104,11 +111,8 @@ serve(async (req) => {
     
     console.log(`Calculated ${similarities.length} similarity pairs`);
     
-    // Use shared utility for model parameter mapping
-    const params = mapParams(command.ai_model, command.max_tokens, command.temperature);
-    
-    // Build request body using command configuration
-    const requestBody: any = {
+    // Call the model with command-driven configuration; retries and timeouts are shared
+    const chatResponse = await requestChatCompletion({
       model: command.ai_model,
       messages: [
         {
@@ -120,32 +124,14 @@ serve(async (req) => {
           content: command.prompt || documents.map(d => `${d.title}:\n${d.content.substring(0, 1000)}`).join('\n\n---\n\n')
         }
       ],
-      [params.tokenKey]: params.tokens
-    };
-    
-    // Add temperature only for models that support it
-    if (params.includeTemp !== false) {
-      requestBody.temperature = params.includeTemp;
-    }
-    
-    // Call OpenAI with command-driven configuration
-    const chatResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+      maxTokens: command.max_tokens,
+      temperature: command.temperature
     });
 
-    if (!chatResponse.ok) {
-      const error = await chatResponse.text();
-      console.error('OpenAI comparison error:', error);
-      throw new Error(`OpenAI comparison error: ${error}`);
+    const { text: analysis, usage, model } = await readChatResult(chatResponse);
+    if (usage) {
+      await recordUsage(req, { userId, functionName: 'compare-documents', model, ...usage });
     }
-
-    const chatData = await chatResponse.json();
-    const analysis = chatData.choices[0].message.content;
     
     console.log('Generated comparison analysis successfully');
     
@@ -166,12 +152,6 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error('Compare error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+    return errorResponse(error);
   }
-});
\ No newline at end of file
+});
@@ -1,6 +1,10 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceBudget } from "../_shared/budget.ts";
+import { indexDocumentChunks } from "../_shared/embeddings.ts";
+import { errorResponse } from "../_shared/http.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,11 +18,10 @@ serve(async (req) => {
   }
 
   try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
     const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
     
-    if (!OPENAI_API_KEY || !SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
       throw new Error('Missing required environment variables');
     }
 
@@ -28,42 +31,39 @@ serve(async (req) => {
       },
     });
 
+    // Per-function and per-user rate limits, then monthly spend and token caps
+    await enforceRateLimit(supabase, 'generate-embeddings');
+    await enforceBudget(supabase);
+
     const { documentId, content } = await req.json();
 
     if (!documentId || !content) {
       throw new Error('Missing documentId or content');
     }
 
-    console.log(`Generating embedding for document ${documentId}`);
-
-    // Truncate content to fit within token limits (approximately 30,000 characters)
-    const truncatedContent = content.substring(0, 30000);
+    console.log(`Generating embeddings for document ${documentId}`);
 
-    // Generate embedding using OpenAI
-    const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: truncatedContent,
-      }),
-    });
+    // Look up the owner so chunk rows satisfy RLS; also confirms access to the document
+    const { data: document, error: documentError } = await supabase
+      .from('documents')
+      .select('user_id')
+      .eq('id', documentId)
+      .single();
 
-    if (!embeddingResponse.ok) {
-      const error = await embeddingResponse.text();
-      console.error('OpenAI API error:', error);
-      throw new Error(`OpenAI API error: ${error}`);
+    if (documentError || !document) {
+      throw new Error('Document not found');
     }
 
-    const embeddingData = await embeddingResponse.json();
-    const embedding = embeddingData.data[0].embedding;
+    // Embed the whole document passage by passage instead of truncating it
+    const { embedding, chunkCount } = await indexDocumentChunks(supabase, {
+      documentId,
+      userId: document.user_id,
+      content,
+    });
 
-    console.log(`Generated embedding with ${embedding.length} dimensions`);
+    console.log(`Embedded ${chunkCount} chunks with ${embedding.length} dimensions`);
 
-    // Update document with embedding
+    // Update document with the whole-document embedding
     const { error: updateError } = await supabase
       .from('documents')
       .update({ embedding })
@@ -77,18 +77,12 @@ serve(async (req) => {
     console.log(`Successfully updated document ${documentId} with embedding`);
 
     return new Response(
-      JSON.stringify({ success: true, message: 'Embedding generated and stored' }),
+      JSON.stringify({ success: true, message: 'Embedding generated and stored', chunks: chunkCount }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Error in generate-embeddings function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(error);
   }
 });
\ No newline at end of file
@@ -0,0 +1,378 @@
+/**
+ * Runs a queued ai_jobs row: synthesizes, compares or analyzes its documents,
+ * reporting progress on the row as it goes, and saves the result as a new
+ * document. Answers straight away and keeps working in the background, so
+ * the browser can close. Cancelling the job stops it at the next step.
+ *
+ * The caller's JWT only claims the job. The work runs with the service role,
+ * scoped to the job's owner, so it isn't cut short when the token expires.
+ * A scheduled call with the service role and `{ resume: true }` picks up jobs
+ * left queued or stalled (see claim_stale_ai_jobs).
+ */
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceBudget } from "../_shared/budget.ts";
+import { FunctionError, handleRequest, jsonResponse, requireEnv } from "../_shared/http.ts";
+import { readChatResult, requestChatCompletion } from "../_shared/llm.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import {
+  GeneratedDocument,
+  generateTitle,
+  saveGeneratedDocument,
+  SourceDocument,
+  SynthesisStep,
+  synthesizeDocuments,
+  SynthesisType,
+} from "../_shared/synthesis.ts";
+import { recordUsage } from "../_shared/usage.ts";
+
+// Keeps the function running after it responds; absent outside Supabase's runtime
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+type JobKind = 'synthesize' | 'compare' | 'analyze';
+
+interface AIJob {
+  id: string;
+  user_id: string;
+  kind: JobKind;
+  document_ids: string[];
+  options: Record<string, unknown>;
+}
+
+interface JobDocument extends SourceDocument {
+  // pgvector columns arrive as text
+  embedding: string | number[] | null;
+}
+
+type ReportProgress = (fraction: number, message: string) => Promise<void>;
+
+interface JobOutput extends GeneratedDocument {
+  category: string;
+  // Partial results from a synthesis too large for one pass
+  steps?: SynthesisStep[];
+}
+
+interface JobContext {
+  // The service role client the job runs with
+  supabase: SupabaseClient;
+  job: AIJob;
+  documents: JobDocument[];
+  progress: ReportProgress;
+}
+
+// Each kind counts against the rate limit and usage of the function it replaces
+const JOB_FUNCTIONS: Record<JobKind, string> = {
+  synthesize: 'synthesize-documents',
+  compare: 'compare-documents',
+  analyze: 'ai-analyze',
+};
+
+const JOB_MODEL = 'gpt-5-mini-2025-08-07';
+// Document text sent to the model for a comparison or analysis
+const MAX_INPUT_CHARS = 60_000;
+// Stale jobs resumed per scheduled call, run one after another
+const MAX_RESUMED_JOBS = 5;
+
+/** The job was cancelled; it stops without saving anything. */
+class JobCancelledError extends Error {
+  constructor() {
+    super('The job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+function cosineSimilarity(vecA: number[], vecB: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < vecA.length; i++) {
+    dotProduct += vecA[i] * vecB[i];
+    normA += vecA[i] * vecA[i];
+    normB += vecB[i] * vecB[i];
+  }
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function parseEmbedding(embedding: JobDocument['embedding']): number[] | null {
+  if (!embedding) return null;
+  return typeof embedding === 'string' ? JSON.parse(embedding) : embedding;
+}
+
+// Every document under a heading, each cut to an equal share of the budget
+function documentExcerpts(documents: JobDocument[]): string {
+  const share = Math.floor(MAX_INPUT_CHARS / documents.length);
+  return documents
+    .map(doc => {
+      const content = doc.content ?? '';
+      return `## ${doc.title}\n\n${content.length > share ? `${content.slice(0, share)}…` : content}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+async function complete(context: JobContext, system: string, prompt: string, maxTokens: number): Promise<string> {
+  const completion = await requestChatCompletion({
+    model: JOB_MODEL,
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: prompt },
+    ],
+    maxTokens,
+    timeoutMs: 120_000,
+  });
+
+  const { text, usage, model } = await readChatResult(completion);
+  if (usage) {
+    await recordUsage(context.supabase, { userId: context.job.user_id, functionName: JOB_FUNCTIONS[context.job.kind], model, ...usage });
+  }
+  if (!text.trim()) throw new FunctionError('invalid_response', 'The AI returned an empty response');
+  return text.trim();
+}
+
+function withInstructions(prompt: string, options: Record<string, unknown>): string {
+  return typeof options.instructions === 'string' && options.instructions.trim()
+    ? `${prompt}\n\nAdditional instructions: ${options.instructions.trim()}`
+    : prompt;
+}
+
+async function runSynthesis(context: JobContext): Promise<JobOutput> {
+  const { supabase, job, documents, progress } = context;
+  const { title, content, steps } = await synthesizeDocuments({
+    usageSink: supabase,
+    userId: job.user_id,
+    documents,
+    synthesisType: job.options.synthesisType as SynthesisType | undefined,
+    instructions: typeof job.options.instructions === 'string' ? job.options.instructions : undefined,
+    onProgress: (fraction, message) => progress(0.1 + fraction * 0.8, message),
+  });
+  return { title: `${title} (Synthesized)`, content, category: 'Synthesized', steps };
+}
+
+async function runComparison(context: JobContext): Promise<JobOutput> {
+  const { job, documents, progress } = context;
+
+  await progress(0.15, 'Measuring similarity');
+  const similarities: string[] = [];
+  for (let i = 0; i < documents.length - 1; i++) {
+    for (let j = i + 1; j < documents.length; j++) {
+      const a = parseEmbedding(documents[i].embedding);
+      const b = parseEmbedding(documents[j].embedding);
+      if (a && b) {
+        similarities.push(`- ${documents[i].title} / ${documents[j].title}: ${(cosineSimilarity(a, b) * 100).toFixed(1)}%`);
+      }
+    }
+  }
+
+  await progress(0.3, 'Comparing documents');
+  const analysis = await complete(
+    context,
+    'You are an expert editor comparing drafts. Be specific and cite the documents by title.',
+    withInstructions(
+      `Compare these documents. Cover the themes they share, where they differ or contradict each other, what each covers that the others don't, and which is strongest on each point. Use Markdown headings.\n\n${documentExcerpts(documents)}`,
+      job.options
+    ),
+    3000
+  );
+
+  const content = similarities.length > 0
+    ? `${analysis}\n\n## Similarity\n\n${similarities.join('\n')}`
+    : analysis;
+  const titles = documents.map(doc => doc.title).join(' vs ');
+  return {
+    title: `Comparison: ${titles.length > 80 ? `${titles.slice(0, 80)}…` : titles}`,
+    content,
+    category: 'Comparison',
+  };
+}
+
+async function runAnalysis(context: JobContext): Promise<JobOutput> {
+  const { supabase, job, documents, progress } = context;
+
+  await progress(0.2, 'Analyzing documents');
+  const content = await complete(
+    context,
+    'You are an expert writing analyst. Report on a body of writing clearly and concretely.',
+    withInstructions(
+      `Analyze these ${documents.length} documents together. Report the main themes, recurring patterns and ideas, tone and style, gaps or open questions, and suggestions for what to write next. Use Markdown headings.\n\n${documentExcerpts(documents)}`,
+      job.options
+    ),
+    3000
+  );
+
+  await progress(0.9, 'Writing a title');
+  const title = await generateTitle(supabase, job.user_id, JOB_FUNCTIONS[job.kind], content, 'Document Analysis');
+  return { title: `${title} (Analysis)`, content, category: 'Analysis' };
+}
+
+const RUNNERS: Record<JobKind, (context: JobContext) => Promise<JobOutput>> = {
+  synthesize: runSynthesis,
+  compare: runComparison,
+  analyze: runAnalysis,
+};
+
+// The chosen documents the job's owner can read: their own and those shared with them
+async function loadJobDocuments(supabase: SupabaseClient, job: AIJob): Promise<JobDocument[]> {
+  const { data: shared, error: sharedError } = await supabase
+    .from('document_collaborators')
+    .select('document_id')
+    .eq('user_id', job.user_id)
+    .in('document_id', job.document_ids);
+  if (sharedError) throw sharedError;
+  const sharedIds = new Set((shared ?? []).map(row => row.document_id as string));
+
+  const { data: documents, error: fetchError } = await supabase
+    .from('documents')
+    .select('id, user_id, title, content, embedding')
+    .in('id', job.document_ids);
+  if (fetchError) throw fetchError;
+
+  const readable = (documents ?? []).filter(doc => doc.user_id === job.user_id || sharedIds.has(doc.id));
+  if (readable.length === 0) {
+    throw new FunctionError('invalid_request', 'None of the documents could be found');
+  }
+
+  // In the order they were chosen
+  return (readable as JobDocument[]).sort((a, b) => job.document_ids.indexOf(a.id) - job.document_ids.indexOf(b.id));
+}
+
+/**
+ * Runs a claimed job to the end with the service role; failures are recorded
+ * on the job, not thrown. A resumed job has no caller to check, so the
+ * owner's budget is checked here instead.
+ */
+async function runJob(supabase: SupabaseClient, jobId: string, resumed = false): Promise<void> {
+  const progress: ReportProgress = async (fraction, message) => {
+    const { data: running, error } = await supabase.rpc('update_ai_job_progress', {
+      job_id: jobId,
+      progress: Math.round(fraction * 100),
+      message,
+    });
+    if (error) console.error('Failed to record job progress (non-critical):', error);
+    else if (!running) throw new JobCancelledError();
+  };
+
+  try {
+    const { data: job, error: jobError } = await supabase
+      .from('ai_jobs')
+      .select('id, user_id, kind, document_ids, options')
+      .eq('id', jobId)
+      .single();
+    if (jobError) throw jobError;
+
+    if (resumed) await enforceBudget(supabase, job.user_id);
+
+    await progress(0.05, 'Loading documents');
+    const ordered = await loadJobDocuments(supabase, job as AIJob);
+    console.log(`Running ${job.kind} job ${jobId} over ${ordered.length} documents`);
+
+    const generated = await RUNNERS[job.kind as JobKind]({ supabase, job: job as AIJob, documents: ordered, progress });
+
+    await progress(0.95, 'Saving the result');
+    const { steps, ...document } = generated;
+    const newDoc = await saveGeneratedDocument(supabase, job.user_id, document);
+
+    const { data: finished, error: finishError } = await supabase.rpc('finish_ai_job', {
+      job_id: jobId,
+      succeeded: true,
+      job_result: {
+        title: newDoc.title,
+        // Step sources count from 1 in this order
+        sourceDocuments: ordered.map(doc => ({ id: doc.id, title: doc.title })),
+        steps: steps ?? [],
+      },
+      result_doc_id: newDoc.id,
+    });
+    if (finishError) throw finishError;
+
+    // Cancelled while saving: the result isn't wanted
+    if (!finished) {
+      await supabase.from('documents').delete().eq('id', newDoc.id);
+    }
+    console.log(`Finished ${job.kind} job ${jobId}`);
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      console.log(`Job ${jobId} was cancelled`);
+      return;
+    }
+
+    console.error(`Job ${jobId} failed:`, error);
+    const { error: finishError } = await supabase.rpc('finish_ai_job', {
+      job_id: jobId,
+      succeeded: false,
+      failure: (error as Error)?.message || 'Unexpected error',
+    });
+    if (finishError) console.error('Failed to record job failure:', finishError);
+  }
+}
+
+// Keeps working after the response where the runtime allows it
+async function inBackground(work: Promise<void>, body: Record<string, unknown>): Promise<Response> {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(work);
+    return jsonResponse(body, { status: 202 });
+  }
+
+  await work;
+  return jsonResponse(body);
+}
+
+// Claims and runs stale jobs; only the scheduled call, with the service role key, gets here
+async function resumeStaleJobs(service: SupabaseClient): Promise<Response> {
+  const { data: jobIds, error } = await service.rpc('claim_stale_ai_jobs', { max_jobs: MAX_RESUMED_JOBS });
+  if (error) throw error;
+
+  const ids = (jobIds ?? []) as string[];
+  console.log(`Resuming ${ids.length} stale AI jobs`);
+  const work = (async () => {
+    for (const id of ids) await runJob(service, id, true);
+  })();
+  return inBackground(work, { jobIds: ids });
+}
+
+serve(handleRequest('process-ai-job', async (req) => {
+  const { jobId, resume } = await req.json().catch(() => ({}));
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) throw new FunctionError('unauthorized', 'Missing Authorization header.');
+
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+  const service = createClient(requireEnv('SUPABASE_URL'), serviceRoleKey);
+
+  if (resume === true) {
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      throw new FunctionError('unauthorized', 'Only the scheduler can resume jobs.');
+    }
+    return resumeStaleJobs(service);
+  }
+
+  if (typeof jobId !== 'string' || !jobId) {
+    throw new FunctionError('invalid_request', 'jobId is required.');
+  }
+
+  // Acts as the caller, so RLS applies and only their own jobs can be claimed
+  const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: job, error: jobError } = await supabase
+    .from('ai_jobs')
+    .select('kind')
+    .eq('id', jobId)
+    .maybeSingle();
+  if (jobError) throw jobError;
+  if (!job) throw new FunctionError('invalid_request', 'This job could not be found.');
+
+  // Per-function and per-user rate limits, then monthly spend and token caps
+  await enforceRateLimit(supabase, JOB_FUNCTIONS[job.kind as JobKind]);
+  await enforceBudget(supabase);
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_ai_job', { job_id: jobId });
+  if (claimError) throw claimError;
+  if (!claimed) {
+    throw new FunctionError('invalid_request', 'This job is not waiting to run.');
+  }
+
+  return inBackground(runJob(service, jobId), { jobId, status: 'running' });
+}));
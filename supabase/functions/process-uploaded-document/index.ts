@@ -1,12 +1,23 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceBudget } from "../_shared/budget.ts";
+import { indexDocumentChunks } from "../_shared/embeddings.ts";
+import { FunctionError } from "../_shared/http.ts";
+import { readChatResult, requestChatCompletion } from "../_shared/llm.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Upload error codes for the shared function errors the client can act on
+const FUNCTION_ERROR_CODES: Partial<Record<FunctionError['code'], string>> = {
+  rate_limited: 'RATE_LIMITED',
+  budget_exceeded: 'BUDGET_EXCEEDED',
+};
+
 // Helper function to check if filename is generic
 function isGenericFileName(fileName: string): boolean {
   const genericPatterns = [
@@ -24,39 +35,29 @@ function isGenericFileName(fileName: string): boolean {
 }
 
 // Helper function to generate title using AI
-async function generateTitle(content: string, openaiApiKey: string): Promise<string> {
+async function generateTitle(content: string): Promise<string> {
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system', 
-            content: 'Generate a concise, descriptive title (max 8 words) for this document based on its content. Return only the title, no quotes or explanations.'
-          },
-          {
-            role: 'user', 
-            content: `Generate a title for this content:\n\n${content.substring(0, 1000)}`
-          }
-        ],
-        max_tokens: 50
-      }),
+    const completion = await requestChatCompletion({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system', 
+          content: 'Generate a concise, descriptive title (max 8 words) for this document based on its content. Return only the title, no quotes or explanations.'
+        },
+        {
+          role: 'user', 
+          content: `Generate a title for this content:\n\n${content.substring(0, 1000)}`
+        }
+      ],
+      maxTokens: 50,
+      // withRetry below already retries the whole title generation
+      retries: 0
     });
 
-    if (!response.ok) {
-      throw new Error(`OpenAI title generation failed: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const title = data.choices[0]?.message?.content?.trim();
+    const title = (await readChatResult(completion)).text.trim();
     
     if (!title) {
-      throw new Error('Empty title response from OpenAI');
+      throw new Error('Empty title response from model');
     }
 
     // Clean up the title (remove quotes, limit length)
@@ -69,28 +70,6 @@ async function generateTitle(content: string, openaiApiKey: string): Promise<str
   }
 }
 
-// Helper function to generate embedding
-async function generateEmbedding(content: string, openaiApiKey: string): Promise<number[]> {
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'text-embedding-3-small',
-      input: content,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI embedding failed: ${response.status} ${await response.text()}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
-}
-
 // Helper function with exponential backoff retry
 async function withRetry<T>(
   operation: () => Promise<T>, 
@@ -126,11 +105,10 @@ serve(async (req) => {
 
   try {
     // Get environment variables
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
     const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
     
-    if (!OPENAI_API_KEY || !SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
       return new Response(JSON.stringify({
         success: false,
         error: 'Missing required environment variables',
@@ -202,13 +180,18 @@ serve(async (req) => {
       });
     }
 
+    // Per-function and per-user rate limits, then monthly spend and token caps
+    await enforceRateLimit(supabase, 'process-uploaded-document');
+    await enforceBudget(supabase);
+
     // Server-side file type validation
     const fileExtension = file_name.toLowerCase().substring(file_name.lastIndexOf('.'));
-    const allowedExtensions = ['.txt', '.md'];
+    // Files arrive as extracted text; this mirrors the client-side importers
+    const allowedExtensions = ['.txt', '.md', '.markdown', '.html', '.htm', '.docx', '.pdf', '.rtf', '.epub'];
     if (!allowedExtensions.includes(fileExtension)) {
       return new Response(JSON.stringify({
         success: false,
-        error: `File type ${fileExtension} not supported. Only .txt and .md files are allowed.`,
+        error: `File type ${fileExtension} not supported. Supported types: ${allowedExtensions.join(', ')}.`,
         error_code: 'VALIDATION_ERROR'
       }), {
         status: 400,
@@ -216,31 +199,19 @@ serve(async (req) => {
       });
     }
 
-    // Truncate content if too large (max 30k chars for embeddings)
-    const maxContentLength = 30000;
-    const processedContent = file_content.length > maxContentLength 
-      ? file_content.substring(0, maxContentLength) 
-      : file_content;
-
-    console.log(`Processing document: ${file_name} (${processedContent.length} chars)`);
+    console.log(`Processing document: ${file_name} (${file_content.length} chars)`);
 
     // Generate title if filename is generic
     let title = file_name.replace(/\.[^/.]+$/, ""); // Remove extension
     if (isGenericFileName(file_name)) {
       console.log('Generic filename detected, generating title...');
       title = await withRetry(() => 
-        generateTitle(processedContent, OPENAI_API_KEY)
+        generateTitle(file_content)
       );
     }
 
-    // Generate embedding with retry logic
-    console.log('Generating embedding...');
-    const embedding = await withRetry(() => 
-      generateEmbedding(processedContent, OPENAI_API_KEY)
-    );
-
     // Calculate word count
-    const wordCount = processedContent.trim().split(/\s+/).length;
+    const wordCount = file_content.trim().split(/\s+/).length;
 
     // Insert document into database using authenticated user ID
     console.log('Inserting document into database...');
@@ -249,8 +220,7 @@ serve(async (req) => {
       .insert({
         user_id: user.id, // Use authenticated user ID for security
         title,
-        content: file_content, // Store full content, not truncated
-        embedding,
+        content: file_content,
         word_count: wordCount,
         category: 'general',
         status: 'draft'
@@ -270,6 +240,30 @@ serve(async (req) => {
       });
     }
 
+    // Embed every chunk of the document with retry logic; roll back the insert on failure
+    console.log('Generating embeddings...');
+    try {
+      const { embedding } = await withRetry(() =>
+        indexDocumentChunks(supabase, {
+          documentId: document.id,
+          userId: user.id,
+          content: file_content,
+        })
+      );
+
+      const { error: embeddingError } = await supabase
+        .from('documents')
+        .update({ embedding })
+        .eq('id', document.id);
+
+      if (embeddingError) {
+        throw new Error(`Database update failed: ${embeddingError.message}`);
+      }
+    } catch (error) {
+      await supabase.from('documents').delete().eq('id', document.id);
+      throw error;
+    }
+
     console.log(`Document created successfully: ${document.id}`);
 
     // Return success response
@@ -291,8 +285,8 @@ serve(async (req) => {
     
     // Categorize errors for better client handling
     let errorCode = 'UNKNOWN_ERROR';
-    if (error.message?.includes('OpenAI')) {
-      errorCode = 'OPENAI_ERROR';
+    if (error instanceof FunctionError) {
+      errorCode = FUNCTION_ERROR_CODES[error.code] ?? 'AI_PROVIDER_ERROR';
     } else if (error.message?.includes('Database')) {
       errorCode = 'DB_ERROR';
     } else if (error.message?.includes('fetch')) {
@@ -302,9 +296,10 @@ serve(async (req) => {
     return new Response(JSON.stringify({
       success: false,
       error: error.message || 'An unexpected error occurred',
-      error_code: errorCode
+      error_code: errorCode,
+      ...(error instanceof FunctionError && error.retryAfter !== undefined ? { retry_after: error.retryAfter } : {})
     }), {
-      status: 500,
+      status: error instanceof FunctionError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
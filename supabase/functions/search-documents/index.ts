@@ -0,0 +1,61 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceBudget } from "../_shared/budget.ts";
+import { embedText } from "../_shared/embeddings.ts";
+import { FunctionError, handleRequest, jsonResponse, requireEnv } from "../_shared/http.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import { groupPassagesByDocument, matchPassages } from "../_shared/retrieval.ts";
+import { searchDocuments } from "../_shared/search.ts";
+
+// Queries shorter than this are matched by keywords only
+const MIN_SEMANTIC_QUERY_LENGTH = 3;
+
+serve(handleRequest('search-documents', async (req) => {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) throw new FunctionError('unauthorized', 'Missing Authorization header.');
+
+  const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    throw new FunctionError('unauthorized', 'Invalid or expired authentication token');
+  }
+
+  const { query, threshold = 0.3, limit = 20 } = await req.json().catch(() => ({}));
+  if (!query || typeof query !== 'string' || !query.trim()) {
+    throw new FunctionError('invalid_request', 'A search query is required.');
+  }
+
+  const trimmed = query.trim();
+  const count = Math.min(limit, 50);
+  console.log(`Searching documents for user ${user.id}`);
+
+  // Rate limited or over the monthly AI budget, search falls back to keyword matching
+  let semantic = trimmed.length >= MIN_SEMANTIC_QUERY_LENGTH;
+  if (semantic) {
+    try {
+      await enforceRateLimit(supabase, 'search-documents');
+      await enforceBudget(supabase);
+    } catch (budgetError) {
+      console.warn('Skipping semantic search:', (budgetError as Error).message);
+      semantic = false;
+    }
+  }
+
+  // One embedding serves both the document ranking and the passage matches
+  const embedding = semantic ? await embedText(trimmed) : undefined;
+
+  const [results, passages] = await Promise.all([
+    searchDocuments(supabase, { query: trimmed, embedding, threshold, count }),
+    embedding
+      ? matchPassages(supabase, { embedding, threshold, count: 12 })
+      : Promise.resolve([])
+  ]);
+
+  console.log(`Found ${results.length} documents and ${passages.length} passages`);
+
+  return jsonResponse({ results, passages: groupPassagesByDocument(passages) });
+}));
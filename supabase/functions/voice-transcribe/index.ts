@@ -1,6 +1,10 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceBudget } from "../_shared/budget.ts";
+import { errorResponse } from "../_shared/http.ts";
+import { openaiBaseUrl } from "../_shared/providers.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,6 +31,10 @@ serve(async (req) => {
       },
     });
 
+    // Per-function and per-user rate limits, then monthly spend and token caps
+    await enforceRateLimit(supabase, 'voice-transcribe');
+    await enforceBudget(supabase);
+
     const { audio, userId } = await req.json();
     
     if (!audio || !userId) {
@@ -49,7 +57,7 @@ serve(async (req) => {
     formData.append('model', 'whisper-1');
 
     // Transcribe with OpenAI Whisper
-    const whisperResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+    const whisperResponse = await fetch(`${openaiBaseUrl()}/audio/transcriptions`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${OPENAI_API_KEY}`,
@@ -126,12 +134,6 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Voice transcription error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(error);
   }
 });
\ No newline at end of file
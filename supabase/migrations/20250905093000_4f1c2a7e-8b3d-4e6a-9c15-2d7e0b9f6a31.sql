@@ -0,0 +1,61 @@
+-- Create document_versions table for revision history snapshots
+CREATE TABLE public.document_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  version_number INTEGER NOT NULL DEFAULT 1,
+  title VARCHAR(255) NOT NULL,
+  content TEXT DEFAULT '',
+  word_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, version_number)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for document_versions
+CREATE POLICY "Users can view their own document versions"
+ON public.document_versions FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Only for documents the user owns, so nobody can plant history on another's
+CREATE POLICY "Users can create their own document versions"
+ON public.document_versions FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.id = document_id
+      AND d.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own document versions"
+ON public.document_versions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Index for listing a document's history newest first
+CREATE INDEX idx_document_versions_document_created
+ON public.document_versions (document_id, created_at DESC);
+
+-- Assign sequential version numbers per document. Locking the document row
+-- first makes concurrent snapshots of one document take their numbers in
+-- turn instead of colliding on the same one.
+CREATE OR REPLACE FUNCTION public.set_document_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM 1 FROM public.documents WHERE id = NEW.document_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+  INTO NEW.version_number
+  FROM public.document_versions
+  WHERE document_id = NEW.document_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_document_versions_number
+  BEFORE INSERT ON public.document_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_document_version_number();
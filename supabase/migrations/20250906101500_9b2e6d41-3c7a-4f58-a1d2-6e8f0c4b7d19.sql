@@ -0,0 +1,101 @@
+-- Create document_chunks table so long documents are embedded passage by passage
+CREATE TABLE public.document_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  embedding vector(1536),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, chunk_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for document_chunks
+CREATE POLICY "Users can view their own document chunks"
+ON public.document_chunks FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document chunks"
+ON public.document_chunks FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document chunks"
+ON public.document_chunks FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_document_chunks_document ON public.document_chunks (document_id, chunk_index);
+CREATE INDEX idx_document_chunks_user ON public.document_chunks (user_id);
+
+-- Approximate nearest neighbour index for cosine similarity search
+CREATE INDEX idx_document_chunks_embedding
+ON public.document_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- Passage-level similarity search over the caller's chunks, returning the
+-- character range of each match. Runs as the caller, so RLS applies too.
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding vector,
+  match_threshold double precision DEFAULT 0.5,
+  match_count integer DEFAULT 8
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  title character varying,
+  content text,
+  chunk_index integer,
+  start_offset integer,
+  end_offset integer,
+  similarity double precision
+)
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    documents.title,
+    document_chunks.content,
+    document_chunks.chunk_index,
+    document_chunks.start_offset,
+    document_chunks.end_offset,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id
+  WHERE document_chunks.user_id = auth.uid()
+    AND document_chunks.embedding IS NOT NULL
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$function$;
+
+-- Swaps a document's chunks for a new set in one transaction, so a re-index
+-- that fails part way leaves the previous chunks searchable. Runs as the
+-- caller, so RLS decides which rows it may remove and add.
+CREATE OR REPLACE FUNCTION public.replace_document_chunks(doc_id uuid, owner_id uuid, chunks jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  DELETE FROM document_chunks WHERE document_id = doc_id;
+
+  INSERT INTO document_chunks (document_id, user_id, chunk_index, content, start_offset, end_offset, embedding)
+  SELECT
+    doc_id,
+    owner_id,
+    (chunk->>'chunk_index')::integer,
+    chunk->>'content',
+    (chunk->>'start_offset')::integer,
+    (chunk->>'end_offset')::integer,
+    (chunk->>'embedding')::vector
+  FROM jsonb_array_elements(chunks) AS chunk;
+END;
+$function$;
@@ -0,0 +1,91 @@
+-- Persist AI chat conversations so follow-up questions keep their context
+CREATE TABLE public.chat_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  -- Rolling summary of turns that no longer fit in the model's history budget
+  summary TEXT,
+  summarized_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.chat_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Documents and passages retrieved for an assistant reply
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for chat_conversations
+CREATE POLICY "Users can view their own chat conversations"
+ON public.chat_conversations FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chat conversations"
+ON public.chat_conversations FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chat conversations"
+ON public.chat_conversations FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat conversations"
+ON public.chat_conversations FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create RLS policies for chat_messages
+CREATE POLICY "Users can view their own chat messages"
+ON public.chat_messages FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chat messages"
+ON public.chat_messages FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.chat_conversations
+    WHERE chat_conversations.id = conversation_id
+      AND chat_conversations.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own chat messages"
+ON public.chat_messages FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_chat_conversations_user_updated ON public.chat_conversations (user_id, updated_at DESC);
+CREATE INDEX idx_chat_messages_conversation_created ON public.chat_messages (conversation_id, created_at);
+
+CREATE TRIGGER update_chat_conversations_updated_at
+BEFORE UPDATE ON public.chat_conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the most recently active conversations at the top of the list
+CREATE OR REPLACE FUNCTION public.touch_chat_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.chat_conversations
+  SET updated_at = now()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER touch_chat_conversation_on_message
+AFTER INSERT ON public.chat_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_chat_conversation();
@@ -0,0 +1,77 @@
+-- Hybrid document search: fuses Postgres full-text rank with embedding
+-- similarity using reciprocal rank fusion, and returns highlighted snippets.
+-- The full-text expression matches idx_documents_search so the GIN index is used.
+-- Searches only the caller's documents and runs as the caller, so RLS applies.
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query text,
+  query_embedding vector DEFAULT NULL,
+  match_threshold double precision DEFAULT 0.3,
+  match_count integer DEFAULT 20,
+  rrf_k integer DEFAULT 60
+)
+RETURNS TABLE(
+  id uuid,
+  title character varying,
+  snippet text,
+  text_rank real,
+  similarity double precision,
+  score double precision
+)
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  caller uuid := auth.uid();
+  ts_query tsquery := websearch_to_tsquery('english', coalesce(search_query, ''));
+BEGIN
+  RETURN QUERY
+  -- CTE columns are named apart from the output columns, which plpgsql treats as variables
+  WITH text_matches AS (
+    SELECT
+      documents.id AS doc_id,
+      ts_rank_cd(to_tsvector('english', documents.title || ' ' || coalesce(documents.content, '')), ts_query) AS fts_rank
+    FROM documents
+    WHERE documents.user_id = caller
+      AND to_tsvector('english', documents.title || ' ' || coalesce(documents.content, '')) @@ ts_query
+    ORDER BY 2 DESC
+    LIMIT match_count * 2
+  ),
+  text_ranked AS (
+    SELECT text_matches.doc_id, text_matches.fts_rank,
+      row_number() OVER (ORDER BY text_matches.fts_rank DESC) AS position
+    FROM text_matches
+  ),
+  vector_ranked AS (
+    SELECT matches.id AS doc_id, matches.similarity AS cosine,
+      row_number() OVER (ORDER BY matches.similarity DESC) AS position
+    FROM match_documents(query_embedding, caller, match_threshold, match_count * 2) AS matches
+    WHERE query_embedding IS NOT NULL
+  ),
+  fused AS (
+    SELECT
+      coalesce(text_ranked.doc_id, vector_ranked.doc_id) AS doc_id,
+      text_ranked.fts_rank,
+      vector_ranked.cosine,
+      coalesce(1.0 / (rrf_k + text_ranked.position), 0)
+        + coalesce(1.0 / (rrf_k + vector_ranked.position), 0) AS fused_score
+    FROM text_ranked
+    FULL OUTER JOIN vector_ranked ON vector_ranked.doc_id = text_ranked.doc_id
+  )
+  SELECT
+    documents.id,
+    documents.title,
+    ts_headline(
+      'english',
+      coalesce(documents.content, ''),
+      ts_query,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    fused.fts_rank,
+    fused.cosine,
+    fused.fused_score::double precision
+  FROM fused
+  JOIN documents ON documents.id = fused.doc_id
+  ORDER BY fused.fused_score DESC
+  LIMIT match_count;
+END;
+$function$;
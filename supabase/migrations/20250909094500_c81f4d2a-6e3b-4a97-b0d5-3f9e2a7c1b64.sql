@@ -0,0 +1,26 @@
+-- Server-side document filtering, sorting and keyset pagination.
+
+-- Computed field so PostgREST queries can full-text filter documents alongside
+-- the other filters. It inlines to the idx_documents_search expression, so the
+-- GIN index is used, and it is not returned by select('*').
+CREATE OR REPLACE FUNCTION public.search_vector(public.documents)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT to_tsvector('english', $1.title || ' ' || coalesce($1.content, ''));
+$function$;
+
+-- Word-count sorting happens in the database, so every row needs a count
+UPDATE public.documents
+SET word_count = coalesce(array_length(regexp_split_to_array(trim(content), '\s+'), 1), 0)
+WHERE word_count IS NULL
+   OR (word_count = 0 AND trim(coalesce(content, '')) <> '');
+
+ALTER TABLE public.documents ALTER COLUMN word_count SET NOT NULL;
+
+-- Keyset pagination indexes, one per sort order (id breaks ties)
+CREATE INDEX idx_documents_user_updated_at ON public.documents(user_id, updated_at DESC, id DESC);
+CREATE INDEX idx_documents_user_created_at ON public.documents(user_id, created_at, id);
+CREATE INDEX idx_documents_user_title ON public.documents(user_id, title, id);
+CREATE INDEX idx_documents_user_word_count ON public.documents(user_id, word_count DESC, id DESC);
@@ -0,0 +1,58 @@
+-- Nested folders: cycle guard and per-folder document counts.
+
+-- A folder can only be nested under another folder of the same user, and
+-- never under itself or one of its own descendants
+CREATE OR REPLACE FUNCTION public.prevent_folder_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM folders WHERE folders.id = NEW.parent_id AND folders.user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Parent folder not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT folders.id, folders.parent_id FROM folders WHERE folders.id = NEW.parent_id
+      UNION
+      SELECT folders.id, folders.parent_id
+      FROM folders
+      JOIN ancestors ON folders.id = ancestors.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE ancestors.id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A folder cannot be moved into itself or one of its subfolders'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_folder_cycle
+BEFORE INSERT OR UPDATE OF parent_id ON public.folders
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_folder_cycle();
+
+-- Documents directly in each folder (null for unfiled); the client sums
+-- subtrees for recursive counts. Runs as the caller, so RLS scopes it.
+CREATE OR REPLACE FUNCTION public.folder_document_counts()
+RETURNS TABLE(folder_id uuid, document_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT documents.folder_id, count(*)
+  FROM documents
+  WHERE documents.user_id = auth.uid()
+  GROUP BY documents.folder_id;
+$function$;
+
+CREATE INDEX idx_folders_user_parent_order ON public.folders(user_id, parent_id, display_order);
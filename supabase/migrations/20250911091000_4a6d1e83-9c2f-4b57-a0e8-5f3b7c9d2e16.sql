@@ -0,0 +1,79 @@
+-- Tags: a many-to-many taxonomy that cuts across categories and folders
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name VARCHAR(50) NOT NULL,
+  color VARCHAR(7) DEFAULT '#6B7280',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.document_tags (
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (document_id, tag_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for tags
+CREATE POLICY "Users can view their own tags"
+ON public.tags FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+ON public.tags FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+ON public.tags FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+ON public.tags FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create RLS policies for document_tags
+CREATE POLICY "Users can view their own document tags"
+ON public.document_tags FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document tags"
+ON public.document_tags FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = document_id
+      AND documents.user_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.tags
+    WHERE tags.id = tag_id
+      AND tags.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own document tags"
+ON public.document_tags FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Tag names are unique per user, ignoring case
+CREATE UNIQUE INDEX idx_tags_user_name ON public.tags(user_id, lower(name));
+CREATE INDEX idx_document_tags_tag_id ON public.document_tags(tag_id);
+
+-- Computed field so document queries can filter by tags: overlaps (any tag)
+-- or contains (all tags). Not returned by select('*').
+CREATE OR REPLACE FUNCTION public.tag_ids(public.documents)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT coalesce(array_agg(document_tags.tag_id), '{}')
+  FROM document_tags
+  WHERE document_tags.document_id = $1.id;
+$function$;
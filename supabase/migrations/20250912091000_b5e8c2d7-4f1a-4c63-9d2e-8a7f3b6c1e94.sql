@@ -0,0 +1,99 @@
+-- Monthly AI budgets: every edge function checks these before calling a model
+CREATE TABLE public.ai_budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  -- NULL means no cap
+  monthly_spend_limit NUMERIC(10, 2) CHECK (monthly_spend_limit IS NULL OR monthly_spend_limit >= 0),
+  monthly_token_limit BIGINT CHECK (monthly_token_limit IS NULL OR monthly_token_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.ai_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for ai_budgets
+CREATE POLICY "Users can view their own ai budget"
+ON public.ai_budgets FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own ai budget"
+ON public.ai_budgets FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own ai budget"
+ON public.ai_budgets FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own ai budget"
+ON public.ai_budgets FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_ai_budgets_updated_at
+BEFORE UPDATE ON public.ai_budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Daily usage per function and model for the usage dashboard. Runs as the
+-- caller, so RLS limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.ai_usage_summary(since timestamp with time zone)
+RETURNS TABLE(
+  day date,
+  function_name text,
+  model text,
+  requests bigint,
+  tokens_input bigint,
+  tokens_output bigint,
+  cost numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    ai_usage.created_at::date AS day,
+    ai_usage.function_name,
+    coalesce(ai_usage.model, 'unknown') AS model,
+    count(*) AS requests,
+    coalesce(sum(ai_usage.tokens_input), 0) AS tokens_input,
+    coalesce(sum(ai_usage.tokens_output), 0) AS tokens_output,
+    coalesce(sum(ai_usage.cost_estimate), 0) AS cost
+  FROM ai_usage
+  WHERE ai_usage.user_id = auth.uid()
+    AND ai_usage.created_at >= since
+  GROUP BY 1, 2, 3
+  ORDER BY 1;
+$function$;
+
+-- The caller's spend and tokens for the current calendar month (UTC) next to
+-- their caps
+CREATE OR REPLACE FUNCTION public.ai_budget_status()
+RETURNS TABLE(
+  period_start timestamp with time zone,
+  spend numeric,
+  tokens bigint,
+  monthly_spend_limit numeric,
+  monthly_token_limit bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  WITH period AS (
+    SELECT date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS start
+  )
+  SELECT
+    period.start,
+    coalesce((
+      SELECT sum(cost_estimate) FROM ai_usage
+      WHERE user_id = auth.uid() AND created_at >= period.start
+    ), 0),
+    coalesce((
+      SELECT sum(coalesce(tokens_input, 0) + coalesce(tokens_output, 0)) FROM ai_usage
+      WHERE user_id = auth.uid() AND created_at >= period.start
+    ), 0)::bigint,
+    ai_budgets.monthly_spend_limit,
+    ai_budgets.monthly_token_limit
+  FROM period
+  LEFT JOIN ai_budgets ON ai_budgets.user_id = auth.uid();
+$function$;
@@ -0,0 +1,102 @@
+-- Sliding-window rate limiting for AI edge functions. Each allowed request
+-- leaves one event; a request is refused while the caller already has the
+-- maximum number of events in the window.
+CREATE TABLE public.ai_rate_limit_events (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  function_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security. Events are only written through
+-- consume_rate_limit, so users can read theirs but not add or remove them.
+ALTER TABLE public.ai_rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own rate limit events"
+ON public.ai_rate_limit_events FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_ai_rate_limit_events_user_function_created
+ON public.ai_rate_limit_events (user_id, function_name, created_at);
+CREATE INDEX idx_ai_rate_limit_events_user_created
+ON public.ai_rate_limit_events (user_id, created_at);
+
+-- Checks the caller against a per-function limit and a limit across all AI
+-- functions. Records the request and returns 0 when both allow it, otherwise
+-- returns the seconds until enough events leave the window. Windows are
+-- capped at a day, which is how long events are kept.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  function_name text,
+  function_max_requests integer,
+  function_window_seconds integer,
+  user_max_requests integer,
+  user_window_seconds integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  caller uuid := auth.uid();
+  function_window interval := make_interval(secs => least(function_window_seconds, 86400));
+  user_window interval := make_interval(secs => least(user_window_seconds, 86400));
+  used integer;
+  oldest timestamp with time zone;
+  retry_after integer := 0;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Concurrent requests from one user are counted one at a time
+  PERFORM pg_advisory_xact_lock(hashtext('ai_rate_limit:' || caller::text));
+
+  DELETE FROM ai_rate_limit_events
+  WHERE ai_rate_limit_events.user_id = caller
+    AND ai_rate_limit_events.created_at < now() - interval '1 day';
+
+  SELECT count(*) INTO used
+  FROM ai_rate_limit_events
+  WHERE ai_rate_limit_events.user_id = caller
+    AND ai_rate_limit_events.function_name = consume_rate_limit.function_name
+    AND ai_rate_limit_events.created_at > now() - function_window;
+
+  IF used >= function_max_requests THEN
+    -- The request fits once the events beyond the limit have left the window
+    SELECT ai_rate_limit_events.created_at INTO oldest
+    FROM ai_rate_limit_events
+    WHERE ai_rate_limit_events.user_id = caller
+      AND ai_rate_limit_events.function_name = consume_rate_limit.function_name
+      AND ai_rate_limit_events.created_at > now() - function_window
+    ORDER BY ai_rate_limit_events.created_at
+    OFFSET used - function_max_requests
+    LIMIT 1;
+    retry_after := greatest(retry_after, ceil(extract(epoch FROM oldest + function_window - now()))::integer);
+  END IF;
+
+  SELECT count(*) INTO used
+  FROM ai_rate_limit_events
+  WHERE ai_rate_limit_events.user_id = caller
+    AND ai_rate_limit_events.created_at > now() - user_window;
+
+  IF used >= user_max_requests THEN
+    SELECT ai_rate_limit_events.created_at INTO oldest
+    FROM ai_rate_limit_events
+    WHERE ai_rate_limit_events.user_id = caller
+      AND ai_rate_limit_events.created_at > now() - user_window
+    ORDER BY ai_rate_limit_events.created_at
+    OFFSET used - user_max_requests
+    LIMIT 1;
+    retry_after := greatest(retry_after, ceil(extract(epoch FROM oldest + user_window - now()))::integer);
+  END IF;
+
+  IF retry_after > 0 THEN
+    RETURN retry_after;
+  END IF;
+
+  INSERT INTO ai_rate_limit_events (user_id, function_name)
+  VALUES (caller, consume_rate_limit.function_name);
+  RETURN 0;
+END;
+$function$;
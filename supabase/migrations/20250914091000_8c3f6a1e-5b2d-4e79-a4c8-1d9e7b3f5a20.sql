@@ -0,0 +1,86 @@
+-- Published command packs: a versioned JSON export of a user's commands that
+-- anyone signed in can install through its share link
+CREATE TABLE public.command_packs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  -- The pack exactly as exported (see src/utils/commandPacks.ts)
+  pack JSONB NOT NULL,
+  share_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  install_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_command_packs_user_id ON public.command_packs(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.command_packs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for command_packs. Other users read a pack through
+-- get_shared_command_pack, which needs the share token.
+CREATE POLICY "Users can view their own command packs"
+ON public.command_packs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own command packs"
+ON public.command_packs FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own command packs"
+ON public.command_packs FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own command packs"
+ON public.command_packs FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_command_packs_updated_at
+BEFORE UPDATE ON public.command_packs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The pack behind a share link, for any signed-in user. Returns no row for an
+-- unknown token.
+CREATE OR REPLACE FUNCTION public.get_shared_command_pack(token text)
+RETURNS TABLE(
+  id uuid,
+  name text,
+  description text,
+  pack jsonb,
+  is_owner boolean,
+  install_count integer,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    command_packs.id,
+    command_packs.name,
+    command_packs.description,
+    command_packs.pack,
+    command_packs.user_id = auth.uid(),
+    command_packs.install_count,
+    command_packs.created_at
+  FROM command_packs
+  WHERE auth.uid() IS NOT NULL
+    AND command_packs.share_token = token;
+$function$;
+
+-- Counts an install of a shared pack; installing your own pack doesn't count
+CREATE OR REPLACE FUNCTION public.record_command_pack_install(token text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  UPDATE command_packs
+  SET install_count = install_count + 1
+  WHERE auth.uid() IS NOT NULL
+    AND share_token = token
+    AND user_id <> auth.uid();
+$function$;
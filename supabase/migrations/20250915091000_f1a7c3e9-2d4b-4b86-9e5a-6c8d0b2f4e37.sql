@@ -0,0 +1,4 @@
+-- Command chains are user_commands rows with function_name 'command-chain'
+-- whose steps name other commands by id: [{"command_id": "...", "input": "previous"}]
+ALTER TABLE public.user_commands
+ADD COLUMN steps JSONB CHECK (steps IS NULL OR jsonb_typeof(steps) = 'array');
@@ -0,0 +1,337 @@
+-- Document sharing. The owner (documents.user_id) always has full access;
+-- collaborators get one of three roles:
+--   viewer    - reads the document
+--   commenter - reads and comments
+--   editor    - reads, comments and edits
+CREATE TABLE public.document_collaborators (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'commenter', 'editor')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, user_id)
+);
+
+CREATE INDEX idx_document_collaborators_user_id ON public.document_collaborators(user_id);
+
+CREATE TRIGGER update_document_collaborators_updated_at
+BEFORE UPDATE ON public.document_collaborators
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The signed-in user's role on a document: 'owner', a collaborator role, or
+-- NULL for no access. SECURITY DEFINER so policies on documents and
+-- document_collaborators can use it without recursing into each other.
+CREATE OR REPLACE FUNCTION public.document_role(doc_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM documents WHERE id = doc_id AND user_id = auth.uid()) THEN 'owner'
+    ELSE (
+      SELECT role
+      FROM document_collaborators
+      WHERE document_id = doc_id
+        AND user_id = auth.uid()
+    )
+  END;
+$function$;
+
+ALTER TABLE public.document_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Document members can view its collaborators"
+ON public.document_collaborators FOR SELECT
+USING (public.document_role(document_id) IS NOT NULL);
+
+CREATE POLICY "Owners can add collaborators"
+ON public.document_collaborators FOR INSERT
+WITH CHECK (public.document_role(document_id) = 'owner');
+
+CREATE POLICY "Owners can change collaborator roles"
+ON public.document_collaborators FOR UPDATE
+USING (public.document_role(document_id) = 'owner');
+
+-- Owners remove anyone; collaborators can leave
+CREATE POLICY "Owners and the collaborator can remove access"
+ON public.document_collaborators FOR DELETE
+USING (public.document_role(document_id) = 'owner' OR auth.uid() = user_id);
+
+-- Shared documents. Only owners delete; see restrict_editor_document_changes
+-- for what editors may change through an update.
+CREATE POLICY "Collaborators can view shared documents"
+ON public.documents FOR SELECT
+USING (public.document_role(id) IN ('viewer', 'commenter', 'editor'));
+
+CREATE POLICY "Editors can update shared documents"
+ON public.documents FOR UPDATE
+USING (public.document_role(id) = 'editor')
+WITH CHECK (public.document_role(id) = 'editor');
+
+-- Editors change a shared document's text, not where or how the owner files
+-- it. Besides title and content, only the columns saving text updates along
+-- with it may change: word_count, the version and live_update_id kept by the
+-- triggers and live editing, the search embedding and updated_at. Updates
+-- made without a user (the service role) aren't restricted.
+CREATE OR REPLACE FUNCTION public.restrict_editor_document_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  text_columns text[] := ARRAY['title', 'content', 'word_count', 'version', 'live_update_id', 'embedding', 'updated_at'];
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() IS DISTINCT FROM OLD.user_id
+    AND (to_jsonb(NEW) - text_columns) IS DISTINCT FROM (to_jsonb(OLD) - text_columns) THEN
+    RAISE EXCEPTION 'Editors can only change a shared document''s title and content';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER restrict_documents_editor_changes
+BEFORE UPDATE ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.restrict_editor_document_changes();
+
+CREATE OR REPLACE FUNCTION public.prevent_document_owner_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A document''s owner cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_documents_owner_change
+BEFORE UPDATE ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_document_owner_change();
+
+CREATE POLICY "Collaborators can view shared document versions"
+ON public.document_versions FOR SELECT
+USING (public.document_role(document_id) IS NOT NULL);
+
+-- Shares a document with the account using an email address, or changes that
+-- collaborator's role. Only the owner can share. Returns the share's id, or
+-- NULL when no account uses the address: the caller isn't told which, so
+-- sharing can't be used to find out who has an account.
+CREATE OR REPLACE FUNCTION public.share_document(doc_id uuid, email text, new_role text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  collaborator_id uuid;
+  share_id uuid;
+BEGIN
+  IF public.document_role(doc_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can share this document';
+  END IF;
+
+  SELECT id INTO collaborator_id
+  FROM auth.users
+  WHERE lower(auth.users.email) = lower(trim(share_document.email));
+
+  IF collaborator_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF collaborator_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this document';
+  END IF;
+
+  INSERT INTO document_collaborators (document_id, user_id, role, invited_by)
+  VALUES (doc_id, collaborator_id, new_role, auth.uid())
+  ON CONFLICT (document_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING id INTO share_id;
+
+  RETURN share_id;
+END;
+$function$;
+
+-- The owner and collaborators of a document with their emails and names, for
+-- anyone with access to it
+CREATE OR REPLACE FUNCTION public.get_document_members(doc_id uuid)
+RETURNS TABLE(
+  user_id uuid,
+  email text,
+  name text,
+  role text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT members.user_id, users.email::text, profiles.name::text, members.role
+  FROM (
+    SELECT documents.user_id, 'owner' AS role
+    FROM documents
+    WHERE documents.id = doc_id
+    UNION ALL
+    SELECT document_collaborators.user_id, document_collaborators.role
+    FROM document_collaborators
+    WHERE document_collaborators.document_id = doc_id
+  ) members
+  JOIN auth.users users ON users.id = members.user_id
+  LEFT JOIN profiles ON profiles.user_id = members.user_id
+  WHERE public.document_role(doc_id) IS NOT NULL;
+$function$;
+
+-- Yjs updates for documents edited live. Appending never conflicts: the
+-- document is every update merged, in any order. content on documents is
+-- kept as the merged text for search, exports and the non-live editors.
+CREATE TABLE public.document_updates (
+  id BIGSERIAL PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  -- Base64 Yjs update (Y.encodeStateAsUpdate or an incremental update)
+  yjs_update TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_document_updates_document_id ON public.document_updates(document_id, id);
+
+ALTER TABLE public.document_updates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Document members can view its updates"
+ON public.document_updates FOR SELECT
+USING (public.document_role(document_id) IS NOT NULL);
+
+CREATE POLICY "Owners and editors can add updates"
+ON public.document_updates FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.document_role(document_id) IN ('owner', 'editor'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.document_updates;
+
+-- The last update content is known to match. Saving content any other way
+-- clears it, which tells the next live session that content has edits the
+-- updates don't.
+ALTER TABLE public.documents ADD COLUMN live_update_id BIGINT;
+
+CREATE OR REPLACE FUNCTION public.clear_document_live_update_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    AND NEW.live_update_id IS NOT DISTINCT FROM OLD.live_update_id THEN
+    NEW.live_update_id := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER clear_documents_live_update_id
+BEFORE UPDATE ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_document_live_update_id();
+
+-- Adds an update that brings the log level with content, but only if
+-- through_id is still the document's latest update (NULL: it has none yet).
+-- Returns the new id, or NULL when another update got in first. Seeding the
+-- log, or folding in an edit made outside live editing, must not race another
+-- client doing the same.
+CREATE OR REPLACE FUNCTION public.append_document_update(doc_id uuid, update_data text, through_id bigint DEFAULT NULL)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_id bigint;
+BEGIN
+  IF coalesce(public.document_role(doc_id), '') NOT IN ('owner', 'editor') THEN
+    RAISE EXCEPTION 'Only owners and editors can edit this document';
+  END IF;
+
+  -- One check-and-append at a time per document
+  PERFORM 1 FROM documents WHERE id = doc_id FOR UPDATE;
+
+  IF (SELECT max(id) FROM document_updates WHERE document_id = doc_id) IS DISTINCT FROM through_id THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO document_updates (document_id, user_id, yjs_update)
+  VALUES (doc_id, auth.uid(), update_data)
+  RETURNING id INTO new_id;
+
+  UPDATE documents SET live_update_id = new_id WHERE id = doc_id;
+
+  RETURN new_id;
+END;
+$function$;
+
+-- Replaces a document's updates up to through_id with one merged snapshot, so
+-- opening it doesn't replay every keystroke. Updates added since are kept.
+-- Only the owner compacts, since it rewrites everyone's history, and only up
+-- to an update that exists, so the snapshot can't stand in for updates its
+-- author never loaded. The snapshot is added before the updates it covers are
+-- removed, in the same transaction, so readers see one or the other.
+CREATE OR REPLACE FUNCTION public.compact_document_updates(doc_id uuid, snapshot text, through_id bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF public.document_role(doc_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can compact a document';
+  END IF;
+
+  -- One compaction or append at a time per document
+  PERFORM 1 FROM documents WHERE id = doc_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM document_updates WHERE document_id = doc_id AND id = through_id) THEN
+    RAISE EXCEPTION 'Unknown update %', through_id;
+  END IF;
+
+  INSERT INTO document_updates (document_id, user_id, yjs_update)
+  VALUES (doc_id, auth.uid(), snapshot);
+
+  DELETE FROM document_updates
+  WHERE document_id = doc_id
+    AND id <= through_id;
+END;
+$function$;
+
+-- Presence (who is here, and their cursors) goes over the private Realtime
+-- channel "document:<id>", open to the document's members only
+CREATE OR REPLACE FUNCTION public.document_channel_role(topic text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF topic !~ '^document:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NULL;
+  END IF;
+  RETURN public.document_role(substring(topic FROM 10)::uuid);
+END;
+$function$;
+
+CREATE POLICY "Document members can receive on its channel"
+ON realtime.messages FOR SELECT
+TO authenticated
+USING (public.document_channel_role(realtime.topic()) IS NOT NULL);
+
+CREATE POLICY "Document members can send presence on its channel"
+ON realtime.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'presence'
+  AND public.document_channel_role(realtime.topic()) IS NOT NULL
+);
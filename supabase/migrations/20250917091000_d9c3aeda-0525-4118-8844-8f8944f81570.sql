@@ -0,0 +1,137 @@
+-- Comment threads on passages of a document. A thread's first comment holds
+-- the anchor: a [anchor_start, anchor_end) character range into the saved
+-- content, moved through each save's diff so it stays on the same passage.
+-- anchor_text is the passage as of the last move, so clients can tell when
+-- a save skipped the move and find the passage again. Replies point at the
+-- first comment through parent_id and have no anchor of their own.
+CREATE TABLE public.document_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  parent_id UUID REFERENCES public.document_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  anchor_start INTEGER,
+  anchor_end INTEGER,
+  anchor_text TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    parent_id IS NOT NULL
+    OR (anchor_start IS NOT NULL AND anchor_end IS NOT NULL AND 0 <= anchor_start AND anchor_start <= anchor_end)
+  )
+);
+
+CREATE INDEX idx_document_comments_document_id ON public.document_comments(document_id, created_at);
+CREATE INDEX idx_document_comments_parent_id ON public.document_comments(parent_id);
+
+CREATE TRIGGER update_document_comments_updated_at
+BEFORE UPDATE ON public.document_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.document_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Document members can view its comments"
+ON public.document_comments FOR SELECT
+USING (public.document_role(document_id) IS NOT NULL);
+
+CREATE POLICY "Commenters can create comments"
+ON public.document_comments FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.document_role(document_id) IN ('owner', 'editor', 'commenter')
+);
+
+-- Authors edit their own words; anchors and resolving go through the
+-- functions below so nobody can rewrite someone else's comment
+CREATE POLICY "Users can update their own comments"
+ON public.document_comments FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Authors and owners can delete comments"
+ON public.document_comments FOR DELETE
+USING (auth.uid() = user_id OR public.document_role(document_id) = 'owner');
+
+CREATE OR REPLACE FUNCTION public.prevent_comment_anchor_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Set only by the functions below, which run as the table owner
+  IF current_user IN ('authenticated', 'anon') AND (
+    NEW.anchor_start IS DISTINCT FROM OLD.anchor_start
+    OR NEW.anchor_end IS DISTINCT FROM OLD.anchor_end
+    OR NEW.anchor_text IS DISTINCT FROM OLD.anchor_text
+    OR NEW.resolved_at IS DISTINCT FROM OLD.resolved_at
+    OR NEW.resolved_by IS DISTINCT FROM OLD.resolved_by
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.document_id IS DISTINCT FROM OLD.document_id
+  ) THEN
+    RAISE EXCEPTION 'Use move_comment_anchors or set_comment_resolved to change this';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_document_comments_anchor_change
+BEFORE UPDATE ON public.document_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_comment_anchor_change();
+
+-- Moves thread anchors after a save. anchors is a JSON array of
+-- {"id", "start", "end", "text"}; only whoever can edit the text moves them.
+CREATE OR REPLACE FUNCTION public.move_comment_anchors(doc_id uuid, anchors jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF coalesce(public.document_role(doc_id), '') NOT IN ('owner', 'editor') THEN
+    RAISE EXCEPTION 'Only owners and editors can move comments';
+  END IF;
+
+  UPDATE document_comments
+  SET anchor_start = (anchor->>'start')::integer,
+      anchor_end = (anchor->>'end')::integer,
+      anchor_text = anchor->>'text'
+  FROM jsonb_array_elements(anchors) AS anchor
+  WHERE document_comments.id = (anchor->>'id')::uuid
+    AND document_comments.document_id = doc_id
+    AND document_comments.parent_id IS NULL;
+END;
+$function$;
+
+-- Resolves or reopens a thread; anyone who can comment can do either
+CREATE OR REPLACE FUNCTION public.set_comment_resolved(comment_id uuid, resolved boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  doc_id uuid;
+BEGIN
+  SELECT document_id INTO doc_id
+  FROM document_comments
+  WHERE id = comment_id
+    AND parent_id IS NULL;
+
+  IF doc_id IS NULL THEN
+    RAISE EXCEPTION 'Comment thread not found';
+  END IF;
+  IF coalesce(public.document_role(doc_id), '') NOT IN ('owner', 'editor', 'commenter') THEN
+    RAISE EXCEPTION 'Only people who can comment can resolve threads';
+  END IF;
+
+  UPDATE document_comments
+  SET resolved_at = CASE WHEN resolved THEN now() END,
+      resolved_by = CASE WHEN resolved THEN auth.uid() END
+  WHERE id = comment_id;
+END;
+$function$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.document_comments;
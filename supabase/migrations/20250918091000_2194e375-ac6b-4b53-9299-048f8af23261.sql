@@ -0,0 +1,29 @@
+-- Every change to a document's title or content bumps its version, however
+-- it was saved. Clients save with the version they loaded and only succeed
+-- while it is still current, so two tabs can't silently overwrite each other.
+UPDATE public.documents SET version = 1 WHERE version IS NULL;
+
+ALTER TABLE public.documents
+  ALTER COLUMN version SET DEFAULT 1,
+  ALTER COLUMN version SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.bump_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Clients can't set it themselves; tags, folders and embeddings don't count
+  IF NEW.title IS DISTINCT FROM OLD.title OR NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER bump_documents_version
+BEFORE UPDATE ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_document_version();
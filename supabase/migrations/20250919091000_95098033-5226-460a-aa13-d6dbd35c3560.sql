@@ -0,0 +1,293 @@
+-- Long-running AI work over several documents (synthesize, compare,
+-- analyze), queued from the browser and run by the process-ai-job function
+-- so it survives timeouts and closed tabs. Each finished job saves its result
+-- as a new document. Jobs change state only through the functions below:
+-- queued -> running -> succeeded | failed, with cancelled reachable from
+-- queued or running, and retry putting failed or cancelled jobs back in the
+-- queue. Users queue, claim, cancel and retry their own jobs; only the worker,
+-- with the service role, reports progress and results.
+CREATE TABLE public.ai_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('synthesize', 'compare', 'analyze')),
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  document_ids UUID[] NOT NULL CHECK (cardinality(document_ids) > 0),
+  -- Kind-specific settings, e.g. synthesisType and instructions
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  progress_message TEXT,
+  result JSONB,
+  result_document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_jobs_user_id ON public.ai_jobs(user_id, created_at DESC);
+
+CREATE TRIGGER update_ai_jobs_updated_at
+BEFORE UPDATE ON public.ai_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ai_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI jobs"
+ON public.ai_jobs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can queue AI jobs"
+ON public.ai_jobs FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'queued'
+  AND progress = 0
+  AND attempts = 0
+  AND result IS NULL
+  AND result_document_id IS NULL
+  AND error IS NULL
+);
+
+CREATE POLICY "Users can clear their finished AI jobs"
+ON public.ai_jobs FOR DELETE
+USING (auth.uid() = user_id AND status IN ('succeeded', 'failed', 'cancelled'));
+
+-- A running job that hasn't reported for this long is assumed dead
+CREATE OR REPLACE FUNCTION public.ai_job_is_stale(job public.ai_jobs)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT job.status = 'running' AND job.updated_at < now() - interval '10 minutes';
+$function$;
+
+-- Moves a queued job to running for the worker. Returns false when the job
+-- isn't the caller's or is already running, finished or cancelled.
+CREATE OR REPLACE FUNCTION public.claim_ai_job(job_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE ai_jobs
+  SET status = 'running',
+      progress = 0,
+      progress_message = NULL,
+      attempts = attempts + 1,
+      started_at = now(),
+      finished_at = NULL
+  WHERE id = job_id
+    AND user_id = auth.uid()
+    AND status = 'queued';
+
+  RETURN FOUND;
+END;
+$function$;
+
+-- Records how far a running job has got. Returns false once it has been
+-- cancelled, so the worker knows to stop.
+CREATE OR REPLACE FUNCTION public.update_ai_job_progress(job_id uuid, progress integer, message text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE ai_jobs
+  SET progress = greatest(0, least(100, update_ai_job_progress.progress)),
+      progress_message = message
+  WHERE id = job_id
+    AND status = 'running';
+
+  RETURN FOUND;
+END;
+$function$;
+
+-- Ends a running job. Returns false when it was cancelled meanwhile, in
+-- which case the outcome is dropped.
+CREATE OR REPLACE FUNCTION public.finish_ai_job(
+  job_id uuid,
+  succeeded boolean,
+  job_result jsonb DEFAULT NULL,
+  result_doc_id uuid DEFAULT NULL,
+  failure text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE ai_jobs
+  SET status = CASE WHEN succeeded THEN 'succeeded' ELSE 'failed' END,
+      progress = CASE WHEN succeeded THEN 100 ELSE progress END,
+      progress_message = NULL,
+      result = job_result,
+      result_document_id = result_doc_id,
+      error = CASE WHEN succeeded THEN NULL ELSE coalesce(failure, 'The job failed') END,
+      finished_at = now()
+  WHERE id = job_id
+    AND status = 'running';
+
+  RETURN FOUND;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.cancel_ai_job(job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE ai_jobs
+  SET status = 'cancelled',
+      progress_message = NULL,
+      finished_at = now()
+  WHERE id = job_id
+    AND user_id = auth.uid()
+    AND status IN ('queued', 'running');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only queued or running jobs can be cancelled';
+  END IF;
+END;
+$function$;
+
+-- Puts a failed, cancelled or stalled job back in the queue
+CREATE OR REPLACE FUNCTION public.retry_ai_job(job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE ai_jobs
+  SET status = 'queued',
+      progress = 0,
+      progress_message = NULL,
+      result = NULL,
+      result_document_id = NULL,
+      error = NULL,
+      started_at = NULL,
+      finished_at = NULL
+  WHERE id = job_id
+    AND user_id = auth.uid()
+    AND (status IN ('failed', 'cancelled') OR public.ai_job_is_stale(ai_jobs));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only failed, cancelled or stalled jobs can be retried';
+  END IF;
+END;
+$function$;
+
+-- Claims jobs no worker is running, for the scheduled resume: queued for
+-- over a minute (the tab closed, or the worker crashed, before it started) or
+-- running without a report for ten minutes. A job that has already stalled
+-- three times is failed instead of being tried again.
+CREATE OR REPLACE FUNCTION public.claim_stale_ai_jobs(max_jobs integer DEFAULT 5)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE ai_jobs
+  SET status = 'failed',
+      progress_message = NULL,
+      error = 'The job stopped responding too many times',
+      finished_at = now()
+  WHERE public.ai_job_is_stale(ai_jobs)
+    AND attempts >= 3;
+
+  RETURN QUERY
+  UPDATE ai_jobs
+  SET status = 'running',
+      progress = 0,
+      progress_message = NULL,
+      attempts = attempts + 1,
+      started_at = now(),
+      finished_at = NULL
+  WHERE id IN (
+    SELECT id FROM ai_jobs
+    WHERE (status = 'queued' AND updated_at < now() - interval '1 minute')
+      OR public.ai_job_is_stale(ai_jobs)
+    ORDER BY created_at
+    LIMIT max_jobs
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING id;
+END;
+$function$;
+
+-- A user's ai_budget_status, for the worker resuming their job with the
+-- service role
+CREATE OR REPLACE FUNCTION public.ai_budget_status_for(owner_id uuid)
+RETURNS TABLE(
+  period_start timestamp with time zone,
+  spend numeric,
+  tokens bigint,
+  monthly_spend_limit numeric,
+  monthly_token_limit bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  WITH period AS (
+    SELECT date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS start
+  )
+  SELECT
+    period.start,
+    coalesce((
+      SELECT sum(cost_estimate) FROM ai_usage
+      WHERE user_id = owner_id AND created_at >= period.start
+    ), 0),
+    coalesce((
+      SELECT sum(coalesce(tokens_input, 0) + coalesce(tokens_output, 0)) FROM ai_usage
+      WHERE user_id = owner_id AND created_at >= period.start
+    ), 0)::bigint,
+    ai_budgets.monthly_spend_limit,
+    ai_budgets.monthly_token_limit
+  FROM period
+  LEFT JOIN ai_budgets ON ai_budgets.user_id = owner_id;
+$function$;
+
+-- Reporting progress and results is the worker's alone
+REVOKE EXECUTE ON FUNCTION public.update_ai_job_progress(uuid, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_ai_job(uuid, boolean, jsonb, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_stale_ai_jobs(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ai_budget_status_for(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_ai_job_progress(uuid, integer, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_ai_job(uuid, boolean, jsonb, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_stale_ai_jobs(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.ai_budget_status_for(uuid) TO service_role;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ai_jobs;
+
+-- Every five minutes, asks the worker to resume stale jobs. Reads the
+-- project URL and service role key from Vault secrets named project_url and
+-- service_role_key, which must be created for the project.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'resume-ai-jobs',
+  '*/5 * * * *',
+  $cron$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-ai-job',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"resume": true}'::jsonb
+  );
+  $cron$
+);
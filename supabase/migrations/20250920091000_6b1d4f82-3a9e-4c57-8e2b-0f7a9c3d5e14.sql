@@ -0,0 +1,102 @@
+-- Imports a command pack in one transaction, so an import that fails part
+-- way leaves none of it behind. Entries are planned by buildPackImport in
+-- src/utils/commandPacks.ts:
+--   {"key": "pack name, lowercased", "id": uuid | null,
+--    "command": {...user_commands fields} | null,
+--    "steps": [{"command": "step command name", "input": "previous"}] | null}
+-- An entry with an id overwrites that command, or only stands for it when it
+-- has no command; one without an id is added. Chains are then linked to their
+-- steps by name, preferring the pack's commands over the user's others, and
+-- stored as [{"command_id": ..., "input": ...}]. A chain with a step that
+-- can't be found is left without steps. Runs as the caller, so RLS applies.
+CREATE OR REPLACE FUNCTION public.import_command_pack(entries jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  caller uuid := auth.uid();
+  entry jsonb;
+  step jsonb;
+  command_id uuid;
+  -- Names (lowercased) to the ids of the commands they refer to
+  ids jsonb := '{}'::jsonb;
+  resolved jsonb;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR entry IN SELECT value FROM jsonb_array_elements(entries) LOOP
+    command_id := (entry->>'id')::uuid;
+
+    IF jsonb_typeof(entry->'command') = 'object' THEN
+      IF command_id IS NULL THEN
+        INSERT INTO user_commands (
+          user_id, name, prompt, system_prompt, ai_model, max_tokens, temperature,
+          function_name, icon, category, description, sort_order
+        )
+        SELECT
+          caller, c.name, c.prompt, c.system_prompt, c.ai_model, c.max_tokens, c.temperature,
+          c.function_name, c.icon, c.category, c.description, c.sort_order
+        FROM jsonb_populate_record(NULL::user_commands, entry->'command') AS c
+        RETURNING id INTO command_id;
+      ELSE
+        UPDATE user_commands
+        SET name = c.name,
+            prompt = c.prompt,
+            system_prompt = c.system_prompt,
+            ai_model = c.ai_model,
+            max_tokens = c.max_tokens,
+            temperature = c.temperature,
+            function_name = c.function_name,
+            icon = c.icon,
+            category = c.category,
+            description = c.description,
+            steps = NULL,
+            updated_at = now()
+        FROM jsonb_populate_record(NULL::user_commands, entry->'command') AS c
+        WHERE user_commands.id = command_id
+          AND user_commands.user_id = caller;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Command % could not be overwritten', command_id;
+        END IF;
+      END IF;
+    END IF;
+
+    ids := ids || jsonb_build_object(entry->>'key', command_id);
+  END LOOP;
+
+  -- Steps can also run the user's own commands that the pack didn't include
+  SELECT coalesce(jsonb_object_agg(lower(trim(name)), id), '{}'::jsonb) || ids
+  INTO ids
+  FROM user_commands
+  WHERE user_id = caller;
+
+  FOR entry IN
+    SELECT value FROM jsonb_array_elements(entries)
+    WHERE jsonb_typeof(value->'command') = 'object'
+      AND jsonb_typeof(value->'steps') = 'array'
+  LOOP
+    resolved := '[]'::jsonb;
+    FOR step IN SELECT value FROM jsonb_array_elements(entry->'steps') LOOP
+      IF NOT ids ? lower(trim(step->>'command')) THEN
+        resolved := NULL;
+        EXIT;
+      END IF;
+      resolved := resolved || jsonb_build_array(jsonb_build_object(
+        'command_id', ids->>lower(trim(step->>'command')),
+        'input', step->>'input'
+      ));
+    END LOOP;
+
+    IF resolved IS NOT NULL THEN
+      UPDATE user_commands
+      SET steps = resolved
+      WHERE id = (ids->>(entry->>'key'))::uuid
+        AND user_id = caller;
+    END IF;
+  END LOOP;
+END;
+$function$;
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      // Edge functions import packages by URL; tests use the installed copy
+      "https://esm.sh/@supabase/supabase-js@2": "@supabase/supabase-js",
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+  },
+});